@@ -4,7 +4,7 @@
  */
 
 import Benchmark from 'benchmark';
-import { RBAC } from '@fire-shield/core';
+import { RBAC, WildcardMatcher } from '@fire-shield/core';
 import chalk from 'chalk';
 
 console.log(chalk.bold.cyan('\nPermission Checking Benchmarks (Bit-based vs Legacy)\n'));
@@ -91,3 +91,42 @@ suite
     console.log(`  ${chalk.bold('Improvement:')} ${chalk.cyan(improvement + '%')} faster\n`);
   })
   .run({ async: false });
+
+// Roles with many wildcard grants: compiled segment trie vs a regex per pattern
+console.log(chalk.bold.cyan('\nWildcard Matching Benchmarks (200 patterns per role)\n'));
+
+const manyPatterns = Array.from({ length: 200 }, (_, i) => `resource${i}:*`);
+const rbacManyBit = new RBAC({ useBitSystem: true, enableCache: false });
+rbacManyBit.createRole('operator', manyPatterns);
+const rbacManyLegacy = new RBAC({ useBitSystem: false, enableCache: false });
+rbacManyLegacy.createRole('operator', manyPatterns);
+const operator = { id: 'operator1', roles: ['operator'] };
+
+// What matching cost before patterns were compiled: a new RegExp per pattern and call
+const regexScan = (permission, patterns) => patterns.some(pattern =>
+  new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`).test(permission)
+);
+
+new Benchmark.Suite()
+  .add('Regex per call: last of 200 patterns', function () {
+    regexScan('resource199:read', manyPatterns);
+  })
+  .add('Cached regex: last of 200 patterns', function () {
+    WildcardMatcher.matchesAny('resource199:read', manyPatterns);
+  })
+  .add('Bit-based: last of 200 patterns (compiled trie)', function () {
+    rbacManyBit.hasPermission(operator, 'resource199:read');
+  })
+  .add('Legacy: last of 200 patterns (compiled trie)', function () {
+    rbacManyLegacy.hasPermission(operator, 'resource199:read');
+  })
+  .on('cycle', function (event) {
+    const ops = event.target.hz.toLocaleString('en-US', { maximumFractionDigits: 0 });
+    console.log(`${chalk.green('✓')} ${chalk.bold(event.target.name)}: ${chalk.yellow(ops)} ops/sec`);
+  })
+  .on('complete', function () {
+    const baseline = this.filter(b => b.name.startsWith('Regex per call'))[0];
+    const trie = this.filter(b => b.name.startsWith('Bit-based'))[0];
+    console.log(`\n  ${chalk.bold('Compiled trie vs regex per call:')} ${chalk.cyan((trie.hz / baseline.hz).toFixed(1) + 'x')} faster\n`);
+  })
+  .run({ async: false });
@@ -97,6 +97,7 @@ export default defineConfig({
           items: [
             { text: 'Audit Logging', link: '/guide/audit-logging' },
             { text: 'Deny Permissions', link: '/guide/deny-permissions' },
+            { text: 'Conditions (ABAC)', link: '/guide/conditions' },
             { text: 'Performance', link: '/guide/performance' },
             { text: 'TypeScript', link: '/guide/typescript' },
           ]
@@ -109,6 +110,7 @@ export default defineConfig({
             { text: 'Core API', link: '/api/core' },
             { text: 'RBAC Builder', link: '/api/builder' },
             { text: 'Audit Logger', link: '/api/audit' },
+            { text: 'TenantRBAC', link: '/api/tenant-rbac' },
             { text: 'TypeScript Types', link: '/api/types' },
           ]
         }
@@ -216,6 +216,42 @@ describe('ExpressRBACAdapter', () => {
         next
       );
     });
+
+    it('should pass request context to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const customAdapter = new ExpressRBACAdapter(rbac, {
+        getContext: (req: Request) => ({ resourceAttributes: { authorId: req.params?.authorId } })
+      });
+      const middleware = customAdapter.permission('post:write');
+
+      req.params = { authorId: 'user-1' };
+      await middleware(req as Request, res as Response, next);
+      expect(next).toHaveBeenCalledWith();
+
+      next.mockClear();
+      req.params = { authorId: 'user-2' };
+      await middleware(req as Request, res as Response, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should read the role binding scope from the route', async () => {
+      req.user = { id: 'user-1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] };
+      const scopedAdapter = new ExpressRBACAdapter(rbac, { scope: { type: 'project', param: 'projectId' } });
+      const middleware = scopedAdapter.permission('post:write');
+
+      req.params = { projectId: '42' };
+      await middleware(req as Request, res as Response, next);
+      expect(next).toHaveBeenCalledWith();
+
+      next.mockClear();
+      req.params = { projectId: '7' };
+      await middleware(req as Request, res as Response, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
   });
 
   describe('Authorization Result', () => {
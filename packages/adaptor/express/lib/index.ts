@@ -1,5 +1,5 @@
 import type { Request, Response, NextFunction } from 'express';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 
 /**
  * Extended Express Request interface with user
@@ -36,6 +36,10 @@ export interface ExpressRBACOptions {
   getPermission?: (req: Request) => string | undefined | Promise<string | undefined>;
   getResource?: (req: Request) => string | undefined | Promise<string | undefined>;
   getAction?: (req: Request) => string | undefined | Promise<string | undefined>;
+  /** Request attributes (resourceAttributes, environment) for permission conditions */
+  getContext?: (req: Request) => RBACContext | undefined | Promise<RBACContext | undefined>;
+  /** Scope for resource-scoped role bindings, e.g. `{ type: 'project', param: 'projectId' }` reads req.params.projectId */
+  scope?: ScopeSource<Request>;
   onUnauthorized?: (result: AuthorizationResult, req: Request, res: Response, next: NextFunction) => void;
   onError?: (error: Error, req: Request, res: Response, next: NextFunction) => void;
 }
@@ -95,6 +99,14 @@ function defaultOnError(error: Error, _req: Request, res: Response, _next: NextF
   });
 }
 
+/**
+ * Build the RBAC context of a request (getContext plus the route scope)
+ */
+async function resolveContext(options: Pick<ExpressRBACOptions, 'getContext' | 'scope'>, req: Request): Promise<RBACContext | undefined> {
+  const context = await options.getContext?.(req);
+  return withScope(context, await resolveScope(options.scope, req, name => req.params?.[name]));
+}
+
 /**
  * Create RBAC middleware for Express
  */
@@ -129,15 +141,17 @@ export function createRBACMiddleware(options: ExpressRBACOptions) {
       const action = await getAction(req);
 
       // Create middleware context
+      const context = await resolveContext(options, req);
 
       let result: AuthorizationResult;
 
       if (permission) {
         // Direct permission check
-        result = rbac.authorize(user, permission);
+        result = rbac.authorize(user, permission, context);
       } else if (resource && action) {
         // Resource:action pattern check
         result = rbac.authorizeWithContext({
+          ...context,
           user,
           resource,
           action,
@@ -265,7 +279,8 @@ export class ExpressRBACAdapter {
         const user = await (this.options.getUser?.(req) || req.user);
         if (!user) return undefined;
 
-        const hasAll = this.rbac.hasAllPermissions(user, permissions);
+        const context = await resolveContext(this.options, req);
+        const hasAll = this.rbac.hasAllPermissions(user, permissions, context);
         return hasAll ? permissions[0] : undefined;
       },
       onUnauthorized: (result, req, res, next) => {
@@ -291,7 +306,8 @@ export class ExpressRBACAdapter {
         const user = await (this.options.getUser?.(req) || req.user);
         if (!user) return undefined;
 
-        const hasAny = this.rbac.hasAnyPermission(user, permissions);
+        const context = await resolveContext(this.options, req);
+        const hasAny = this.rbac.hasAnyPermission(user, permissions, context);
         return hasAny ? permissions[0] : undefined;
       },
       onUnauthorized: (result, req, res, next) => {
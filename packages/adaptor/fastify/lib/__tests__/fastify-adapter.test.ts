@@ -190,6 +190,42 @@ describe('FastifyRBACAdapter', () => {
 
       expect(customError).toHaveBeenCalled();
     });
+
+    it('should pass request context to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const customAdapter = new FastifyRBACAdapter(rbac, {
+        getContext: (req) => ({ resourceAttributes: { authorId: (req.params as any)?.authorId } })
+      });
+      const hook = customAdapter.permission('post:write');
+
+      (request as any).params = { authorId: 'user-1' };
+      await hook.call(undefined as any, request as FastifyRequest, reply as FastifyReply, done);
+      expect(done).toHaveBeenCalled();
+
+      (done as any).mockClear();
+      (request as any).params = { authorId: 'user-2' };
+      await hook.call(undefined as any, request as FastifyRequest, reply as FastifyReply, done);
+      expect(done).not.toHaveBeenCalled();
+      expect(reply.code).toHaveBeenCalledWith(403);
+    });
+
+    it('should read the role binding scope from the route', async () => {
+      request.user = { id: 'user-1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] };
+      const scopedAdapter = new FastifyRBACAdapter(rbac, { scope: { type: 'project', param: 'projectId' } });
+      const hook = scopedAdapter.permission('post:write');
+
+      (request as any).params = { projectId: '42' };
+      await hook.call(undefined as any, request as FastifyRequest, reply as FastifyReply, done);
+      expect(done).toHaveBeenCalled();
+
+      (done as any).mockClear();
+      (request as any).params = { projectId: '7' };
+      await hook.call(undefined as any, request as FastifyRequest, reply as FastifyReply, done);
+      expect(done).not.toHaveBeenCalled();
+      expect(reply.code).toHaveBeenCalledWith(403);
+    });
   });
 
   describe('createRBACHook', () => {
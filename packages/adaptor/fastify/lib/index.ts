@@ -1,5 +1,5 @@
 import type { FastifyRequest, FastifyReply, HookHandlerDoneFunction, preHandlerHookHandler } from 'fastify';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 import type { MiddlewareContext } from '@fire-shield/core/lib/types/user.types';
 
 /**
@@ -20,6 +20,10 @@ export interface FastifyRBACOptions {
   getPermission?: (request: FastifyRequest) => string | undefined | Promise<string | undefined>;
   getResource?: (request: FastifyRequest) => string | undefined | Promise<string | undefined>;
   getAction?: (request: FastifyRequest) => string | undefined | Promise<string | undefined>;
+  /** Request attributes (resourceAttributes, environment) for permission conditions */
+  getContext?: (request: FastifyRequest) => RBACContext | undefined | Promise<RBACContext | undefined>;
+  /** Scope for resource-scoped role bindings, e.g. `{ type: 'project', param: 'projectId' }` reads request.params.projectId */
+  scope?: ScopeSource<FastifyRequest>;
   onUnauthorized?: (result: AuthorizationResult, request: FastifyRequest, reply: FastifyReply) => void;
   onError?: (error: Error, request: FastifyRequest, reply: FastifyReply) => void;
 }
@@ -79,6 +83,15 @@ function defaultOnError(error: Error, request: FastifyRequest, reply: FastifyRep
   });
 }
 
+/**
+ * Build the RBAC context of a request (getContext plus the route scope)
+ */
+async function resolveContext(options: Pick<FastifyRBACOptions, 'getContext' | 'scope'>, request: FastifyRequest): Promise<RBACContext | undefined> {
+  const context = await Promise.resolve(options.getContext?.(request));
+  const params = request.params as Record<string, string> | undefined;
+  return withScope(context, await resolveScope(options.scope, request, name => params?.[name]));
+}
+
 /**
  * Create RBAC preHandler hook for Fastify
  */
@@ -111,9 +124,11 @@ export function createRBACHook(options: FastifyRBACOptions): preHandlerHookHandl
       const permission = await Promise.resolve(getPermission(request));
       const resource = await Promise.resolve(getResource(request));
       const action = await Promise.resolve(getAction(request));
+      const requestContext = await resolveContext(options, request);
 
       // Create middleware context
       const context: MiddlewareContext = {
+        ...requestContext,
         user,
         resource,
         action,
@@ -126,14 +141,10 @@ export function createRBACHook(options: FastifyRBACOptions): preHandlerHookHandl
 
       if (permission) {
         // Direct permission check
-        result = rbac.authorize(user, permission);
+        result = rbac.authorize(user, permission, context);
       } else if (resource && action) {
         // Resource:action pattern check
-        result = rbac.authorizeWithContext({
-          user,
-          resource,
-          action,
-        });
+        result = rbac.authorizeWithContext(context);
       } else {
         result = {
           allowed: false,
@@ -282,7 +293,8 @@ export class FastifyRBACAdapter {
         const user = await (this.options.getUser?.(request) || request.user);
         if (!user) return undefined;
 
-        const hasAll = this.rbac.hasAllPermissions(user, permissions);
+        const context = await resolveContext(this.options, request);
+        const hasAll = this.rbac.hasAllPermissions(user, permissions, context);
         return hasAll ? permissions[0] : undefined;
       },
       onUnauthorized: (result, request, reply) => {
@@ -308,7 +320,8 @@ export class FastifyRBACAdapter {
         const user = await (this.options.getUser?.(request) || request.user);
         if (!user) return undefined;
 
-        const hasAny = this.rbac.hasAnyPermission(user, permissions);
+        const context = await resolveContext(this.options, request);
+        const hasAny = this.rbac.hasAnyPermission(user, permissions, context);
         return hasAny ? permissions[0] : undefined;
       },
       onUnauthorized: (result, request, reply) => {
@@ -162,6 +162,57 @@ describe('GraphQL Directives', () => {
       expect(result.errors?.[0].message).toBe('User not authenticated');
       expect(result.errors?.[0].extensions?.code).toBe('UNAUTHENTICATED');
     });
+
+    it('should pass field arguments to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }],
+      });
+
+      const typeDefs = `
+        ${fireShieldDirectiveTypeDefs}
+
+        type Query {
+          ok: Boolean
+        }
+
+        type Mutation {
+          updatePost(authorId: ID!): Boolean @hasPermission(permission: "post:write")
+        }
+      `;
+
+      const resolvers = {
+        Mutation: {
+          updatePost: () => true,
+        },
+      };
+
+      let schema = makeExecutableSchema({ typeDefs, resolvers });
+      schema = applyFireShieldDirectives(schema, {
+        hasPermission: {
+          getContext: (_source, args) => ({ resourceAttributes: args }),
+        },
+      });
+
+      const context: GraphQLRBACContext = {
+        rbac,
+        user: { id: 'user1', roles: ['editor'] },
+      };
+
+      const own = await graphql({
+        schema,
+        source: 'mutation { updatePost(authorId: "user1") }',
+        contextValue: context,
+      });
+      expect(own.errors).toBeUndefined();
+      expect(own.data?.updatePost).toBe(true);
+
+      const other = await graphql({
+        schema,
+        source: 'mutation { updatePost(authorId: "user2") }',
+        contextValue: context,
+      });
+      expect(other.errors?.[0].extensions?.code).toBe('FORBIDDEN');
+    });
   });
 
   describe('@hasRole directive', () => {
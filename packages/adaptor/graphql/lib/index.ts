@@ -5,21 +5,45 @@
 
 import { GraphQLError, GraphQLSchema, defaultFieldResolver } from 'graphql';
 import { getDirective, MapperKind, mapSchema } from '@graphql-tools/utils';
-import type { RBAC, RBACUser } from '@fire-shield/core';
+import type { RBAC, RBACUser, RBACContext } from '@fire-shield/core';
 
 export interface GraphQLRBACContext {
   rbac: RBAC;
   user?: RBACUser;
+  /**
+   * Request attributes (resourceAttributes, environment) for permission conditions
+   */
+  rbacContext?: RBACContext;
 }
 
 export interface HasPermissionDirectiveConfig {
   directiveName?: string;
+  /**
+   * Build condition context from field source and arguments (default: context.rbacContext)
+   */
+  getContext?: (
+    source: unknown,
+    args: Record<string, unknown>,
+    context: GraphQLRBACContext
+  ) => RBACContext | undefined | Promise<RBACContext | undefined>;
 }
 
 export interface HasRoleDirectiveConfig {
   directiveName?: string;
 }
 
+/**
+ * Resolve condition context for a field
+ */
+async function resolveConditionContext(
+  config: HasPermissionDirectiveConfig,
+  source: unknown,
+  args: Record<string, unknown>,
+  context: GraphQLRBACContext
+): Promise<RBACContext | undefined> {
+  return config.getContext ? config.getContext(source, args, context) : context.rbacContext;
+}
+
 /**
  * Create @hasPermission directive transformer
  * Usage: @hasPermission(permission: "user:write")
@@ -54,7 +78,8 @@ export function createHasPermissionDirective(
             }
 
             // Check permission
-            const hasPermission = context.rbac.hasPermission(context.user, permission);
+            const rbacContext = await resolveConditionContext(config, source, args, context);
+            const hasPermission = context.rbac.hasPermission(context.user, permission, rbacContext);
 
             if (!hasPermission) {
               throw new GraphQLError(`Missing required permission: ${permission}`, {
@@ -155,8 +180,9 @@ export function createHasAnyPermissionDirective(
             }
 
             // Check if user has any of the required permissions
+            const rbacContext = await resolveConditionContext(config, source, args, context);
             const hasAnyPermission = permissions.some((perm: string) =>
-              context.rbac.hasPermission(context.user!, perm)
+              context.rbac.hasPermission(context.user!, perm, rbacContext)
             );
 
             if (!hasAnyPermission) {
@@ -210,8 +236,9 @@ export function createHasAllPermissionsDirective(
             }
 
             // Check if user has all required permissions
+            const rbacContext = await resolveConditionContext(config, source, args, context);
             const hasAllPermissions = permissions.every((perm: string) =>
-              context.rbac.hasPermission(context.user!, perm)
+              context.rbac.hasPermission(context.user!, perm, rbacContext)
             );
 
             if (!hasAllPermissions) {
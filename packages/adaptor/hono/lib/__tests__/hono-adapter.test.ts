@@ -230,6 +230,48 @@ describe('HonoRBACAdapter', () => {
         c
       );
     });
+
+    it('should pass request context to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const customAdapter = new HonoRBACAdapter(rbac, {
+        getContext: (c) => ({ resourceAttributes: { authorId: c.get('authorId') } })
+      });
+      const middleware = customAdapter.permission('post:write');
+
+      const c = createMockContext();
+      c.set('user', { id: 'user-1', roles: ['editor'] });
+      c.set('authorId', 'user-1');
+      const next = vi.fn();
+      await middleware(c as any, next);
+      expect(next).toHaveBeenCalled();
+
+      c.set('authorId', 'user-2');
+      next.mockClear();
+      const result = await middleware(c as any, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ status: 403 });
+    });
+
+    it('should read the role binding scope from the route', async () => {
+      const scopedAdapter = new HonoRBACAdapter(rbac, { scope: { type: 'project', param: 'projectId' } });
+      const middleware = scopedAdapter.permission('post:write');
+
+      const c = createMockContext();
+      const params: Record<string, string> = { projectId: '42' };
+      (c.req as any).param = vi.fn((name: string) => params[name]);
+      c.set('user', { id: 'user-1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] });
+      const next = vi.fn();
+      await middleware(c as any, next);
+      expect(next).toHaveBeenCalled();
+
+      params.projectId = '7';
+      next.mockClear();
+      const result = await middleware(c as any, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ status: 403 });
+    });
   });
 
   describe('Edge Runtime Compatibility', () => {
@@ -1,5 +1,5 @@
 import type { Context, MiddlewareHandler } from 'hono';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 
 /**
  * Hono RBAC middleware options
@@ -9,6 +9,10 @@ export interface HonoRBACOptions {
   getPermission?: (c: Context) => string | undefined | Promise<string | undefined>;
   getResource?: (c: Context) => string | undefined | Promise<string | undefined>;
   getAction?: (c: Context) => string | undefined | Promise<string | undefined>;
+  /** Request attributes (resourceAttributes, environment) for permission conditions */
+  getContext?: (c: Context) => RBACContext | undefined | Promise<RBACContext | undefined>;
+  /** Scope for resource-scoped role bindings, e.g. `{ type: 'project', param: 'projectId' }` reads c.req.param('projectId') */
+  scope?: ScopeSource<Context>;
   onUnauthorized?: (result: AuthorizationResult, c: Context) => Response | Promise<Response>;
   onError?: (error: Error, c: Context) => Response | Promise<Response>;
 }
@@ -45,6 +49,13 @@ function defaultGetAction(c: Context): string | undefined {
   return c.req.method?.toLowerCase();
 }
 
+/**
+ * Default context extractor (no request attributes)
+ */
+function defaultGetContext(_c: Context): RBACContext | undefined {
+  return undefined;
+}
+
 /**
  * Default unauthorized handler
  */
@@ -68,12 +79,20 @@ function defaultOnError(error: Error, c: Context): Response {
   }, 500);
 }
 
+/**
+ * Build the RBAC context of a request (getContext plus the route scope)
+ */
+async function resolveContext(options: Pick<HonoRBACOptions, 'getContext' | 'scope'>, c: Context): Promise<RBACContext | undefined> {
+  const context = await Promise.resolve(options.getContext?.(c));
+  return withScope(context, await resolveScope(options.scope, c, name => c.req.param(name)));
+}
+
 /**
  * Hono RBAC adapter class
  */
 export class HonoRBACAdapter {
   private rbac: RBAC;
-  private options: Required<HonoRBACOptions>;
+  private options: Required<Omit<HonoRBACOptions, 'scope'>> & Pick<HonoRBACOptions, 'scope'>;
 
   constructor(rbac: RBAC, options: HonoRBACOptions = {}) {
     this.rbac = rbac;
@@ -82,6 +101,8 @@ export class HonoRBACAdapter {
       getPermission: options.getPermission || defaultGetPermission,
       getResource: options.getResource || defaultGetResource,
       getAction: options.getAction || defaultGetAction,
+      getContext: options.getContext || defaultGetContext,
+      scope: options.scope,
       onUnauthorized: options.onUnauthorized || defaultOnUnauthorized,
       onError: options.onError || defaultOnError,
     };
@@ -103,7 +124,8 @@ export class HonoRBACAdapter {
           return this.options.onUnauthorized(result, c);
         }
 
-        const result = this.rbac.authorize(user, permission);
+        const context = await resolveContext(this.options, c);
+        const result = this.rbac.authorize(user, permission, context);
 
         if (result.allowed) {
           // Store authorization result in context
@@ -166,7 +188,9 @@ export class HonoRBACAdapter {
           return this.options.onUnauthorized(result, c);
         }
 
+        const context = await resolveContext(this.options, c);
         const result = this.rbac.authorizeWithContext({
+          ...context,
           user,
           resource,
           action,
@@ -200,7 +224,8 @@ export class HonoRBACAdapter {
           return this.options.onUnauthorized(result, c);
         }
 
-        const hasAll = this.rbac.hasAllPermissions(user, permissions);
+        const context = await resolveContext(this.options, c);
+        const hasAll = this.rbac.hasAllPermissions(user, permissions, context);
 
         if (hasAll) {
           await next();
@@ -234,7 +259,8 @@ export class HonoRBACAdapter {
           return this.options.onUnauthorized(result, c);
         }
 
-        const hasAny = this.rbac.hasAnyPermission(user, permissions);
+        const context = await resolveContext(this.options, c);
+        const hasAny = this.rbac.hasAnyPermission(user, permissions, context);
 
         if (hasAny) {
           await next();
@@ -274,15 +300,17 @@ export class HonoRBACAdapter {
         const permission = await Promise.resolve(mergedOptions.getPermission?.(c));
         const resource = await Promise.resolve(mergedOptions.getResource?.(c));
         const action = await Promise.resolve(mergedOptions.getAction?.(c));
+        const context = await resolveContext(mergedOptions, c);
 
         let result: AuthorizationResult;
 
         if (permission) {
           // Direct permission check
-          result = this.rbac.authorize(user, permission);
+          result = this.rbac.authorize(user, permission, context);
         } else if (resource && action) {
           // Resource:action pattern check
           result = this.rbac.authorizeWithContext({
+            ...context,
             user,
             resource,
             action,
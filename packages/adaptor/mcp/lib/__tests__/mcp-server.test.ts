@@ -92,6 +92,28 @@ describe('MCP Server', () => {
       expect(data.hasPermission).toBe(false);
       expect(data.allowed).toBe(false);
     });
+
+    it('should evaluate permission conditions with request attributes', async () => {
+      rbac.setPermissionCondition('editor', 'content:write', {
+        eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }],
+      });
+
+      const own = await (server as any).checkPermission({
+        userId: 'user1',
+        roles: ['editor'],
+        permission: 'content:write',
+        resourceAttributes: { ownerId: 'user1' },
+      });
+      expect(JSON.parse(own.content[0].text).hasPermission).toBe(true);
+
+      const other = await (server as any).checkPermission({
+        userId: 'user1',
+        roles: ['editor'],
+        permission: 'content:write',
+        resourceAttributes: { ownerId: 'user2' },
+      });
+      expect(JSON.parse(other.content[0].text).hasPermission).toBe(false);
+    });
   });
 
   describe('check_role tool', () => {
@@ -147,6 +169,20 @@ describe('MCP Server', () => {
       const denied = rbac.getDeniedPermissions('user1');
       expect(denied).toContain('content:delete');
     });
+
+    it('should deny permission until an expiry', async () => {
+      const expiresAt = Date.now() + 60000;
+      await (server as any).denyPermission({
+        userId: 'user1',
+        permission: 'content:write',
+        expiresAt,
+        reason: 'Temporary suspension',
+      });
+
+      expect(rbac.exportDenyList('user1')).toEqual([
+        { userId: 'user1', permission: 'content:write', expiresAt, reason: 'Temporary suspension' },
+      ]);
+    });
   });
 
   describe('allow_permission tool', () => {
@@ -220,6 +256,20 @@ describe('MCP Server', () => {
       expect(Array.isArray(data.permissions)).toBe(true);
       expect(data.permissions).toContain('content:read');
       expect(data.permissions).toContain('content:write');
+      expect(data.deny).toEqual([]);
+    });
+
+    it('should include role and global deny rules', async () => {
+      rbac.createRole('contractor', ['content:*', '!content:delete']);
+      rbac.addGlobalDeny('billing:*');
+
+      const result = await (server as any).getRolePermissions({
+        role: 'contractor',
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.deny).toEqual(['content:delete']);
+      expect(data.globalDeny).toEqual(['billing:*']);
     });
   });
 
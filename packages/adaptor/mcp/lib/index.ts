@@ -10,7 +10,7 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { RBAC, type RBACUser, type PresetConfig } from '@fire-shield/core';
+import { RBAC, type RBACUser, type RBACContext, type PresetConfig } from '@fire-shield/core';
 
 /**
  * MCP Server options for Fire Shield
@@ -104,6 +104,18 @@ export class FireShieldMCPServer {
               type: 'string',
               description: 'Permission to check (e.g., "user:write")',
             },
+            attributes: {
+              type: 'object',
+              description: 'User attributes for permission conditions',
+            },
+            resourceAttributes: {
+              type: 'object',
+              description: 'Resource attributes for permission conditions (e.g., { "ownerId": "u1" })',
+            },
+            environment: {
+              type: 'object',
+              description: 'Environment attributes for permission conditions',
+            },
           },
           required: ['userId', 'roles', 'permission'],
         },
@@ -164,6 +176,14 @@ export class FireShieldMCPServer {
               type: 'string',
               description: 'Permission to deny',
             },
+            expiresAt: {
+              type: 'number',
+              description: 'Optional expiry timestamp in milliseconds (temporary deny)',
+            },
+            reason: {
+              type: 'string',
+              description: 'Optional reason for the deny',
+            },
           },
           required: ['userId', 'permission'],
         },
@@ -210,7 +230,7 @@ export class FireShieldMCPServer {
       },
       {
         name: 'get_role_permissions',
-        description: 'Get all permissions for a specific role',
+        description: 'Get all permissions for a specific role, with the deny rules that apply to it',
         inputSchema: {
           type: 'object',
           properties: {
@@ -280,10 +300,15 @@ export class FireShieldMCPServer {
     const user: RBACUser = {
       id: args.userId,
       roles: args.roles,
+      attributes: args.attributes,
+    };
+    const context: RBACContext = {
+      resourceAttributes: args.resourceAttributes,
+      environment: args.environment,
     };
 
-    const hasPermission = this.rbac.hasPermission(user, args.permission);
-    const result = this.rbac.authorize(user, args.permission);
+    const hasPermission = this.rbac.hasPermission(user, args.permission, context);
+    const result = this.rbac.authorize(user, args.permission, context);
 
     return {
       content: [
@@ -356,7 +381,10 @@ export class FireShieldMCPServer {
    * Deny permission tool
    */
   private denyPermission(args: any): any {
-    this.rbac.denyPermission(args.userId, args.permission);
+    this.rbac.denyPermission(args.userId, args.permission, {
+      expiresAt: args.expiresAt,
+      reason: args.reason,
+    });
 
     return {
       content: [
@@ -367,6 +395,7 @@ export class FireShieldMCPServer {
             message: `Permission "${args.permission}" denied for user ${args.userId}`,
             userId: args.userId,
             permission: args.permission,
+            expiresAt: args.expiresAt,
           }, null, 2),
         },
       ],
@@ -436,6 +465,8 @@ export class FireShieldMCPServer {
    */
   private getRolePermissions(args: any): any {
     const permissions = this.rbac.getRolePermissions(args.role);
+    const deny = this.rbac.getRoleDenies(args.role);
+    const globalDeny = this.rbac.getGlobalDenies();
 
     return {
       content: [
@@ -444,6 +475,8 @@ export class FireShieldMCPServer {
           text: JSON.stringify({
             role: args.role,
             permissions,
+            deny,
+            globalDeny,
           }, null, 2),
         },
       ],
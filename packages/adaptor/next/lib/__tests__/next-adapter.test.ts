@@ -121,6 +121,20 @@ describe('NextRBACAdapter', () => {
         adapter.requirePermission(user, 'user:delete')
       ).rejects.toThrow();
     });
+
+    it('should evaluate permission conditions against the given context', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const user = { id: 'user-1', roles: ['editor'] };
+
+      await expect(
+        adapter.requirePermission(user, 'post:write', { resourceAttributes: { authorId: 'user-1' } })
+      ).resolves.not.toThrow();
+      await expect(
+        adapter.requirePermission(user, 'post:write', { resourceAttributes: { authorId: 'user-2' } })
+      ).rejects.toThrow();
+    });
   });
 
   describe('requireRole()', () => {
@@ -170,6 +184,40 @@ describe('NextRBACAdapter', () => {
         request
       );
     });
+
+    it('should pass request context to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const customAdapter = new NextRBACAdapter(rbac, {
+        getContext: (req) => ({ resourceAttributes: { authorId: new URL(req.url).searchParams.get('authorId') } })
+      });
+      const middleware = customAdapter.middleware('post:write');
+
+      const own = { ...createMockRequest(), url: 'http://localhost:3000/api/posts?authorId=user-1' };
+      const other = { ...createMockRequest(), url: 'http://localhost:3000/api/posts?authorId=user-2' };
+
+      expect(await middleware(own as any)).toBeUndefined();
+      expect(await middleware(other as any)).toHaveProperty('status', 403);
+    });
+
+    it('should read the role binding scope from the route params', async () => {
+      const scopedAdapter = new NextRBACAdapter(rbac, { scope: { type: 'project', param: 'projectId' } });
+      const handler = vi.fn().mockResolvedValue({ data: 'test' });
+      const wrapped = scopedAdapter.withPermission('post:write', handler as any);
+      const request = {
+        ...createMockRequest(),
+        user: { id: 'user-1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] }
+      };
+
+      await wrapped(request as any, { params: Promise.resolve({ projectId: '42' }) });
+      expect(handler).toHaveBeenCalled();
+
+      handler.mockClear();
+      const result = await wrapped(request as any, { params: Promise.resolve({ projectId: '7' }) });
+      expect(handler).not.toHaveBeenCalled();
+      expect(result).toHaveProperty('status', 403);
+    });
   });
 
   describe('App Router vs Pages Router', () => {
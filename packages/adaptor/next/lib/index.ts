@@ -1,11 +1,15 @@
 import type { NextRequest } from 'next/server';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 
 /**
  * Next.js RBAC options
  */
 export interface NextRBACOptions {
   getUser?: (req: NextRequest | any) => RBACUser | undefined | Promise<RBACUser | undefined>;
+  /** Request attributes (resourceAttributes, environment) for permission conditions */
+  getContext?: (req: NextRequest | any) => RBACContext | undefined | Promise<RBACContext | undefined>;
+  /** Scope for resource-scoped role bindings, e.g. `{ type: 'project', param: 'projectId' }` reads the projectId route segment */
+  scope?: ScopeSource<NextRequest | any>;
   onUnauthorized?: (result: AuthorizationResult, req: NextRequest | any, res?: any) => Response | void;
   onError?: (error: Error, req: NextRequest | any, res?: any) => Response | void;
 }
@@ -17,6 +21,30 @@ function defaultGetUser(req: any): RBACUser | undefined {
   return req.user || req.auth?.user;
 }
 
+/**
+ * Default context extractor (no request attributes)
+ */
+function defaultGetContext(_req: any): RBACContext | undefined {
+  return undefined;
+}
+
+/**
+ * Build the RBAC context of a request (getContext plus the route scope)
+ * @param params Dynamic route segments (App Router handler params or Pages Router req.query)
+ */
+async function resolveContext(
+  options: Pick<NextRBACOptions, 'getContext' | 'scope'>,
+  req: NextRequest | any,
+  params?: Record<string, string | string[]> | Promise<Record<string, string | string[]>>
+): Promise<RBACContext | undefined> {
+  const context = await options.getContext?.(req);
+  const segments = await params;
+  return withScope(context, await resolveScope(options.scope, req, name => {
+    const value = segments?.[name];
+    return Array.isArray(value) ? value[0] : value;
+  }));
+}
+
 /**
  * Default unauthorized handler for App Router
  */
@@ -80,12 +108,14 @@ function defaultOnErrorPagesRouter(error: Error, req: any, res: any): void {
  */
 export class NextRBACAdapter {
   private rbac: RBAC;
-  private options: Required<NextRBACOptions>;
+  private options: Required<Omit<NextRBACOptions, 'scope'>> & Pick<NextRBACOptions, 'scope'>;
 
   constructor(rbac: RBAC, options: NextRBACOptions = {}) {
     this.rbac = rbac;
     this.options = {
       getUser: options.getUser || defaultGetUser,
+      getContext: options.getContext || defaultGetContext,
+      scope: options.scope,
       onUnauthorized: options.onUnauthorized || defaultOnUnauthorizedAppRouter,
       onError: options.onError || defaultOnErrorAppRouter,
     };
@@ -108,7 +138,8 @@ export class NextRBACAdapter {
           return this.options.onUnauthorized(result, request) as Response;
         }
 
-        const result = this.rbac.authorize(user, permission);
+        const context = await resolveContext(this.options, request);
+        const result = this.rbac.authorize(user, permission, context);
 
         if (!result.allowed) {
           return this.options.onUnauthorized(result, request) as Response;
@@ -141,7 +172,8 @@ export class NextRBACAdapter {
           return this.options.onUnauthorized(result, request);
         }
 
-        const result = this.rbac.authorize(user, permission);
+        const context = await resolveContext(this.options, request, args[1]?.params);
+        const result = this.rbac.authorize(user, permission, context);
 
         if (!result.allowed) {
           return this.options.onUnauthorized(result, request);
@@ -205,7 +237,8 @@ export class NextRBACAdapter {
           return defaultOnUnauthorizedPagesRouter(result, req, res);
         }
 
-        const result = this.rbac.authorize(user, permission);
+        const context = await resolveContext(this.options, req, req.query);
+        const result = this.rbac.authorize(user, permission, context);
 
         if (!result.allowed) {
           return defaultOnUnauthorizedPagesRouter(result, req, res);
@@ -253,15 +286,15 @@ export class NextRBACAdapter {
   /**
    * Check permission in Server Component or Server Action
    */
-  async checkPermission(user: RBACUser, permission: string): Promise<AuthorizationResult> {
-    return this.rbac.authorize(user, permission);
+  async checkPermission(user: RBACUser, permission: string, context?: RBACContext): Promise<AuthorizationResult> {
+    return this.rbac.authorize(user, permission, context);
   }
 
   /**
    * Throw error if permission denied (for Server Actions)
    */
-  async requirePermission(user: RBACUser, permission: string): Promise<void> {
-    const result = this.rbac.authorize(user, permission);
+  async requirePermission(user: RBACUser, permission: string, context?: RBACContext): Promise<void> {
+    const result = this.rbac.authorize(user, permission, context);
     if (!result.allowed) {
       throw new Error(result.reason || 'Insufficient permissions');
     }
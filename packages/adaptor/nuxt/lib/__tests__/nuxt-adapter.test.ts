@@ -146,6 +146,37 @@ describe('NuxtRBACAdapter', () => {
 
       expect(customHandler).toHaveBeenCalled();
     });
+
+    it('should pass request context to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }]
+      });
+      const customAdapter = new NuxtRBACAdapter(rbac, {
+        getContext: (event) => ({ resourceAttributes: { authorId: event.context.params?.authorId } })
+      });
+
+      const own = createMockEvent();
+      (own.context as any).params = { authorId: 'user-1' };
+      await expect(customAdapter.requirePermission(own as any, 'post:write')).resolves.not.toThrow();
+
+      const other = createMockEvent();
+      (other.context as any).params = { authorId: 'user-2' };
+      await expect(customAdapter.requirePermission(other as any, 'post:write')).rejects.toThrow();
+      expect(await customAdapter.checkPermission(other as any, 'post:write')).toBe(false);
+    });
+
+    it('should read the role binding scope from the route', async () => {
+      const scopedAdapter = new NuxtRBACAdapter(rbac, { scope: { type: 'project', param: 'projectId' } });
+      const event = createMockEvent();
+      event.context.user = { id: 'user-1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] } as any;
+
+      (event.context as any).params = { projectId: '42' };
+      expect(await scopedAdapter.checkPermission(event as any, 'post:write')).toBe(true);
+
+      (event.context as any).params = { projectId: '7' };
+      expect(await scopedAdapter.checkPermission(event as any, 'post:write')).toBe(false);
+      await expect(scopedAdapter.requirePermission(event as any, 'post:write')).rejects.toThrow();
+    });
   });
 
   describe('H3Event Integration', () => {
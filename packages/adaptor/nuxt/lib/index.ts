@@ -1,12 +1,16 @@
 import type { H3Event } from 'h3';
-import { createError, defineEventHandler } from 'h3';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { createError, defineEventHandler, getRouterParam } from 'h3';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 
 /**
  * Nuxt RBAC options
  */
 export interface NuxtRBACOptions {
   getUser?: (event: H3Event) => RBACUser | undefined | Promise<RBACUser | undefined>;
+  /** Request attributes (resourceAttributes, environment) for permission conditions */
+  getContext?: (event: H3Event) => RBACContext | undefined | Promise<RBACContext | undefined>;
+  /** Scope for resource-scoped role bindings, e.g. `{ type: 'project', param: 'projectId' }` reads getRouterParam(event, 'projectId') */
+  scope?: ScopeSource<H3Event>;
   onUnauthorized?: (result: AuthorizationResult, event: H3Event) => void;
   onError?: (error: Error, event: H3Event) => void;
 }
@@ -18,6 +22,13 @@ function defaultGetUser(event: H3Event): RBACUser | undefined {
   return event.context.user;
 }
 
+/**
+ * Default context extractor (no request attributes)
+ */
+function defaultGetContext(_event: H3Event): RBACContext | undefined {
+  return undefined;
+}
+
 /**
  * Default unauthorized handler
  */
@@ -48,17 +59,27 @@ function defaultOnError(error: Error, _event: H3Event): void {
   });
 }
 
+/**
+ * Build the RBAC context of a request (getContext plus the route scope)
+ */
+async function resolveContext(options: Pick<NuxtRBACOptions, 'getContext' | 'scope'>, event: H3Event): Promise<RBACContext | undefined> {
+  const context = await options.getContext?.(event);
+  return withScope(context, await resolveScope(options.scope, event, name => getRouterParam(event, name)));
+}
+
 /**
  * Nuxt RBAC adapter class
  */
 export class NuxtRBACAdapter {
   private rbac: RBAC;
-  private options: Required<NuxtRBACOptions>;
+  private options: Required<Omit<NuxtRBACOptions, 'scope'>> & Pick<NuxtRBACOptions, 'scope'>;
 
   constructor(rbac: RBAC, options: NuxtRBACOptions = {}) {
     this.rbac = rbac;
     this.options = {
       getUser: options.getUser || defaultGetUser,
+      getContext: options.getContext || defaultGetContext,
+      scope: options.scope,
       onUnauthorized: options.onUnauthorized || defaultOnUnauthorized,
       onError: options.onError || defaultOnError,
     };
@@ -71,7 +92,7 @@ export class NuxtRBACAdapter {
     try {
       const user = await this.options.getUser(event);
       if (!user) return false;
-      return this.rbac.hasPermission(user, permission);
+      return this.rbac.hasPermission(user, permission, await resolveContext(this.options, event));
     } catch {
       return false;
     }
@@ -82,9 +103,11 @@ export class NuxtRBACAdapter {
    */
   async requirePermission(event: H3Event, permission: string): Promise<void> {
     let user: RBACUser | undefined;
+    let context: RBACContext | undefined;
 
     try {
       user = await this.options.getUser(event);
+      context = await resolveContext(this.options, event);
     } catch (error) {
       return this.options.onError(error as Error, event);
     }
@@ -98,7 +121,7 @@ export class NuxtRBACAdapter {
       return;
     }
 
-    const result = this.rbac.authorize(user, permission);
+    const result = this.rbac.authorize(user, permission, context);
 
     if (!result.allowed) {
       this.options.onUnauthorized(result, event);
@@ -151,9 +174,11 @@ export class NuxtRBACAdapter {
    */
   async requireAll(event: H3Event, ...permissions: string[]): Promise<void> {
     let user: RBACUser | undefined;
+    let context: RBACContext | undefined;
 
     try {
       user = await this.options.getUser(event);
+      context = await resolveContext(this.options, event);
     } catch (error) {
       return this.options.onError(error as Error, event);
     }
@@ -167,7 +192,7 @@ export class NuxtRBACAdapter {
       return;
     }
 
-    if (!this.rbac.hasAllPermissions(user, permissions)) {
+    if (!this.rbac.hasAllPermissions(user, permissions, context)) {
       const result: AuthorizationResult = {
         allowed: false,
         reason: `User lacks all required permissions: ${permissions.join(', ')}`,
@@ -183,9 +208,11 @@ export class NuxtRBACAdapter {
    */
   async requireAny(event: H3Event, ...permissions: string[]): Promise<void> {
     let user: RBACUser | undefined;
+    let context: RBACContext | undefined;
 
     try {
       user = await this.options.getUser(event);
+      context = await resolveContext(this.options, event);
     } catch (error) {
       return this.options.onError(error as Error, event);
     }
@@ -199,7 +226,7 @@ export class NuxtRBACAdapter {
       return;
     }
 
-    if (!this.rbac.hasAnyPermission(user, permissions)) {
+    if (!this.rbac.hasAnyPermission(user, permissions, context)) {
       const result: AuthorizationResult = {
         allowed: false,
         reason: `User lacks any of the required permissions: ${permissions.join(', ')}`,
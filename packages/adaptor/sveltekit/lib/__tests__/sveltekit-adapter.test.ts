@@ -14,6 +14,7 @@ import {
   guardNotDenied,
   protectedLoad,
   protectedAction,
+  createRBACHandle,
 } from '../index';
 import type { RBACEvent } from '../index';
 
@@ -65,6 +66,16 @@ describe('SvelteKit Adapter', () => {
       const result = checkPermission(mockEvent, 'content:read');
       expect(result).toBe(false);
     });
+
+    it('should evaluate permission conditions against locals.rbacContext', () => {
+      rbac.setPermissionCondition('editor', 'content:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }],
+      });
+
+      mockEvent.locals.rbacContext = { resourceAttributes: { authorId: 'user1' } };
+      expect(checkPermission(mockEvent, 'content:write')).toBe(true);
+      expect(checkPermission(mockEvent, 'content:write', { resourceAttributes: { authorId: 'user2' } })).toBe(false);
+    });
   });
 
   describe('checkRole', () => {
@@ -172,6 +183,53 @@ describe('SvelteKit Adapter', () => {
         });
       }).not.toThrow();
     });
+
+    it('should pass context to permission conditions', () => {
+      rbac.setPermissionCondition('editor', 'content:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }],
+      });
+
+      expect(() => {
+        guardPage(mockEvent, { permission: 'content:write', context: { resourceAttributes: { authorId: 'user1' } } });
+      }).not.toThrow();
+
+      expect(() => {
+        guardPage(mockEvent, { permission: 'content:write', context: { resourceAttributes: { authorId: 'user2' } } });
+      }).toThrow();
+    });
+  });
+
+  describe('createRBACHandle', () => {
+    it('should attach user and condition context to locals', async () => {
+      const handle = createRBACHandle({
+        rbac,
+        getUser: () => ({ id: 'user1', roles: ['editor'] }),
+        getContext: (event) => ({ resourceAttributes: { authorId: event.params.authorId } }),
+      });
+      const event = { locals: {}, params: { authorId: 'user1' } } as any;
+      const resolve = vi.fn().mockResolvedValue('ok');
+
+      await handle({ event, resolve } as any);
+
+      expect(event.locals.user).toEqual({ id: 'user1', roles: ['editor'] });
+      expect(event.locals.rbacContext).toEqual({ resourceAttributes: { authorId: 'user1' } });
+      expect(resolve).toHaveBeenCalledWith(event);
+    });
+
+    it('should read the role binding scope from the route', async () => {
+      const handle = createRBACHandle({
+        rbac,
+        getUser: () => ({ id: 'user1', roles: [], roleBindings: [{ role: 'editor', scope: { type: 'project', id: '42' } }] }),
+        scope: { type: 'project', param: 'projectId' },
+      });
+      const event = { locals: {}, params: { projectId: '42' } } as any;
+
+      await handle({ event, resolve: vi.fn() } as any);
+
+      expect(event.locals.rbacContext).toEqual({ scope: { type: 'project', id: '42' } });
+      expect(checkPermission(event, 'content:write')).toBe(true);
+      expect(checkPermission(event, 'content:write', { scope: { type: 'project', id: '7' } })).toBe(false);
+    });
   });
 
   describe('denyPermission', () => {
@@ -5,7 +5,7 @@
 
 import type { Handle, RequestEvent } from '@sveltejs/kit';
 import { error, redirect } from '@sveltejs/kit';
-import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core';
+import { RBAC, resolveScope, withScope, type RBACUser, type RBACContext, type AuthorizationResult, type ScopeSource } from '@fire-shield/core';
 
 /**
  * RBAC context attached to SvelteKit event.locals
@@ -13,6 +13,7 @@ import { RBAC, type RBACUser, type AuthorizationResult } from '@fire-shield/core
 export interface RBACLocals {
   rbac: RBAC;
   user?: RBACUser;
+  rbacContext?: RBACContext;
 }
 
 /**
@@ -45,6 +46,18 @@ export interface RBACHookOptions {
    */
   getUser: (event: RequestEvent) => Promise<RBACUser | undefined> | RBACUser | undefined;
 
+  /**
+   * Function to get request attributes (resourceAttributes, environment) for permission conditions
+   * The result is attached to locals.rbacContext and used by guards and checks
+   */
+  getContext?: (event: RequestEvent) => Promise<RBACContext | undefined> | RBACContext | undefined;
+
+  /**
+   * Scope for resource-scoped role bindings, added to locals.rbacContext
+   * e.g. `{ type: 'project', param: 'projectId' }` reads event.params.projectId
+   */
+  scope?: ScopeSource<RequestEvent>;
+
   /**
    * Attach user to locals (default: true)
    */
@@ -72,6 +85,16 @@ export function createRBACHandle(options: RBACHookOptions): Handle {
       }
     }
 
+    // Get and attach condition context and route scope
+    if (options.getContext || options.scope) {
+      try {
+        const context = await options.getContext?.(event);
+        event.locals.rbacContext = withScope(context, await resolveScope(options.scope, event, name => event.params[name]));
+      } catch (err) {
+        console.error('Failed to get context in RBAC hook:', err);
+      }
+    }
+
     return resolve(event);
   };
 }
@@ -119,6 +142,11 @@ export interface PageGuardOptions {
    * Allow unauthenticated access (default: false)
    */
   allowUnauthenticated?: boolean;
+
+  /**
+   * Context for permission conditions (default: locals.rbacContext)
+   */
+  context?: RBACContext;
 }
 
 /**
@@ -127,6 +155,7 @@ export interface PageGuardOptions {
  */
 export function guardPage(event: RBACEvent, options: PageGuardOptions): void {
   const { rbac, user } = event.locals;
+  const context = options.context ?? event.locals.rbacContext;
 
   if (!rbac) {
     throw error(500, 'RBAC not configured');
@@ -144,7 +173,7 @@ export function guardPage(event: RBACEvent, options: PageGuardOptions): void {
 
   // Check permission
   if (options.permission) {
-    const hasPermission = rbac.hasPermission(user, options.permission);
+    const hasPermission = rbac.hasPermission(user, options.permission, context);
     if (!hasPermission) {
       if (options.redirectTo) {
         throw redirect(302, options.redirectTo);
@@ -172,7 +201,7 @@ export function guardPage(event: RBACEvent, options: PageGuardOptions): void {
 
   // Check any permissions
   if (options.anyPermissions && options.anyPermissions.length > 0) {
-    const hasAny = rbac.hasAnyPermission(user, options.anyPermissions);
+    const hasAny = rbac.hasAnyPermission(user, options.anyPermissions, context);
     if (!hasAny) {
       if (options.redirectTo) {
         throw redirect(302, options.redirectTo);
@@ -186,7 +215,7 @@ export function guardPage(event: RBACEvent, options: PageGuardOptions): void {
 
   // Check all permissions
   if (options.allPermissions && options.allPermissions.length > 0) {
-    const hasAll = rbac.hasAllPermissions(user, options.allPermissions);
+    const hasAll = rbac.hasAllPermissions(user, options.allPermissions, context);
     if (!hasAll) {
       if (options.redirectTo) {
         throw redirect(302, options.redirectTo);
@@ -204,11 +233,12 @@ export function guardPage(event: RBACEvent, options: PageGuardOptions): void {
  */
 export function checkPermission(
   event: RBACEvent,
-  permission: string
+  permission: string,
+  context: RBACContext | undefined = event.locals.rbacContext
 ): boolean {
   const { rbac, user } = event.locals;
   if (!rbac || !user) return false;
-  return rbac.hasPermission(user, permission);
+  return rbac.hasPermission(user, permission, context);
 }
 
 /**
@@ -225,7 +255,8 @@ export function checkRole(event: RBACEvent, role: string): boolean {
  */
 export function authorize(
   event: RBACEvent,
-  permission: string
+  permission: string,
+  context: RBACContext | undefined = event.locals.rbacContext
 ): AuthorizationResult {
   const { rbac, user } = event.locals;
 
@@ -243,7 +274,7 @@ export function authorize(
     };
   }
 
-  return rbac.authorize(user, permission);
+  return rbac.authorize(user, permission, context);
 }
 
 /**
@@ -260,6 +260,32 @@ describe('tRPC Middleware', () => {
         message: 'RBAC not configured in context',
       });
     });
+
+    it('should pass procedure input to permission conditions', async () => {
+      rbac.setPermissionCondition('editor', 'post:write', {
+        eq: [{ var: 'resource.authorId' }, { var: 'user.id' }],
+      });
+      const t = initTRPC.context<TRPCRBACContext>().create();
+
+      const procedure = t.procedure
+        .input((value: unknown) => value as { authorId: string })
+        .use(
+          createProtectedMiddleware({
+            permission: 'post:write',
+            getContext: (_ctx, input) => ({ resourceAttributes: input as Record<string, unknown> }),
+          })
+        );
+
+      const caller = t.router({
+        test: procedure.mutation(() => 'success'),
+      }).createCaller({
+        rbac,
+        user: { id: 'editor1', roles: ['editor'] },
+      });
+
+      await expect(caller.test({ authorId: 'editor1' })).resolves.toBe('success');
+      await expect(caller.test({ authorId: 'editor2' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
   });
 
   describe('Helper Functions', () => {
@@ -296,6 +322,18 @@ describe('tRPC Middleware', () => {
         const noRbacContext = { user: { id: 'user1', roles: ['editor'] } } as any;
         expect(() => checkPermission(noRbacContext, 'user:read')).toThrow(/RBAC not configured/);
       });
+
+      it('should evaluate permission conditions against ctx.rbacContext', () => {
+        rbac.setPermissionCondition('editor', 'post:write', {
+          eq: [{ var: 'resource.authorId' }, { var: 'user.id' }],
+        });
+
+        mockContext.rbacContext = { resourceAttributes: { authorId: 'user1' } };
+        expect(() => checkPermission(mockContext, 'post:write')).not.toThrow();
+
+        mockContext.rbacContext = { resourceAttributes: { authorId: 'user2' } };
+        expect(() => checkPermission(mockContext, 'post:write')).toThrow(TRPCError);
+      });
     });
 
     describe('checkRole', () => {
@@ -4,11 +4,15 @@
  */
 
 import { TRPCError } from '@trpc/server';
-import type { RBAC, RBACUser } from '@fire-shield/core';
+import type { RBAC, RBACUser, RBACContext } from '@fire-shield/core';
 
 export interface TRPCRBACContext {
   rbac: RBAC;
   user?: RBACUser;
+  /**
+   * Request attributes (resourceAttributes, environment) for permission conditions
+   */
+  rbacContext?: RBACContext;
 }
 
 export interface ProtectedMiddlewareOptions {
@@ -41,6 +45,11 @@ export interface ProtectedMiddlewareOptions {
    * Require authenticated user (default: true)
    */
   requireAuth?: boolean;
+
+  /**
+   * Build condition context from procedure input (default: ctx.rbacContext)
+   */
+  getContext?: (ctx: TRPCRBACContext, input: unknown) => RBACContext | undefined | Promise<RBACContext | undefined>;
 }
 
 /**
@@ -49,7 +58,7 @@ export interface ProtectedMiddlewareOptions {
 export function createProtectedMiddleware<T extends TRPCRBACContext>(
   options: ProtectedMiddlewareOptions
 ) {
-  return async ({ ctx, next }: { ctx: T; next: any }) => {
+  return async ({ ctx, next, input }: { ctx: T; next: any; input?: unknown }) => {
     // Check if RBAC is available
     if (!ctx.rbac) {
       throw new TRPCError({
@@ -71,6 +80,8 @@ export function createProtectedMiddleware<T extends TRPCRBACContext>(
       return next();
     }
 
+    const context = options.getContext ? await options.getContext(ctx, input) : ctx.rbacContext;
+
     // Check role requirement
     if (options.role) {
       const hasRole = ctx.user.roles.includes(options.role);
@@ -84,7 +95,7 @@ export function createProtectedMiddleware<T extends TRPCRBACContext>(
 
     // Check single permission requirement
     if (options.permission) {
-      const hasPermission = ctx.rbac.hasPermission(ctx.user, options.permission);
+      const hasPermission = ctx.rbac.hasPermission(ctx.user, options.permission, context);
       if (!hasPermission) {
         throw new TRPCError({
           code: 'FORBIDDEN',
@@ -96,7 +107,7 @@ export function createProtectedMiddleware<T extends TRPCRBACContext>(
     // Check any permissions requirement
     if (options.anyPermissions && options.anyPermissions.length > 0) {
       const hasAnyPermission = options.anyPermissions.some((perm) =>
-        ctx.rbac.hasPermission(ctx.user!, perm)
+        ctx.rbac.hasPermission(ctx.user!, perm, context)
       );
 
       if (!hasAnyPermission) {
@@ -112,7 +123,7 @@ export function createProtectedMiddleware<T extends TRPCRBACContext>(
     // Check all permissions requirement
     if (options.allPermissions && options.allPermissions.length > 0) {
       const hasAllPermissions = options.allPermissions.every((perm) =>
-        ctx.rbac.hasPermission(ctx.user!, perm)
+        ctx.rbac.hasPermission(ctx.user!, perm, context)
       );
 
       if (!hasAllPermissions) {
@@ -151,7 +162,7 @@ export function checkPermission<T extends TRPCRBACContext>(
     });
   }
 
-  const hasPermission = ctx.rbac.hasPermission(ctx.user, permission);
+  const hasPermission = ctx.rbac.hasPermission(ctx.user, permission, ctx.rbacContext);
 
   if (!hasPermission) {
     throw new TRPCError({
@@ -209,7 +220,7 @@ export function checkAnyPermissions<T extends TRPCRBACContext>(
   }
 
   const hasAnyPermission = permissions.some((perm) =>
-    ctx.rbac.hasPermission(ctx.user!, perm)
+    ctx.rbac.hasPermission(ctx.user!, perm, ctx.rbacContext)
   );
 
   if (!hasAnyPermission) {
@@ -243,7 +254,7 @@ export function checkAllPermissions<T extends TRPCRBACContext>(
   }
 
   const hasAllPermissions = permissions.every((perm) =>
-    ctx.rbac.hasPermission(ctx.user!, perm)
+    ctx.rbac.hasPermission(ctx.user!, perm, ctx.rbacContext)
   );
 
   if (!hasAllPermissions) {
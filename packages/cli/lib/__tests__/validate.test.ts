@@ -197,6 +197,89 @@ describe('CLI Validate Command', () => {
         expect.stringContaining('✓ Configuration is valid')
       );
     });
+
+    it('should show role and global deny rules with verbose', async () => {
+      const denyConfig = {
+        ...validConfig,
+        roles: [
+          { name: 'contractor', permissions: ['*', '!user:write'] },
+        ],
+        deny: ['user:delete*'],
+      };
+      writeFileSync(validConfigPath, JSON.stringify(denyConfig));
+
+      await expect(
+        validateCommand(validConfigPath, { verbose: true })
+      ).rejects.toThrow('Process.exit called with code 0');
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Denies: user:write')
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Global deny: user:delete*')
+      );
+    });
+
+    it('should show permission groups and their expansion with verbose', async () => {
+      const groupConfig = {
+        ...validConfig,
+        groups: {
+          reading: ['user:read'],
+          editing: ['@reading', 'user:write'],
+        },
+        roles: [
+          { name: 'editor', permissions: ['@editing'] },
+        ],
+      };
+      writeFileSync(validConfigPath, JSON.stringify(groupConfig));
+
+      await expect(
+        validateCommand(validConfigPath, { verbose: true })
+      ).rejects.toThrow('Process.exit called with code 0');
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('@editing: @reading, user:write')
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Expands to: user:read, user:write')
+      );
+    });
+
+    it('should fail for unknown permission groups', async () => {
+      const groupConfig = {
+        ...validConfig,
+        roles: [
+          { name: 'editor', permissions: ['@editing'] },
+        ],
+      };
+      writeFileSync(invalidConfigPath, JSON.stringify(groupConfig));
+
+      await expect(
+        validateCommand(invalidConfigPath, {})
+      ).rejects.toThrow('Process.exit called with code 1');
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("Role 'editor' references unknown permission group: @editing")
+      );
+    });
+
+    it('should fail when a role grants and denies the same permission', async () => {
+      const conflictConfig = {
+        ...validConfig,
+        roles: [
+          { name: 'editor', permissions: ['user:write', '!user:write'] },
+        ],
+      };
+      writeFileSync(invalidConfigPath, JSON.stringify(conflictConfig));
+
+      await expect(
+        validateCommand(invalidConfigPath, {})
+      ).rejects.toThrow('Process.exit called with code 1');
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('both grants and denies permission: user:write')
+      );
+    });
   });
 
   describe('Edge Cases', () => {
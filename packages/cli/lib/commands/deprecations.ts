@@ -0,0 +1,155 @@
+/**
+ * Deprecations command implementation
+ * Reports remaining usages of renamed and deprecated permissions in a config and in source files
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { extname, join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import { RBAC, PermissionGroups } from '@fire-shield/core';
+import type { PermissionDeprecation, RBACConfigSchema } from '@fire-shield/core';
+
+interface DeprecationsOptions {
+  verbose?: boolean;
+}
+
+interface Usage {
+  name: string;
+  location: string;
+}
+
+// Files searched for permission names; dependencies, build output and dot directories are skipped
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.json']);
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage']);
+
+export async function deprecationsCommand(file: string, paths: string[] = [], options: DeprecationsOptions = {}) {
+  try {
+    console.log(chalk.blue('\n🔍 Looking for deprecated permissions...\n'));
+
+    // Resolve file path
+    const filePath = resolve(process.cwd(), file);
+
+    // Read config file
+    let fileContent: string;
+    try {
+      fileContent = readFileSync(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        console.log(chalk.red(`✖ File not found: ${filePath}`));
+        process.exit(1);
+      }
+      throw error;
+    }
+
+    let rbac: RBAC;
+    let config: RBACConfigSchema;
+    try {
+      config = JSON.parse(fileContent);
+      rbac = RBAC.fromJSONConfig(fileContent, { deprecationLogger: { warn: () => {} } });
+    } catch (error: any) {
+      console.log(chalk.red('✖ Configuration is invalid\n'));
+      console.log(chalk.red(`  ${error.message}`));
+      process.exit(1);
+    }
+
+    const deprecations = rbac.getDeprecatedPermissions();
+    if (deprecations.length === 0) {
+      console.log(chalk.green('✓ No deprecated permissions\n'));
+      process.exit(0);
+    }
+
+    const names = new Set(deprecations.map(deprecation => deprecation.name));
+    const usages = [
+      ...findConfigUsages(config, names),
+      ...paths.flatMap(path => findSourceUsages(resolve(process.cwd(), path), names, filePath)),
+    ];
+
+    for (const deprecation of deprecations) {
+      const found = usages.filter(usage => usage.name === deprecation.name);
+      if (found.length === 0 && !options.verbose) continue;
+
+      printDeprecation(deprecation, found.length);
+      found.forEach(usage => console.log(chalk.gray(`    • ${usage.location}`)));
+    }
+
+    if (usages.length === 0) {
+      console.log(chalk.green(`✓ No remaining usages of ${deprecations.length} deprecated permission name(s)\n`));
+      process.exit(0);
+    }
+
+    console.log(chalk.red(`\n✖ Found ${usages.length} usage(s) of deprecated permissions\n`));
+    process.exit(1);
+  } catch (error: any) {
+    // Re-throw process.exit errors (for testing)
+    if (error.message?.includes('Process.exit called with code')) {
+      throw error;
+    }
+
+    console.log(chalk.red('\n✖ Unexpected error'));
+    if (options.verbose) {
+      console.log(chalk.gray(`  ${error.message}`));
+      console.log(chalk.gray(`  ${error.stack}`));
+    }
+    process.exit(1);
+  }
+}
+
+function printDeprecation(deprecation: PermissionDeprecation, count: number) {
+  const target = deprecation.permission === deprecation.name ? '' : chalk.gray(` → ${deprecation.permission}`);
+  console.log(chalk.yellow(`⚠ ${deprecation.name}`) + target + chalk.dim(` (${count} usage(s))`));
+  console.log(chalk.gray(`    ${deprecation.message}`));
+}
+
+/**
+ * Deprecated names the config itself still uses (role grants and denies, conditions, groups, deny rules, implications)
+ */
+function findConfigUsages(config: RBACConfigSchema, names: Set<string>): Usage[] {
+  const usages: Usage[] = [];
+  const check = (entries: string[], location: string) => {
+    for (const entry of entries) {
+      const name = entry.startsWith('!') ? entry.slice(1) : entry;
+      if (names.has(name)) usages.push({ name, location: `config: ${location}` });
+    }
+  };
+
+  for (const role of config.roles) {
+    check(role.permissions.filter(entry => !PermissionGroups.isReference(entry)), `roles.${role.name}.permissions`);
+    check(role.deny ?? [], `roles.${role.name}.deny`);
+    check(Object.keys(role.conditions ?? {}), `roles.${role.name}.conditions`);
+  }
+  for (const [group, members] of Object.entries(config.groups ?? {})) {
+    check(members, `groups.${group}`);
+  }
+  check(config.deny ?? [], 'deny');
+  for (const [key, implied] of Object.entries(config.implications ?? {})) {
+    check([key, ...implied], `implications.${key}`);
+  }
+  return usages;
+}
+
+/**
+ * Deprecated names quoted in source files under a path (file:line per usage)
+ */
+function findSourceUsages(path: string, names: Set<string>, configPath: string): Usage[] {
+  return listSourceFiles(path).filter(file => file !== configPath).flatMap(file => {
+    const lines = readFileSync(file, 'utf-8').split('\n');
+    return lines.flatMap((line, index) =>
+      Array.from(line.matchAll(/(['"`])([^'"`\s]+)\1/g))
+        .filter(match => names.has(match[2]))
+        .map(match => ({ name: match[2], location: `${relative(process.cwd(), file)}:${index + 1}` }))
+    );
+  });
+}
+
+function listSourceFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+  return readdirSync(path, { withFileTypes: true }).flatMap(entry => {
+    const child = join(path, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name) ? [] : listSourceFiles(child);
+    }
+    return SOURCE_EXTENSIONS.has(extname(entry.name)) ? [child] : [];
+  });
+}
@@ -6,7 +6,7 @@
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import chalk from 'chalk';
-import { RBAC } from '@fire-shield/core';
+import { RBAC, PermissionGroups, splitDenyRules } from '@fire-shield/core';
 
 interface ValidateOptions {
   strict?: boolean;
@@ -52,8 +52,9 @@ export async function validateCommand(file: string, options: ValidateOptions) {
     }
 
     // Validate config and instantiate RBAC with performance optimizations
+    let rbac: RBAC;
     try {
-      const rbac = RBAC.fromJSONConfig(JSON.stringify(config), {
+      rbac = RBAC.fromJSONConfig(JSON.stringify(config), {
         strictMode: options.strict,
         useBitSystem: true,
         enableCache: true,      // Enable performance optimization
@@ -75,6 +76,9 @@ export async function validateCommand(file: string, options: ValidateOptions) {
       console.log(chalk.gray(`  • Version: ${config.version || 'N/A'}`));
       console.log(chalk.gray(`  • Permissions: ${config.permissions?.length || 0}`));
       console.log(chalk.gray(`  • Roles: ${config.roles?.length || 0}`));
+      if (config.groups) {
+        console.log(chalk.gray(`  • Groups: ${Object.keys(config.groups).length}`));
+      }
 
       // Show permissions
       if (config.permissions && config.permissions.length > 0) {
@@ -85,17 +89,42 @@ export async function validateCommand(file: string, options: ValidateOptions) {
         });
       }
 
+      // Show permission groups with the permissions they expand to
+      const groups = rbac.getGroups();
+      if (Object.keys(groups).length > 0) {
+        console.log(chalk.gray(`\n  Groups:`));
+        for (const [name, members] of Object.entries(groups)) {
+          console.log(chalk.gray(`    • ${PermissionGroups.PREFIX}${name}: ${members.join(', ')}`));
+          if (members.some(PermissionGroups.isReference)) {
+            console.log(chalk.gray(`      Expands to: ${rbac.getBitPermissionManager()?.expandGroups(members).join(', ')}`));
+          }
+        }
+      }
+
       // Show roles
       if (config.roles && config.roles.length > 0) {
         console.log(chalk.gray(`\n  Roles:`));
         config.roles.forEach((role: any) => {
           const level = role.level !== undefined ? chalk.dim(` [level: ${role.level}]`) : '';
           console.log(chalk.gray(`    • ${role.name}${level}`));
-          if (role.permissions && role.permissions.length > 0) {
-            console.log(chalk.gray(`      Permissions: ${role.permissions.join(', ')}`));
+          const { grants, denies } = splitDenyRules(role.permissions ?? []);
+          if (grants.length > 0) {
+            console.log(chalk.gray(`      Permissions: ${grants.join(', ')}`));
+          }
+          if (grants.some(PermissionGroups.isReference)) {
+            console.log(chalk.gray(`      Expands to: ${rbac.getBitPermissionManager()?.expandGroups(grants).join(', ')}`));
+          }
+          const roleDenies = [...denies, ...(role.deny ?? [])];
+          if (roleDenies.length > 0) {
+            console.log(chalk.gray(`      Denies: ${roleDenies.join(', ')}`));
           }
         });
       }
+
+      // Show global deny rules
+      if (config.deny && config.deny.length > 0) {
+        console.log(chalk.gray(`\n  Global deny: ${config.deny.join(', ')}`));
+      }
     }
 
     console.log(chalk.gray(`\n  Validated in ${duration}ms\n`));
@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { validateCommand } from './commands/validate';
 import { checkCommand } from './commands/check';
+import { deprecationsCommand } from './commands/deprecations';
 
 const program = new Command();
 
@@ -35,6 +36,15 @@ program
   .option('-v, --verbose', 'Show detailed check output')
   .action(checkCommand);
 
+// Deprecations command
+program
+  .command('deprecations')
+  .description('Report remaining usages of renamed and deprecated permissions')
+  .argument('<file>', 'Path to the RBAC configuration file (JSON)')
+  .argument('[paths...]', 'Source files or directories to search for deprecated permission names')
+  .option('-v, --verbose', 'Also list deprecated permissions without usages')
+  .action(deprecationsCommand);
+
 // Init command (future)
 program
   .command('init')
@@ -56,10 +66,11 @@ program
     console.log(chalk.gray('License: DIB'));
     console.log(chalk.gray('Repository: https://github.com/kentphung92/fire-shield\n'));
     console.log(chalk.white('Available commands:'));
-    console.log(chalk.cyan('  validate  ') + chalk.gray('Validate RBAC config file'));
-    console.log(chalk.cyan('  check     ') + chalk.gray('Check user permissions'));
-    console.log(chalk.cyan('  init      ') + chalk.gray('Initialize new config (coming soon)'));
-    console.log(chalk.cyan('  info      ') + chalk.gray('Show CLI information'));
+    console.log(chalk.cyan('  validate     ') + chalk.gray('Validate RBAC config file'));
+    console.log(chalk.cyan('  check        ') + chalk.gray('Check user permissions'));
+    console.log(chalk.cyan('  deprecations ') + chalk.gray('Report usages of deprecated permissions'));
+    console.log(chalk.cyan('  init         ') + chalk.gray('Initialize new config (coming soon)'));
+    console.log(chalk.cyan('  info         ') + chalk.gray('Show CLI information'));
     console.log();
   });
 
@@ -72,12 +72,11 @@ describe('BitPermissionManager', () => {
 			expect(nextBit).toBe(256); // Should be next after 128
 		});
 
-		it('should throw error when exceeding 31-bit limit', () => {
+		it('should switch to BigInt bits beyond 31 permissions', () => {
 			const manager2 = new BitPermissionManager({ startBitValue: 2 ** 30 });
-			manager2.registerPermission('perm1'); // Uses 2^30
-			expect(() => {
-				manager2.registerPermission('perm2'); // Would exceed limit
-			}).toThrow('Maximum number of permissions exceeded');
+			expect(manager2.registerPermission('perm1')).toBe(2 ** 30); // Still a number
+			expect(manager2.registerPermission('perm2')).toBe(2n ** 31n);
+			expect(manager2.registerPermission('perm3')).toBe(2n ** 32n);
 		});
 	});
 
@@ -260,19 +259,14 @@ describe('BitPermissionManager', () => {
 			expect(manager2.getAllRoles()).toEqual(manager.getAllRoles());
 		});
 
-		it('should warn on version mismatch', () => {
-			const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
-
+		it('should reject versions without a migration path', () => {
 			const state = manager.serialize();
 			state.version = '2.0.0';
 
-			manager.deserialize(state);
-
-			expect(consoleWarnSpy).toHaveBeenCalledWith(
-				expect.stringContaining('State version mismatch')
+			expect(() => manager.deserialize(state)).toThrow(
+				'No migration path for bit permission state from version 2.0.0 to 1.0.0'
 			);
-
-			consoleWarnSpy.mockRestore();
+			expect(manager.getAllPermissions()).toEqual(['user:read', 'user:write']);
 		});
 	});
 
@@ -294,4 +288,71 @@ describe('BitPermissionManager', () => {
 			expect(manager.hasPermission(mask, 'perm2')).toBe(true);
 		});
 	});
+
+	describe('Large Permission Sets', () => {
+		const registerMany = (count: number): string[] => {
+			const names = Array.from({ length: count }, (_, i) => `perm:${i}`);
+			names.forEach(name => manager.registerPermission(name));
+			return names;
+		};
+
+		it('should register 300 permissions', () => {
+			const names = registerMany(300);
+			expect(manager.getAllPermissions()).toHaveLength(300);
+			expect(manager.getPermissionBit(names[299])).toBe(2n ** 299n);
+		});
+
+		it('should check permissions in multi-word role masks', () => {
+			const names = registerMany(300);
+			manager.registerRole('ops', [names[0], names[150], names[299]]);
+
+			expect(manager.roleHasPermission('ops', names[0])).toBe(true);
+			expect(manager.roleHasPermission('ops', names[150])).toBe(true);
+			expect(manager.roleHasPermission('ops', names[299])).toBe(true);
+			expect(manager.roleHasPermission('ops', names[298])).toBe(false);
+			expect(manager.getRolePermissions('ops')).toEqual([names[0], names[150], names[299]]);
+		});
+
+		it('should combine and compare masks of any size', () => {
+			const names = registerMany(100);
+			const small = manager.createPermissionMask([names[0], names[1]]);
+			const large = manager.createPermissionMask([names[99]]);
+			const combined = manager.combineMasks(small, large);
+
+			expect(small).toBe(3);
+			expect(typeof combined).toBe('bigint');
+			expect(manager.includesPermissions(combined, small)).toBe(true);
+			expect(manager.includesPermissions(combined, large)).toBe(true);
+			expect(manager.includesPermissions(small, combined)).toBe(false);
+		});
+
+		it('should accept BigInt and hex string manual bits', () => {
+			expect(manager.registerPermission('big', 2n ** 40n)).toBe(2n ** 40n);
+			expect(manager.registerPermission('hex', '0x20000000000')).toBe(2n ** 41n);
+			expect(manager.registerPermission('next')).toBe(2n ** 42n);
+		});
+
+		it('should serialize large masks as hex strings and small masks as numbers', () => {
+			const names = registerMany(40);
+			manager.registerRole('small', [names[0]]);
+			manager.registerRole('large', [names[39]]);
+
+			const state = manager.serialize();
+			expect(state.permissions[names[0]]).toBe(1);
+			expect(state.permissions[names[39]]).toBe('0x8000000000');
+			expect(state.roles.small).toBe(1);
+			expect(state.roles.large).toBe('0x8000000000');
+			expect(state.nextBitValue).toBe('0x10000000000');
+
+			const restored = new BitPermissionManager();
+			restored.fromJSON(JSON.stringify(state));
+			expect(restored.roleHasPermission('large', names[39])).toBe(true);
+			expect(restored.registerPermission('after')).toBe(2n ** 40n);
+		});
+
+		it('should check BigInt user masks against small bits', () => {
+			manager.registerPermission('user:read', 1);
+			expect(manager.hasPermission(2n ** 64n + 1n, 'user:read')).toBe(true);
+		});
+	});
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BitPermissionManager, BitStateMigrations, RBAC, RBACBuilder } from '../index';
+import type { BitPermissionState, BitStateMigration } from '../index';
+
+describe('Bit State Migrations', () => {
+	// 0.8.0 named the write permission 'post:edit'; role inheritance came with 1.0.0
+	const legacyState = (): BitPermissionState => ({
+		permissions: { 'post:read': 1, 'post:edit': 2, 'post:delete': 4 },
+		roles: { viewer: 1, editor: 2 },
+		nextBitValue: 8,
+		timestamp: 1,
+		version: '0.8.0',
+	});
+
+	const renameEdit: BitStateMigration = {
+		from: '0.8.0',
+		to: '0.9.0',
+		description: "Rename 'post:edit' to 'post:write'",
+		migrate: ({ permissions: { 'post:edit': bit, ...permissions }, ...state }) => ({
+			...state,
+			permissions: { ...permissions, 'post:write': bit },
+		}),
+	};
+
+	const addInheritance: BitStateMigration = {
+		from: '0.9.0',
+		to: '1.0.0',
+		migrate: state => ({ ...state, inherits: { editor: ['viewer'] } }),
+	};
+
+	it('should chain steps from the saved version on deserialize', () => {
+		const manager = new BitPermissionManager({ migrations: [addInheritance, renameEdit] });
+		const saved = legacyState();
+
+		manager.deserialize(saved);
+
+		expect(manager.getPermissionBit('post:write')).toBe(2);
+		expect(manager.getPermissionBit('post:edit')).toBeUndefined();
+		expect(manager.getRoleParents('editor')).toEqual(['viewer']);
+		expect(manager.serialize().version).toBe('1.0.0');
+		expect(saved).toEqual(legacyState());
+	});
+
+	it('should report what a migration would change without loading it', () => {
+		const manager = new BitPermissionManager({ migrations: [renameEdit, addInheritance] });
+
+		const report = manager.dryRunMigration(legacyState());
+
+		expect(report.from).toBe('0.8.0');
+		expect(report.to).toBe('1.0.0');
+		expect(report.steps).toEqual([
+			{ from: '0.8.0', to: '0.9.0', description: "Rename 'post:edit' to 'post:write'" },
+			{ from: '0.9.0', to: '1.0.0' },
+		]);
+		expect(report.changes).toEqual([
+			{ path: 'permissions.post:edit', before: 2 },
+			{ path: 'permissions.post:write', after: 2 },
+			{ path: 'inherits.editor', after: ['viewer'] },
+			{ path: 'version', before: '0.8.0', after: '1.0.0' },
+		]);
+		expect(report.state.permissions['post:write']).toBe(2);
+		expect(manager.getAllPermissions()).toEqual([]);
+		expect(manager.dryRunMigration(manager.serialize())).toMatchObject({ steps: [], changes: [] });
+	});
+
+	it('should reject steps that break the bit layout', () => {
+		const cases: Array<[BitStateMigration['migrate'], string]> = [
+			[state => ({ ...state, permissions: { ...state.permissions, 'post:read': 8 }, nextBitValue: 16 }), "moved permission 'post:read' from bit 1 to bit 8"],
+			[state => ({ ...state, permissions: { ...state.permissions, 'post:publish': 2 } }), "gave permissions 'post:edit' and 'post:publish' the same bit: 2"],
+			[state => ({ ...state, permissions: { ...state.permissions, 'post:publish': 6 } }), "gave permission 'post:publish' an invalid bit: 6"],
+			[({ permissions: { 'post:delete': _removed, ...permissions }, ...state }) => ({ ...state, permissions, nextBitValue: 4 }), 'set nextBitValue to 4'],
+		];
+
+		for (const [migrate, message] of cases) {
+			const manager = new BitPermissionManager({ migrations: [{ from: '0.8.0', to: '1.0.0', migrate }] });
+			expect(() => manager.deserialize(legacyState())).toThrow(`Migration 0.8.0 -> 1.0.0 ${message}`);
+			expect(manager.getAllPermissions()).toEqual([]);
+		}
+	});
+
+	it('should keep BigInt bits of saved masks', () => {
+		const source = new BitPermissionManager();
+		const names = Array.from({ length: 40 }, (_, i) => `perm:${i}`);
+		names.forEach(name => source.registerPermission(name));
+		source.registerRole('all', names);
+		const state = { ...source.serialize(), version: '0.9.0' };
+
+		const manager = new BitPermissionManager({ migrations: [addInheritance] });
+		manager.deserialize(state);
+
+		expect(manager.getPermissionBit('perm:39')).toBe(2n ** 39n);
+		expect(manager.getRolePermissions('all')).toEqual(names);
+	});
+
+	it('should validate registered steps', () => {
+		const migrations = new BitStateMigrations([renameEdit]);
+
+		expect(() => migrations.register({ ...renameEdit, to: '0.9.1' })).toThrow('A migration from state version 0.8.0 is already registered');
+		expect(() => migrations.register({ ...addInheritance, to: '0.9.0' })).toThrow('Migration must change the state version, got: 0.9.0 -> 0.9.0');
+		migrations.register({ ...addInheritance, to: '0.8.0' });
+		expect(() => migrations.plan('0.8.0', '1.0.0')).toThrow('No migration path for bit permission state from version 0.8.0 to 1.0.0');
+		expect(migrations.plan('0.9.0', '0.9.0')).toEqual([]);
+	});
+
+	describe('RBAC', () => {
+		it('should load states written for string-based systems', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const state = new RBAC({ useBitSystem: false }).serialize();
+			const rbac = new RBAC();
+
+			rbac.deserialize({ ...state, bitPermissions: { ...state.bitPermissions, version: '2.2.2' } });
+
+			expect(state.bitPermissions.version).toBe(BitPermissionManager.STATE_VERSION);
+			expect(rbac.getBitPermissionManager()!.getMigrations().map(step => step.from)).toEqual(['2.2.2']);
+			expect(warn).not.toHaveBeenCalled();
+			warn.mockRestore();
+		});
+
+		it('should migrate states with the configured steps', () => {
+			const rbac = new RBACBuilder().withStateMigrations(renameEdit, addInheritance).build();
+
+			rbac.deserialize({ ...new RBAC().serialize(), bitPermissions: legacyState() });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:read')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:write')).toBe(true);
+			expect(rbac.dryRunMigration({ ...rbac.serialize(), bitPermissions: legacyState() }).steps).toHaveLength(2);
+		});
+
+		it('should keep the current policy when a state can\'t be migrated', () => {
+			const rbac = new RBAC();
+			rbac.createRole('viewer', ['post:read']);
+
+			expect(() => rbac.deserialize({ ...new RBAC().serialize(), bitPermissions: legacyState() })).toThrow('No migration path');
+			expect(rbac.hasPermission({ id: 'u1', roles: ['viewer'] }, 'post:read')).toBe(true);
+		});
+
+		it('should only dry-run migrations in bit-based mode', () => {
+			const rbac = new RBAC({ useBitSystem: false });
+
+			expect(() => rbac.dryRunMigration(rbac.serialize())).toThrow('dryRunMigration is only available in bit-based mode');
+		});
+	});
+});
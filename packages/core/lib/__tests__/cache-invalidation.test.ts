@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RBAC } from '../index';
+
+describe('Cache Invalidation', () => {
+	let rbac: RBAC;
+	const viewer = { id: 'u1', roles: ['viewer'] };
+	const editor = { id: 'u2', roles: ['editor'] };
+
+	beforeEach(() => {
+		rbac = new RBAC({ enableCache: true });
+		rbac.createRole('viewer', ['post:read', 'comment:read']);
+		rbac.createRole('editor', ['post:write'], ['viewer']);
+		rbac.createRole('guest', ['post:read']);
+	});
+
+	const cachedUsers = () => Array.from(rbac['cache']!.getEntries().values()).map(entry => `${entry.userId}:${entry.permission}`);
+
+	it('should evict on revokePermission, including descendant roles', () => {
+		const guest = { id: 'u3', roles: ['guest'] };
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(true);
+		expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+		expect(rbac.hasPermission(guest, 'post:read')).toBe(true);
+
+		rbac.revokePermission('viewer', 'post:read');
+
+		expect(cachedUsers()).toEqual(['u3:post:read']);
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(false);
+		expect(rbac.hasPermission(editor, 'post:read')).toBe(false);
+	});
+
+	it('should evict on grantPermission and createRole', () => {
+		expect(rbac.hasPermission(viewer, 'post:delete')).toBe(false);
+		rbac.grantPermission('viewer', 'post:delete');
+		expect(rbac.hasPermission(viewer, 'post:delete')).toBe(true);
+
+		rbac.createRole('viewer', []);
+		expect(rbac.hasPermission(viewer, 'post:delete')).toBe(false);
+	});
+
+	it('should evict on setRoleInheritance', () => {
+		expect(rbac.hasPermission(editor, 'comment:read')).toBe(true);
+		rbac.setRoleInheritance('editor', []);
+		expect(rbac.hasPermission(editor, 'comment:read')).toBe(false);
+	});
+
+	it('should evict only the affected user and permissions on denyPermission', () => {
+		rbac.hasPermission(viewer, 'post:read');
+		rbac.hasPermission(viewer, 'comment:read');
+		rbac.hasPermission(editor, 'post:read');
+
+		rbac.denyPermission('u1', 'post:*');
+
+		expect(cachedUsers()).toEqual(['u1:comment:read', 'u2:post:read']);
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(false);
+
+		rbac.allowPermission('u1', 'post:*');
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(true);
+	});
+
+	it('should evict on deny list imports and clears', () => {
+		rbac.hasPermission(viewer, 'post:read');
+		rbac.importDenyList([{ userId: 'u1', permission: 'post:read' }]);
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(false);
+
+		rbac.clearDeniedPermissions('u1');
+		expect(rbac.hasPermission(viewer, 'post:read')).toBe(true);
+	});
+
+	it('should evict on role and global deny rule changes', () => {
+		rbac.hasPermission(editor, 'post:write');
+		rbac.setRoleDenies('viewer', ['post:write']);
+		expect(rbac.hasPermission(editor, 'post:write')).toBe(false);
+
+		rbac.hasPermission(viewer, 'comment:read');
+		rbac.addGlobalDeny('comment:*');
+		expect(rbac.hasPermission(viewer, 'comment:read')).toBe(false);
+	});
+
+	it('should evict on condition changes', () => {
+		rbac.hasPermission(viewer, 'post:read');
+		rbac.setPermissionCondition('viewer', 'post:read', { eq: [{ var: 'resource.public' }, true] });
+
+		expect(rbac.hasPermission(viewer, 'post:read', { user: viewer, resourceAttributes: { public: false } })).toBe(false);
+	});
+
+	it('should drop everything on deserialize', () => {
+		const state = rbac.serialize();
+		rbac.hasPermission(viewer, 'post:read');
+
+		rbac.deserialize(state);
+		expect(rbac.getCacheStats()?.size).toBe(0);
+	});
+
+	it('should not reuse results computed for other roles', () => {
+		expect(rbac.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:write')).toBe(true);
+
+		// Same user, demoted
+		expect(rbac.hasPermission({ id: 'u1', roles: ['viewer'] }, 'post:write')).toBe(false);
+	});
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RBAC, RBACBuilder, RBACAggregator, ConditionEvaluator } from '../index';
+import type { RBACConfigSchema, ConditionContext } from '../index';
+
+describe('Attribute-Based Conditions', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'post:read' },
+			{ name: 'post:edit' },
+			{ name: 'invoice:approve' },
+		],
+		roles: [
+			{
+				name: 'author',
+				permissions: ['post:read', 'post:edit'],
+				conditions: {
+					'post:edit': { eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] },
+				},
+			},
+			{
+				name: 'editor',
+				permissions: ['post:edit'],
+				inherits: ['author'],
+			},
+			{
+				name: 'manager',
+				permissions: ['invoice:approve'],
+				conditions: {
+					'invoice:approve': {
+						all: [
+							{ lt: [{ var: 'resource.amount' }, 10000] },
+							{ in: [{ var: 'user.department' }, ['finance', 'ops']] },
+						],
+					},
+				},
+			},
+		],
+	};
+
+	const author = { id: 'u1', roles: ['author'] };
+
+	describe('ConditionEvaluator', () => {
+		const context = (resource: Record<string, unknown> = {}): ConditionContext => ({
+			user: { id: 'u1', roles: ['author'], tags: ['beta'] },
+			resource,
+			environment: { hour: 10 },
+			permission: 'post:edit',
+		});
+
+		it('should evaluate comparison operators', () => {
+			const evaluator = new ConditionEvaluator();
+
+			expect(evaluator.evaluate({ eq: [{ var: 'user.id' }, 'u1'] }, context())).toBe(true);
+			expect(evaluator.evaluate({ ne: [{ var: 'user.id' }, 'u1'] }, context())).toBe(false);
+			expect(evaluator.evaluate({ gte: [{ var: 'environment.hour' }, 9] }, context())).toBe(true);
+			expect(evaluator.evaluate({ contains: [{ var: 'user.tags' }, 'beta'] }, context())).toBe(true);
+			expect(evaluator.evaluate({ exists: { var: 'resource.ownerId' } }, context())).toBe(false);
+		});
+
+		it('should combine expressions with all, any and not', () => {
+			const evaluator = new ConditionEvaluator();
+			const expression = {
+				any: [
+					{ not: { exists: { var: 'resource.ownerId' } } },
+					{ eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] },
+				],
+			};
+
+			expect(evaluator.evaluate(expression, context())).toBe(true);
+			expect(evaluator.evaluate(expression, context({ ownerId: 'u1' }))).toBe(true);
+			expect(evaluator.evaluate(expression, context({ ownerId: 'u2' }))).toBe(false);
+		});
+
+		it('should not compare values of different types', () => {
+			const evaluator = new ConditionEvaluator();
+			expect(evaluator.evaluate({ lt: [{ var: 'resource.amount' }, 100] }, context({ amount: '50' }))).toBe(false);
+		});
+
+		it('should fail closed for unknown or throwing predicates', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const evaluator = new ConditionEvaluator({
+				broken: () => { throw new Error('boom'); },
+			});
+
+			expect(evaluator.evaluate('missing', context())).toBe(false);
+			expect(evaluator.evaluate({ predicate: 'broken' }, context())).toBe(false);
+			evaluator.evaluate('missing', context());
+			expect(warn).toHaveBeenCalledTimes(1);
+
+			warn.mockRestore();
+			error.mockRestore();
+		});
+
+		it('should keep undecidable conditions denied through not, all and any', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const evaluator = new ConditionEvaluator({ always: () => true });
+			const missing = { lt: [{ var: 'user.strikes' }, 3] } as const;
+
+			expect(evaluator.evaluate({ not: { predicate: 'isSuspended' } }, context())).toBe(false);
+			expect(evaluator.evaluate({ not: missing }, context())).toBe(false);
+			expect(evaluator.evaluate({ not: { ne: [{ var: 'resource.ownerId' }, 'u2'] } }, context())).toBe(false);
+			expect(evaluator.evaluate({ not: { lt: [{ var: 'resource.amount' }, 100] } }, context({ amount: '50' }))).toBe(false);
+			expect(evaluator.evaluate({ not: { all: [{ predicate: 'always' }, missing] } }, context())).toBe(false);
+			expect(evaluator.evaluate({ not: { any: [{ eq: [1, 2] }, missing] } }, context())).toBe(false);
+
+			// A decided operand still decides 'all' and 'any'
+			expect(evaluator.evaluate({ not: { all: [{ eq: [1, 2] }, missing] } }, context())).toBe(true);
+			expect(evaluator.evaluate({ any: [{ predicate: 'always' }, missing] }, context())).toBe(true);
+			warn.mockRestore();
+		});
+
+		it('should reject unknown predicates when known names are given', () => {
+			const predicates = new Set(['isOwner']);
+
+			expect(() => ConditionEvaluator.validate({ not: { predicate: 'isSuspended' } }, 'condition', predicates))
+				.toThrow("Invalid condition.not.predicate: unknown predicate 'isSuspended'");
+			expect(() => ConditionEvaluator.validate('isSuspended', 'condition', predicates)).toThrow("unknown predicate 'isSuspended'");
+			expect(() => ConditionEvaluator.validate({ any: [{ predicate: 'isOwner' }] }, 'condition', predicates)).not.toThrow();
+		});
+
+		it('should reject malformed expressions', () => {
+			expect(() => ConditionEvaluator.validate({ eq: [1] })).toThrow('expected exactly two operands');
+			expect(() => ConditionEvaluator.validate({ matches: [1, 2] })).toThrow("unknown operator 'matches'");
+			expect(() => ConditionEvaluator.validate({ eq: [1, 1], ne: [1, 2] })).toThrow('exactly one operator');
+			expect(() => ConditionEvaluator.validate({ all: [{ exists: 'x' }] })).toThrow('condition.all[0].exists');
+		});
+	});
+
+	describe('RBAC', () => {
+		it('should apply JSON conditions from config', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+			expect(rbac.hasPermission(author, 'post:read')).toBe(true);
+		});
+
+		it('should deny conditional grants when no context is provided', () => {
+			const rbac = new RBAC({ config });
+			expect(rbac.hasPermission(author, 'post:edit')).toBe(false);
+		});
+
+		it('should read user attributes and named predicates', () => {
+			const rbac = new RBAC({
+				config,
+				conditions: {
+					businessHours: ({ environment }) => {
+						const hour = environment.hour as number;
+						return hour >= 9 && hour < 17;
+					},
+				},
+			});
+			rbac.createRole('support', ['post:read']);
+			rbac.setPermissionCondition('support', 'post:read', 'businessHours');
+
+			const manager = { id: 'u3', roles: ['manager'], attributes: { department: 'finance' } };
+			expect(rbac.hasPermission(manager, 'invoice:approve', { resourceAttributes: { amount: 500 } })).toBe(true);
+			expect(rbac.hasPermission(manager, 'invoice:approve', { resourceAttributes: { amount: 50000 } })).toBe(false);
+
+			const support = { id: 'u4', roles: ['support'] };
+			expect(rbac.hasPermission(support, 'post:read', { environment: { hour: 10 } })).toBe(true);
+			expect(rbac.hasPermission(support, 'post:read', { environment: { hour: 22 } })).toBe(false);
+		});
+
+		it('should let an unconditional grant in a child role win over a parent condition', () => {
+			const rbac = new RBAC({ config });
+			const editor = { id: 'u5', roles: ['editor'] };
+
+			expect(rbac.hasPermission(editor, 'post:edit', { resourceAttributes: { ownerId: 'someone' } })).toBe(true);
+		});
+
+		it('should apply the condition of an inherited grant', () => {
+			const rbac = new RBAC({ config });
+			rbac.createRole('contributor', [], ['author']);
+			const contributor = { id: 'u6', roles: ['contributor'] };
+
+			expect(rbac.hasPermission(contributor, 'post:edit', { resourceAttributes: { ownerId: 'u6' } })).toBe(true);
+			expect(rbac.hasPermission(contributor, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(false);
+		});
+
+		it('should support conditions on wildcard grants', () => {
+			const rbac = new RBAC();
+			rbac.createRole('owner', ['doc:*']);
+			rbac.setPermissionCondition('owner', 'doc:*', { eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] });
+			const owner = { id: 'u7', roles: ['owner'] };
+
+			expect(rbac.hasPermission(owner, 'doc:delete', { resourceAttributes: { ownerId: 'u7' } })).toBe(true);
+			expect(rbac.hasPermission(owner, 'doc:delete', { resourceAttributes: { ownerId: 'u8' } })).toBe(false);
+		});
+
+		it('should pass context through authorize, authorizeWithContext and hasAll/hasAny', () => {
+			const rbac = new RBAC({ config });
+			const context = { resourceAttributes: { ownerId: 'u1' } };
+
+			expect(rbac.authorize(author, 'post:edit', context).allowed).toBe(true);
+			expect(rbac.authorizeWithContext({ user: author, resource: 'post', action: 'edit', ...context }).allowed).toBe(true);
+			expect(rbac.hasAllPermissions(author, ['post:read', 'post:edit'], context)).toBe(true);
+			expect(rbac.hasAnyPermission(author, ['post:edit'], { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+		});
+
+		it('should not cache decisions that depend on conditions', () => {
+			const rbac = new RBAC({ config, enableCache: true });
+
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+		});
+
+		it('should work in legacy mode and with lazy roles', () => {
+			const legacy = new RBAC({ config, useBitSystem: false });
+			const lazy = new RBAC({ config, lazyRoles: true });
+
+			for (const rbac of [legacy, lazy]) {
+				expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+				expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+			}
+		});
+
+		it('should manage conditions at runtime', () => {
+			const rbac = new RBAC({ config });
+
+			expect(() => rbac.setPermissionCondition('author', 'invoice:approve', 'anything'))
+				.toThrow("Role 'author' does not grant permission: invoice:approve");
+
+			expect(rbac.removePermissionCondition('author', 'post:edit')).toBe(true);
+			expect(rbac.getRoleConditions('author')).toEqual({});
+			expect(rbac.hasPermission(author, 'post:edit')).toBe(true);
+		});
+
+		it('should drop conditions when the grant is revoked', () => {
+			const rbac = new RBAC({ config });
+
+			rbac.revokePermission('author', 'post:edit');
+			rbac.grantPermission('author', 'post:edit');
+			expect(rbac.hasPermission(author, 'post:edit')).toBe(true);
+		});
+
+		it('should persist conditions through serialize/deserialize', () => {
+			const rbac = new RBAC({ config });
+			const restored = new RBAC();
+			restored.deserialize(rbac.serialize());
+
+			expect(restored.getRoleConditions('author')).toEqual(config.roles[0].conditions);
+			expect(restored.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+		});
+
+		it('should reject invalid conditions when loading config', () => {
+			const invalid: RBACConfigSchema = {
+				permissions: [{ name: 'a:read' }],
+				roles: [{ name: 'a', permissions: ['a:read'], conditions: { 'a:read': { eq: [1] } as never } }],
+			};
+
+			expect(() => new RBAC({ config: invalid })).toThrow('expected exactly two operands');
+		});
+
+		it('should reject conditions referencing unregistered predicates', () => {
+			const rbac = new RBAC({ conditions: { isOwner: () => true } });
+			rbac.createRole('support', ['post:read']);
+
+			expect(() => rbac.setPermissionCondition('support', 'post:read', { not: { predicate: 'isSuspended' } })).toThrow("unknown predicate 'isSuspended'");
+			rbac.registerCondition('isSuspended', ({ user }) => user.suspended === true);
+			rbac.setPermissionCondition('support', 'post:read', { not: { predicate: 'isSuspended' } });
+			expect(rbac.hasPermission({ id: 'u1', roles: ['support'] }, 'post:read')).toBe(true);
+
+			const invalid: RBACConfigSchema = {
+				permissions: [{ name: 'a:read' }],
+				roles: [{ name: 'a', permissions: ['a:read'], conditions: { 'a:read': 'isOwner' } }],
+			};
+			expect(() => new RBAC({ config: invalid })).toThrow("unknown predicate 'isOwner'");
+			expect(() => RBAC.fromJSONConfig(JSON.stringify(invalid), { conditions: {} })).toThrow("unknown predicate 'isOwner'");
+			expect(() => RBAC.fromJSONConfig(JSON.stringify(invalid), { conditions: { isOwner: () => true } })).not.toThrow();
+		});
+	});
+
+	describe('validateConfig', () => {
+		it('should reject conditions on permissions the role does not grant', () => {
+			const invalid = {
+				name: 'test',
+				version: '1.0.0',
+				permissions: [{ name: 'a:read' }, { name: 'a:write' }],
+				roles: [{ name: 'a', permissions: ['a:read'], conditions: { 'a:write': 'owner' } }],
+			};
+			expect(() => RBAC.validateConfig(invalid)).toThrow('condition on a permission it does not grant: a:write');
+		});
+	});
+
+	describe('Integrations', () => {
+		it('should register conditions through the builder', () => {
+			const rbac = new RBACBuilder()
+				.withCondition('isOwner', ({ user, resource }) => resource.ownerId === user.id)
+				.addPermission('post:edit')
+				.addRole('author', ['post:edit'], { conditions: { 'post:edit': 'isOwner' } })
+				.build();
+
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+			expect(rbac.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+		});
+
+		it('should pass context through RBACAggregator', () => {
+			const aggregator = RBACAggregator.create({ defaultDomain: 'blog' });
+			aggregator.addInstance('blog', new RBAC({ config }));
+
+			expect(aggregator.hasPermission(author, 'post:edit', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+			expect(aggregator.authorize(author, 'post:edit', { resourceAttributes: { ownerId: 'u2' } }).allowed).toBe(false);
+		});
+	});
+});
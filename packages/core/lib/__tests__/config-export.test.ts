@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC } from '../index';
+import type { PresetConfig, RBACSystemState } from '../index';
+
+describe('Config Export', () => {
+	const config: PresetConfig = {
+		name: 'blog',
+		version: '1.0.0',
+		permissions: [
+			{ name: 'post:read', bit: 1, resource: 'post', action: 'read', description: 'Read posts' },
+			{ name: 'post:write', bit: 2, resource: 'post', action: 'write', metadata: { audited: true } },
+			{ name: 'post:delete', bit: 4 },
+			{ name: 'comment:hide', bit: 8 },
+			{ name: 'admin:access', bit: 16 },
+		],
+		roles: [
+			{ name: 'viewer', permissions: ['post:read'], level: 1, description: 'Reads posts', metadata: { builtin: true } },
+			{
+				name: 'editor',
+				permissions: ['post:write', '@moderation', '!post:delete'],
+				inherits: ['viewer'],
+				conditions: { 'post:write': { eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] } },
+				level: 5,
+			},
+		],
+		deny: ['admin:access'],
+		groups: { moderation: ['comment:hide'] },
+		implications: { write: ['read'] },
+		options: { conflictStrategy: 'allow-overrides' },
+	};
+
+	const withoutTimestamps = ({ timestamp: _timestamp, bitPermissions: { timestamp: _bitTimestamp, ...bitPermissions }, ...state }: RBACSystemState) =>
+		({ ...state, bitPermissions });
+
+	const roundTrip = (rbac: RBAC, useBitSystem?: boolean) =>
+		RBAC.fromJSONConfig(JSON.stringify(rbac.exportConfig()), { useBitSystem });
+
+	it('should export the loaded config with its descriptions and metadata', () => {
+		const exported = RBAC.fromJSONConfig(JSON.stringify(config)).exportConfig();
+
+		expect(exported.permissions).toEqual(config.permissions);
+		expect(exported.roles).toEqual([
+			config.roles[0],
+			{
+				name: 'editor',
+				permissions: ['post:write', '@moderation'],
+				inherits: ['viewer'],
+				deny: ['post:delete'],
+				conditions: config.roles[1].conditions,
+				level: 5,
+			},
+		]);
+		expect(exported).toMatchObject({
+			deny: ['admin:access'],
+			groups: { moderation: ['comment:hide'] },
+			implications: { write: ['read'] },
+			options: { conflictStrategy: 'allow-overrides' },
+		});
+	});
+
+	it('should reflect runtime changes', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config));
+		rbac.createRole('moderator', ['comment:hide', 'post:archive'], ['viewer']);
+		rbac.setRoleDenies('moderator', ['post:delete']);
+		rbac.revokePermission('editor', 'post:write');
+		rbac.getRoleHierarchy().setRoleLevel('moderator', 3);
+
+		const exported = rbac.exportConfig();
+
+		expect(exported.permissions.find(permission => permission.name === 'post:archive')).toEqual({ name: 'post:archive', bit: 32 });
+		expect(exported.roles.find(role => role.name === 'moderator')).toEqual({
+			name: 'moderator',
+			permissions: ['comment:hide', 'post:archive'],
+			inherits: ['viewer'],
+			deny: ['post:delete'],
+			level: 3,
+		});
+		expect(exported.roles.find(role => role.name === 'editor')?.permissions).toEqual(['@moderation']);
+	});
+
+	describe.each([
+		['bit-based', true],
+		['string-based', false],
+	])('%s system', (_name, useBitSystem) => {
+		it('should rebuild an identical instance with fromJSONConfig()', () => {
+			const rbac = RBAC.fromJSONConfig(JSON.stringify(config), { useBitSystem });
+			rbac.createRole('moderator', ['comment:hide', 'post:archive'], ['viewer']);
+			rbac.grantPermission('viewer', 'post:*');
+			rbac.setRoleDenies('viewer', ['post:delete']);
+
+			const copy = roundTrip(rbac, useBitSystem);
+
+			expect(withoutTimestamps(copy.serialize())).toEqual(withoutTimestamps(rbac.serialize()));
+			expect(copy.exportConfig()).toEqual(rbac.exportConfig());
+		});
+
+		it('should keep permissions only named by deny rules identical across exports', () => {
+			const rbac = new RBAC({
+				useBitSystem,
+				config: {
+					permissions: [{ name: 'a:read' }],
+					roles: [{ name: 'reader', permissions: ['a:read', '!a:write'] }],
+					deny: ['a:delete'],
+				},
+			});
+			rbac.addGlobalDeny('a:purge');
+
+			const exported = JSON.stringify(rbac.exportConfig());
+
+			expect(JSON.stringify(RBAC.fromJSONConfig(exported, { useBitSystem }).exportConfig())).toBe(exported);
+		});
+	});
+
+	it('should export lazy roles without evaluating them', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config), { lazyRoles: true });
+
+		expect(rbac.exportConfig().roles.map(role => role.name)).toEqual(['viewer', 'editor']);
+		expect(rbac.getPendingRoles()).toEqual(['viewer', 'editor']);
+		expect(rbac.exportConfig().roles[1]).toMatchObject({ permissions: ['post:write', '@moderation'], level: 5 });
+	});
+
+	it('should keep descriptions in serialized states', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config));
+		const restored = new RBAC();
+		restored.fromJSON(rbac.toJSON());
+
+		expect(restored.exportConfig().permissions[0]).toEqual(config.permissions[0]);
+		expect(restored.exportConfig().roles[0]).toEqual(config.roles[0]);
+	});
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACAggregator, RBACBuilder, ConflictResolver } from '../index';
+import type { ConflictStrategy, MatchedRule } from '../index';
+
+describe('Conflict Resolution Strategies', () => {
+	const createRBAC = (conflictStrategy?: ConflictStrategy) => {
+		const rbac = new RBAC({ conflictStrategy });
+		rbac.createRole('author', ['posts:drafts:*']);
+		rbac.createRole('restricted', ['!posts:**']);
+		rbac.createRole('reader', ['posts:read']);
+		return rbac;
+	};
+
+	const bothRoles = { id: 'u1', roles: ['restricted', 'author'] };
+
+	describe('deny-overrides', () => {
+		it('should be the default', () => {
+			expect(new RBAC().getConflictStrategy()).toBe('deny-overrides');
+		});
+
+		it('should let any matching deny win', () => {
+			const rbac = createRBAC('deny-overrides');
+
+			expect(rbac.hasPermission(bothRoles, 'posts:drafts:edit')).toBe(false);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'posts:drafts:edit')).toBe(true);
+		});
+	});
+
+	describe('allow-overrides', () => {
+		it('should let any matching allow win over role and user denies', () => {
+			const rbac = createRBAC('allow-overrides');
+			rbac.denyPermission('u1', 'posts:*');
+
+			expect(rbac.hasPermission(bothRoles, 'posts:drafts:edit')).toBe(true);
+			expect(rbac.hasPermission(bothRoles, 'posts:delete')).toBe(false);
+		});
+	});
+
+	describe('first-applicable', () => {
+		it('should follow the order of the user roles', () => {
+			const rbac = createRBAC('first-applicable');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['restricted', 'author'] }, 'posts:drafts:edit')).toBe(false);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author', 'restricted'] }, 'posts:drafts:edit')).toBe(true);
+		});
+
+		it('should check user denies before role grants', () => {
+			const rbac = createRBAC('first-applicable');
+			rbac.denyPermission('u1', 'posts:drafts:edit');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'posts:drafts:edit')).toBe(false);
+		});
+	});
+
+	describe('most-specific', () => {
+		it('should let a narrower allow beat a broader deny', () => {
+			const rbac = createRBAC('most-specific');
+
+			expect(rbac.hasPermission(bothRoles, 'posts:drafts:edit')).toBe(true);
+			expect(rbac.hasPermission(bothRoles, 'posts:publish')).toBe(false);
+		});
+
+		it('should let a narrower user deny beat a broader grant', () => {
+			const rbac = createRBAC('most-specific');
+			rbac.denyPermission('u1', 'posts:drafts:delete');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'posts:drafts:delete')).toBe(false);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'posts:drafts:edit')).toBe(true);
+		});
+
+		it('should resolve equally specific rules in favour of deny', () => {
+			const rbac = createRBAC('most-specific');
+			rbac.addGlobalDeny('posts:read');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['reader'] }, 'posts:read')).toBe(false);
+		});
+
+		it('should rank exact permissions above every pattern', () => {
+			expect(ConflictResolver.compareSpecificity('posts:read', 'posts:*')).toBeGreaterThan(0);
+			expect(ConflictResolver.compareSpecificity('posts:drafts:*', 'posts:*')).toBeGreaterThan(0);
+			expect(ConflictResolver.compareSpecificity('*', 'posts:*')).toBeLessThan(0);
+			expect(ConflictResolver.compareSpecificity('posts:*', 'posts:**')).toBeGreaterThan(0);
+			expect(ConflictResolver.compareSpecificity('posts:read', 'posts:write')).toBe(0);
+		});
+	});
+
+	describe('custom strategy', () => {
+		it('should receive the matched rules in evaluation order', () => {
+			let received: MatchedRule[] = [];
+			const rbac = createRBAC((rules) => {
+				received = rules;
+				return rules.find(rule => rule.source === 'role-wildcard' && rule.effect === 'allow');
+			});
+
+			expect(rbac.hasPermission(bothRoles, 'posts:drafts:edit')).toBe(true);
+			expect(rbac.getConflictStrategy()).toBe('custom');
+			expect(received).toEqual([
+				{ effect: 'deny', source: 'role-deny', pattern: 'posts:**', role: 'restricted', grantedBy: 'restricted' },
+				{ effect: 'allow', source: 'role-wildcard', pattern: 'posts:drafts:*', role: 'author', grantedBy: 'author' },
+			]);
+		});
+
+		it('should deny when nothing is returned', () => {
+			const rbac = createRBAC(() => undefined);
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['reader'] }, 'posts:read')).toBe(false);
+		});
+	});
+
+	describe('integration', () => {
+		it('should report the strategy and winning rule in explain()', () => {
+			const decision = createRBAC('most-specific').explain(bothRoles, 'posts:drafts:edit');
+
+			expect(decision).toMatchObject({
+				allowed: true,
+				strategy: 'most-specific',
+				source: 'role-wildcard',
+				matchedRole: 'author',
+				matchedPattern: 'posts:drafts:*',
+			});
+			expect(decision.steps).toEqual([
+				{ check: 'deny-list', matched: false },
+				{ check: 'role-deny', role: 'restricted', matched: true, pattern: 'posts:**' },
+				{ check: 'role', role: 'restricted', matched: false },
+				{ check: 'role', role: 'author', matched: true, grantedBy: 'author', pattern: 'posts:drafts:*' },
+			]);
+		});
+
+		it('should apply the strategy in getUserPermissions()', () => {
+			const rbac = createRBAC('most-specific');
+			rbac.registerPermission('posts:drafts:edit');
+			rbac.registerPermission('posts:publish');
+
+			expect(rbac.getUserPermissions(bothRoles)).toEqual(['posts:drafts:edit']);
+		});
+
+		it('should read the strategy from config options and the builder', () => {
+			const fromConfig = new RBAC({
+				config: { permissions: [], roles: [], options: { conflictStrategy: 'first-applicable' } },
+			});
+			expect(fromConfig.getConflictStrategy()).toBe('first-applicable');
+
+			const built = new RBACBuilder().withConflictStrategy('allow-overrides').build();
+			expect(built.getConflictStrategy()).toBe('allow-overrides');
+		});
+
+		it('should reject unknown strategies', () => {
+			expect(() => new RBAC({ conflictStrategy: 'random' as ConflictStrategy }))
+				.toThrow('Unknown conflict strategy: random');
+			expect(() => RBAC.validateConfig({
+				permissions: [],
+				roles: [],
+				options: { conflictStrategy: 'random' as 'first-applicable' },
+			})).toThrow('Unknown conflict strategy: random');
+		});
+	});
+
+	describe('RBACAggregator', () => {
+		const createAggregator = (conflictStrategy?: ConflictStrategy) => {
+			const posts = new RBAC();
+			posts.createRole('editor', ['posts:**']);
+			const drafts = new RBAC();
+			drafts.createRole('editor', ['!posts:drafts:*']);
+
+			return RBACAggregator.create({
+				instances: new Map([['posts', posts], ['drafts', drafts]]),
+				conflictStrategy,
+			});
+		};
+		const editor = { id: 'u1', roles: ['editor'] };
+
+		it('should let any granting domain win by default', () => {
+			expect(createAggregator().hasPermission(editor, 'posts:drafts:edit')).toBe(true);
+		});
+
+		it('should let a denying domain win with deny-overrides', () => {
+			const result = createAggregator('deny-overrides').authorizeWithDetails(editor, 'posts:drafts:edit');
+
+			expect(result.allowed).toBe(false);
+			expect(result.domain).toBe('drafts');
+			expect(result.result?.reason).toContain("denied in domain 'drafts'");
+			expect(createAggregator('deny-overrides').hasPermission(editor, 'posts:publish')).toBe(true);
+		});
+
+		it('should compare domain patterns with most-specific', () => {
+			const aggregator = createAggregator('most-specific');
+
+			expect(aggregator.hasPermission(editor, 'posts:drafts:edit')).toBe(false);
+			expect(aggregator.hasPermission(editor, 'posts:publish')).toBe(true);
+		});
+
+		it('should follow domain order with first-applicable', () => {
+			const result = createAggregator('first-applicable').hasPermissionWithDetails(editor, 'posts:drafts:edit');
+
+			expect(result.allowed).toBe(true);
+			expect(result.domain).toBe('posts');
+			expect(result.checked).toEqual(['posts', 'drafts']);
+		});
+	});
+});
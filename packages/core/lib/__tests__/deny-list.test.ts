@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RBAC } from '../index';
+import type { DenyEntry } from '../index';
+
+describe('Deny List Persistence', () => {
+	let rbac: RBAC;
+	const user = { id: 'user-1', roles: ['editor'] };
+
+	beforeEach(() => {
+		rbac = new RBAC();
+		rbac.createRole('editor', ['post:read', 'post:write', 'post:delete']);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe('expiry', () => {
+		it('should lift a deny once it expires', () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+			rbac.denyPermission('user-1', 'post:write', { expiresAt: new Date('2026-01-01T01:00:00Z') });
+			expect(rbac.hasPermission(user, 'post:write')).toBe(false);
+			expect(rbac.getDeniedPermissions('user-1')).toEqual(['post:write']);
+
+			vi.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+			expect(rbac.hasPermission(user, 'post:write')).toBe(true);
+			expect(rbac.getDeniedPermissions('user-1')).toEqual([]);
+		});
+
+		it('should not cache denies that expire', () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(1_000);
+			const cached = new RBAC({ enableCache: true });
+			cached.createRole('editor', ['post:write']);
+
+			cached.denyPermission('user-1', 'post:write', { expiresAt: 2_000 });
+			expect(cached.hasPermission(user, 'post:write')).toBe(false);
+
+			vi.setSystemTime(2_000);
+			expect(cached.hasPermission(user, 'post:write')).toBe(true);
+		});
+
+		it('should prune expired entries', () => {
+			rbac.denyPermission('user-1', 'post:write', { expiresAt: Date.now() - 1 });
+			rbac.denyPermission('user-1', 'post:delete');
+
+			expect(rbac.pruneExpiredDenies()).toBe(1);
+			expect(rbac.exportDenyList()).toEqual([{ userId: 'user-1', permission: 'post:delete' }]);
+		});
+
+		it('should reject invalid expiry timestamps', () => {
+			expect(() => rbac.denyPermission('user-1', 'post:write', { expiresAt: NaN }))
+				.toThrow('expiresAt must be a timestamp in milliseconds');
+		});
+	});
+
+	describe('bulk import/export', () => {
+		it('should export entries with expiry and reason', () => {
+			const expiresAt = Date.now() + 60_000;
+			rbac.denyPermission('user-1', 'post:*', { expiresAt, reason: 'Under investigation' });
+			rbac.denyPermission('user-2', 'post:delete');
+
+			expect(rbac.exportDenyList()).toEqual([
+				{ userId: 'user-1', permission: 'post:*', expiresAt, reason: 'Under investigation' },
+				{ userId: 'user-2', permission: 'post:delete' },
+			]);
+			expect(rbac.exportDenyList('user-2')).toEqual([{ userId: 'user-2', permission: 'post:delete' }]);
+		});
+
+		it('should merge imported entries and skip expired ones', () => {
+			rbac.denyPermission('user-3', 'post:read');
+			const entries: DenyEntry[] = [
+				{ userId: 'user-1', permission: 'post:write' },
+				{ userId: 'user-2', permission: 'post:delete', expiresAt: Date.now() - 1 },
+			];
+
+			expect(rbac.importDenyList(entries)).toBe(1);
+			expect(rbac.getDeniedPermissions('user-1')).toEqual(['post:write']);
+			expect(rbac.getDeniedPermissions('user-2')).toEqual([]);
+			expect(rbac.getDeniedPermissions('user-3')).toEqual(['post:read']);
+		});
+
+		it('should replace the deny list when requested', () => {
+			rbac.denyPermission('user-3', 'post:read');
+			rbac.importDenyList([{ userId: 'user-1', permission: 'post:write' }], { replace: true });
+
+			expect(rbac.exportDenyList()).toEqual([{ userId: 'user-1', permission: 'post:write' }]);
+		});
+
+		it('should validate every entry before changing anything', () => {
+			rbac.denyPermission('user-3', 'post:read');
+			const entries = [
+				{ userId: 'user-1', permission: 'post:write' },
+				{ userId: '', permission: 'post:delete' },
+			];
+
+			expect(() => rbac.importDenyList(entries, { replace: true }))
+				.toThrow('Invalid deny list entry 1: userId must be a non-empty string');
+			expect(rbac.exportDenyList()).toEqual([{ userId: 'user-3', permission: 'post:read' }]);
+		});
+	});
+
+	describe('serialize/deserialize', () => {
+		it('should persist denies through serialize()', () => {
+			const expiresAt = Date.now() + 60_000;
+			rbac.denyPermission('user-1', 'post:delete', { expiresAt, reason: 'Suspended' });
+
+			const state = rbac.serialize();
+			expect(state.version).toBe('2.0.0');
+			expect(state.denyList).toEqual([{ userId: 'user-1', permission: 'post:delete', expiresAt, reason: 'Suspended' }]);
+
+			const restored = new RBAC();
+			restored.createRole('editor', ['post:read', 'post:write', 'post:delete']);
+			restored.deserialize(state);
+			expect(restored.hasPermission(user, 'post:delete')).toBe(false);
+			expect(restored.exportDenyList()).toEqual(state.denyList);
+		});
+
+		it('should persist denies through toJSON()/fromJSON()', () => {
+			rbac.denyPermission('user-1', 'post:write');
+
+			const restored = new RBAC();
+			restored.createRole('editor', ['post:read', 'post:write', 'post:delete']);
+			restored.fromJSON(rbac.toJSON());
+
+			expect(restored.hasPermission(user, 'post:write')).toBe(false);
+		});
+
+		it('should keep existing denies when loading a state without a deny list', () => {
+			const state = rbac.serialize();
+			delete state.denyList;
+			delete state.version;
+
+			rbac.denyPermission('user-1', 'post:write');
+			rbac.deserialize(state);
+
+			expect(rbac.getDeniedPermissions('user-1')).toEqual(['post:write']);
+		});
+
+		it('should reject unknown state versions without loading anything', () => {
+			const state = { ...rbac.serialize(), denyList: [], version: '9.0.0' };
+			rbac.denyPermission('user-1', 'post:write');
+
+			expect(() => rbac.deserialize(state)).toThrow('Unsupported RBAC state version: 9.0.0 (expected 2.0.0)');
+			expect(() => rbac.dryRunMigration(state)).toThrow('Unsupported RBAC state version: 9.0.0');
+			expect(rbac.getDeniedPermissions('user-1')).toEqual(['post:write']);
+		});
+	});
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACBuilder } from '../index';
+import type { RBACConfigSchema } from '../index';
+
+describe('Role and Global Deny Rules', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'post:read' },
+			{ name: 'post:write' },
+			{ name: 'post:delete' },
+			{ name: 'billing:read' },
+			{ name: 'billing:refund' },
+			{ name: 'audit:read' },
+		],
+		roles: [
+			{ name: 'contractor', permissions: ['*', '!billing:refund'], deny: ['audit:*'] },
+			{ name: 'billing-admin', permissions: ['billing:*'] },
+			{ name: 'senior-contractor', permissions: ['post:write'], inherits: ['contractor'] },
+		],
+		deny: ['post:delete'],
+	};
+
+	describe('config', () => {
+		it('should grant everything except the denied permissions', () => {
+			const rbac = new RBAC({ config });
+			const user = { id: 'u1', roles: ['contractor'] };
+
+			expect(rbac.hasPermission(user, 'post:write')).toBe(true);
+			expect(rbac.hasPermission(user, 'billing:read')).toBe(true);
+			expect(rbac.hasPermission(user, 'billing:refund')).toBe(false);
+			expect(rbac.hasPermission(user, 'audit:read')).toBe(false);
+		});
+
+		it('should let role denies override grants of other roles', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['billing-admin'] }, 'billing:refund')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['billing-admin', 'contractor'] }, 'billing:refund')).toBe(false);
+		});
+
+		it('should inherit deny rules from parent roles', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['senior-contractor'] }, 'billing:refund')).toBe(false);
+			expect(rbac.getRoleDenies('senior-contractor')).toEqual(['billing:refund', 'audit:*']);
+		});
+
+		it('should apply global denies to every user, direct permissions included', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['contractor'] }, 'post:delete')).toBe(false);
+			expect(rbac.hasPermission({ id: 'u1', roles: [], permissions: ['post:*'] }, 'post:delete')).toBe(false);
+			expect(rbac.getGlobalDenies()).toEqual(['post:delete']);
+		});
+
+		it('should support deny rules on lazy roles and in the legacy system', () => {
+			const lazy = new RBAC({ config, lazyRoles: true });
+			expect(lazy.hasPermission({ id: 'u1', roles: ['senior-contractor'] }, 'billing:refund')).toBe(false);
+			expect(lazy.hasPermission({ id: 'u1', roles: ['senior-contractor'] }, 'billing:read')).toBe(true);
+
+			const legacy = new RBAC({ config, useBitSystem: false });
+			expect(legacy.hasPermission({ id: 'u1', roles: ['contractor'] }, 'billing:refund')).toBe(false);
+			expect(legacy.hasPermission({ id: 'u1', roles: ['contractor'] }, 'billing:read')).toBe(true);
+		});
+	});
+
+	describe('runtime API', () => {
+		it('should parse "!" entries in createRole()', () => {
+			const rbac = new RBAC();
+			rbac.createRole('contractor', ['post:*', '!post:delete']);
+
+			expect(rbac.getRolePermissions('contractor')).toEqual(['post:*']);
+			expect(rbac.getRoleDenies('contractor')).toEqual(['post:delete']);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['contractor'] }, 'post:delete')).toBe(false);
+
+			rbac.createRole('contractor', ['post:*']);
+			expect(rbac.getRoleDenies('contractor')).toEqual([]);
+		});
+
+		it('should add and remove global denies', () => {
+			const rbac = new RBAC();
+			rbac.createRole('admin', ['*']);
+			const user = { id: 'u1', roles: ['admin'] };
+
+			rbac.addGlobalDeny('system:*');
+			expect(rbac.hasPermission(user, 'system:shutdown')).toBe(false);
+
+			rbac.removeGlobalDeny('system:*');
+			expect(rbac.hasPermission(user, 'system:shutdown')).toBe(true);
+		});
+
+		it('should build deny rules with RBACBuilder', () => {
+			const rbac = new RBACBuilder()
+				.addPermission('post:read')
+				.addPermission('post:delete')
+				.addRole('contractor', ['post:*'], { deny: ['post:delete'] })
+				.withGlobalDeny('post:purge')
+				.build();
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['contractor'] }, 'post:read')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['contractor'] }, 'post:delete')).toBe(false);
+			expect(rbac.getGlobalDenies()).toEqual(['post:purge']);
+		});
+	});
+
+	describe('getUserPermissions', () => {
+		it('should expand wildcard grants and leave out denied permissions', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.getUserPermissions({ id: 'u1', roles: ['contractor'] }).sort())
+				.toEqual(['billing:read', 'post:read', 'post:write']);
+		});
+
+		it('should keep wildcard grants when no deny rule applies', () => {
+			const rbac = new RBAC({ config: { ...config, deny: [] } });
+
+			expect(rbac.getUserPermissions({ id: 'u1', roles: [], permissions: ['audit:*'] }))
+				.toEqual(['audit:*']);
+		});
+	});
+
+	describe('explain', () => {
+		it('should report the role deny rule that won', () => {
+			const rbac = new RBAC({ config });
+			const decision = rbac.explain({ id: 'u1', roles: ['senior-contractor'] }, 'billing:refund');
+
+			expect(decision).toMatchObject({
+				allowed: false,
+				source: 'role-deny',
+				matchedRole: 'senior-contractor',
+				deniedBy: 'billing:refund',
+				reason: "Permission denied by role 'senior-contractor' (inherited from 'contractor'): billing:refund",
+			});
+			expect(decision.steps).toEqual([
+				{ check: 'deny-list', matched: false },
+				{ check: 'global-deny', matched: false },
+				{ check: 'role-deny', role: 'contractor', matched: true, pattern: 'billing:refund' },
+			]);
+		});
+
+		it('should report the global deny rule that won', () => {
+			const rbac = new RBAC({ config });
+			const decision = rbac.explain({ id: 'u1', roles: ['contractor'] }, 'post:delete');
+
+			expect(decision.source).toBe('global-deny');
+			expect(decision.deniedBy).toBe('post:delete');
+			expect(decision.reason).toBe('Permission denied by global deny rule: post:delete');
+		});
+	});
+
+	describe('validation', () => {
+		it('should accept deny rules in a valid config', () => {
+			expect(() => RBAC.validateConfig(config)).not.toThrow();
+		});
+
+		it('should reject deny rules on undefined permissions', () => {
+			expect(() => RBAC.validateConfig({ ...config, roles: [{ name: 'r', permissions: ['!ghost:read'] }] }))
+				.toThrow("Role 'r' references undefined permission: ghost:read");
+			expect(() => RBAC.validateConfig({ ...config, deny: ['ghost:read'] }))
+				.toThrow('Global deny rule references undefined permission: ghost:read');
+		});
+
+		it('should reject roles that grant and deny the same permission', () => {
+			const conflicting = { ...config, roles: [{ name: 'r', permissions: ['post:read'], deny: ['post:read'] }] };
+
+			expect(() => RBAC.validateConfig(conflicting)).toThrow("Role 'r' both grants and denies permission: post:read");
+		});
+
+		it('should reject malformed deny arrays', () => {
+			expect(() => RBAC.validateConfig({ ...config, deny: 'post:read' as unknown as string[] }))
+				.toThrow('Config.deny must be an array of permission names');
+		});
+	});
+
+	it('should persist deny rules through serialize()', () => {
+		const rbac = new RBAC({ config });
+		const state = rbac.serialize();
+
+		expect(state.roleDenies).toEqual({ contractor: ['billing:refund', 'audit:*'] });
+		expect(state.globalDeny).toEqual(['post:delete']);
+
+		const restored = new RBAC();
+		restored.deserialize(state);
+		expect(restored.getRoleDenies('senior-contractor')).toEqual(['billing:refund', 'audit:*']);
+		expect(restored.hasPermission({ id: 'u1', roles: ['contractor'] }, 'post:delete')).toBe(false);
+	});
+});
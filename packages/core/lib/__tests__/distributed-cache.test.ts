@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+	RBAC,
+	PermissionCache,
+	MemoryCacheStore,
+	RedisCacheStore,
+	RedisInvalidationChannel,
+} from '../index';
+import type { PermissionCacheOptions } from '../index';
+
+/**
+ * In-process stand-in for a Redis server: the commands RedisCacheStore uses, plus pub/sub
+ */
+class FakeRedisServer {
+	private data = new Map<string, { value?: string; members?: Set<string>; expiresAt?: number }>();
+	private subscribers = new Map<string, Array<(message: string) => void>>();
+	calls: string[][] = [];
+	command = async (name: string, ...args: string[]): Promise<unknown> => {
+		this.calls.push([name, ...args]);
+		switch (name) {
+			case 'GET':
+				return this.read(args[0]) ?? null;
+			case 'MGET':
+				return args.map(key => this.read(key) ?? null);
+			case 'SET': {
+				const px = args.indexOf('PX');
+				this.data.set(args[0], {
+					value: args[1],
+					expiresAt: px === -1 ? undefined : Date.now() + Number(args[px + 1]),
+				});
+				return 'OK';
+			}
+			case 'DEL':
+				return args.filter(key => this.data.delete(key)).length;
+			case 'SADD': {
+				const item = this.live(args[0]) ?? { members: new Set<string>() };
+				args.slice(1).forEach(member => item.members?.add(member));
+				this.data.set(args[0], item);
+				return args.length - 1;
+			}
+			case 'SMEMBERS':
+				return Array.from(this.live(args[0])?.members ?? []);
+			case 'PTTL': {
+				const item = this.live(args[0]);
+				return item === undefined ? -2 : item.expiresAt === undefined ? -1 : item.expiresAt - Date.now();
+			}
+			case 'PEXPIRE': {
+				const item = this.live(args[0]);
+				if (item) item.expiresAt = Date.now() + Number(args[1]);
+				return item ? 1 : 0;
+			}
+			case 'SCAN': {
+				// Return keys two at a time to exercise the cursor loop
+				const prefix = args[args.indexOf('MATCH') + 1].replace(/\*$/, '');
+				const keys = Array.from(this.data.keys()).filter(key => key.startsWith(prefix) && this.live(key) !== undefined);
+				const start = Number(args[0]);
+				const next = start + 2 < keys.length ? String(start + 2) : '0';
+				return [next, keys.slice(start, start + 2)];
+			}
+			case 'PUBLISH': {
+				const listeners = this.subscribers.get(args[0]) ?? [];
+				listeners.forEach(listener => listener(args[1]));
+				return listeners.length;
+			}
+			default:
+				throw new Error(`Unsupported command: ${name}`);
+		}
+	};
+
+	subscribe = (channel: string, onMessage: (message: string) => void): void => {
+		this.subscribers.set(channel, [...(this.subscribers.get(channel) ?? []), onMessage]);
+	};
+
+	keys(): string[] {
+		return Array.from(this.data.keys());
+	}
+
+	private read(key: string): string | undefined {
+		return this.live(key)?.value;
+	}
+
+	private live(key: string) {
+		const item = this.data.get(key);
+		if (item?.expiresAt !== undefined && item.expiresAt <= Date.now()) {
+			this.data.delete(key);
+			return undefined;
+		}
+		return item;
+	}
+}
+
+describe('Distributed Permission Cache', () => {
+	let server: FakeRedisServer;
+	const viewer = { id: 'u1', roles: ['viewer'] };
+
+	const cacheOptions = (): PermissionCacheOptions => ({
+		enableStats: true,
+		sharedStore: new RedisCacheStore({ command: server.command }),
+		invalidationChannel: new RedisInvalidationChannel({ command: server.command, subscribe: server.subscribe }),
+	});
+
+	// One RBAC instance per simulated process, all talking to the same server
+	const createProcess = () => {
+		const rbac = new RBAC({ enableCache: true, cacheOptions: cacheOptions() });
+		rbac.createRole('viewer', ['post:read']);
+		rbac.createRole('editor', ['post:write'], ['viewer']);
+		return rbac;
+	};
+	const flush = (rbac: RBAC) => rbac['cache']!.flush();
+
+	beforeEach(() => {
+		server = new FakeRedisServer();
+	});
+
+	describe('MemoryCacheStore', () => {
+		it('should evict the least recently used entry', () => {
+			const store = new MemoryCacheStore(2);
+			const entry = { userId: 'u1', permission: 'p', result: true, timestamp: Date.now(), hits: 0 };
+			store.set('a', entry);
+			store.set('b', entry);
+			store.get('a');
+			store.set('c', entry);
+
+			expect(Array.from(store.entries()).map(([key]) => key)).toEqual(['a', 'c']);
+		});
+
+		it('should be replaceable with a custom sync store', () => {
+			const store = new MemoryCacheStore(10);
+			const cache = new PermissionCache({ store, enableStats: true });
+			cache.set('u1', 'post:read', true);
+
+			expect(store.size).toBe(1);
+			expect(cache.get('u1', 'post:read')).toBe(true);
+			expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0, size: 1 });
+		});
+	});
+
+	describe('RedisCacheStore', () => {
+		it('should store entries with a Redis-side expiry', async () => {
+			const store = new RedisCacheStore({ command: server.command, keyPrefix: 'test:' });
+			const entry = { userId: 'u1', permission: 'post:read', result: true, timestamp: Date.now(), hits: 0, roles: ['viewer'] };
+
+			await store.set('u1:post:read', entry, 60000);
+			expect(server.keys()).toEqual(['test:u1:post:read', 'fire-shield:cache-roles:viewer']);
+			expect(await store.get('u1:post:read')).toEqual(entry);
+
+			await store.set('u1:post:write', { ...entry, permission: 'post:write' }, 60000);
+			await store.set('u2:post:read', { ...entry, userId: 'u2' }, 60000);
+			expect((await store.entries()).map(([key]) => key).sort())
+				.toEqual(['u1:post:read', 'u1:post:write', 'u2:post:read']);
+
+			await store.delete(['u1:post:read']);
+			expect(await store.get('u1:post:read')).toBeUndefined();
+
+			await store.clear();
+			expect(server.keys()).toEqual([]);
+		});
+
+		it('should delete entries by user key prefix and role index', async () => {
+			const store = new RedisCacheStore({ command: server.command });
+			const entry = { userId: 'u1', permission: 'post:read', result: true, timestamp: Date.now(), hits: 0, roles: ['viewer'] };
+			await store.set('u1:post:read', entry, 60000);
+			await store.set('u1:post:write', { ...entry, permission: 'post:write', roles: ['editor'] }, 60000);
+			await store.set('u2:post:read', { ...entry, userId: 'u2' }, 60000);
+
+			expect((await store.entries('u2')).map(([key]) => key)).toEqual(['u2:post:read']);
+
+			await store.deleteRole('viewer');
+			expect((await store.entries()).map(([key]) => key)).toEqual(['u1:post:write']);
+
+			await store.deleteUser('u1');
+			expect(server.keys()).toEqual(['fire-shield:cache-roles:editor']);
+		});
+
+		it('should keep role indexes as long as the entries they list', async () => {
+			const store = new RedisCacheStore({ command: server.command });
+			const entry = { userId: 'u1', permission: 'post:read', result: true, timestamp: Date.now(), hits: 0, roles: ['viewer'] };
+			await store.set('u1:post:read', entry, 60000);
+			await store.set('u2:post:read', { ...entry, userId: 'u2' }, 1000);
+
+			expect(Number(await server.command('PTTL', 'fire-shield:cache-roles:viewer'))).toBeGreaterThan(1000);
+		});
+
+		it('should let Redis expire entries', async () => {
+			const store = new RedisCacheStore({ command: server.command });
+			vi.useFakeTimers();
+			try {
+				await store.set('u1:post:read', { userId: 'u1', permission: 'post:read', result: true, timestamp: Date.now(), hits: 0 }, 1000);
+				vi.advanceTimersByTime(1001);
+				expect(await store.get('u1:post:read')).toBeUndefined();
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+
+	describe('shared results', () => {
+		it('should reuse results computed by another process', async () => {
+			const first = createProcess();
+			const second = createProcess();
+
+			expect(first.hasPermission(viewer, 'post:read')).toBe(true);
+			await flush(first);
+
+			expect(await second.hasPermissionAsync(viewer, 'post:read')).toBe(true);
+			expect(second.getCacheStats()).toMatchObject({ hits: 1, misses: 0, size: 1 });
+		});
+
+		it('should ignore shared results computed for other roles', async () => {
+			const first = createProcess();
+			const second = createProcess();
+
+			first.hasPermission(viewer, 'post:write');
+			await flush(first);
+
+			expect(await second.hasPermissionAsync({ id: 'u1', roles: ['editor'] }, 'post:write')).toBe(true);
+			expect(second.getCacheStats()).toMatchObject({ hits: 0, misses: 1 });
+		});
+
+		it('should fall back to local evaluation when Redis fails', async () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const rbac = new RBAC({
+				enableCache: true,
+				cacheOptions: { sharedStore: new RedisCacheStore({ command: async () => { throw new Error('ECONNREFUSED'); } }) },
+			});
+			rbac.createRole('viewer', ['post:read']);
+
+			expect(await rbac.hasPermissionAsync(viewer, 'post:read')).toBe(true);
+			await flush(rbac);
+			expect(warn).toHaveBeenCalledWith('Shared permission cache read failed:', expect.any(Error));
+			expect(warn).toHaveBeenCalledWith('Shared permission cache write failed:', expect.any(Error));
+			warn.mockRestore();
+		});
+	});
+
+	describe('cross-process invalidation', () => {
+		it('should evict local and shared entries in every process on revoke', async () => {
+			const first = createProcess();
+			const second = createProcess();
+			await Promise.all([flush(first), flush(second)]);
+			expect(first.hasPermission(viewer, 'post:read')).toBe(true);
+			expect(second.hasPermission(viewer, 'post:read')).toBe(true);
+			await Promise.all([flush(first), flush(second)]);
+			expect(second['cache']!.getSize()).toBe(1);
+			expect(server.keys()).toEqual(['fire-shield:cache:u1:post:read', 'fire-shield:cache-roles:viewer']);
+
+			// Policy changes are applied to every process; the cache must not lag behind any of them
+			first.revokePermission('viewer', 'post:read');
+			await flush(first);
+
+			expect(second['cache']!.getSize()).toBe(0);
+			expect(server.keys()).toEqual([]);
+			second.revokePermission('viewer', 'post:read');
+			expect(await second.hasPermissionAsync(viewer, 'post:read')).toBe(false);
+		});
+
+		it('should propagate user denies and clears', async () => {
+			const first = createProcess();
+			const second = createProcess();
+			// Let the role setup invalidations of both processes settle first
+			await Promise.all([flush(first), flush(second)]);
+			second.hasPermission(viewer, 'post:read');
+			second.hasPermission({ id: 'u2', roles: ['viewer'] }, 'post:read');
+			await flush(second);
+
+			first.denyPermission('u1', 'post:*');
+			await flush(first);
+			expect(Array.from(second['cache']!.getEntries().keys())).toEqual(['u2:post:read']);
+
+			first['cache']!.clear();
+			await flush(first);
+			expect(second['cache']!.getSize()).toBe(0);
+			expect(server.keys()).toEqual([]);
+		});
+
+		it('should invalidate users and roles without reading the whole shared store', async () => {
+			const rbac = createProcess();
+			rbac.hasPermission(viewer, 'post:read');
+			rbac.hasPermission({ id: 'u2', roles: ['editor'] }, 'post:write');
+			await flush(rbac);
+			server.calls = [];
+
+			rbac.denyPermission('u1', 'post:read');
+			rbac.bindRole('u2', 'viewer', { type: 'org', id: 'o1' });
+			rbac.revokePermission('editor', 'post:write');
+			await flush(rbac);
+
+			const scans = server.calls.filter(([name]) => name === 'SCAN').map(call => call[3]);
+			expect(scans.length).toBeGreaterThan(0);
+			expect(scans).not.toContain('fire-shield:cache:*');
+			expect(server.keys().filter(key => key.startsWith('fire-shield:cache:'))).toEqual([]);
+		});
+
+		it('should not apply its own messages twice', async () => {
+			const cache = new PermissionCache(cacheOptions());
+			const spy = vi.spyOn(cache as unknown as { invalidateLocal: () => number }, 'invalidateLocal');
+
+			cache.invalidateRole('viewer');
+			await cache.flush();
+
+			expect(spy).toHaveBeenCalledTimes(1);
+		});
+
+		it('should ignore malformed messages', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			new PermissionCache(cacheOptions());
+
+			server.command('PUBLISH', 'fire-shield:cache:invalidate', 'not json');
+
+			expect(warn).toHaveBeenCalledWith('Ignoring malformed cache invalidation message:', expect.any(SyntaxError));
+			warn.mockRestore();
+		});
+	});
+});
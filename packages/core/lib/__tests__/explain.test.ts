@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RBAC } from '../index';
+import type { AuditEvent } from '../index';
+
+describe('Explain API', () => {
+	let rbac: RBAC;
+
+	beforeEach(() => {
+		rbac = new RBAC();
+		['post:read', 'post:write', 'post:delete', 'user:read', 'user:delete'].forEach(p => rbac.registerPermission(p));
+		rbac.createRole('viewer', ['post:read']);
+		rbac.createRole('editor', ['post:write'], ['viewer']);
+		rbac.createRole('moderator', ['post:*']);
+	});
+
+	it('should report a role exact bit match', () => {
+		const decision = rbac.explain({ id: 'u1', roles: ['viewer'] }, 'post:read');
+
+		expect(decision).toMatchObject({
+			allowed: true,
+			source: 'role-bit',
+			fromCache: false,
+			matchedRole: 'viewer',
+			grantedBy: 'viewer',
+			matchedPattern: 'post:read',
+			reason: "Granted by role 'viewer'",
+		});
+		expect(decision.steps.map(s => s.check)).toEqual(['deny-list', 'role']);
+	});
+
+	it('should report the ancestor role holding an inherited grant', () => {
+		const decision = rbac.explain({ id: 'u1', roles: ['editor'] }, 'post:read');
+
+		expect(decision.matchedRole).toBe('editor');
+		expect(decision.grantedBy).toBe('viewer');
+		expect(decision.reason).toBe("Granted by role 'editor' (inherited from 'viewer')");
+	});
+
+	it('should report the wildcard pattern that matched', () => {
+		const decision = rbac.explain({ id: 'u1', roles: ['viewer', 'moderator'] }, 'post:delete');
+
+		expect(decision.source).toBe('role-wildcard');
+		expect(decision.matchedRole).toBe('moderator');
+		expect(decision.matchedPattern).toBe('post:*');
+		expect(decision.steps).toEqual([
+			{ check: 'deny-list', matched: false },
+			{ check: 'role', role: 'viewer', matched: false },
+			{ check: 'role', role: 'moderator', matched: true, grantedBy: 'moderator', pattern: 'post:*' },
+		]);
+	});
+
+	it('should report the deny entry that won', () => {
+		rbac.denyPermission('u1', 'post:*');
+		const decision = rbac.explain({ id: 'u1', roles: ['moderator'] }, 'post:delete');
+
+		expect(decision.allowed).toBe(false);
+		expect(decision.source).toBe('deny-list');
+		expect(decision.deniedBy).toBe('post:*');
+		expect(decision.steps).toEqual([{ check: 'deny-list', matched: true, pattern: 'post:*' }]);
+	});
+
+	it('should report direct permissions and permission masks', () => {
+		const direct = rbac.explain({ id: 'u1', roles: [], permissions: ['user:*'] }, 'user:delete');
+		expect(direct.source).toBe('direct-permission');
+		expect(direct.matchedPattern).toBe('user:*');
+
+		const mask = rbac.getBitPermissionManager()!.createPermissionMask(['user:read']);
+		const masked = rbac.explain({ id: 'u1', roles: [], permissionMask: mask }, 'user:read');
+		expect(masked.source).toBe('permission-mask');
+		expect(masked.steps.map(s => s.check)).toEqual(['deny-list', 'permission-mask']);
+	});
+
+	it('should flag roles that do not exist', () => {
+		const decision = rbac.explain({ id: 'u1', roles: ['ghost'] }, 'post:read');
+
+		expect(decision.allowed).toBe(false);
+		expect(decision.source).toBe('none');
+		expect(decision.reason).toBe('User lacks permission: post:read');
+		expect(decision.steps[1]).toEqual({ check: 'role', role: 'ghost', matched: false, detail: 'Role does not exist: ghost' });
+	});
+
+	it('should trace condition evaluation', () => {
+		rbac.setPermissionCondition('moderator', 'post:*', { eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] });
+		const decision = rbac.explain({ id: 'u1', roles: ['moderator'] }, 'post:delete', {
+			resourceAttributes: { ownerId: 'u2' },
+		});
+
+		expect(decision.allowed).toBe(false);
+		expect(decision.reason).toBe('Condition not satisfied for permission: post:delete');
+		expect(decision.steps[1]).toMatchObject({ check: 'role', role: 'moderator', pattern: 'post:*', conditionResult: false });
+	});
+
+	it('should use the legacy exact-match source', () => {
+		const legacy = new RBAC({ useBitSystem: false });
+		legacy.createRole('viewer', ['post:read']);
+
+		expect(legacy.explain({ id: 'u1', roles: ['viewer'] }, 'post:read').source).toBe('role-permission');
+	});
+
+	describe('caching', () => {
+		it('should report cached results and stale entries', () => {
+			const cached = new RBAC({ enableCache: true });
+			cached.createRole('viewer', ['post:read']);
+			const user = { id: 'u1', roles: ['viewer'] };
+
+			expect(cached.explain(user, 'post:read').fromCache).toBe(false);
+
+			cached.hasPermission(user, 'post:read');
+			const hit = cached.explain(user, 'post:read');
+			expect(hit.fromCache).toBe(true);
+			expect(hit.steps[0]).toEqual({ check: 'cache', matched: true, detail: 'Cached result: allowed' });
+
+			// Changes made through the low-level manager bypass cache invalidation
+			cached.getBitPermissionManager()!.registerRole('viewer', []);
+			const stale = cached.explain(user, 'post:read');
+			expect(stale.allowed).toBe(true);
+			expect(stale.source).toBe('none');
+			expect(stale.reason).toContain('stale');
+		});
+
+		it('should not populate the cache or update its statistics', () => {
+			const cached = new RBAC({ enableCache: true });
+			cached.createRole('viewer', ['post:read']);
+			const before = cached.getCacheStats();
+
+			cached.explain({ id: 'u1', roles: ['viewer'] }, 'post:read');
+
+			expect(cached.getCacheStats()).toEqual(before);
+			expect(cached.explain({ id: 'u1', roles: ['viewer'] }, 'post:read').fromCache).toBe(false);
+		});
+	});
+
+	it('should not emit audit events', () => {
+		const events: AuditEvent[] = [];
+		const audited = new RBAC({ auditLogger: { log: event => { events.push(event); } } });
+		audited.createRole('viewer', ['post:read']);
+
+		audited.explain({ id: 'u1', roles: ['viewer'] }, 'post:read');
+		expect(events).toHaveLength(0);
+	});
+
+	it('should return the specific denial reason from authorize()', () => {
+		rbac.denyPermission('u1', 'post:read');
+
+		expect(rbac.authorize({ id: 'u1', roles: ['viewer'] }, 'post:read').reason).toBe('Permission explicitly denied: post:read');
+		expect(rbac.authorize({ id: 'u2', roles: ['viewer'] }, 'post:write').reason).toBe('User lacks permission: post:write');
+	});
+});
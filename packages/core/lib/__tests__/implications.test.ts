@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACBuilder, ImplicationResolver } from '../index';
+import type { RBACConfigSchema } from '../index';
+
+describe('Permission Implications', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'posts:read' },
+			{ name: 'posts:write' },
+			{ name: 'posts:manage' },
+			{ name: 'admin:users' },
+			{ name: 'audit:read' },
+		],
+		roles: [
+			{ name: 'writer', permissions: ['posts:write'] },
+			{ name: 'moderator', permissions: ['posts:manage'] },
+			{ name: 'admin', permissions: ['admin:*'] },
+			{ name: 'senior-writer', permissions: [], inherits: ['writer'] },
+		],
+		implications: {
+			write: ['read'],
+			manage: ['create', 'read', 'update', 'delete'],
+			'admin:*': ['audit:read'],
+		},
+	};
+
+	describe('config', () => {
+		it('should grant implied actions on the same resource', () => {
+			const rbac = new RBAC({ config });
+			const writer = { id: 'u1', roles: ['writer'] };
+
+			expect(rbac.hasPermission(writer, 'posts:read')).toBe(true);
+			expect(rbac.hasPermission(writer, 'posts:delete')).toBe(false);
+			expect(rbac.hasPermission({ id: 'u2', roles: ['moderator'] }, 'posts:delete')).toBe(true);
+		});
+
+		it('should grant implied permissions to wildcard grants', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['admin'] }, 'audit:read')).toBe(true);
+		});
+
+		it('should include implied permissions in role and user permissions', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.getRolePermissions('moderator').sort())
+				.toEqual(['posts:create', 'posts:delete', 'posts:manage', 'posts:read', 'posts:update']);
+			expect(rbac.getRolePermissions('senior-writer').sort()).toEqual(['posts:read', 'posts:write']);
+			expect(rbac.getUserPermissions({ id: 'u1', roles: ['writer', 'admin'] }).sort())
+				.toEqual(['admin:*', 'audit:read', 'posts:read', 'posts:write']);
+		});
+
+		it('should resolve implications in legacy mode and with lazy roles', () => {
+			const legacy = new RBAC({ config, useBitSystem: false });
+			const lazy = new RBAC({ config, lazyRoles: true });
+			const writer = { id: 'u1', roles: ['writer'] };
+
+			expect(legacy.hasPermission(writer, 'posts:read')).toBe(true);
+			expect(lazy.hasPermission(writer, 'posts:read')).toBe(true);
+		});
+
+		it('should apply implications to direct user grants', () => {
+			const rbac = new RBAC({ config });
+			const mask = rbac.getBitPermissionManager()!.createPermissionMask(['posts:manage']);
+			const legacy = new RBAC({ config, useBitSystem: false });
+			const user = { id: 'u1', roles: [], permissions: ['posts:write'] };
+			const timed = { id: 'u2', roles: [], timedPermissions: [{ permission: 'posts:write', notAfter: Date.now() + 60_000 }] };
+
+			expect(rbac.hasPermission(user, 'posts:read')).toBe(true);
+			expect(legacy.hasPermission(user, 'posts:read')).toBe(true);
+			expect(rbac.hasPermission(user, 'posts:delete')).toBe(false);
+			expect(rbac.hasPermission(timed, 'posts:read')).toBe(true);
+			expect(rbac.getUserPermissions(user).sort()).toEqual(['posts:read', 'posts:write']);
+			expect(rbac.hasPermission({ id: 'u3', roles: [], permissionMask: mask }, 'posts:delete')).toBe(true);
+			expect(rbac.getUserPermissions({ id: 'u3', roles: [], permissionMask: mask })).toContain('posts:update');
+			expect(rbac.explain(user, 'posts:read').steps).toContainEqual({ check: 'direct-permission', matched: true, pattern: 'posts:read' });
+		});
+
+		it('should let deny rules override implied permissions', () => {
+			const rbac = new RBAC({ config: { ...config, deny: ['posts:delete'] } });
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['moderator'] }, 'posts:update')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['moderator'] }, 'posts:delete')).toBe(false);
+		});
+	});
+
+	describe('validation', () => {
+		it('should detect implication cycles', () => {
+			expect(() => RBAC.validateConfig({ ...config, implications: { write: ['read'], read: ['write'] } }))
+				.toThrow('Circular permission implication detected: write -> read -> write');
+			expect(() => RBAC.validateConfig({ ...config, implications: { 'a:x': ['b:y'], 'b:*': ['a:x'] } }))
+				.toThrow('Circular permission implication detected: a:x -> b:y -> a:x');
+			expect(() => new RBAC({ config: { ...config, implications: { manage: ['manage'] } } }))
+				.toThrow('Circular permission implication detected: manage -> manage');
+		});
+
+		it('should reject malformed rules', () => {
+			expect(() => ImplicationResolver.validate({ write: 'read' })).toThrow("Implication 'write' must map to an array");
+			expect(() => ImplicationResolver.validate({ write: ['posts:read'] }))
+				.toThrow("Action implication 'write' can only imply actions, got: posts:read");
+		});
+
+		it('should allow wildcard rules that imply permissions they match', () => {
+			expect(() => ImplicationResolver.validate({ 'admin:*': ['admin:audit'] })).not.toThrow();
+		});
+
+		it('should resolve chains transitively', () => {
+			const resolver = new ImplicationResolver({ manage: ['write'], write: ['read'] });
+
+			expect(resolver.closure('posts:manage').sort()).toEqual(['posts:read', 'posts:write']);
+			expect(Array.from(resolver.expand(['posts:manage', 'posts:write']))).toEqual([
+				['posts:read', ['posts:manage', 'posts:write']],
+			]);
+		});
+	});
+
+	describe('runtime changes', () => {
+		it('should apply implications to created roles and added permissions', () => {
+			const rbac = new RBAC({ config });
+			rbac.createRole('reviewer', ['comments:write']);
+			const reviewer = { id: 'u1', roles: ['reviewer'] };
+
+			expect(rbac.hasPermission(reviewer, 'comments:read')).toBe(true);
+
+			rbac.addPermissionToRole('reviewer', 'tags:manage');
+			expect(rbac.hasPermission(reviewer, 'tags:update')).toBe(true);
+		});
+
+		it('should drop implied permissions with the grant implying them', () => {
+			const rbac = new RBAC({ config });
+			const writer = { id: 'u1', roles: ['writer'] };
+			expect(rbac.hasPermission(writer, 'posts:read')).toBe(true);
+
+			rbac.revokePermission('writer', 'posts:write');
+
+			expect(rbac.hasPermission(writer, 'posts:read')).toBe(false);
+			expect(rbac.getRolePermissions('writer')).toEqual([]);
+		});
+
+		it('should keep implied permissions still implied by another grant', () => {
+			const rbac = new RBAC({ config });
+			rbac.createRole('owner', ['posts:write', 'posts:manage']);
+
+			rbac.revokePermission('owner', 'posts:manage');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['owner'] }, 'posts:read')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['owner'] }, 'posts:delete')).toBe(false);
+		});
+	});
+
+	describe('conditions', () => {
+		const own = { eq: [{ var: 'resource.ownerId' }, { var: 'user.id' }] };
+
+		it('should carry the condition of the implying grant', () => {
+			const rbac = new RBAC({
+				config: {
+					...config,
+					roles: [{ name: 'author', permissions: ['posts:write'], conditions: { 'posts:write': own } }],
+				},
+			});
+			const author = { id: 'u1', roles: ['author'] };
+
+			expect(rbac.hasPermission(author, 'posts:read', { resourceAttributes: { ownerId: 'u1' } })).toBe(true);
+			expect(rbac.hasPermission(author, 'posts:read', { resourceAttributes: { ownerId: 'u2' } })).toBe(false);
+
+			rbac.removePermissionCondition('author', 'posts:write');
+			expect(rbac.hasPermission(author, 'posts:read', { resourceAttributes: { ownerId: 'u2' } })).toBe(true);
+		});
+
+		it('should stay unconditional when any implying grant is', () => {
+			const rbac = new RBAC({ config });
+			rbac.createRole('owner', ['posts:write', 'posts:manage']);
+			rbac.setPermissionCondition('owner', 'posts:write', own);
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['owner'] }, 'posts:read', { resourceAttributes: { ownerId: 'u2' } })).toBe(true);
+		});
+
+		it('should not accept conditions on implied permissions', () => {
+			const rbac = new RBAC({ config });
+
+			expect(() => rbac.setPermissionCondition('writer', 'posts:read', own))
+				.toThrow("Role 'writer' only holds 'posts:read' through an implication");
+		});
+	});
+
+	describe('builder and serialization', () => {
+		it('should build implications with the builder', () => {
+			const rbac = new RBACBuilder()
+				.addPermission('posts:write')
+				.withImplication('write', ['read'])
+				.addRole('writer', ['posts:write'])
+				.build();
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['writer'] }, 'posts:read')).toBe(true);
+		});
+
+		it('should restore implications from serialized state', () => {
+			const rbac = new RBAC({ config });
+			const restored = new RBAC();
+			restored.deserialize(rbac.serialize());
+			const writer = { id: 'u1', roles: ['writer'] };
+
+			expect(restored.hasPermission(writer, 'posts:read')).toBe(true);
+
+			restored.revokePermission('writer', 'posts:write');
+			expect(restored.hasPermission(writer, 'posts:read')).toBe(false);
+		});
+	});
+});
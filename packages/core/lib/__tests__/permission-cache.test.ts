@@ -163,6 +163,31 @@ describe('Permission Cache', () => {
       expect(cache.get('user2', 'delete:posts')).toBeUndefined();
       expect(cache.getSize()).toBe(0);
     });
+
+    it('should invalidate entries depending on a role', () => {
+      cache.set('user3', 'read:posts', true, { roles: ['editor', 'viewer'] });
+      cache.set('user4', 'read:posts', true, { roles: ['viewer'] });
+
+      expect(cache.invalidateRole('editor')).toBe(1);
+      expect(cache.get('user3', 'read:posts')).toBeUndefined();
+      expect(cache.get('user4', 'read:posts')).toBe(true);
+    });
+
+    it('should invalidate entries matching a wildcard pattern', () => {
+      expect(cache.invalidatePattern('*:posts', 'user1')).toBe(2);
+      expect(cache.get('user2', 'read:posts')).toBe(true);
+
+      expect(cache.invalidatePattern('delete:*')).toBe(1);
+      expect(cache.get('user2', 'delete:posts')).toBeUndefined();
+    });
+
+    it('should miss when the fingerprint differs', () => {
+      cache.set('user3', 'read:posts', true, { fingerprint: 'admin' });
+
+      expect(cache.get('user3', 'read:posts', 'admin')).toBe(true);
+      expect(cache.get('user3', 'read:posts', 'viewer')).toBeUndefined();
+      expect(cache.get('user3', 'read:posts', 'admin')).toBeUndefined();
+    });
   });
 
   describe('Statistics', () => {
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RBAC, RBACBuilder } from '../index';
+import type { AuditEvent, PresetConfig } from '../index';
+
+describe('Permission Deprecation', () => {
+	const before: PresetConfig = {
+		name: 'blog',
+		version: '1.0.0',
+		permissions: [{ name: 'post:read' }, { name: 'post:write' }, { name: 'report:export' }],
+		roles: [{ name: 'editor', permissions: ['post:read', 'post:write'] }],
+	};
+
+	const after: PresetConfig = {
+		name: 'blog',
+		version: '2.0.0',
+		permissions: [
+			{ name: 'posts:read', renamedFrom: ['post:read'], aliases: ['posts:view'] },
+			{ name: 'posts:update', renamedFrom: ['post:write'] },
+			{ name: 'report:export', deprecated: 'use report:download', aliases: ['reports:export'] },
+		],
+		// Role grants still using former names resolve to the new permissions
+		roles: [{ name: 'editor', permissions: ['post:read', 'report:export'], deny: ['post:write'] }],
+	};
+
+	const createRBAC = (options: { auditLogger?: { log: (event: AuditEvent) => void }; useBitSystem?: boolean } = {}) => {
+		const logger = { warn: vi.fn() };
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(after), { deprecationLogger: logger, ...options });
+		return { rbac, logger };
+	};
+
+	it('should keep saved permission masks valid after a rename', () => {
+		const mask = new RBAC({ preset: before }).getBitPermissionManager()!.createPermissionMask(['post:write']);
+		const { rbac } = createRBAC();
+		const user = { id: 'u1', roles: [], permissionMask: mask };
+
+		expect(rbac.hasPermission(user, 'posts:update')).toBe(true);
+		expect(rbac.hasPermission(user, 'post:write')).toBe(true);
+		expect(rbac.hasPermission(user, 'posts:read')).toBe(false);
+	});
+
+	describe.each([
+		['bit-based', true],
+		['string-based', false],
+	])('%s system', (_name, useBitSystem) => {
+		it('should resolve former names and aliases in checks and role configs', () => {
+			const { rbac } = createRBAC({ useBitSystem });
+			const editor = { id: 'u1', roles: ['editor'] };
+
+			expect(rbac.hasPermission(editor, 'posts:read')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+			expect(rbac.hasPermission(editor, 'posts:view')).toBe(true);
+			expect(rbac.getRolePermissions('editor')).toEqual(['posts:read', 'report:export']);
+			expect(rbac.getRoleDenies('editor')).toEqual(['posts:update']);
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(false);
+			expect(rbac.explain(editor, 'post:write')).toMatchObject({ permission: 'posts:update', deniedBy: 'posts:update' });
+		});
+	});
+
+	describe.each([
+		['bit-based', true],
+		['string-based', false],
+	])('%s system runtime changes', (_name, useBitSystem) => {
+		it('should apply denies written with former names and aliases', () => {
+			const { rbac } = createRBAC({ useBitSystem });
+			const editor = { id: 'u1', roles: ['editor'] };
+			const other = { id: 'u2', roles: ['editor'] };
+
+			rbac.denyPermission('u1', 'posts:view');
+			expect(rbac.getDeniedPermissions('u1')).toEqual(['posts:read']);
+			expect(rbac.hasPermission(editor, 'posts:read')).toBe(false);
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(false);
+			rbac.allowPermission('u1', 'post:read');
+			expect(rbac.hasPermission(editor, 'posts:read')).toBe(true);
+
+			rbac.addGlobalDeny('reports:export');
+			expect(rbac.getGlobalDenies()).toEqual(['report:export']);
+			expect(rbac.hasPermission(other, 'report:export')).toBe(false);
+			rbac.removeGlobalDeny('reports:export');
+			expect(rbac.hasPermission(other, 'report:export')).toBe(true);
+
+			rbac.importDenyList([{ userId: 'u2', permission: 'post:read' }]);
+			expect(rbac.hasPermission(other, 'posts:read')).toBe(false);
+
+			rbac.setRoleDenies('editor', ['posts:view']);
+			expect(rbac.getRoleDenies('editor')).toEqual(['posts:read']);
+			expect(rbac.hasPermission({ id: 'u3', roles: ['editor'] }, 'posts:read')).toBe(false);
+		});
+
+		it('should apply role changes written with former names and aliases', () => {
+			const { rbac } = createRBAC({ useBitSystem });
+			const author = { id: 'u1', roles: ['author'] };
+
+			rbac.createRole('author', ['posts:view', '!post:write']);
+			expect(rbac.getRolePermissions('author')).toEqual(['posts:read']);
+			expect(rbac.getRoleDenies('author')).toEqual(['posts:update']);
+
+			rbac.addPermissionToRole('author', 'reports:export');
+			expect(rbac.hasPermission(author, 'report:export')).toBe(true);
+			rbac.setPermissionCondition('author', 'reports:export', { eq: [{ var: 'resource.owner' }, { var: 'user.id' }] });
+			expect(rbac.getRoleConditions('author')).toHaveProperty(['report:export']);
+			expect(rbac.hasPermission(author, 'report:export', { resource: { owner: 'u2' } })).toBe(false);
+
+			rbac.revokePermission('author', 'post:read');
+			expect(rbac.getRolePermissions('author')).toEqual(['report:export']);
+		});
+
+		it('should resolve direct user grants written with former names and aliases', () => {
+			const { rbac } = createRBAC({ useBitSystem });
+			const user = { id: 'u1', roles: [], permissions: ['post:write'] };
+			const timed = { id: 'u2', roles: [], timedPermissions: [{ permission: 'posts:view', notAfter: Date.now() + 60_000 }] };
+
+			expect(rbac.hasPermission(user, 'posts:update')).toBe(true);
+			expect(rbac.hasPermission(user, 'post:write')).toBe(true);
+			expect(rbac.getUserPermissions(user)).toEqual(['posts:update']);
+			expect(rbac.explain(user, 'posts:update').allowed).toBe(true);
+			expect(rbac.hasPermission(timed, 'posts:read')).toBe(true);
+			expect(rbac.getUserPermissions(timed)).toEqual(['posts:read']);
+		});
+	});
+
+	it('should warn once per deprecated name through the logger', () => {
+		const { rbac, logger } = createRBAC();
+		const editor = { id: 'u1', roles: ['editor'] };
+
+		rbac.hasPermission(editor, 'post:read');
+		rbac.hasPermission(editor, 'post:read');
+		rbac.authorize(editor, 'reports:export');
+		rbac.hasPermission(editor, 'posts:view');
+		rbac.hasPermission(editor, 'posts:read');
+
+		expect(logger.warn.mock.calls).toEqual([
+			["Permission 'post:read' was renamed to 'posts:read'", { name: 'post:read', permission: 'posts:read', message: "Permission 'post:read' was renamed to 'posts:read'" }],
+			["Permission 'report:export' is deprecated: use report:download", expect.objectContaining({ name: 'reports:export' })],
+		]);
+	});
+
+	it('should log every use of a deprecated name to the audit stream', () => {
+		const events: AuditEvent[] = [];
+		const { rbac } = createRBAC({ auditLogger: { log: event => { events.push(event); } } });
+		const editor = { id: 'u1', roles: ['editor'] };
+
+		rbac.hasPermission(editor, 'post:write');
+		rbac.hasPermission(editor, 'post:write');
+
+		expect(events.filter(event => event.type === 'deprecated_permission')).toEqual([
+			expect.objectContaining({
+				userId: 'u1',
+				permission: 'post:write',
+				allowed: false,
+				reason: "Permission 'post:write' was renamed to 'posts:update'",
+				context: { roles: ['editor'], metadata: { resolvedTo: 'posts:update' } },
+			}),
+			expect.objectContaining({ permission: 'post:write' }),
+		]);
+		// The check itself is logged under the current name
+		expect(events.filter(event => event.type === 'permission_check').map(event => event.permission)).toEqual(['posts:update', 'posts:update']);
+	});
+
+	it('should list deprecated names', () => {
+		const { rbac } = createRBAC();
+
+		expect(rbac.getDeprecatedPermissions().map(({ name, permission }) => [name, permission])).toEqual([
+			['post:read', 'posts:read'],
+			['post:write', 'posts:update'],
+			['report:export', 'report:export'],
+			['reports:export', 'report:export'],
+		]);
+		expect(rbac.getPermissionDeprecation('posts:view')).toBeUndefined();
+		expect(rbac.resolvePermission('posts:view')).toBe('posts:read');
+		expect(rbac.resolvePermission('unknown')).toBe('unknown');
+	});
+
+	it('should keep aliases in serialized states and exported configs', () => {
+		const { rbac } = createRBAC();
+		const restored = new RBAC({ deprecationLogger: { warn: () => {} } });
+		restored.fromJSON(rbac.toJSON());
+
+		expect(restored.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:read')).toBe(true);
+		expect(rbac.exportConfig().permissions[0]).toEqual({ name: 'posts:read', bit: 1, renamedFrom: ['post:read'], aliases: ['posts:view'] });
+	});
+
+	it('should accept deprecations from the builder', () => {
+		const logger = { warn: vi.fn() };
+		const rbac = new RBACBuilder()
+			.withDeprecationLogger(logger)
+			.addPermission('posts:update', undefined, { renamedFrom: ['post:write'] })
+			.addRole('editor', ['posts:update'])
+			.build();
+
+		expect(rbac.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:write')).toBe(true);
+		expect(logger.warn).toHaveBeenCalledTimes(1);
+	});
+
+	it('should reject names reused by aliases', () => {
+		const config = (permissions: PresetConfig['permissions']) => ({ ...before, permissions, roles: [] });
+
+		expect(() => RBAC.validateConfig(config([{ name: 'a' }, { name: 'b', aliases: ['a'] }])))
+			.toThrow("Permission 'b' reuses the name of permission 'a': a");
+		expect(() => RBAC.validateConfig(config([{ name: 'a', renamedFrom: ['x'] }, { name: 'b', aliases: ['x'] }])))
+			.toThrow("Permission 'b' reuses the name of permission 'a': x");
+		expect(() => RBAC.validateConfig(config([{ name: 'a', renamedFrom: 'x' as never }])))
+			.toThrow("Permission 'a' must have a 'renamedFrom' array of permission names");
+		expect(() => RBAC.validateConfig({ ...after, roles: [{ name: 'editor', permissions: ['posts:update', '!post:write'] }] }))
+			.toThrow("Role 'editor' both grants and denies permission: posts:update");
+	});
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACBuilder, BitPermissionManager, PermissionGroups } from '../index';
+import type { RBACConfigSchema } from '../index';
+
+describe('Permission Groups', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'post:read' },
+			{ name: 'post:write' },
+			{ name: 'post:publish' },
+			{ name: 'media:upload' },
+			{ name: 'comment:moderate' },
+		],
+		groups: {
+			publishing: ['@contentEditing', 'post:publish'],
+			contentEditing: ['post:read', 'post:write', 'media:*'],
+		},
+		roles: [
+			{ name: 'author', permissions: ['@contentEditing'] },
+			{ name: 'editor', permissions: ['@publishing', 'comment:moderate'] },
+			{ name: 'intern', permissions: ['@contentEditing', '!post:write'] },
+		],
+	};
+
+	describe('config', () => {
+		it('should expand group references into role permissions', () => {
+			const rbac = new RBAC({ config });
+			const author = { id: 'u1', roles: ['author'] };
+
+			expect(rbac.hasPermission(author, 'post:write')).toBe(true);
+			expect(rbac.hasPermission(author, 'media:upload')).toBe(true);
+			expect(rbac.hasPermission(author, 'post:publish')).toBe(false);
+			expect(rbac.getRolePermissions('author')).toEqual(['post:read', 'post:write', 'media:*']);
+		});
+
+		it('should expand nested groups', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.getRolePermissions('editor').sort())
+				.toEqual(['comment:moderate', 'media:*', 'post:publish', 'post:read', 'post:write']);
+			expect(rbac.getRoleGroups('editor')).toEqual(['publishing']);
+		});
+
+		it('should combine groups with deny rules', () => {
+			const rbac = new RBAC({ config });
+			const intern = { id: 'u1', roles: ['intern'] };
+
+			expect(rbac.hasPermission(intern, 'post:read')).toBe(true);
+			expect(rbac.hasPermission(intern, 'post:write')).toBe(false);
+		});
+
+		it('should expand groups in legacy mode and with lazy roles', () => {
+			const author = { id: 'u1', roles: ['author'] };
+
+			expect(new RBAC({ config, useBitSystem: false }).hasPermission(author, 'post:write')).toBe(true);
+			expect(new RBAC({ config, lazyRoles: true }).hasPermission(author, 'post:write')).toBe(true);
+		});
+
+		it('should build groups with the builder', () => {
+			const rbac = new RBACBuilder()
+				.addPermission('post:read')
+				.addPermission('post:write')
+				.withGroup('contentEditing', ['post:read', 'post:write'])
+				.addRole('author', ['@contentEditing'])
+				.build();
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'post:write')).toBe(true);
+		});
+	});
+
+	describe('validation', () => {
+		it('should reject unknown group references', () => {
+			expect(() => RBAC.validateConfig({ ...config, roles: [{ name: 'author', permissions: ['@missing'] }] }))
+				.toThrow("Role 'author' references unknown permission group: @missing");
+			expect(() => RBAC.validateConfig({ ...config, groups: { a: ['@missing'] } }))
+				.toThrow("Permission group 'a' references unknown group: @missing");
+		});
+
+		it('should reject undefined permissions inside groups', () => {
+			expect(() => RBAC.validateConfig({ ...config, groups: { ...config.groups, contentEditing: ['post:delete'] } }))
+				.toThrow("Role 'author' references undefined permission: post:delete");
+		});
+
+		it('should detect group cycles', () => {
+			expect(() => PermissionGroups.validate({ a: ['@b'], b: ['@c'], c: ['@a'] }))
+				.toThrow('Circular permission group reference detected: @a -> @b -> @c -> @a');
+		});
+	});
+
+	describe('BitPermissionManager', () => {
+		it('should expand group references in role masks', () => {
+			const manager = new BitPermissionManager();
+			manager.registerPermission('post:read');
+			manager.registerPermission('post:write');
+			manager.registerGroup('contentEditing', ['post:read', 'post:write']);
+			manager.registerRole('author', ['@contentEditing']);
+
+			expect(manager.getRolePermissions('author')).toEqual(['post:read', 'post:write']);
+			expect(manager.serialize().groups).toEqual({ contentEditing: ['post:read', 'post:write'] });
+		});
+	});
+
+	describe('runtime changes', () => {
+		it('should add group permissions to every role referencing the group', () => {
+			const rbac = new RBAC({ config });
+			const author = { id: 'u1', roles: ['author'] };
+			const editor = { id: 'u2', roles: ['editor'] };
+			expect(rbac.hasPermission(author, 'post:delete')).toBe(false);
+
+			rbac.addPermissionToGroup('contentEditing', 'post:delete');
+
+			expect(rbac.getGroup('contentEditing')).toContain('post:delete');
+			expect(rbac.hasPermission(author, 'post:delete')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:delete')).toBe(true);
+		});
+
+		it('should revoke removed permissions unless another group still grants them', () => {
+			const rbac = new RBAC({ config });
+			rbac.createGroup('reviewing', ['post:read']);
+			rbac.addPermissionToRole('author', '@reviewing');
+
+			rbac.removePermissionFromGroup('contentEditing', 'post:read');
+			rbac.removePermissionFromGroup('contentEditing', 'post:write');
+
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'post:read')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u1', roles: ['author'] }, 'post:write')).toBe(false);
+		});
+
+		it('should grant and revoke whole groups on roles', () => {
+			const rbac = new RBAC({ config });
+			rbac.createRole('moderator', ['comment:moderate']);
+			const moderator = { id: 'u1', roles: ['moderator'] };
+
+			rbac.addPermissionToRole('moderator', '@contentEditing');
+			expect(rbac.hasPermission(moderator, 'post:write')).toBe(true);
+
+			rbac.revokePermission('moderator', '@contentEditing');
+			expect(rbac.getRolePermissions('moderator')).toEqual(['comment:moderate']);
+			expect(rbac.getRoleGroups('moderator')).toEqual([]);
+		});
+
+		it.each([
+			['bit-based', true],
+			['string-based', false],
+		])('should keep grants a role declares besides its groups (%s)', (_name, useBitSystem) => {
+			const create = () => {
+				const rbac = new RBAC({ useBitSystem });
+				rbac.createGroup('g', ['a:read', 'a:write']);
+				rbac.createRole('r', ['@g', 'a:write']);
+				return rbac;
+			};
+			const user = { id: 'u1', roles: ['r'] };
+
+			const edited = create();
+			edited.removePermissionFromGroup('g', 'a:write');
+			expect(edited.hasPermission(user, 'a:write')).toBe(true);
+			expect(edited.hasPermission(user, 'a:read')).toBe(true);
+
+			const revoked = create();
+			revoked.revokePermission('r', '@g');
+			expect(revoked.hasPermission(user, 'a:write')).toBe(true);
+			expect(revoked.hasPermission(user, 'a:read')).toBe(false);
+
+			const added = create();
+			added.createRole('s', ['a:write']);
+			added.addPermissionToRole('s', '@g');
+			added.revokePermission('s', '@g');
+			expect(added.getRolePermissions('s')).toEqual(['a:write']);
+
+			const restored = new RBAC({ useBitSystem });
+			restored.deserialize(create().serialize());
+			restored.removePermissionFromGroup('g', 'a:write');
+			expect(restored.hasPermission(user, 'a:write')).toBe(true);
+
+			expect(create().exportConfig().roles).toContainEqual(expect.objectContaining({ name: 'r', permissions: ['@g', 'a:write'] }));
+		});
+
+		it('should invalidate cached results of affected roles', () => {
+			const rbac = new RBAC({ config, enableCache: true });
+			const author = { id: 'u1', roles: ['author'] };
+			expect(rbac.hasPermission(author, 'comment:moderate')).toBe(false);
+
+			rbac.addPermissionToGroup('contentEditing', 'comment:moderate');
+
+			expect(rbac.hasPermission(author, 'comment:moderate')).toBe(true);
+		});
+
+		it('should throw for unknown groups', () => {
+			const rbac = new RBAC({ config });
+
+			expect(() => rbac.addPermissionToGroup('missing', 'post:read')).toThrow('Unknown permission group: @missing');
+			expect(() => rbac.createRole('reader', ['@missing'])).toThrow('Unknown permission group: @missing');
+		});
+
+		it('should keep group references across serialization', () => {
+			const rbac = new RBAC({ config });
+			const restored = new RBAC();
+			restored.deserialize(rbac.serialize());
+
+			restored.addPermissionToGroup('contentEditing', 'post:delete');
+
+			expect(restored.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:delete')).toBe(true);
+		});
+	});
+});
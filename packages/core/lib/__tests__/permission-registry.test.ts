@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC } from '../index';
+import type { PresetConfig } from '../index';
+
+describe('Permission Registry', () => {
+	const config: PresetConfig = {
+		name: 'blog',
+		version: '1.0.0',
+		permissions: [
+			{ name: 'post:read', description: 'Read published posts', metadata: { public: true } },
+			{ name: 'post:write', description: 'Create and edit drafts' },
+			{ name: 'post:delete' },
+			{ name: 'comment:hide', resource: 'moderation', action: 'hide-comment', description: 'Hide abusive comments' },
+			{ name: 'billing' },
+		],
+		roles: [
+			{ name: 'viewer', permissions: ['post:read'], description: 'Anonymous readers' },
+			{ name: 'editor', permissions: ['post:write', '!post:delete'], inherits: ['viewer'], level: 5 },
+			{ name: 'admin', permissions: ['*'], metadata: { owner: 'platform' } },
+			{ name: 'moderator', permissions: ['comment:*'] },
+		],
+	};
+
+	describe.each([
+		['bit-based', true, false],
+		['string-based', false, false],
+		['lazy', true, true],
+	])('%s system', (_name, useBitSystem, lazyRoles) => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config), { useBitSystem, lazyRoles });
+
+		it('should keep every configured permission field', () => {
+			expect(rbac.getPermissionInfo('post:read')).toMatchObject({
+				name: 'post:read',
+				resource: 'post',
+				action: 'read',
+				description: 'Read published posts',
+				metadata: { public: true },
+			});
+			expect(rbac.getPermissionInfo('comment:hide')).toMatchObject({ resource: 'moderation', action: 'hide-comment' });
+			expect(rbac.getPermissionInfo('billing')).not.toHaveProperty('resource');
+			expect(rbac.getPermissionInfo('unknown:permission')).toBeUndefined();
+		});
+
+		it('should keep every configured role field', () => {
+			expect(rbac.getRoleInfo('viewer')).toEqual({ name: 'viewer', permissions: ['post:read'], description: 'Anonymous readers' });
+			expect(rbac.getRoleInfo('editor')).toEqual({
+				name: 'editor',
+				permissions: ['post:write'],
+				inherits: ['viewer'],
+				deny: ['post:delete'],
+				level: 5,
+			});
+			expect(rbac.getRoleInfo('admin')?.metadata).toEqual({ owner: 'platform' });
+			expect(rbac.getRoleInfo('guest')).toBeUndefined();
+		});
+
+		it('should find roles granting a permission through inheritance and wildcards', () => {
+			expect(rbac.getRolesGrantingPermission('post:read')).toEqual(['viewer', 'editor', 'admin']);
+			expect(rbac.getRolesGrantingPermission('comment:delete')).toEqual(['admin', 'moderator']);
+			expect(rbac.getRolesDenyingPermission('post:delete')).toEqual(['editor']);
+		});
+	});
+
+	it('should list permissions by resource', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config));
+		rbac.createRole('auditor', ['audit:read']);
+
+		const byResource = rbac.listPermissionsByResource();
+
+		expect(Object.keys(byResource)).toEqual(['post', 'moderation', '', 'audit']);
+		expect(byResource.post.map(permission => permission.name)).toEqual(['post:read', 'post:write', 'post:delete']);
+		expect(byResource[''].map(permission => permission.name)).toEqual(['billing']);
+		// Wildcard grants are patterns, not permissions
+		expect(Object.values(byResource).flat().some(permission => permission.name.includes('*'))).toBe(false);
+	});
+
+	it('should search permissions by text or wildcard pattern', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config));
+
+		expect(rbac.searchPermissions('DRAFT').map(permission => permission.name)).toEqual(['post:write']);
+		expect(rbac.searchPermissions('moderation').map(permission => permission.name)).toEqual(['comment:hide']);
+		expect(rbac.searchPermissions('post:*').map(permission => permission.name)).toEqual(['post:read', 'post:write', 'post:delete']);
+		expect(rbac.searchPermissions('nothing')).toEqual([]);
+	});
+
+	it('should reflect roles changed at runtime', () => {
+		const rbac = RBAC.fromJSONConfig(JSON.stringify(config));
+		rbac.grantPermission('viewer', 'post:delete');
+		rbac.setRoleDenies('admin', ['billing']);
+
+		expect(rbac.getRolesGrantingPermission('post:delete')).toEqual(['viewer', 'editor', 'admin']);
+		expect(rbac.getRolesDenyingPermission('billing')).toEqual(['admin']);
+		expect(rbac.getRoleInfo('viewer')?.permissions).toEqual(['post:read', 'post:delete']);
+	});
+});
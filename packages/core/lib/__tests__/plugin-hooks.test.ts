@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RBAC } from '../index';
+import type { RBACPlugin, RBACPluginHook } from '../index';
+
+describe('Plugin Lifecycle Hooks', () => {
+	let rbac: RBAC;
+	let plugin: RBACPlugin & Required<Pick<RBACPlugin, RBACPluginHook>>;
+
+	const createPlugin = () => ({
+		name: 'recorder',
+		onPermissionCheck: vi.fn(),
+		onRoleAdded: vi.fn(),
+		onPermissionGranted: vi.fn(),
+		onPermissionRevoked: vi.fn(),
+		onRoleUpdated: vi.fn(),
+		onRoleEvaluated: vi.fn(),
+		onPermissionRegistered: vi.fn(),
+		onGroupUpdated: vi.fn(),
+		onPermissionDenied: vi.fn(),
+		onPermissionAllowed: vi.fn(),
+		onUserUpdated: vi.fn(),
+		onGlobalDenyChanged: vi.fn(),
+		onStateLoaded: vi.fn(),
+	});
+
+	beforeEach(async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		rbac = new RBAC();
+		rbac.createRole('viewer', ['post:read']);
+		plugin = createPlugin();
+		await rbac.registerPlugin(plugin);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should pass permission checks as audit events', () => {
+		rbac.hasPermission({ id: 'u1', roles: ['viewer'] }, 'post:read');
+
+		expect(plugin.onPermissionCheck).toHaveBeenCalledWith(expect.objectContaining({
+			type: 'permission_check',
+			userId: 'u1',
+			permission: 'post:read',
+			allowed: true,
+			context: { roles: ['viewer'] },
+		}));
+	});
+
+	describe('role changes', () => {
+		it('should report created and recreated roles', () => {
+			rbac.createRole('editor', ['post:write', '!post:delete'], ['viewer']);
+			rbac.createRole('editor', ['post:write']);
+
+			const [created, recreated] = plugin.onRoleAdded.mock.calls;
+			expect(created[0]).toBe('editor');
+			expect(created[1]).toEqual(['post:write', '!post:delete']);
+			expect(created[2]).toMatchObject({
+				type: 'created',
+				role: 'editor',
+				before: undefined,
+				after: { name: 'editor', permissions: ['post:write'], inherits: ['viewer'], deny: ['post:delete'], conditions: {} },
+			});
+			expect(recreated[2].before).toEqual(created[2].after);
+			expect(recreated[2].after.deny).toEqual([]);
+			// Deny rules set by createRole are part of the created event
+			expect(plugin.onRoleUpdated).not.toHaveBeenCalled();
+		});
+
+		it('should report granted and revoked permissions with before and after snapshots', () => {
+			rbac.grantPermission('viewer', 'post:comment');
+			rbac.revokePermission('viewer', 'post:read');
+
+			expect(plugin.onPermissionGranted).toHaveBeenCalledWith(expect.objectContaining({
+				type: 'granted',
+				role: 'viewer',
+				permission: 'post:comment',
+				before: expect.objectContaining({ permissions: ['post:read'] }),
+				after: expect.objectContaining({ permissions: ['post:read', 'post:comment'] }),
+			}));
+			expect(plugin.onPermissionRevoked).toHaveBeenCalledWith(expect.objectContaining({
+				type: 'revoked',
+				permission: 'post:read',
+				after: expect.objectContaining({ permissions: ['post:comment'] }),
+			}));
+		});
+
+		it('should not report changes that change nothing', () => {
+			rbac.revokePermission('viewer', 'post:delete');
+			expect(rbac.removePermissionCondition('viewer', 'post:read')).toBe(false);
+
+			expect(plugin.onPermissionRevoked).not.toHaveBeenCalled();
+			expect(plugin.onRoleUpdated).not.toHaveBeenCalled();
+		});
+
+		it('should report inheritance, condition and deny rule updates', () => {
+			rbac.createRole('editor', ['post:write']);
+			rbac.setRoleInheritance('editor', ['viewer']);
+			rbac.setPermissionCondition('editor', 'post:write', { eq: [{ var: 'user.id' }, 'u1'] });
+			rbac.setRoleDenies('editor', ['post:delete']);
+
+			expect(plugin.onRoleUpdated.mock.calls.map(([event]) => event.type)).toEqual(['inheritance', 'condition', 'deny']);
+			const [inheritance, condition] = plugin.onRoleUpdated.mock.calls.map(([event]) => event);
+			expect(inheritance.after.inherits).toEqual(['viewer']);
+			expect(condition.permission).toBe('post:write');
+			expect(condition.after.conditions).toHaveProperty('post:write');
+		});
+
+		it('should report revoking a conditional grant once', () => {
+			rbac.setPermissionCondition('viewer', 'post:read', { eq: [{ var: 'user.id' }, 'u1'] });
+			plugin.onRoleUpdated.mockClear();
+			rbac.revokePermission('viewer', 'post:read');
+
+			expect(plugin.onPermissionRevoked).toHaveBeenCalledTimes(1);
+			expect(plugin.onRoleUpdated).not.toHaveBeenCalled();
+		});
+
+		it('should report group changes and what roles gain through them', () => {
+			rbac.createGroup('moderation', ['comment:hide']);
+			rbac.grantPermission('viewer', '@moderation');
+			expect(plugin.onPermissionGranted).toHaveBeenCalledTimes(1);
+			expect(plugin.onPermissionGranted.mock.calls[0][0].permission).toBe('@moderation');
+
+			rbac.addPermissionToGroup('moderation', 'comment:delete');
+
+			expect(plugin.onGroupUpdated).toHaveBeenLastCalledWith(expect.objectContaining({
+				group: 'moderation',
+				before: ['comment:hide'],
+				after: ['comment:hide', 'comment:delete'],
+			}));
+			expect(plugin.onPermissionGranted).toHaveBeenLastCalledWith(expect.objectContaining({
+				role: 'viewer',
+				permission: 'comment:delete',
+			}));
+		});
+
+		it('should report lazy roles when they are evaluated', async () => {
+			const lazy = new RBAC({
+				lazyRoles: true,
+				config: {
+					name: 'lazy',
+					version: '1.0.0',
+					permissions: [{ name: 'post:read' }, { name: 'post:write' }],
+					roles: [
+						{ name: 'viewer', permissions: ['post:read'] },
+						{ name: 'editor', permissions: ['post:write'], inherits: ['viewer'] },
+					],
+				},
+			});
+			await lazy.registerPlugin(plugin);
+
+			lazy.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:read');
+
+			expect(plugin.onRoleEvaluated.mock.calls.map(([event]) => event.role)).toEqual(['editor', 'viewer']);
+			expect(plugin.onRoleEvaluated.mock.calls[0][0]).toMatchObject({
+				type: 'evaluated',
+				after: { permissions: ['post:write'], inherits: ['viewer'] },
+			});
+		});
+	});
+
+	describe('user changes', () => {
+		it('should report denied and allowed permissions', () => {
+			rbac.denyPermission('u1', 'post:read', { reason: 'Spam' });
+			rbac.allowPermission('u1', 'post:read');
+			rbac.denyPermission('u1', 'post:write');
+			rbac.clearDeniedPermissions('u1');
+
+			expect(plugin.onPermissionDenied).toHaveBeenCalledWith(expect.objectContaining({
+				type: 'denied',
+				userId: 'u1',
+				permission: 'post:read',
+				before: { userId: 'u1', denies: [], bindings: [] },
+				after: { userId: 'u1', denies: [{ userId: 'u1', permission: 'post:read', reason: 'Spam' }], bindings: [] },
+			}));
+			expect(plugin.onPermissionAllowed.mock.calls.map(([event]) => event.type)).toEqual(['allowed', 'cleared']);
+		});
+
+		it('should report role bindings and imported denies', () => {
+			rbac.bindRole('u1', 'viewer', { type: 'project', id: '42' });
+			rbac.importDenyList([
+				{ userId: 'u1', permission: 'post:read' },
+				{ userId: 'u2', permission: 'post:read' },
+			]);
+
+			const events = plugin.onUserUpdated.mock.calls.map(([event]) => event);
+			expect(events.map(event => [event.type, event.userId])).toEqual([['bound', 'u1'], ['imported', 'u1'], ['imported', 'u2']]);
+			expect(events[0].after.bindings).toEqual([{ role: 'viewer', scope: { type: 'project', id: '42' } }]);
+			expect(events[2].before.denies).toEqual([]);
+		});
+
+		it('should report pruned expired denies', () => {
+			rbac.denyPermission('u1', 'post:read', { expiresAt: Date.now() - 1 });
+			rbac.denyPermission('u1', 'post:write');
+			rbac.denyPermission('u2', 'post:write');
+			plugin.onUserUpdated.mockClear();
+
+			expect(rbac.pruneExpiredDenies()).toBe(1);
+
+			expect(plugin.onUserUpdated).toHaveBeenCalledTimes(1);
+			expect(plugin.onUserUpdated).toHaveBeenCalledWith(expect.objectContaining({
+				type: 'expired',
+				userId: 'u1',
+				before: {
+					userId: 'u1',
+					denies: [
+						{ userId: 'u1', permission: 'post:read', expiresAt: expect.any(Number) },
+						{ userId: 'u1', permission: 'post:write' },
+					],
+					bindings: [],
+				},
+				after: { userId: 'u1', denies: [{ userId: 'u1', permission: 'post:write' }], bindings: [] },
+			}));
+		});
+
+		it('should report global deny rules', () => {
+			rbac.addGlobalDeny('post:delete');
+			rbac.removeGlobalDeny('post:delete');
+
+			expect(plugin.onGlobalDenyChanged.mock.calls.map(([event]) => [event.type, event.before, event.after])).toEqual([
+				['added', [], ['post:delete']],
+				['removed', ['post:delete'], []],
+			]);
+		});
+	});
+
+	it('should report loaded states once', () => {
+		const source = new RBAC();
+		source.createRole('admin', ['*']);
+		source.denyPermission('u1', 'post:read');
+
+		rbac.fromJSON(source.toJSON());
+
+		expect(plugin.onStateLoaded).toHaveBeenCalledTimes(1);
+		const [event] = plugin.onStateLoaded.mock.calls[0];
+		expect(event.before.bitPermissions.roles).toHaveProperty('viewer');
+		expect(event.after.bitPermissions.roles).toHaveProperty('admin');
+		expect(plugin.onUserUpdated).not.toHaveBeenCalled();
+	});
+
+	it('should log plugin errors without failing the mutation', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		await rbac.registerPlugin({
+			name: 'broken',
+			onPermissionGranted: () => {
+				throw new Error('audit DB down');
+			},
+		});
+
+		expect(() => rbac.grantPermission('viewer', 'post:write')).not.toThrow();
+		await vi.waitFor(() => expect(error).toHaveBeenCalledWith('Plugin error in onPermissionGranted:', expect.any(Error)));
+		expect(rbac.getRolePermissions('viewer')).toContain('post:write');
+	});
+});
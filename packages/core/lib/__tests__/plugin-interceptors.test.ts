@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RBAC, RBACBuilder } from '../index';
+import type { RBACPlugin } from '../index';
+
+describe('Plugin Interceptors', () => {
+	const editor = { id: 'u1', roles: ['editor'] };
+	const guest = { id: 'u2', roles: [] };
+	let rbac: RBAC;
+
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		rbac = new RBAC({ enableCache: true });
+		rbac.createRole('editor', ['post:read', 'post:write']);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('beforeCheck', () => {
+		it('should deny checks without evaluating the policy', async () => {
+			await rbac.registerPlugin({
+				name: 'maintenance',
+				beforeCheck: ({ permission }) =>
+					permission.endsWith(':write') ? { decision: 'deny', reason: 'Read-only maintenance window' } : undefined,
+			});
+
+			expect(rbac.authorize(editor, 'post:write')).toMatchObject({ allowed: false, reason: 'Read-only maintenance window' });
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+		});
+
+		it('should allow checks the policy would deny', async () => {
+			await rbac.registerPlugin({
+				name: 'break-glass',
+				beforeCheck: ({ user }) => (user.id === 'u2' ? { decision: 'allow' } : { decision: 'abstain' }),
+			});
+
+			expect(rbac.hasPermission(guest, 'post:write')).toBe(true);
+			expect(rbac.hasPermission({ id: 'u3', roles: [] }, 'post:write')).toBe(false);
+		});
+
+		it('should pass the check with resolved roles and context', async () => {
+			const beforeCheck = vi.fn();
+			await rbac.registerPlugin({ name: 'spy', beforeCheck });
+			rbac.bindRole('u2', 'editor', { type: 'project', id: '42' });
+			const context = { user: guest, scope: { type: 'project', id: '42' } };
+
+			rbac.hasPermission(guest, 'post:read', context);
+
+			expect(beforeCheck).toHaveBeenCalledWith({
+				user: expect.objectContaining({ id: 'u2', roles: ['editor'] }),
+				permission: 'post:read',
+				context,
+			});
+		});
+
+		it('should report intercepted decisions to audit hooks', async () => {
+			const onPermissionCheck = vi.fn();
+			await rbac.registerPlugin({ name: 'lockout', beforeCheck: () => ({ decision: 'deny' }), onPermissionCheck });
+
+			rbac.hasPermission(editor, 'post:read');
+
+			expect(onPermissionCheck).toHaveBeenCalledWith(expect.objectContaining({
+				allowed: false,
+				reason: "Denied by plugin 'lockout'",
+			}));
+		});
+	});
+
+	describe('afterCheck', () => {
+		it('should override decisions, including cached ones', async () => {
+			let locked = false;
+			await rbac.registerPlugin({
+				name: 'emergency-lockout',
+				afterCheck: (_check, result) => (locked && result.allowed ? { decision: 'deny', reason: 'Emergency lockout' } : undefined),
+			});
+
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+			locked = true;
+			expect(rbac.authorize(editor, 'post:read')).toMatchObject({ allowed: false, reason: 'Emergency lockout' });
+			locked = false;
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+		});
+
+		it('should pass each plugin the result of the previous ones', async () => {
+			const seen: boolean[] = [];
+			await rbac.registerPlugin({ name: 'first', priority: 10, afterCheck: () => ({ decision: 'deny' }) });
+			await rbac.registerPlugin({
+				name: 'second',
+				afterCheck: (_check, result) => {
+					seen.push(result.allowed);
+				},
+			});
+
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(false);
+			expect(seen).toEqual([false]);
+		});
+
+		it('should run after beforeCheck decisions', async () => {
+			await rbac.registerPlugin({ name: 'break-glass', beforeCheck: () => ({ decision: 'allow' }) });
+			await rbac.registerPlugin({ name: 'lockout', afterCheck: () => ({ decision: 'deny', reason: 'Locked' }) });
+
+			expect(rbac.authorize(guest, 'post:read')).toMatchObject({ allowed: false, reason: 'Locked' });
+		});
+	});
+
+	describe('explain', () => {
+		it('should report decisions made by beforeCheck plugins', async () => {
+			await rbac.registerPlugin({ name: 'lockout', beforeCheck: () => ({ decision: 'deny', reason: 'Account locked' }) });
+
+			const decision = rbac.explain(editor, 'post:read');
+
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(false);
+			expect(decision).toMatchObject({ allowed: false, source: 'plugin', reason: 'Account locked', fromCache: false });
+			expect(decision.steps[0]).toEqual({ check: 'before-check', matched: true, detail: 'Account locked' });
+		});
+
+		it('should report overrides by afterCheck plugins', async () => {
+			await rbac.registerPlugin({ name: 'override', afterCheck: ({ permission }) => permission === 'post:delete' ? { decision: 'allow' } : undefined });
+
+			const overridden = rbac.explain(editor, 'post:delete');
+			const unchanged = rbac.explain(editor, 'post:read');
+
+			expect(overridden).toMatchObject({ allowed: true, source: 'plugin' });
+			expect(overridden.steps.at(-1)).toEqual({ check: 'after-check', matched: true, detail: 'Allowed by an afterCheck plugin' });
+			expect(unchanged).toMatchObject({ allowed: true, source: 'role-bit' });
+			expect(unchanged.steps.at(-1)).toMatchObject({ check: 'after-check', matched: false });
+		});
+	});
+
+	describe('ordering', () => {
+		const recorder = (order: string[], name: string, options: Partial<RBACPlugin> = {}): RBACPlugin => ({
+			name,
+			...options,
+			beforeCheck: () => {
+				order.push(name);
+			},
+		});
+
+		it('should run higher priorities first, ties in registration order', async () => {
+			const order: string[] = [];
+			await rbac.registerPlugin(recorder(order, 'a'));
+			await rbac.registerPlugin(recorder(order, 'b', { priority: 5 }));
+			await rbac.registerPlugin(recorder(order, 'c'));
+
+			rbac.hasPermission(editor, 'post:read');
+
+			expect(order).toEqual(['b', 'a', 'c']);
+			expect(rbac.getAllPlugins().map(plugin => plugin.name)).toEqual(['b', 'a', 'c']);
+		});
+
+		it('should run plugins after the plugins in their runAfter', async () => {
+			const order: string[] = [];
+			await rbac.registerPlugin(recorder(order, 'audit', { priority: 10, runAfter: ['rate-limit'] }));
+			await rbac.registerPlugin(recorder(order, 'rate-limit'));
+
+			rbac.hasPermission(editor, 'post:read');
+
+			expect(order).toEqual(['rate-limit', 'audit']);
+		});
+
+		it('should stop at the first decision', async () => {
+			const order: string[] = [];
+			await rbac.registerPlugin({ name: 'deny', priority: 1, beforeCheck: () => ({ decision: 'deny' }) });
+			await rbac.registerPlugin(recorder(order, 'later'));
+
+			rbac.hasPermission(editor, 'post:read');
+
+			expect(order).toEqual([]);
+		});
+
+		it('should reject ordering cycles', async () => {
+			await rbac.registerPlugin({ name: 'a', runAfter: ['b'] });
+
+			await expect(rbac.registerPlugin({ name: 'b', runAfter: ['a'] })).rejects.toThrow('Plugin ordering cycle between: a, b');
+			expect(rbac.getPlugin('b')).toBeUndefined();
+		});
+	});
+
+	describe('failures', () => {
+		const failing: RBACPlugin = {
+			name: 'rate-limit',
+			beforeCheck: () => {
+				throw new Error('Redis unavailable');
+			},
+		};
+
+		beforeEach(() => {
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+		});
+
+		it('should fail closed by default', async () => {
+			await rbac.registerPlugin(failing);
+
+			expect(rbac.authorize(editor, 'post:read')).toMatchObject({
+				allowed: false,
+				reason: "Plugin 'rate-limit' failed: Redis unavailable",
+			});
+			expect(console.error).toHaveBeenCalledWith('Plugin error in rate-limit.beforeCheck:', expect.any(Error));
+		});
+
+		it('should ignore failing plugins when failing open', async () => {
+			const open = new RBACBuilder().addPermission('post:read').addRole('editor', ['post:read']).withPluginFailurePolicy('fail-open').build();
+			await open.registerPlugin(failing);
+
+			expect(open.hasPermission(editor, 'post:read')).toBe(true);
+		});
+
+		it('should let plugins override the failure policy', async () => {
+			await rbac.registerPlugin({ ...failing, failurePolicy: 'fail-open' });
+
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+		});
+
+		it('should treat async and invalid verdicts as failures', async () => {
+			await rbac.registerPlugin({ name: 'async', afterCheck: (async () => ({ decision: 'allow' })) as unknown as RBACPlugin['afterCheck'] });
+			expect(rbac.authorize(editor, 'post:read').reason).toBe("Plugin 'async' failed: afterCheck must be synchronous");
+
+			await rbac.unregisterPlugin('async');
+			await rbac.registerPlugin({ name: 'typo', beforeCheck: () => ({ decision: 'permit' }) as unknown as undefined });
+			expect(rbac.authorize(editor, 'post:read').reason).toBe("Plugin 'typo' failed: Invalid decision: permit");
+		});
+	});
+});
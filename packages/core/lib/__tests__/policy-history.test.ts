@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RBAC, RBACBuilder, MemoryRBACStore, PolicyHistory } from '../index';
+
+describe('Policy History', () => {
+	const editor = { id: 'u1', roles: ['editor'] };
+
+	describe.each([
+		['bit-based', true],
+		['string-based', false],
+	])('%s system', (_name, useBitSystem) => {
+		let rbac: RBAC;
+
+		beforeEach(() => {
+			rbac = new RBAC({ useBitSystem, history: true });
+			rbac.createRole('viewer', ['post:read']);
+			rbac.createRole('editor', ['post:write'], ['viewer']);
+			rbac.saveVersion({ author: 'alice', message: 'Initial policy' });
+		});
+
+		it('should number versions and keep author and message', () => {
+			rbac.grantPermission('editor', 'post:publish');
+			const version = rbac.saveVersion({ author: 'bob' });
+
+			expect(version).toMatchObject({ version: 2, author: 'bob', timestamp: expect.any(Number) });
+			expect(version).not.toHaveProperty('message');
+			expect(rbac.getHistory().map(entry => [entry.version, entry.author, entry.message])).toEqual([
+				[1, 'alice', 'Initial policy'],
+				[2, 'bob', undefined],
+			]);
+			expect(rbac.getVersion(1)?.state).not.toHaveProperty('history');
+			expect(rbac.getVersion(3)).toBeUndefined();
+		});
+
+		it('should diff roles, permissions, denies and levels', () => {
+			rbac.createRole('moderator', ['comment:hide']);
+			rbac.revokePermission('editor', 'post:write');
+			rbac.grantPermission('editor', 'post:publish');
+			rbac.setRoleDenies('viewer', ['post:delete']);
+			rbac.denyPermission('u1', 'post:read');
+			rbac.addGlobalDeny('admin:access');
+			rbac.getRoleHierarchy().setRoleLevel('editor', 5);
+			rbac.saveVersion();
+
+			expect(rbac.diff(1, 2)).toEqual({
+				from: 1,
+				to: 2,
+				roles: { added: ['moderator'], removed: [] },
+				permissions: {
+					added: [{ role: 'editor', permission: 'post:publish' }, { role: 'moderator', permission: 'comment:hide' }],
+					removed: [{ role: 'editor', permission: 'post:write' }],
+				},
+				denies: {
+					added: [
+						{ type: 'role', role: 'viewer', permission: 'post:delete' },
+						{ type: 'user', userId: 'u1', permission: 'post:read' },
+						{ type: 'global', permission: 'admin:access' },
+					],
+					removed: [],
+				},
+				levels: [{ role: 'editor', after: 5 }],
+			});
+
+			const reverse = rbac.diff(2, 1);
+			expect(reverse.roles).toEqual({ added: [], removed: ['moderator'] });
+			expect(reverse.denies.removed).toHaveLength(3);
+			expect(reverse.levels).toEqual([{ role: 'editor', before: 5 }]);
+		});
+
+		it('should diff against the live policy', () => {
+			rbac.grantPermission('viewer', 'post:comment');
+
+			expect(rbac.diff(1).to).toBe('current');
+			expect(rbac.diff(1).permissions.added).toEqual([{ role: 'viewer', permission: 'post:comment' }]);
+			expect(rbac.diff('current', 1).permissions.removed).toEqual([{ role: 'viewer', permission: 'post:comment' }]);
+		});
+
+		it('should roll back to an earlier version and record it', () => {
+			rbac.revokePermission('editor', 'post:write');
+			rbac.setRoleInheritance('editor', []);
+			rbac.denyPermission('u1', 'post:read');
+			rbac.saveVersion({ message: 'Bad change' });
+
+			const version = rbac.rollback(1, { author: 'carol' });
+
+			expect(version).toMatchObject({ version: 3, author: 'carol', message: 'Rollback to version 1' });
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+			expect(rbac.getHistory()).toHaveLength(3);
+			expect(rbac.diff(1, 3).roles).toEqual({ added: [], removed: [] });
+			expect(rbac.diff(1, 3).denies).toEqual({ added: [], removed: [] });
+		});
+	});
+
+	it('should reject unknown versions', () => {
+		const rbac = new RBAC({ history: true });
+
+		expect(() => rbac.rollback(1)).toThrow('Unknown policy version: 1');
+		expect(() => rbac.diff(1)).toThrow('Unknown policy version: 1');
+	});
+
+	it('should require history to be enabled', () => {
+		const rbac = new RBAC();
+
+		expect(() => rbac.saveVersion()).toThrow('Policy history is not enabled');
+		expect(() => rbac.getHistory()).toThrow('Policy history is not enabled');
+	});
+
+	it('should keep the latest maxVersions versions', () => {
+		const rbac = new RBACBuilder().withHistory({ maxVersions: 2 }).build();
+		rbac.saveVersion();
+		rbac.saveVersion();
+		rbac.saveVersion();
+
+		expect(rbac.getHistory().map(entry => entry.version)).toEqual([2, 3]);
+		expect(() => new RBAC({ history: { maxVersions: 0 } })).toThrow('maxVersions must be a positive integer, got: 0');
+	});
+
+	it('should serialize the history with the state', async () => {
+		const store = new MemoryRBACStore();
+		const rbac = new RBAC({ history: true, store });
+		rbac.createRole('viewer', ['post:read']);
+		rbac.saveVersion({ author: 'alice' });
+		rbac.grantPermission('viewer', 'post:comment');
+		rbac.saveVersion({ author: 'bob' });
+		await rbac.flushStore();
+
+		const restored = await RBAC.fromStore(store, { history: true });
+
+		expect(restored.getHistory().map(entry => entry.author)).toEqual(['alice', 'bob']);
+		expect(restored.saveVersion().version).toBe(3);
+		restored.rollback(1);
+		expect(restored.getRolePermissions('viewer')).toEqual(['post:read']);
+	});
+
+	it('should reject malformed histories', () => {
+		const history = new PolicyHistory();
+
+		expect(() => history.load({ versions: [{ version: 1 }], nextVersion: 2 } as never)).toThrow('Invalid policy version at index 0');
+	});
+});
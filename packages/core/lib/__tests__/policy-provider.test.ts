@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RBAC, RBACBuilder, InMemoryPolicyProvider } from '../index';
+import type { RoleConfig } from '../index';
+
+describe('Policy Providers', () => {
+	const roles: RoleConfig[] = [
+		{ name: 'viewer', permissions: ['post:read'] },
+		{ name: 'editor', permissions: ['post:write'], inherits: ['viewer'] },
+		{ name: 'moderator', permissions: ['comment:*', '!comment:purge'] },
+	];
+
+	const createProvider = () => new InMemoryPolicyProvider({
+		roles,
+		userRoles: { alice: ['editor'], bob: ['moderator'] },
+	});
+
+	describe('async checks', () => {
+		it('should load user roles and role definitions on demand', async () => {
+			const rbac = new RBAC({ policyProvider: createProvider() });
+			const alice = { id: 'alice', roles: [] };
+
+			expect(rbac.getRoles()).toEqual([]);
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(true);
+			expect(await rbac.hasPermissionAsync(alice, 'post:read')).toBe(true);
+			expect(await rbac.hasPermissionAsync(alice, 'post:delete')).toBe(false);
+
+			expect(rbac.getRoles().sort()).toEqual(['editor', 'viewer']);
+		});
+
+		it('should keep role deny rules of loaded roles', async () => {
+			const rbac = new RBAC({ policyProvider: createProvider() });
+			const bob = { id: 'bob', roles: [] };
+
+			expect(await rbac.hasPermissionAsync(bob, 'comment:hide')).toBe(true);
+			expect(await rbac.hasPermissionAsync(bob, 'comment:purge')).toBe(false);
+		});
+
+		it('should load roles the user object already holds', async () => {
+			const rbac = new RBAC({ policyProvider: createProvider() });
+
+			expect(await rbac.hasPermissionAsync({ id: 'carol', roles: ['viewer'] }, 'post:read')).toBe(true);
+		});
+
+		it('should explain denials with authorizeAsync', async () => {
+			const rbac = new RBAC({ policyProvider: createProvider() });
+			const carol = { id: 'carol', roles: ['ghost'] };
+
+			const result = await rbac.authorizeAsync(carol, 'post:read');
+			expect(result).toMatchObject({ allowed: false, user: carol });
+			expect(result.reason).toBeDefined();
+		});
+
+		it('should apply denies from the provider', async () => {
+			const provider = createProvider();
+			provider.addDeny({ userId: 'alice', permission: 'post:write', reason: 'Suspended' });
+			const rbac = new RBAC({ policyProvider: provider, enableCache: true });
+			const alice = { id: 'alice', roles: [] };
+
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(false);
+			expect(await rbac.authorizeAsync(alice, 'post:write')).toMatchObject({ allowed: false });
+
+			provider.clearDenies('alice');
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(true);
+		});
+
+		it('should keep provider denies out of the instance', async () => {
+			const provider = createProvider();
+			provider.addDeny({ userId: 'alice', permission: 'post:write' });
+			const store = { load: vi.fn(async () => null), save: vi.fn(async () => {}) };
+			const rbac = new RBAC({ policyProvider: provider, store, enableCache: true });
+			rbac.denyPermission('alice', 'post:delete');
+			await rbac.flushStore();
+			store.save.mockClear();
+
+			expect(await rbac.hasPermissionAsync({ id: 'alice', roles: [] }, 'post:write')).toBe(false);
+			await rbac.flushStore();
+
+			expect(rbac.exportDenyList('alice')).toEqual([{ userId: 'alice', permission: 'post:delete' }]);
+			expect(store.save).not.toHaveBeenCalled();
+			// Stored denies still apply, and synchronous checks only see stored denies
+			expect(await rbac.hasPermissionAsync({ id: 'alice', roles: ['editor'] }, 'post:delete')).toBe(false);
+			expect(rbac.hasPermission({ id: 'alice', roles: ['editor'] }, 'post:write')).toBe(true);
+		});
+
+		it('should reject invalid deny entries from the provider', async () => {
+			const rbac = new RBAC({ policyProvider: { getUserDenies: () => [{ userId: 'alice', permission: '' }] } });
+
+			await expect(rbac.hasPermissionAsync({ id: 'alice', roles: [] }, 'post:read'))
+				.rejects.toThrow("Invalid deny entry 0 of user 'alice': permission must be a non-empty string");
+		});
+
+		it('should keep synchronous checks working for loaded roles', async () => {
+			const rbac = new RBAC({ policyProvider: createProvider() });
+			const editor = { id: 'dave', roles: ['editor'] };
+
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(false);
+			await rbac.hasPermissionAsync(editor, 'post:write');
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+		});
+	});
+
+	describe('loaded roles', () => {
+		it('should keep loaded roles until they are invalidated', async () => {
+			const provider = createProvider();
+			const rbac = new RBAC({ policyProvider: provider });
+			const alice = { id: 'alice', roles: [] };
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(true);
+
+			provider.setRole({ name: 'editor', permissions: ['post:draft'], inherits: ['viewer'] });
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(true);
+
+			rbac.invalidateLoadedRoles(['editor']);
+			expect(rbac.hasPermission({ id: 'alice', roles: ['editor'] }, 'post:write')).toBe(false);
+			expect(await rbac.hasPermissionAsync(alice, 'post:write')).toBe(false);
+			expect(await rbac.hasPermissionAsync(alice, 'post:draft')).toBe(true);
+			expect(await rbac.hasPermissionAsync(alice, 'post:read')).toBe(true);
+		});
+
+		it('should reload loaded roles after the TTL', async () => {
+			let now = 0;
+			const provider = createProvider();
+			const rbac = new RBAC({ policyProvider: provider, providerRoleTTL: 1000, clock: () => now, enableCache: true });
+			const bob = { id: 'bob', roles: [] };
+			expect(await rbac.hasPermissionAsync(bob, 'comment:hide')).toBe(true);
+
+			provider.setRole({ name: 'moderator', permissions: ['comment:read', '!comment:hide'] });
+			now = 999;
+			expect(await rbac.hasPermissionAsync(bob, 'comment:hide')).toBe(true);
+			now = 1000;
+			expect(await rbac.hasPermissionAsync(bob, 'comment:hide')).toBe(false);
+			expect(await rbac.hasPermissionAsync(bob, 'comment:read')).toBe(true);
+			expect(rbac.getRoleDenies('moderator')).toEqual(['comment:hide']);
+		});
+
+		it('should revoke loaded roles removed from the provider', async () => {
+			let now = 0;
+			const rolesByName = new Map(roles.map(role => [role.name, role]));
+			const rbac = new RBACBuilder()
+				.withClock(() => now)
+				.withPolicyProvider({ getRole: roleName => rolesByName.get(roleName) }, 1000)
+				.build();
+			const viewer = { id: 'u1', roles: ['viewer'] };
+			expect(await rbac.hasPermissionAsync(viewer, 'post:read')).toBe(true);
+
+			rolesByName.delete('viewer');
+			now = 1000;
+			expect(await rbac.hasPermissionAsync(viewer, 'post:read')).toBe(false);
+			expect(rbac.hasPermission(viewer, 'post:read')).toBe(false);
+		});
+	});
+
+	describe('request memoization', () => {
+		it('should load each piece of policy data once per request', async () => {
+			const provider = createProvider();
+			const getRole = vi.spyOn(provider, 'getRole');
+			const getUserRoles = vi.spyOn(provider, 'getUserRoles');
+			const rbac = new RBAC({ policyProvider: provider });
+			const alice = { id: 'alice', roles: [] };
+
+			const request = rbac.createPolicyRequest();
+			expect(await request.hasAllPermissions(alice, ['post:read', 'post:write'])).toBe(true);
+			expect(await request.hasAnyPermission(alice, ['post:delete', 'post:read'])).toBe(true);
+			expect(await request.getUserPermissions(alice)).toEqual(expect.arrayContaining(['post:read', 'post:write']));
+
+			expect(getUserRoles).toHaveBeenCalledTimes(1);
+			expect(getRole.mock.calls.map(([roleName]) => roleName)).toEqual(['editor', 'viewer']);
+		});
+
+		it('should look up user data again in a new request', async () => {
+			const provider = createProvider();
+			const rbac = new RBAC({ policyProvider: provider });
+			const alice = { id: 'alice', roles: [] };
+
+			const first = rbac.createPolicyRequest();
+			expect(await first.hasPermission(alice, 'comment:hide')).toBe(false);
+
+			provider.setUserRoles('alice', ['moderator']);
+			expect(await first.hasPermission(alice, 'comment:hide')).toBe(false);
+			expect(await rbac.createPolicyRequest().hasPermission(alice, 'comment:hide')).toBe(true);
+		});
+	});
+
+	describe('lazy role loader', () => {
+		it('should load roles missing from the config', async () => {
+			const loader = vi.fn(async (roleName: string) => roles.find(role => role.name === roleName));
+			const rbac = new RBAC({
+				config: { permissions: [{ name: 'post:read' }], roles: [{ name: 'reader', permissions: ['post:read'] }] },
+				lazyRoles: loader,
+			});
+
+			expect(rbac.isRolePending('reader')).toBe(true);
+			expect(await rbac.hasPermissionAsync({ id: 'u1', roles: ['reader', 'editor'] }, 'post:write')).toBe(true);
+
+			expect(loader.mock.calls.map(([roleName]) => roleName)).toEqual(['editor', 'viewer']);
+			expect(rbac.getLazyRoleStats().enabled).toBe(true);
+		});
+
+		it('should prefer the provider over the loader', async () => {
+			const loader = vi.fn(async () => undefined);
+			const rbac = new RBAC({ lazyRoles: loader, policyProvider: createProvider() });
+
+			expect(await rbac.hasPermissionAsync({ id: 'u1', roles: ['viewer'] }, 'post:read')).toBe(true);
+			expect(loader).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('builder', () => {
+		it('should configure the provider', async () => {
+			const rbac = new RBACBuilder()
+				.addPermission('post:read')
+				.withPolicyProvider(createProvider())
+				.build();
+
+			expect(await rbac.hasPermissionAsync({ id: 'alice', roles: [] }, 'post:write')).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RBAC, RBACBuilder, MemoryRBACStore, FileRBACStore, SQLiteRBACStore } from '../index';
+import type { RBACStore, RBACSystemState, SQLiteDatabase } from '../index';
+
+/**
+ * In-process stand-in for a SQLite binding: the statements SQLiteRBACStore runs
+ */
+class FakeSQLiteDatabase implements SQLiteDatabase {
+	tables = new Map<string, Map<string, { state: string; updated_at: number }>>();
+
+	exec(sql: string): void {
+		const match = /^CREATE TABLE IF NOT EXISTS (\w+) /.exec(sql);
+		if (!match) throw new Error(`Unsupported statement: ${sql}`);
+		if (!this.tables.has(match[1])) this.tables.set(match[1], new Map());
+	}
+
+	prepare(sql: string) {
+		const table = this.tables.get(/(?:FROM|INTO) (\w+)/.exec(sql)?.[1] ?? '');
+		if (!table) throw new Error(`no such table: ${sql}`);
+		return {
+			run: (key: unknown, state: unknown, updatedAt: unknown) => {
+				table.set(key as string, { state: state as string, updated_at: updatedAt as number });
+			},
+			get: (key: unknown) => table.get(key as string),
+		};
+	}
+}
+
+describe('RBAC Stores', () => {
+	const user = { id: 'u1', roles: ['editor'] };
+
+	const createRBAC = (store: RBACStore, autoSave?: boolean) => {
+		const rbac = new RBAC({ store, autoSave });
+		rbac.createRole('editor', ['post:read']);
+		return rbac;
+	};
+
+	describe('auto-persistence', () => {
+		it('should save mutations to the store', async () => {
+			const store = new MemoryRBACStore();
+			const rbac = createRBAC(store);
+			rbac.grantPermission('editor', 'post:write');
+			rbac.denyPermission('u1', 'post:read');
+			await rbac.flushStore();
+
+			const restored = await RBAC.fromStore(store);
+			expect(restored.hasPermission(user, 'post:write')).toBe(true);
+			expect(restored.hasPermission(user, 'post:read')).toBe(false);
+		});
+
+		it('should save a batch of mutations once', async () => {
+			const store = new MemoryRBACStore();
+			const save = vi.spyOn(store, 'save');
+			const rbac = createRBAC(store);
+			rbac.grantPermission('editor', 'post:write');
+			rbac.addGlobalDeny('post:delete');
+			await rbac.flushStore();
+
+			expect(save).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not save when autoSave is off', async () => {
+			const store = new MemoryRBACStore();
+			const rbac = createRBAC(store, false);
+			await rbac.flushStore();
+			expect(await store.load()).toBeUndefined();
+
+			await rbac.saveToStore();
+			expect(await store.load()).toBeDefined();
+		});
+
+		it('should not save states it loaded', async () => {
+			const store = new MemoryRBACStore();
+			await createRBAC(store, false).saveToStore();
+			const save = vi.spyOn(store, 'save');
+
+			const restored = await RBAC.fromStore(store);
+			await restored.flushStore();
+
+			expect(restored.hasPermission(user, 'post:read')).toBe(true);
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it('should log failed saves without failing the mutation', async () => {
+			const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const store: RBACStore = { load: async () => undefined, save: async () => { throw new Error('disk full'); } };
+			const rbac = new RBAC({ store });
+
+			expect(() => rbac.createRole('editor', ['post:read'])).not.toThrow();
+			await expect(rbac.flushStore()).rejects.toThrow('disk full');
+			expect(error).toHaveBeenCalledWith('RBAC store error:', expect.any(Error));
+			error.mockRestore();
+		});
+
+		it('should require a store', async () => {
+			await expect(new RBAC().loadFromStore()).rejects.toThrow('No store configured');
+		});
+
+		it('should configure the store with the builder', async () => {
+			const store = new MemoryRBACStore();
+			const rbac = new RBACBuilder().withStore(store).build();
+			rbac.createRole('editor', ['post:read']);
+			await rbac.flushStore();
+
+			expect((await RBAC.fromStore(store)).hasPermission(user, 'post:read')).toBe(true);
+		});
+	});
+
+	describe('watching', () => {
+		it('should apply states saved by other instances', async () => {
+			const store = new MemoryRBACStore();
+			const writer = createRBAC(store);
+			await writer.flushStore();
+
+			const reader = await RBAC.fromStore(store, { autoSave: false });
+			const stop = reader.watchStore();
+			writer.denyPermission('u1', 'post:read');
+			await writer.flushStore();
+
+			expect(reader.hasPermission(user, 'post:read')).toBe(false);
+			stop();
+
+			writer.allowPermission('u1', 'post:read');
+			await writer.flushStore();
+			expect(reader.hasPermission(user, 'post:read')).toBe(false);
+		});
+
+		it('should reject stores that cannot be watched', () => {
+			const rbac = new RBAC({ store: { load: async () => undefined, save: async () => {} } });
+
+			expect(() => rbac.watchStore()).toThrow('The configured store does not support watching');
+		});
+	});
+
+	describe('FileRBACStore', () => {
+		const directories: string[] = [];
+		const createPath = async () => {
+			const directory = await fs.mkdtemp(join(tmpdir(), 'fire-shield-'));
+			directories.push(directory);
+			return join(directory, 'nested', 'rbac.json');
+		};
+
+		afterEach(async () => {
+			await Promise.all(directories.splice(0).map(directory => fs.rm(directory, { recursive: true, force: true })));
+		});
+
+		it('should round-trip the state through a JSON file', async () => {
+			const path = await createPath();
+			const store = new FileRBACStore({ path });
+			expect(await store.load()).toBeUndefined();
+
+			const rbac = createRBAC(store);
+			await rbac.flushStore();
+
+			expect((await RBAC.fromStore(new FileRBACStore({ path }))).hasPermission(user, 'post:read')).toBe(true);
+			expect(await fs.readdir(join(path, '..'))).toEqual(['rbac.json']);
+		});
+
+		it('should reject invalid files', async () => {
+			const path = await createPath();
+			await fs.mkdir(join(path, '..'), { recursive: true });
+			await fs.writeFile(path, '{ not json');
+
+			await expect(new FileRBACStore({ path }).load()).rejects.toThrow(`Invalid RBAC state in ${path}`);
+		});
+
+		it('should notify watchers of changes', async () => {
+			const path = await createPath();
+			const store = new FileRBACStore({ path, watchDelay: 10 });
+			await store.save(new RBAC().serialize());
+
+			const changes: RBACSystemState[] = [];
+			const stop = store.watch(state => changes.push(state));
+			// Let the watcher start before writing
+			await new Promise(resolve => setTimeout(resolve, 50));
+
+			await createRBAC(new FileRBACStore({ path })).saveToStore();
+			await vi.waitFor(() => expect(changes.length).toBeGreaterThan(0), { timeout: 2000 });
+			stop();
+
+			expect(changes.at(-1)?.bitPermissions.roles).toHaveProperty('editor');
+		});
+	});
+
+	describe('SQLiteRBACStore', () => {
+		it('should round-trip the state through a table row', async () => {
+			const database = new FakeSQLiteDatabase();
+			const store = new SQLiteRBACStore({ database, key: 'tenant-a' });
+			expect(await store.load()).toBeUndefined();
+
+			const rbac = createRBAC(store);
+			await rbac.flushStore();
+
+			expect(database.tables.get('fire_shield_state')?.has('tenant-a')).toBe(true);
+			expect((await RBAC.fromStore(new SQLiteRBACStore({ database, key: 'tenant-a' }))).hasPermission(user, 'post:read')).toBe(true);
+			expect(await new SQLiteRBACStore({ database, key: 'tenant-b' }).load()).toBeUndefined();
+		});
+
+		it('should poll for changes', async () => {
+			vi.useFakeTimers();
+			try {
+				const database = new FakeSQLiteDatabase();
+				const store = new SQLiteRBACStore({ database, pollInterval: 100 });
+				const listener = vi.fn();
+				const stop = store.watch(listener);
+
+				await store.save(new RBAC().serialize());
+				vi.advanceTimersByTime(100);
+				vi.advanceTimersByTime(100);
+				expect(listener).toHaveBeenCalledTimes(1);
+
+				stop();
+				await store.save(createRBAC(new MemoryRBACStore(), false).serialize());
+				vi.advanceTimersByTime(100);
+				expect(listener).toHaveBeenCalledTimes(1);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it('should reject unsafe table names', () => {
+			expect(() => new SQLiteRBACStore({ database: new FakeSQLiteDatabase(), table: 'state; DROP TABLE users' }))
+				.toThrow('Invalid table name: state; DROP TABLE users');
+		});
+	});
+});
@@ -145,6 +145,32 @@ describe('RBAC', () => {
 			expect(rbac.hasPermission(user, 'write')).toBe(true);
 			expect(rbac.hasPermission(user, 'delete')).toBe(false);
 		});
+
+		it('should support more than 31 permissions', () => {
+			const permissions = Array.from({ length: 300 }, (_, i) => ({ name: `resource${i}:read` }));
+			rbac = new RBAC({
+				config: {
+					permissions,
+					roles: [{ name: 'auditor', permissions: ['resource0:read', 'resource299:read'] }],
+				},
+			});
+
+			const auditor = createUser('1', ['auditor']);
+			expect(rbac.hasPermission(auditor, 'resource299:read')).toBe(true);
+			expect(rbac.hasPermission(auditor, 'resource298:read')).toBe(false);
+
+			const maskUser: RBACUser = {
+				id: '2',
+				roles: [],
+				permissionMask: rbac.getBitPermissionManager()!.createPermissionMask(['resource200:read']),
+			};
+			expect(rbac.hasPermission(maskUser, 'resource200:read')).toBe(true);
+			expect(rbac.hasPermission(maskUser, 'resource0:read')).toBe(false);
+
+			const restored = new RBAC();
+			restored.fromJSON(rbac.toJSON());
+			expect(restored.hasPermission(auditor, 'resource299:read')).toBe(true);
+		});
 	});
 
 	describe('Authorization', () => {
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACBuilder, BitPermissionManager, RoleGraph } from '../index';
+import type { RBACConfigSchema } from '../index';
+
+describe('Role Inheritance', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'post:read', bit: 1 },
+			{ name: 'post:write', bit: 2 },
+			{ name: 'post:delete', bit: 4 },
+			{ name: 'user:manage', bit: 8 },
+			{ name: 'billing:read', bit: 16 },
+		],
+		roles: [
+			{ name: 'viewer', permissions: ['post:read'] },
+			{ name: 'editor', permissions: ['post:write'], inherits: ['viewer'] },
+			{ name: 'accountant', permissions: ['billing:read'] },
+			{ name: 'admin', permissions: ['post:delete', 'user:manage'], inherits: ['editor', 'accountant'] },
+		],
+	};
+
+	describe('RoleGraph', () => {
+		it('should resolve transitive ancestors', () => {
+			const graph = new RoleGraph();
+			graph.setParents('admin', ['editor', 'accountant']);
+			graph.setParents('editor', ['viewer']);
+
+			expect(graph.getParents('admin')).toEqual(['editor', 'accountant']);
+			expect(graph.getAncestors('admin')).toEqual(['editor', 'accountant', 'viewer']);
+			expect(graph.inheritsFrom('admin', 'viewer')).toBe(true);
+			expect(graph.inheritsFrom('viewer', 'admin')).toBe(false);
+		});
+
+		it('should reject self inheritance', () => {
+			const graph = new RoleGraph();
+			expect(() => graph.setParents('admin', ['admin'])).toThrow('cannot inherit from itself');
+		});
+
+		it('should reject cycles', () => {
+			const graph = new RoleGraph();
+			graph.setParents('a', ['b']);
+			graph.setParents('b', ['c']);
+			expect(() => graph.setParents('c', ['a'])).toThrow('Circular role inheritance detected: c -> a -> b -> c');
+		});
+
+		it('should drop edges to removed roles', () => {
+			const graph = new RoleGraph();
+			graph.setParents('admin', ['editor', 'viewer']);
+			graph.removeRole('editor');
+			expect(graph.getParents('admin')).toEqual(['viewer']);
+		});
+	});
+
+	describe('RBAC', () => {
+		it('should grant inherited permissions through multiple parents', () => {
+			const rbac = new RBAC({ config });
+			const admin = { id: '1', roles: ['admin'] };
+
+			expect(rbac.hasPermission(admin, 'post:read')).toBe(true);
+			expect(rbac.hasPermission(admin, 'post:write')).toBe(true);
+			expect(rbac.hasPermission(admin, 'billing:read')).toBe(true);
+			expect(rbac.hasPermission(admin, 'user:manage')).toBe(true);
+		});
+
+		it('should not grant child permissions to parents', () => {
+			const rbac = new RBAC({ config });
+			const viewer = { id: '2', roles: ['viewer'] };
+
+			expect(rbac.hasPermission(viewer, 'post:read')).toBe(true);
+			expect(rbac.hasPermission(viewer, 'post:write')).toBe(false);
+		});
+
+		it('should include inherited permissions in getRolePermissions and getUserPermissions', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.getRolePermissions('editor').sort()).toEqual(['post:read', 'post:write']);
+			expect(rbac.getUserPermissions({ id: '1', roles: ['editor'] }).sort()).toEqual(['post:read', 'post:write']);
+		});
+
+		it('should reflect parent changes in child roles', () => {
+			const rbac = new RBAC({ config });
+			const admin = { id: '1', roles: ['admin'] };
+
+			rbac.grantPermission('viewer', 'post:comment');
+			expect(rbac.hasPermission(admin, 'post:comment')).toBe(true);
+
+			rbac.revokePermission('viewer', 'post:read');
+			expect(rbac.hasPermission(admin, 'post:read')).toBe(false);
+		});
+
+		it('should not copy inherited permissions when editing a child role', () => {
+			const rbac = new RBAC({ config });
+
+			rbac.revokePermission('editor', 'post:write');
+			expect(rbac.getBitPermissionManager()?.getDirectRolePermissions('editor')).toEqual([]);
+			expect(rbac.getRolePermissions('editor')).toEqual(['post:read']);
+		});
+
+		it('should support inheritance on createRole and setRoleInheritance', () => {
+			const rbac = new RBAC();
+			rbac.createRole('viewer', ['doc:read']);
+			rbac.createRole('owner', ['doc:delete'], ['viewer']);
+
+			expect(rbac.getRoleParents('owner')).toEqual(['viewer']);
+			expect(rbac.hasPermission({ id: '1', roles: ['owner'] }, 'doc:read')).toBe(true);
+
+			rbac.setRoleInheritance('owner', []);
+			expect(rbac.hasPermission({ id: '1', roles: ['owner'] }, 'doc:read')).toBe(false);
+		});
+
+		it('should support inheritance in legacy mode', () => {
+			const rbac = new RBAC({ config, useBitSystem: false });
+			const admin = { id: '1', roles: ['admin'] };
+
+			expect(rbac.hasPermission(admin, 'post:read')).toBe(true);
+			expect(rbac.getRolePermissions('editor').sort()).toEqual(['post:read', 'post:write']);
+		});
+
+		it('should honour wildcard permissions of parent roles', () => {
+			const rbac = new RBAC();
+			rbac.createRole('moderator', ['comment:*']);
+			rbac.createRole('admin', [], ['moderator']);
+
+			expect(rbac.hasPermission({ id: '1', roles: ['admin'] }, 'comment:delete')).toBe(true);
+		});
+
+		it('should evaluate parent roles with lazy loading', () => {
+			const rbac = new RBAC({ config, lazyRoles: true });
+			const admin = { id: '1', roles: ['admin'] };
+
+			expect(rbac.hasPermission(admin, 'post:read')).toBe(true);
+			expect(rbac.isRolePending('viewer')).toBe(false);
+			expect(rbac.isRolePending('accountant')).toBe(false);
+		});
+
+		it('should let a role act as any role it inherits from', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.canActAsRole('admin', 'viewer')).toBe(true);
+			expect(rbac.canActAsRole('viewer', 'admin')).toBe(false);
+		});
+
+		it('should detect cycles when loading config', () => {
+			const cyclic: RBACConfigSchema = {
+				permissions: [{ name: 'a:read' }],
+				roles: [
+					{ name: 'a', permissions: [], inherits: ['b'] },
+					{ name: 'b', permissions: [], inherits: ['a'] },
+				],
+			};
+
+			expect(() => new RBAC({ config: cyclic })).toThrow('Circular role inheritance detected');
+			expect(() => new RBAC({ config: cyclic, lazyRoles: true })).toThrow('Circular role inheritance detected');
+		});
+
+		it('should persist inheritance through serialize/deserialize', () => {
+			const rbac = new RBAC({ config });
+			const restored = new RBAC();
+			restored.deserialize(rbac.serialize());
+
+			expect(restored.getRoleParents('admin')).toEqual(['editor', 'accountant']);
+			expect(restored.hasPermission({ id: '1', roles: ['admin'] }, 'post:read')).toBe(true);
+		});
+
+		it('should load states saved without inheritance', () => {
+			const manager = new BitPermissionManager();
+			manager.deserialize({
+				permissions: { 'post:read': 1 },
+				roles: { viewer: 1 },
+				nextBitValue: 2,
+				timestamp: Date.now(),
+				version: '1.0.0',
+			});
+
+			expect(manager.getRolePermissions('viewer')).toEqual(['post:read']);
+			expect(manager.getRoleParents('viewer')).toEqual([]);
+		});
+	});
+
+	describe('validateConfig', () => {
+		it('should reject inheritance from undefined roles', () => {
+			const invalid = {
+				name: 'test',
+				version: '1.0.0',
+				permissions: [{ name: 'a:read' }],
+				roles: [{ name: 'a', permissions: ['a:read'], inherits: ['ghost'] }],
+			};
+			expect(() => RBAC.validateConfig(invalid)).toThrow("inherits from undefined role: ghost");
+		});
+
+		it('should reject inheritance cycles', () => {
+			const invalid = {
+				name: 'test',
+				version: '1.0.0',
+				permissions: [],
+				roles: [
+					{ name: 'a', permissions: [], inherits: ['b'] },
+					{ name: 'b', permissions: [], inherits: ['a'] },
+				],
+			};
+			expect(() => RBAC.validateConfig(invalid)).toThrow('Circular role inheritance detected');
+		});
+	});
+
+	describe('RBACBuilder.hierarchy()', () => {
+		it('should map hierarchy onto role inheritance', () => {
+			const rbac = new RBACBuilder()
+				.addPermission('read')
+				.addPermission('write')
+				.addPermission('delete')
+				.addRole('viewer', ['read'])
+				.addRole('editor', ['write'])
+				.addRole('admin', ['delete'])
+				.hierarchy({ admin: ['editor'], editor: ['viewer'] })
+				.build();
+
+			const admin = { id: '1', roles: ['admin'] };
+			expect(rbac.hasPermission(admin, 'read')).toBe(true);
+			expect(rbac.hasPermission(admin, 'write')).toBe(true);
+			expect(rbac.getRoleParents('admin')).toEqual(['editor']);
+			expect(rbac.getRoleHierarchy().size()).toBe(0);
+		});
+	});
+});
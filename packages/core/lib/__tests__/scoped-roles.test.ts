@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACAggregator, resolveScope, withScope } from '../index';
+import type { RBACConfigSchema, RBACUser } from '../index';
+
+describe('Resource-Scoped Role Bindings', () => {
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'tasks:read' },
+			{ name: 'tasks:update' },
+			{ name: 'billing:read' },
+		],
+		roles: [
+			{ name: 'viewer', permissions: ['tasks:read'] },
+			{ name: 'editor', permissions: ['tasks:update'], inherits: ['viewer'] },
+			{ name: 'accountant', permissions: ['billing:read'] },
+		],
+	};
+
+	const project = (id: string) => ({ scope: { type: 'project', id } });
+
+	const alice: RBACUser = {
+		id: 'alice',
+		roles: [],
+		roleBindings: [
+			{ role: 'editor', scope: { type: 'project', id: '42' } },
+			{ role: 'viewer', scope: { type: 'project', id: '7' } },
+		],
+	};
+
+	describe('user bindings', () => {
+		it('should apply roles only within their scope', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission(alice, 'tasks:update', project('42'))).toBe(true);
+			expect(rbac.hasPermission(alice, 'tasks:update', project('7'))).toBe(false);
+			expect(rbac.hasPermission(alice, 'tasks:read', project('7'))).toBe(true);
+			expect(rbac.hasPermission(alice, 'tasks:read', project('8'))).toBe(false);
+			expect(rbac.hasPermission(alice, 'tasks:read')).toBe(false);
+		});
+
+		it('should not match other resource types', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.hasPermission(alice, 'tasks:update', { scope: { type: 'team', id: '42' } })).toBe(false);
+		});
+
+		it('should keep global roles in every scope', () => {
+			const rbac = new RBAC({ config });
+			const user = { ...alice, roles: ['accountant'] };
+
+			expect(rbac.hasPermission(user, 'billing:read')).toBe(true);
+			expect(rbac.hasPermission(user, 'billing:read', project('42'))).toBe(true);
+			expect(rbac.getEffectiveRoles(user, project('42'))).toEqual(['accountant', 'editor']);
+		});
+
+		it('should support wildcard scopes', () => {
+			const rbac = new RBAC({ config });
+			const user: RBACUser = {
+				id: 'bob',
+				roles: [],
+				roleBindings: [
+					{ role: 'viewer', scope: { type: 'project', id: '*' } },
+					{ role: 'editor', scope: { type: 'project', id: 'eu-*' } },
+					{ role: 'accountant', scope: { type: '*', id: 'acme' } },
+				],
+			};
+
+			expect(rbac.hasPermission(user, 'tasks:read', project('99'))).toBe(true);
+			expect(rbac.hasPermission(user, 'tasks:update', project('99'))).toBe(false);
+			expect(rbac.hasPermission(user, 'tasks:update', project('eu-3'))).toBe(true);
+			expect(rbac.hasPermission(user, 'billing:read', { scope: { type: 'org', id: 'acme' } })).toBe(true);
+		});
+
+		it('should include scoped roles in user permissions and explanations', () => {
+			const rbac = new RBAC({ config });
+
+			expect(rbac.getUserPermissions(alice, project('42')).sort()).toEqual(['tasks:read', 'tasks:update']);
+			expect(rbac.getUserPermissions(alice)).toEqual([]);
+			expect(rbac.explain(alice, 'tasks:update', project('42'))).toMatchObject({ allowed: true, matchedRole: 'editor' });
+		});
+
+		it('should not reuse cached results across scopes', () => {
+			const rbac = new RBAC({ config, enableCache: true });
+
+			expect(rbac.hasPermission(alice, 'tasks:update', project('42'))).toBe(true);
+			expect(rbac.hasPermission(alice, 'tasks:update', project('7'))).toBe(false);
+			expect(rbac.hasPermission(alice, 'tasks:update', project('42'))).toBe(true);
+		});
+	});
+
+	describe('stored bindings', () => {
+		it('should bind and unbind roles for a user', () => {
+			const rbac = new RBAC({ config, enableCache: true });
+			const carol = { id: 'carol', roles: [] };
+
+			rbac.bindRole('carol', 'editor', { type: 'project', id: '42' });
+			expect(rbac.hasPermission(carol, 'tasks:update', project('42'))).toBe(true);
+			expect(rbac.getRoleBindings('carol')).toEqual([{ role: 'editor', scope: { type: 'project', id: '42' } }]);
+
+			expect(rbac.unbindRole('carol', 'editor', { type: 'project', id: '42' })).toBe(true);
+			expect(rbac.hasPermission(carol, 'tasks:update', project('42'))).toBe(false);
+			expect(rbac.unbindRole('carol', 'editor')).toBe(false);
+		});
+
+		it('should unbind every scope of a role when no scope is given', () => {
+			const rbac = new RBAC({ config });
+			rbac.bindRole('carol', 'editor', { type: 'project', id: '1' });
+			rbac.bindRole('carol', 'editor', { type: 'project', id: '2' });
+			rbac.bindRole('carol', 'viewer', { type: 'project', id: '3' });
+
+			expect(rbac.unbindRole('carol', 'editor')).toBe(true);
+			expect(rbac.getRoleBindings('carol')).toEqual([{ role: 'viewer', scope: { type: 'project', id: '3' } }]);
+		});
+
+		it('should reject malformed bindings', () => {
+			const rbac = new RBAC({ config });
+
+			expect(() => rbac.bindRole('carol', 'editor', { type: 'project', id: '' }))
+				.toThrow('Invalid role binding: scope must have a non-empty type and id');
+		});
+
+		it('should serialize bindings', () => {
+			const rbac = new RBAC({ config });
+			rbac.bindRole('carol', 'editor', { type: 'project', id: '42' });
+
+			const restored = new RBAC({ config });
+			restored.deserialize(JSON.parse(JSON.stringify(rbac.serialize())));
+
+			expect(restored.getRoleBindings('carol')).toEqual([{ role: 'editor', scope: { type: 'project', id: '42' } }]);
+			expect(restored.hasPermission({ id: 'carol', roles: [] }, 'tasks:update', project('42'))).toBe(true);
+		});
+	});
+
+	describe('aggregator', () => {
+		it('should include scoped roles in user permissions', () => {
+			const aggregator = RBACAggregator.create({ instances: new Map([['app', new RBAC({ config })]]) });
+
+			expect(aggregator.getUserPermissions(alice, project('7'))).toEqual(['tasks:read']);
+		});
+	});
+
+	describe('adapter helpers', () => {
+		it('should read the scope from a route parameter', async () => {
+			const params: Record<string, string> = { projectId: '42' };
+
+			expect(await resolveScope({ type: 'project', param: 'projectId' }, params, name => params[name]))
+				.toEqual({ type: 'project', id: '42' });
+			expect(await resolveScope({ type: 'project', param: 'missing' }, params, name => params[name])).toBeUndefined();
+			expect(await resolveScope(() => ({ type: 'org', id: 'acme' }), params, name => params[name]))
+				.toEqual({ type: 'org', id: 'acme' });
+		});
+
+		it('should keep an explicit context scope', () => {
+			expect(withScope({ environment: { ip: '::1' } }, { type: 'project', id: '42' }))
+				.toEqual({ environment: { ip: '::1' }, scope: { type: 'project', id: '42' } });
+			expect(withScope({ scope: { type: 'project', id: '1' } }, { type: 'project', id: '42' }))
+				.toEqual({ scope: { type: 'project', id: '1' } });
+		});
+	});
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RBAC, TenantRBAC } from '../index';
+import type { RBACConfigSchema } from '../index';
+
+describe('TenantRBAC', () => {
+	const base: RBACConfigSchema = {
+		permissions: [
+			{ name: 'tasks:read' },
+			{ name: 'tasks:update' },
+			{ name: 'billing:read' },
+			{ name: 'billing:export' },
+		],
+		roles: [
+			{ name: 'member', permissions: ['tasks:read'] },
+			{ name: 'manager', permissions: ['tasks:*'] },
+		],
+	};
+
+	const createTenants = (options: Partial<ConstructorParameters<typeof TenantRBAC>[0]> = {}) => new TenantRBAC({
+		base,
+		tenants: {
+			acme: { roles: [{ name: 'auditor', permissions: ['billing:*'] }], deny: ['billing:export'] },
+			globex: { roles: [{ name: 'member', permissions: ['tasks:read', 'tasks:update'] }] },
+		},
+		...options,
+	});
+
+	const user = (tenantId: string | undefined, roles: string[]) => ({ id: 'u1', roles, tenantId });
+
+	describe('policies', () => {
+		it('should add tenant roles and deny rules on top of the base config', () => {
+			const tenants = createTenants();
+
+			expect(tenants.hasPermission(user('acme', ['auditor']), 'billing:read')).toBe(true);
+			expect(tenants.hasPermission(user('acme', ['auditor']), 'billing:export')).toBe(false);
+			expect(tenants.hasPermission(user('acme', ['manager']), 'tasks:update')).toBe(true);
+		});
+
+		it('should override base roles per tenant', () => {
+			const tenants = createTenants();
+
+			expect(tenants.hasPermission(user('globex', ['member']), 'tasks:update')).toBe(true);
+			expect(tenants.hasPermission(user('acme', ['member']), 'tasks:update')).toBe(false);
+		});
+
+		it('should not share roles between tenants', () => {
+			const tenants = createTenants();
+
+			expect(tenants.hasPermission(user('globex', ['auditor']), 'billing:read')).toBe(false);
+			expect(tenants.getTenant('globex').getRoles()).not.toContain('auditor');
+		});
+
+		it('should reject invalid tenant policies', () => {
+			const tenants = createTenants();
+
+			expect(() => tenants.defineTenant('initech', { roles: [{ name: 'hacker', permissions: ['root:access'] }] }))
+				.toThrow("Invalid policy for tenant 'initech': Role 'hacker' references undefined permission: root:access");
+			expect(tenants.hasTenant('initech')).toBe(false);
+		});
+
+		it('should load policies of tenants that were not defined up front', () => {
+			const loadPolicy = vi.fn((tenantId: string) => tenantId === 'initech' ? {} : undefined);
+			const tenants = createTenants({ loadPolicy });
+
+			expect(tenants.hasPermission(user('initech', ['member']), 'tasks:read')).toBe(true);
+			expect(tenants.hasPermission(user('initech', ['member']), 'tasks:read')).toBe(true);
+			expect(tenants.hasPermission(user('hooli', ['member']), 'tasks:read')).toBe(false);
+			expect(loadPolicy).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('tenant resolution', () => {
+		it('should resolve the tenant from the user or the context', () => {
+			const tenants = createTenants();
+			const member = user(undefined, ['auditor']);
+
+			expect(tenants.hasPermission(member, 'billing:read', { tenantId: 'acme' })).toBe(true);
+			expect(tenants.authorize(member, 'billing:read')).toMatchObject({ allowed: false, reason: "No tenant found for user 'u1'" });
+		});
+
+		it('should deny checks against another tenant than the user\'s', () => {
+			const tenants = createTenants();
+
+			expect(tenants.authorize(user('globex', ['auditor']), 'billing:read', { tenantId: 'acme' })).toMatchObject({
+				allowed: false,
+				reason: "User 'u1' belongs to tenant 'globex', not 'acme'",
+			});
+			expect(tenants.getUserPermissions(user('globex', ['auditor']), { tenantId: 'acme' })).toEqual([]);
+		});
+
+		it('should deny unknown tenants', () => {
+			const tenants = createTenants();
+
+			expect(tenants.authorize(user('hooli', ['member']), 'tasks:read')).toMatchObject({ allowed: false, reason: 'Unknown tenant: hooli' });
+			expect(() => tenants.getTenant('hooli')).toThrow('Unknown tenant: hooli');
+		});
+	});
+
+	describe('isolation', () => {
+		it('should keep runtime changes within a tenant', () => {
+			const tenants = createTenants();
+			tenants.getTenant('acme').denyPermission('u1', 'tasks:read');
+
+			expect(tenants.hasPermission(user('acme', ['member']), 'tasks:read')).toBe(false);
+			expect(tenants.hasPermission(user('globex', ['member']), 'tasks:read')).toBe(true);
+		});
+
+		it('should create instances with the factory', () => {
+			const factory = vi.fn((config: RBACConfigSchema) => new RBAC({ config, enableCache: true }));
+			const tenants = createTenants({ factory });
+
+			tenants.hasPermission(user('acme', ['member']), 'tasks:read');
+
+			expect(factory).toHaveBeenCalledWith(expect.objectContaining({ deny: ['billing:export'] }), 'acme');
+		});
+	});
+
+	describe('eviction', () => {
+		it('should build instances lazily and evict the least recently used', () => {
+			const tenants = createTenants({ maxTenants: 1 });
+			expect(tenants.getLoadedTenants()).toEqual([]);
+
+			tenants.getTenant('acme');
+			tenants.getTenant('globex');
+
+			expect(tenants.getLoadedTenants()).toEqual(['globex']);
+		});
+
+		it('should restore runtime changes of evicted tenants', () => {
+			const tenants = createTenants({ maxTenants: 1 });
+			tenants.getTenant('acme').denyPermission('u1', 'tasks:read');
+
+			tenants.getTenant('globex');
+			expect(tenants.getLoadedTenants()).toEqual(['globex']);
+
+			expect(tenants.hasPermission(user('acme', ['member']), 'tasks:read')).toBe(false);
+		});
+
+		it('should only keep state of tenants changed at runtime', () => {
+			const tenants = createTenants({ maxTenants: 1 });
+			tenants.hasPermission(user('globex', ['member']), 'tasks:read');
+			tenants.getTenant('acme').denyPermission('u1', 'tasks:read');
+			tenants.getTenant('globex');
+
+			expect(tenants.getSnapshotTenants()).toEqual(['acme']);
+
+			// A restored tenant keeps its state through later evictions
+			tenants.getTenant('acme');
+			tenants.getTenant('globex');
+			expect(tenants.getSnapshotTenants()).toEqual(['acme']);
+			expect(tenants.hasPermission(user('acme', ['member']), 'tasks:read')).toBe(false);
+		});
+
+		it('should reject an invalid maxTenants', () => {
+			expect(() => createTenants({ maxTenants: 0 })).toThrow('maxTenants must be a positive integer, got: 0');
+		});
+	});
+
+	describe('serialization', () => {
+		it('should serialize and restore a single tenant', () => {
+			const tenants = createTenants();
+			tenants.getTenant('acme').denyPermission('u1', 'billing:read');
+
+			const state = JSON.parse(JSON.stringify(tenants.serializeTenant('acme')));
+			expect(state.tenantId).toBe('acme');
+			expect(state.policy).toEqual({ roles: [{ name: 'auditor', permissions: ['billing:*'] }], deny: ['billing:export'] });
+
+			const restored = new TenantRBAC({ base });
+			restored.deserializeTenant(state);
+
+			expect(restored.getTenantIds()).toEqual(['acme']);
+			expect(restored.hasPermission({ id: 'u2', roles: ['auditor'], tenantId: 'acme' }, 'billing:read')).toBe(true);
+			expect(restored.hasPermission(user('acme', ['auditor']), 'billing:read')).toBe(false);
+		});
+
+		it('should discard runtime state when a tenant policy is redefined', () => {
+			const tenants = createTenants();
+			tenants.getTenant('acme').denyPermission('u1', 'tasks:read');
+
+			tenants.defineTenant('acme', {});
+
+			expect(tenants.hasPermission(user('acme', ['member']), 'tasks:read')).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { RBAC, RBACBuilder, PermissionCache } from '../index';
+import type { RBACConfigSchema, RBACUser } from '../index';
+
+describe('Time-Bound Grants', () => {
+	const HOUR = 60 * 60 * 1000;
+	const start = Date.UTC(2026, 0, 1);
+
+	const config: RBACConfigSchema = {
+		permissions: [
+			{ name: 'prod:deploy' },
+			{ name: 'repo:read' },
+			{ name: 'repo:write' },
+		],
+		roles: [
+			{ name: 'developer', permissions: ['repo:read'] },
+			{ name: 'contractor', permissions: ['repo:read', 'repo:write'] },
+		],
+	};
+
+	const createClock = () => {
+		let now = start;
+		return {
+			clock: () => now,
+			advance: (ms: number) => { now += ms; },
+		};
+	};
+
+	const onCall: RBACUser = {
+		id: 'oncall',
+		roles: ['developer'],
+		timedPermissions: [{ permission: 'prod:deploy', notBefore: start + HOUR, notAfter: start + 5 * HOUR }],
+	};
+
+	describe('timed permissions', () => {
+		it('should only grant within the window', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock });
+
+			expect(rbac.hasPermission(onCall, 'prod:deploy')).toBe(false);
+			advance(HOUR);
+			expect(rbac.hasPermission(onCall, 'prod:deploy')).toBe(true);
+			advance(4 * HOUR);
+			expect(rbac.hasPermission(onCall, 'prod:deploy')).toBe(false);
+		});
+
+		it('should accept Date bounds', () => {
+			const { clock } = createClock();
+			const rbac = new RBAC({ config, clock });
+			const user: RBACUser = {
+				id: 'u1',
+				roles: [],
+				timedPermissions: [{ permission: 'prod:deploy', notAfter: new Date(start + HOUR) }],
+			};
+
+			expect(rbac.hasPermission(user, 'prod:deploy')).toBe(true);
+			expect(rbac.getUserPermissions(user)).toEqual(['prod:deploy']);
+		});
+	});
+
+	describe('timed roles', () => {
+		it('should expire role assignments', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock });
+			const user: RBACUser = { id: 'c1', roles: [], timedRoles: [{ role: 'contractor', notAfter: start + 24 * HOUR }] };
+
+			expect(rbac.hasPermission(user, 'repo:write')).toBe(true);
+			expect(rbac.getEffectiveRoles(user)).toEqual(['contractor']);
+
+			advance(24 * HOUR);
+			expect(rbac.hasPermission(user, 'repo:write')).toBe(false);
+			expect(rbac.getEffectiveRoles(user)).toEqual([]);
+		});
+
+		it('should use the builder clock', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBACBuilder()
+				.addPermission('repo:read')
+				.addRole('developer', ['repo:read'])
+				.withClock(clock)
+				.build();
+			const user: RBACUser = { id: 'u1', roles: [], timedRoles: [{ role: 'developer', notBefore: start + HOUR }] };
+
+			expect(rbac.hasPermission(user, 'repo:read')).toBe(false);
+			advance(HOUR);
+			expect(rbac.hasPermission(user, 'repo:read')).toBe(true);
+		});
+	});
+
+	describe('deny entries', () => {
+		it('should schedule denies with notBefore', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock });
+			const developer = { id: 'dev', roles: ['developer'] };
+			rbac.denyPermission('dev', 'repo:read', { notBefore: start + HOUR, expiresAt: start + 2 * HOUR });
+
+			expect(rbac.hasPermission(developer, 'repo:read')).toBe(true);
+			expect(rbac.getDeniedPermissions('dev')).toEqual([]);
+			expect(rbac.exportDenyList('dev')).toEqual([
+				{ userId: 'dev', permission: 'repo:read', notBefore: start + HOUR, expiresAt: start + 2 * HOUR },
+			]);
+
+			advance(HOUR);
+			expect(rbac.hasPermission(developer, 'repo:read')).toBe(false);
+			expect(rbac.getDeniedPermissions('dev')).toEqual(['repo:read']);
+
+			advance(HOUR);
+			expect(rbac.hasPermission(developer, 'repo:read')).toBe(true);
+		});
+
+		it('should reject a deny that ends before it starts', () => {
+			const rbac = new RBAC({ config });
+
+			expect(() => rbac.denyPermission('dev', 'repo:read', { notBefore: start + HOUR, expiresAt: start }))
+				.toThrow('Invalid deny entry: notBefore must be before expiresAt');
+		});
+
+		it('should keep scheduled denies across serialization', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock });
+			rbac.denyPermission('dev', 'repo:read', { notBefore: start + HOUR });
+
+			const restored = new RBAC({ config, clock });
+			restored.deserialize(JSON.parse(JSON.stringify(rbac.serialize())));
+			advance(HOUR);
+
+			expect(restored.hasPermission({ id: 'dev', roles: ['developer'] }, 'repo:read')).toBe(false);
+		});
+	});
+
+	describe('caching', () => {
+		it('should not serve cached results after a grant ends', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock, enableCache: true, cacheOptions: { ttl: 24 * HOUR } });
+			const user: RBACUser = { id: 'c1', roles: ['developer'], timedRoles: [{ role: 'contractor', notAfter: start + HOUR }] };
+
+			expect(rbac.hasPermission(user, 'repo:read')).toBe(true);
+			advance(HOUR);
+
+			expect(rbac.hasPermission(user, 'repo:read')).toBe(true);
+			expect(rbac.hasPermission(user, 'repo:write')).toBe(false);
+		});
+
+		it('should not serve cached results after a scheduled deny starts', () => {
+			const { clock, advance } = createClock();
+			const rbac = new RBAC({ config, clock, enableCache: true, cacheOptions: { ttl: 24 * HOUR } });
+			const developer = { id: 'dev', roles: ['developer'] };
+			rbac.denyPermission('dev', 'repo:read', { notBefore: start + HOUR });
+
+			expect(rbac.hasPermission(developer, 'repo:read')).toBe(true);
+			advance(HOUR);
+
+			expect(rbac.hasPermission(developer, 'repo:read')).toBe(false);
+		});
+
+		it('should expire entries at their expiresAt', () => {
+			const { clock, advance } = createClock();
+			const cache = new PermissionCache({ clock, ttl: 24 * HOUR });
+			cache.set('u1', 'repo:read', true, { expiresAt: start + HOUR });
+
+			expect(cache.get('u1', 'repo:read')).toBe(true);
+			advance(HOUR);
+			expect(cache.get('u1', 'repo:read')).toBeUndefined();
+		});
+	});
+
+	describe('getExpiringGrants', () => {
+		it('should list grants ending within the period, soonest first', () => {
+			const { clock } = createClock();
+			const rbac = new RBAC({ config, clock });
+			const contractor: RBACUser = {
+				id: 'c1',
+				roles: [],
+				timedRoles: [{ role: 'contractor', notAfter: new Date(start + 2 * HOUR) }],
+				timedPermissions: [{ permission: 'prod:deploy', notAfter: start + 48 * HOUR }],
+			};
+			rbac.denyPermission('dev', 'repo:read', { expiresAt: start + HOUR, reason: 'incident' });
+			rbac.denyPermission('dev', 'repo:write');
+
+			expect(rbac.getExpiringGrants(4 * HOUR, [onCall, contractor])).toEqual([
+				{ userId: 'dev', type: 'deny', name: 'repo:read', notAfter: start + HOUR },
+				{ userId: 'c1', type: 'role', name: 'contractor', notAfter: start + 2 * HOUR },
+			]);
+			expect(rbac.getExpiringGrants(5 * HOUR, [onCall]).map(grant => grant.name)).toEqual(['repo:read', 'prod:deploy']);
+		});
+	});
+});
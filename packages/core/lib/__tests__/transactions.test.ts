@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RBAC, MemoryRBACStore } from '../index';
+import type { RBACSystemState, TransactionEvent } from '../index';
+
+describe('Transactions', () => {
+	const editor = { id: 'u1', roles: ['editor'] };
+
+	const withoutTimestamps = ({ timestamp: _timestamp, bitPermissions: { timestamp: _bitTimestamp, ...bitPermissions }, ...state }: RBACSystemState) =>
+		({ ...state, bitPermissions });
+
+	describe.each([
+		['bit-based', true],
+		['string-based', false],
+	])('%s system', (_name, useBitSystem) => {
+		let rbac: RBAC;
+
+		beforeEach(() => {
+			rbac = new RBAC({ useBitSystem, enableCache: true });
+			rbac.createRole('viewer', ['post:read']);
+			rbac.createRole('editor', ['post:write'], ['viewer']);
+		});
+
+		it('should apply all changes and return the callback result', () => {
+			const result = rbac.transaction(tx => {
+				tx.createRole('moderator', ['comment:hide'], ['viewer']);
+				tx.grantPermission('editor', 'post:publish');
+				tx.denyPermission('u1', 'post:read');
+				return 'done';
+			});
+
+			expect(result).toBe('done');
+			expect(rbac.hasPermission({ id: 'u2', roles: ['moderator'] }, 'post:read')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:publish')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(false);
+		});
+
+		it('should roll back every change when the callback throws', () => {
+			const before = withoutTimestamps(rbac.serialize());
+
+			expect(() => rbac.transaction(tx => {
+				tx.createRole('moderator', ['comment:hide']);
+				tx.revokePermission('editor', 'post:write');
+				tx.setRoleInheritance('editor', []);
+				tx.bindRole('u2', 'editor', { type: 'project', id: '42' });
+				tx.addGlobalDeny('post:read');
+				throw new Error('abort');
+			})).toThrow('abort');
+
+			expect(withoutTimestamps(rbac.serialize())).toEqual(before);
+			expect(rbac.getAllRoles()).not.toContain('moderator');
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+			expect(rbac.hasPermission(editor, 'post:read')).toBe(true);
+		});
+
+		it('should reject roles inheriting from undefined roles', () => {
+			expect(() => rbac.transaction(tx => {
+				tx.setRoleInheritance('editor', ['viewer', 'reviewer']);
+			})).toThrow("Role 'editor' inherits from undefined role: reviewer");
+			expect(rbac.getRoleParents('editor')).toEqual(['viewer']);
+
+			rbac.transaction(tx => {
+				tx.setRoleInheritance('editor', ['viewer', 'reviewer']);
+				tx.createRole('reviewer', ['post:review']);
+			});
+			expect(rbac.hasPermission(editor, 'post:review')).toBe(true);
+		});
+
+		it('should reject roles denying permissions they grant', () => {
+			expect(() => rbac.transaction(tx => {
+				tx.setRoleDenies('editor', ['post:write']);
+			})).toThrow("Role 'editor' both grants and denies permission: post:write");
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+		});
+
+		it('should invalidate cached results once, on commit', () => {
+			expect(rbac.hasPermission(editor, 'post:delete')).toBe(false);
+
+			rbac.transaction(tx => {
+				tx.grantPermission('editor', 'post:delete');
+				// Checks inside the transaction see its changes
+				expect(tx.hasPermission(editor, 'post:delete')).toBe(true);
+			});
+
+			expect(rbac.hasPermission(editor, 'post:delete')).toBe(true);
+		});
+
+		it('should keep cached results after a rollback', () => {
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+			expect(rbac.getCacheStats()?.size).toBe(1);
+
+			expect(() => rbac.transaction(tx => {
+				tx.revokePermission('editor', 'post:write');
+				expect(tx.hasPermission(editor, 'post:write')).toBe(false);
+				throw new Error('abort');
+			})).toThrow('abort');
+
+			expect(rbac.getCacheStats()?.size).toBe(1);
+			expect(rbac.hasPermission(editor, 'post:write')).toBe(true);
+		});
+	});
+
+	describe('plugins', () => {
+		let rbac: RBAC;
+		const onTransaction = vi.fn();
+		const onPermissionGranted = vi.fn();
+		const onRoleAdded = vi.fn();
+
+		beforeEach(async () => {
+			vi.spyOn(console, 'log').mockImplementation(() => {});
+			rbac = new RBAC();
+			rbac.createRole('viewer', ['post:read']);
+			await rbac.registerPlugin({ name: 'recorder', onTransaction, onPermissionGranted, onRoleAdded });
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+			vi.clearAllMocks();
+		});
+
+		it('should report a committed transaction as one event', () => {
+			rbac.transaction(tx => {
+				tx.createRole('editor', ['post:write'], ['viewer']);
+				tx.grantPermission('viewer', 'post:comment');
+				tx.denyPermission('u1', 'post:write');
+				tx.addGlobalDeny('post:delete');
+			});
+
+			expect(onPermissionGranted).not.toHaveBeenCalled();
+			expect(onRoleAdded).not.toHaveBeenCalled();
+			expect(onTransaction).toHaveBeenCalledTimes(1);
+
+			const [event] = onTransaction.mock.calls[0] as [TransactionEvent];
+			expect(event.roles.map(change => change.role).sort()).toEqual(['editor', 'viewer']);
+			expect(event.roles.find(change => change.role === 'editor')?.before).toBeUndefined();
+			expect(event.roles.find(change => change.role === 'viewer')?.after?.permissions).toEqual(['post:read', 'post:comment']);
+			expect(event.users).toEqual([{
+				userId: 'u1',
+				before: { userId: 'u1', denies: [], bindings: [] },
+				after: { userId: 'u1', denies: [{ userId: 'u1', permission: 'post:write' }], bindings: [] },
+			}]);
+			expect(event.globalDeny).toEqual({ before: [], after: ['post:delete'] });
+			expect(event.after.bitPermissions.roles).toHaveProperty('editor');
+		});
+
+		it('should not report rolled back or empty transactions', () => {
+			expect(() => rbac.transaction(tx => {
+				tx.grantPermission('viewer', 'post:comment');
+				throw new Error('abort');
+			})).toThrow('abort');
+			rbac.transaction(() => {});
+
+			expect(onTransaction).not.toHaveBeenCalled();
+			expect(onPermissionGranted).not.toHaveBeenCalled();
+		});
+
+		it('should join nested transactions to the outermost one', () => {
+			expect(() => rbac.transaction(tx => {
+				tx.transaction(inner => inner.grantPermission('viewer', 'post:comment'));
+				throw new Error('abort');
+			})).toThrow('abort');
+			expect(rbac.getRolePermissions('viewer')).toEqual(['post:read']);
+
+			rbac.transaction(tx => {
+				tx.transaction(inner => inner.grantPermission('viewer', 'post:comment'));
+				tx.grantPermission('viewer', 'post:share');
+			});
+			expect(onTransaction).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	it('should reject asynchronous callbacks', () => {
+		const rbac = new RBAC();
+		rbac.createRole('viewer', ['post:read']);
+
+		expect(() => rbac.transaction(async tx => {
+			tx.grantPermission('viewer', 'post:comment');
+		})).toThrow('Transaction callbacks must be synchronous');
+		expect(rbac.getRolePermissions('viewer')).toEqual(['post:read']);
+	});
+
+	it('should restore lazy roles evaluated during a rolled back transaction', () => {
+		const rbac = new RBAC({
+			lazyRoles: true,
+			config: {
+				name: 'lazy',
+				version: '1.0.0',
+				permissions: [{ name: 'post:read' }],
+				roles: [{ name: 'viewer', permissions: ['post:read'] }],
+			},
+		});
+
+		expect(() => rbac.transaction(tx => {
+			tx.grantPermission('viewer', 'post:comment');
+			throw new Error('abort');
+		})).toThrow('abort');
+
+		expect(rbac.getPendingRoles()).toEqual(['viewer']);
+		expect(rbac.hasPermission({ id: 'u1', roles: ['viewer'] }, 'post:read')).toBe(true);
+	});
+
+	it('should save a committed transaction to the store once', async () => {
+		const store = new MemoryRBACStore();
+		const save = vi.spyOn(store, 'save');
+		const rbac = new RBAC({ store });
+		rbac.transaction(tx => {
+			tx.createRole('viewer', ['post:read']);
+			tx.grantPermission('viewer', 'post:comment');
+		});
+		await rbac.flushStore();
+
+		expect(save).toHaveBeenCalledTimes(1);
+		expect((await RBAC.fromStore(store)).getRolePermissions('viewer')).toEqual(['post:read', 'post:comment']);
+	});
+});
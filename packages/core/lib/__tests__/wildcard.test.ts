@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { WildcardMatcher } from '../utils/wildcard-matcher';
+import { PatternTrie } from '../core/pattern-trie';
+import { RBAC } from '../index';
 
 describe('WildcardMatcher', () => {
   describe('Pattern Matching', () => {
@@ -115,6 +117,114 @@ describe('WildcardMatcher', () => {
     });
   });
 
+  describe('Segments', () => {
+    it('should match a single segment with *', () => {
+      expect(WildcardMatcher.matches('user:profile', 'user:*')).toBe(true);
+      expect(WildcardMatcher.matches('user:profile:delete', 'user:*')).toBe(false);
+      expect(WildcardMatcher.matches('post:comment:read', '*:read')).toBe(false);
+      expect(WildcardMatcher.matches('user:draft-1', 'user:draft-*')).toBe(true);
+      expect(WildcardMatcher.matches('user:draft-1:edit', 'user:draft-*')).toBe(false);
+    });
+
+    it('should match one or more segments with **', () => {
+      expect(WildcardMatcher.matches('user:profile', 'user:**')).toBe(true);
+      expect(WildcardMatcher.matches('user:profile:delete', 'user:**')).toBe(true);
+      expect(WildcardMatcher.matches('user', 'user:**')).toBe(false);
+      expect(WildcardMatcher.matches('api:v1:users:read', 'api:**:read')).toBe(true);
+    });
+
+    it('should keep a bare * matching everything', () => {
+      expect(WildcardMatcher.matches('user:profile:delete', '*')).toBe(true);
+    });
+
+    it('should support {a,b} alternations', () => {
+      expect(WildcardMatcher.matches('post:read', 'post:{read,write}')).toBe(true);
+      expect(WildcardMatcher.matches('post:write', 'post:{read,write}')).toBe(true);
+      expect(WildcardMatcher.matches('post:delete', 'post:{read,write}')).toBe(false);
+      expect(WildcardMatcher.matches('page:edit', '{post,page}:*')).toBe(true);
+      expect(WildcardMatcher.expandAlternations('{a,b}:{c,d}')).toEqual(['a:c', 'a:d', 'b:c', 'b:d']);
+    });
+
+    it('should compile each pattern once', () => {
+      expect(WildcardMatcher.compile('admin:*')).toBe(WildcardMatcher.compile('admin:*'));
+    });
+  });
+
+  describe('PatternTrie', () => {
+    const trie = new PatternTrie(['post:read', 'post:*', '{post,page}:**', 'user:draft-*', '*:*:delete']);
+
+    it('should return the first matching pattern in list order', () => {
+      expect(trie.match('post:read')).toBe('post:read');
+      expect(trie.match('post:write')).toBe('post:*');
+      expect(trie.match('page:comment:write')).toBe('{post,page}:**');
+      expect(trie.match('user:draft-2')).toBe('user:draft-*');
+      expect(trie.match('user:profile')).toBeUndefined();
+    });
+
+    it('should return every matching pattern', () => {
+      expect(trie.matchAll('post:comment:delete')).toEqual(['{post,page}:**', '*:*:delete']);
+      expect(trie.matchAll('post:read')).toEqual(['post:read', 'post:*', '{post,page}:**']);
+    });
+
+    it('should agree with WildcardMatcher', () => {
+      const permissions = ['post:read', 'post:a:b', 'page:x', 'user:draft-', 'a:b:delete', 'delete'];
+      const patterns = ['post:*', '{post,page}:**', 'user:draft-*', '*:*:delete', '*'];
+
+      for (const pattern of patterns) {
+        const single = new PatternTrie([pattern]);
+        for (const permission of permissions) {
+          expect(single.match(permission) !== undefined).toBe(WildcardMatcher.matches(permission, pattern));
+        }
+      }
+    });
+  });
+
+  describe('RBAC integration', () => {
+    it('should not let a single-segment wildcard grant nested permissions', () => {
+      const rbac = new RBAC();
+      rbac.createRole('user-admin', ['user:*', 'billing:**', 'post:{read,write}']);
+      const user = { id: 'u1', roles: ['user-admin'] };
+
+      expect(rbac.hasPermission(user, 'user:profile')).toBe(true);
+      expect(rbac.hasPermission(user, 'user:profile:delete')).toBe(false);
+      expect(rbac.hasPermission(user, 'billing:invoice:refund')).toBe(true);
+      expect(rbac.hasPermission(user, 'post:write')).toBe(true);
+      expect(rbac.hasPermission(user, 'post:delete')).toBe(false);
+    });
+
+    it('should recompile role matchers when grants change', () => {
+      const rbac = new RBAC({ useBitSystem: false });
+      rbac.createRole('editor', ['post:*']);
+      const user = { id: 'u1', roles: ['editor'] };
+
+      expect(rbac.hasPermission(user, 'page:edit')).toBe(false);
+      rbac.addPermissionToRole('editor', 'page:*');
+      expect(rbac.hasPermission(user, 'page:edit')).toBe(true);
+    });
+
+    it('should recompile cached legacy matchers when a parent role changes', () => {
+      const rbac = new RBAC({ useBitSystem: false });
+      rbac.createRole('viewer', ['post:read']);
+      rbac.createRole('editor', ['post:write']);
+      rbac.setRoleInheritance('editor', ['viewer']);
+      const user = { id: 'u1', roles: ['editor'] };
+
+      expect(rbac.hasPermission(user, 'page:read')).toBe(false);
+      rbac.addPermissionToRole('viewer', 'page:*');
+      expect(rbac.hasPermission(user, 'page:read')).toBe(true);
+      rbac.revokePermission('viewer', 'page:*');
+      expect(rbac.hasPermission(user, 'page:read')).toBe(false);
+    });
+
+    it('should fill the MemoryOptimizer pattern cache', () => {
+      const rbac = new RBAC({ optimizeMemory: true });
+      rbac.createRole('editor', ['post:draft-*']);
+
+      expect(rbac.hasPermission({ id: 'u1', roles: ['editor'] }, 'post:draft-1')).toBe(true);
+      expect(rbac.getMemoryStats().wildcardPatternCacheSize).toBe(1);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty patterns', () => {
       expect(WildcardMatcher.matches('user:read', '')).toBe(false);
@@ -2,6 +2,15 @@ import { RBAC } from '../index';
 import type { PermissionConfig, RBACConfigSchema, PresetConfig } from '../types/config.types';
 import type { RoleConfig } from '../types/role.types';
 import type { AuditLogger } from '../types/audit.types'
+import type { PermissionMask, SerializedPermissionMask } from '../types/utility.types';
+import type { ConditionPredicate, PermissionCondition } from '../types/condition.types';
+import type { ConflictStrategy } from '../types/strategy.types';
+import type { Clock } from '../types/grant.types';
+import type { PolicyProvider } from '../types/provider.types';
+import type { RBACStore } from '../utils/rbac-store';
+import type { PluginFailurePolicy } from '../types/plugin.types';
+import type { PolicyHistoryOptions } from '../types/history.types';
+import type { BitStateMigration, DeprecationLogger } from '../types/permission.types';
 /**
  * Fluent API builder for RBAC system
  * Provides a convenient way to configure RBAC with method chaining
@@ -21,12 +30,26 @@ export class RBACBuilder {
 	private permissions: PermissionConfig[] = [];
 	private roles: RoleConfig[] = [];
 	private roleHierarchy: Record<string, string[]> = {};
+	private globalDenies: string[] = [];
+	private implications: Record<string, string[]> = {};
+	private groups: Record<string, string[]> = {};
 	private useBit: boolean = true;
-	private startBitValue: number = 1;
+	private startBitValue: PermissionMask | SerializedPermissionMask = 1;
 	private strictMode: boolean = false;
 	private autoBitAssignment: boolean = true;
 	private wildcardsEnabled: boolean = true;
 	private auditLogger?: AuditLogger;
+	private conditionPredicates: Record<string, ConditionPredicate> = {};
+	private conflictStrategy?: ConflictStrategy;
+	private clock?: Clock;
+	private policyProvider?: PolicyProvider;
+	private providerRoleTTL?: number;
+	private store?: RBACStore;
+	private autoSave?: boolean;
+	private pluginFailurePolicy?: PluginFailurePolicy;
+	private history?: boolean | PolicyHistoryOptions;
+	private stateMigrations: BitStateMigration[] = [];
+	private deprecationLogger?: DeprecationLogger;
 	private currentRole?: string;
 
 	// Fluent API state
@@ -54,6 +77,7 @@ export class RBACBuilder {
 	withPreset(preset: PresetConfig): this {
 		this.permissions = [...preset.permissions];
 		this.roles = [...preset.roles];
+		this.globalDenies = [...(preset.deny ?? [])];
 
 		if (preset.options) {
 			this.autoBitAssignment = preset.options.autoBitAssignment ?? true;
@@ -88,10 +112,86 @@ export class RBACBuilder {
 		return this;
 	}
 
+	/**
+	 * Register a named condition predicate for role grant conditions
+	 */
+	withCondition(name: string, predicate: ConditionPredicate): this {
+		this.conditionPredicates[name] = predicate;
+		return this;
+	}
+
+	/**
+	 * Set how conflicts between matching allow and deny rules are resolved
+	 */
+	withConflictStrategy(strategy: ConflictStrategy): this {
+		this.conflictStrategy = strategy;
+		return this;
+	}
+
+	/**
+	 * Set the clock time-bound grants and deny entries are evaluated against
+	 */
+	withClock(clock: Clock): this {
+		this.clock = clock;
+		return this;
+	}
+
+	/**
+	 * Set the provider async checks load role definitions, user roles and denies from
+	 * @param roleTTL Reload loaded roles after this many ms (default: kept for the life of the instance)
+	 */
+	withPolicyProvider(provider: PolicyProvider, roleTTL?: number): this {
+		this.policyProvider = provider;
+		this.providerRoleTTL = roleTTL;
+		return this;
+	}
+
+	/**
+	 * Set the store the state is persisted to
+	 * @param autoSave Save every mutation (default: true); otherwise call saveToStore()
+	 */
+	withStore(store: RBACStore, autoSave: boolean = true): this {
+		this.store = store;
+		this.autoSave = autoSave;
+		return this;
+	}
+
+	/**
+	 * Set the outcome of checks whose interceptor plugins throw (default: 'fail-closed')
+	 */
+	withPluginFailurePolicy(policy: PluginFailurePolicy): this {
+		this.pluginFailurePolicy = policy;
+		return this;
+	}
+
+	/**
+	 * Keep versioned snapshots of the policy saved with saveVersion()
+	 */
+	withHistory(options: PolicyHistoryOptions = {}): this {
+		this.history = options;
+		return this;
+	}
+
+	/**
+	 * Set the logger receiving deprecation warnings for renamed and deprecated permissions (default: console)
+	 */
+	withDeprecationLogger(logger: DeprecationLogger): this {
+		this.deprecationLogger = logger;
+		return this;
+	}
+
+	/**
+	 * Add migration steps for bit permission states of other versions, run when a state is loaded
+	 */
+	withStateMigrations(...migrations: BitStateMigration[]): this {
+		this.stateMigrations.push(...migrations);
+		return this;
+	}
+
 	/**
 	 * Set starting bit value for auto-assignment
 	 */
-	withStartBitValue(value: number): this {
+	withStartBitValue(value: PermissionMask | SerializedPermissionMask): this {
 		this.startBitValue = value;
 		return this;
 	}
@@ -100,16 +200,19 @@ export class RBACBuilder {
 	 * Add a permission
 	 * @param name Permission name (e.g., 'user:read')
 	 * @param bit Optional manual bit assignment (must be power of 2)
-	 * @param options Additional options (resource, action, description, metadata)
+	 * @param options Additional options (resource, action, description, metadata, renamedFrom, aliases, deprecated)
 	 */
 	addPermission(
 		name: string,
-		bit?: number,
+		bit?: PermissionMask | SerializedPermissionMask,
 		options?: {
 			resource?: string;
 			action?: string;
 			description?: string;
 			metadata?: Record<string, any>;
+			renamedFrom?: string[];
+			aliases?: string[];
+			deprecated?: boolean | string;
 		}
 	): this {
 		this.permissions.push({
@@ -123,23 +226,53 @@ export class RBACBuilder {
 	/**
 	 * Add multiple permissions at once
 	 */
-	addPermissions(...permissions: Array<{ name: string; bit?: number }>): this {
+	addPermissions(...permissions: Array<{ name: string; bit?: PermissionMask | SerializedPermissionMask }>): this {
 		for (const perm of permissions) {
 			this.addPermission(perm.name, perm.bit);
 		}
 		return this;
 	}
 
+	/**
+	 * Deny permissions (or wildcard patterns) to every user, regardless of roles
+	 */
+	withGlobalDeny(...permissions: string[]): this {
+		this.globalDenies.push(...permissions);
+		return this;
+	}
+
+	/**
+	 * Declare that an action or permission implies others
+	 * @example withImplication('write', ['read']) // posts:write implies posts:read
+	 * @example withImplication('admin:*', ['audit:read'])
+	 */
+	withImplication(source: string, implied: string[]): this {
+		this.implications[source] = Array.from(new Set([...(this.implications[source] ?? []), ...implied]));
+		return this;
+	}
+
+	/**
+	 * Define a named permission group, referenced from roles as '@name'
+	 * @example withGroup('contentEditing', ['post:write', 'post:publish']).addRole('editor', ['@contentEditing'])
+	 */
+	withGroup(name: string, permissions: string[]): this {
+		this.groups[name] = [...permissions];
+		return this;
+	}
+
 	/**
 	 * Add a role
 	 * @param name Role name (e.g., 'admin')
-	 * @param permissions List of permission names
-	 * @param options Additional options (level, description, metadata)
+	 * @param permissions List of permission names (`!` prefix denies a permission, `@` references a group)
+	 * @param options Additional options (inherits, deny, conditions, level, description, metadata)
 	 */
 	addRole(
 		name: string,
 		permissions: string[],
 		options?: {
+			inherits?: string[];
+			deny?: string[];
+			conditions?: Record<string, PermissionCondition>;
 			level?: number;
 			description?: string;
 			metadata?: Record<string, any>;
@@ -186,6 +319,7 @@ export class RBACBuilder {
 
 		// Auto-register permissions if not already in the permissions array
 		for (const perm of permissions) {
+			if (perm.startsWith('!')) continue;
 			if (!this.permissions.some(p => p.name === perm)) {
 				this.addPermission(perm);
 			}
@@ -199,6 +333,8 @@ export class RBACBuilder {
 
 	/**
 	 * Fluent API: Set role hierarchy
+	 * Each key inherits all permissions of the roles listed as its value
+	 * @example `.hierarchy({ admin: ['editor'], editor: ['viewer'] })`
 	 */
 	hierarchy(hierarchy: Record<string, string[]>): this {
 		this.roleHierarchy = { ...this.roleHierarchy, ...hierarchy };
@@ -216,7 +352,10 @@ export class RBACBuilder {
 
 		const config: RBACConfigSchema = {
 			permissions: this.permissions,
-			roles: this.roles,
+			roles: this.applyHierarchy(this.roles),
+			...(this.globalDenies.length > 0 && { deny: [...this.globalDenies] }),
+			...(Object.keys(this.implications).length > 0 && { implications: { ...this.implications } }),
+			...(Object.keys(this.groups).length > 0 && { groups: { ...this.groups } }),
 			options: {
 				autoBitAssignment: this.autoBitAssignment,
 				startBitValue: this.startBitValue,
@@ -224,32 +363,46 @@ export class RBACBuilder {
 			},
 		};
 
-		const rbac = new RBAC({
+		return new RBAC({
 			config,
 			useBitSystem: this.useBit,
 			strictMode: this.strictMode,
 			enableWildcards: this.wildcardsEnabled,
 			auditLogger: this.auditLogger,
+			conditions: this.conditionPredicates,
+			conflictStrategy: this.conflictStrategy,
+			clock: this.clock,
+			policyProvider: this.policyProvider,
+			providerRoleTTL: this.providerRoleTTL,
+			store: this.store,
+			autoSave: this.autoSave,
+			pluginFailurePolicy: this.pluginFailurePolicy,
+			history: this.history,
+			stateMigrations: this.stateMigrations,
+			deprecationLogger: this.deprecationLogger,
 		});
-
-		// Apply hierarchy if defined
-		this.applyHierarchy(rbac);
-
-		return rbac;
 	}
 
 	/**
-	 * Apply role hierarchy to the RBAC instance
+	 * Merge hierarchy() declarations into role inheritance
+	 * Roles only referenced in the hierarchy are added without direct permissions
 	 */
-	private applyHierarchy(rbac: RBAC): void {
-		if (Object.keys(this.roleHierarchy).length === 0) return;
-
-		for (const [parent, children] of Object.entries(this.roleHierarchy)) {
-			const parentLevel = rbac.getRoleHierarchy().getRoleLevel(parent) || 1;
-			children.forEach(child => {
-				rbac.getRoleHierarchy().setRoleLevel(child, parentLevel + 1);
-			});
+	private applyHierarchy(roles: RoleConfig[]): RoleConfig[] {
+		if (Object.keys(this.roleHierarchy).length === 0) return roles;
+
+		const result = roles.map(role => {
+			const parents = this.roleHierarchy[role.name];
+			if (!parents) return role;
+			return { ...role, inherits: Array.from(new Set([...(role.inherits ?? []), ...parents])) };
+		});
+
+		for (const [roleName, parents] of Object.entries(this.roleHierarchy)) {
+			if (!result.some(role => role.name === roleName)) {
+				result.push({ name: roleName, permissions: [], inherits: [...parents] });
+			}
 		}
+
+		return result;
 	}
 
 	/**
@@ -258,6 +411,12 @@ export class RBACBuilder {
 	reset(): this {
 		this.permissions = [];
 		this.roles = [];
+		this.roleHierarchy = {};
+		this.globalDenies = [];
+		this.implications = {};
+		this.groups = {};
+		this.conditionPredicates = {};
+		this.conflictStrategy = undefined;
 		this.useBit = true;
 		this.startBitValue = 1;
 		this.strictMode = false;
@@ -271,7 +430,10 @@ export class RBACBuilder {
 	getConfig(): RBACConfigSchema {
 		return {
 			permissions: this.permissions,
-			roles: this.roles,
+			roles: this.applyHierarchy(this.roles),
+			...(this.globalDenies.length > 0 && { deny: [...this.globalDenies] }),
+			...(Object.keys(this.implications).length > 0 && { implications: { ...this.implications } }),
+			...(Object.keys(this.groups).length > 0 && { groups: { ...this.groups } }),
 			options: {
 				autoBitAssignment: this.autoBitAssignment,
 				startBitValue: this.startBitValue,
@@ -1,35 +1,66 @@
-import type { BitPermissionState } from '../types/permission.types';
+import type { BitPermissionState, BitStateMigration, BitStateMigrationReport } from '../types/permission.types';
+import type { PermissionMask, SerializedPermissionMask } from '../types/utility.types';
+import { RoleGraph } from './role-graph';
+import { PermissionGroups } from './permission-groups';
+import { BitStateMigrations } from './bit-state-migrations';
+import {
+	orMasks,
+	masksIntersect,
+	isEmptyMask,
+	isSingleBit,
+	toBigIntMask,
+	normalizeMask,
+	serializeMask,
+	deserializeMask,
+} from './permission-mask';
+
+/**
+ * Migrations known to every manager
+ * 2.2.2: version RBAC.serialize() wrote for the (empty) bit state of string-based systems; same layout as 1.0.0
+ */
+const BUILTIN_MIGRATIONS: BitStateMigration[] = [
+	{ from: '2.2.2', to: '1.0.0', description: 'Version written for string-based systems', migrate: state => state },
+];
 
 /**
  * Bit-based permission system for efficient permission checking
  * Supports both automatic and manual bit assignment for persistence
+ * Masks are numbers up to 31 permissions and transparently switch to BigInt beyond that
  */
 export class BitPermissionManager {
-	private permissions: Map<string, number> = new Map();
-	private nextBitValue: number = 1; // Start with 2^0 = 1
-	private roles: Map<string, number> = new Map(); // Role name -> permission mask
-	private readonly version: string = '1.0.0';
+	/** Version of the state written by serialize(); older states are migrated on deserialize() */
+	static readonly STATE_VERSION = '1.0.0';
+
+	private permissions: Map<string, PermissionMask> = new Map();
+	private nextBitValue: bigint = 1n; // Start with 2^0 = 1
+	private roles: Map<string, PermissionMask> = new Map(); // Role name -> own permission mask
+	private roleGraph: RoleGraph = new RoleGraph(); // Role name -> inherited parent roles
+	private groups: PermissionGroups = new PermissionGroups(); // Group name -> members ('@name' references)
+	private migrations: BitStateMigrations;
 	private strictMode: boolean = false;
 
-	constructor(options: { startBitValue?: number; strictMode?: boolean } = {}) {
-		this.nextBitValue = options.startBitValue ?? 1;
+	constructor(options: {
+		startBitValue?: PermissionMask | SerializedPermissionMask;
+		strictMode?: boolean;
+		migrations?: BitStateMigration[];
+	} = {}) {
+		this.nextBitValue = toBigIntMask(options.startBitValue ?? 1);
 		this.strictMode = options.strictMode ?? false;
+		this.migrations = new BitStateMigrations([...BUILTIN_MIGRATIONS, ...(options.migrations ?? [])]);
 	}
 
 	/**
 	 * Register a new permission with optional manual bit assignment
 	 * @param name Permission name (e.g., 'user:read')
-	 * @param manualBit Optional manual bit value (must be power of 2)
+	 * @param manualBit Optional manual bit value (must be power of 2, may exceed 2^31)
 	 * @returns The assigned bit value
 	 */
-	registerPermission(name: string, manualBit?: number): number {
+	registerPermission(name: string, manualBit?: PermissionMask | SerializedPermissionMask): PermissionMask {
 		// Return existing if already registered
 		if (this.permissions.has(name)) {
 			return this.permissions.get(name)!;
 		}
 
-		let bitValue: number;
-
 		if (manualBit !== undefined) {
 			// Manual bit assignment
 			if (!this.isPowerOfTwo(manualBit)) {
@@ -39,110 +70,194 @@ export class BitPermissionManager {
 				} else {
 					console.warn(errorMsg + ' Using auto-assignment instead.');
 					// Fallback to auto assignment
-					bitValue = this.nextBitValue;
-					this.nextBitValue *= 2;
-					this.permissions.set(name, bitValue);
-					return bitValue;
+					return this.assignNextBit(name);
 				}
 			}
 
+			const bitValue = toBigIntMask(manualBit);
+
 			// Check for conflicts
-			if (this.isBitUsed(manualBit)) {
-				const conflictingPerm = this.getPermissionByBit(manualBit);
+			if (this.isBitUsed(bitValue)) {
+				const conflictingPerm = this.getPermissionByBit(bitValue);
 				const errorMsg = `Bit ${manualBit} already assigned to permission '${conflictingPerm}'`;
 				if (this.strictMode) {
 					throw new Error(errorMsg);
 				} else {
 					console.warn(errorMsg + ' Using auto-assignment instead.');
 					// Fallback to auto assignment
-					bitValue = this.nextBitValue;
-					this.nextBitValue *= 2;
-					this.permissions.set(name, bitValue);
-					return bitValue;
+					return this.assignNextBit(name);
 				}
 			}
 
-			bitValue = manualBit;
-
 			// Update nextBitValue if manual bit is higher
-			if (manualBit >= this.nextBitValue) {
-				this.nextBitValue = manualBit * 2; // Multiply by 2 (avoid bitwise overflow)
-			}
-		} else {
-			// Automatic bit assignment
-			if (this.nextBitValue >= 2 ** 31) {
-				throw new Error('Maximum number of permissions exceeded (31 bits)');
+			if (bitValue >= this.nextBitValue) {
+				this.nextBitValue = bitValue * 2n;
 			}
 
-			bitValue = this.nextBitValue;
-			this.nextBitValue *= 2; // Multiply by 2 (avoid bitwise overflow at 2^31)
+			const normalized = normalizeMask(bitValue);
+			this.permissions.set(name, normalized);
+			return normalized;
 		}
 
-		this.permissions.set(name, bitValue);
-		return bitValue;
+		// Automatic bit assignment (no upper limit)
+		return this.assignNextBit(name);
 	}
 
 	/**
 	 * Get permission bit value
 	 */
-	getPermissionBit(name: string): number | undefined {
+	getPermissionBit(name: string): PermissionMask | undefined {
 		return this.permissions.get(name);
 	}
 
 	/**
 	 * Check if a permission mask has a specific permission
 	 */
-	hasPermission(permissionMask: number, permissionName: string): boolean {
+	hasPermission(permissionMask: PermissionMask, permissionName: string): boolean {
 		const bitValue = this.permissions.get(permissionName);
-		if (!bitValue) return false;
-		return (permissionMask & bitValue) !== 0;
+		if (bitValue === undefined) return false;
+		return masksIntersect(permissionMask, bitValue);
 	}
 
 	/**
 	 * Check if a permission mask has any of the specified permissions
 	 */
-	hasAnyPermission(permissionMask: number, permissionNames: string[]): boolean {
+	hasAnyPermission(permissionMask: PermissionMask, permissionNames: string[]): boolean {
 		return permissionNames.some(name => this.hasPermission(permissionMask, name));
 	}
 
 	/**
 	 * Check if a permission mask has all of the specified permissions
 	 */
-	hasAllPermissions(permissionMask: number, permissionNames: string[]): boolean {
+	hasAllPermissions(permissionMask: PermissionMask, permissionNames: string[]): boolean {
 		return permissionNames.every(name => this.hasPermission(permissionMask, name));
 	}
 
 	/**
-	 * Create a permission mask from permission names
+	 * Create a permission mask from permission names ('@group' references are expanded)
 	 */
-	createPermissionMask(permissionNames: string[]): number {
-		return permissionNames.reduce((mask, name) => {
+	createPermissionMask(permissionNames: string[]): PermissionMask {
+		return this.groups.expand(permissionNames).reduce<PermissionMask>((mask, name) => {
 			const bitValue = this.permissions.get(name);
-			return bitValue ? mask | bitValue : mask;
+			return bitValue !== undefined ? orMasks(mask, bitValue) : mask;
 		}, 0);
 	}
 
 	/**
 	 * Register a role with its permissions
+	 * @param roleName Role name
+	 * @param permissionNames Permissions granted directly to the role
+	 * @param inherits Optional parent roles (keeps existing parents when omitted)
 	 */
-	registerRole(roleName: string, permissionNames: string[]): void {
+	registerRole(roleName: string, permissionNames: string[], inherits?: string[]): void {
+		if (inherits !== undefined) {
+			this.roleGraph.setParents(roleName, inherits);
+		}
 		const permissionMask = this.createPermissionMask(permissionNames);
 		this.roles.set(roleName, permissionMask);
 	}
 
 	/**
-	 * Get role permission mask
+	 * Define (or replace) a named permission group, referenced from roles as '@name'
+	 * @throws Error if the group references an unknown group or would create a cycle
+	 */
+	registerGroup(groupName: string, members: string[]): void {
+		this.groups.define(groupName, members);
+	}
+
+	/**
+	 * Define several groups at once (references between them may appear in any order)
+	 * @throws Error if the groups are malformed, reference unknown groups or form a cycle
+	 */
+	registerGroups(groups: Record<string, string[]>): void {
+		this.groups.defineAll(groups);
+	}
+
+	/**
+	 * Get the direct members of a group
+	 */
+	getGroup(groupName: string): string[] | undefined {
+		return this.groups.get(groupName);
+	}
+
+	/**
+	 * Get all groups (group name -> direct members)
+	 */
+	getGroups(): Record<string, string[]> {
+		return this.groups.toJSON();
+	}
+
+	/**
+	 * Check if a group includes another group, directly or through nested groups
+	 */
+	groupIncludes(groupName: string, nestedGroup: string): boolean {
+		return this.groups.includes(groupName, nestedGroup);
+	}
+
+	/**
+	 * Replace '@group' references with the permissions they contain
+	 * @throws Error if a referenced group does not exist
+	 */
+	expandGroups(permissionNames: string[]): string[] {
+		return this.groups.expand(permissionNames);
+	}
+
+	/**
+	 * Set parent roles a role inherits permissions from
+	 * @throws Error if inheritance would create a cycle
+	 */
+	setRoleInheritance(roleName: string, parentRoles: string[]): void {
+		this.roleGraph.setParents(roleName, parentRoles);
+	}
+
+	/**
+	 * Get direct parent roles of a role
+	 */
+	getRoleParents(roleName: string): string[] {
+		return this.roleGraph.getParents(roleName);
+	}
+
+	/**
+	 * Get all roles a role inherits from (transitively)
+	 */
+	getRoleAncestors(roleName: string): string[] {
+		return this.roleGraph.getAncestors(roleName);
+	}
+
+	/**
+	 * Check if a role inherits (directly or transitively) from another role
+	 */
+	inheritsFrom(roleName: string, ancestorRole: string): boolean {
+		return this.roleGraph.inheritsFrom(roleName, ancestorRole);
+	}
+
+	/**
+	 * Get effective role permission mask (own permissions + inherited permissions)
+	 */
+	getRoleMask(roleName: string): PermissionMask | undefined {
+		const ownMask = this.roles.get(roleName);
+		if (ownMask === undefined) return undefined;
+
+		let mask = ownMask;
+		for (const ancestor of this.roleGraph.getAncestors(roleName)) {
+			mask = orMasks(mask, this.roles.get(ancestor) ?? 0);
+		}
+		return mask;
+	}
+
+	/**
+	 * Get role permission mask without inherited permissions
 	 */
-	getRoleMask(roleName: string): number | undefined {
+	getDirectRoleMask(roleName: string): PermissionMask | undefined {
 		return this.roles.get(roleName);
 	}
 
 	/**
-	 * Check if a role has a specific permission
+	 * Check if a role has a specific permission (including inherited permissions)
 	 */
 	roleHasPermission(roleName: string, permissionName: string): boolean {
-		const roleMask = this.roles.get(roleName);
-		if (!roleMask) return false;
+		const roleMask = this.getRoleMask(roleName);
+		if (roleMask === undefined) return false;
 		return this.hasPermission(roleMask, permissionName);
 	}
 
@@ -161,51 +276,79 @@ export class BitPermissionManager {
 	}
 
 	/**
-	 * Get permissions for a role
+	 * Get permissions for a role (including inherited permissions)
 	 */
 	getRolePermissions(roleName: string): string[] {
-		const roleMask = this.roles.get(roleName);
-		if (!roleMask) return [];
+		return this.getPermissionsForMask(this.getRoleMask(roleName));
+	}
 
-		return Array.from(this.permissions.entries())
-			.filter(([, bitValue]) => (roleMask & bitValue) !== 0)
-			.map(([name]) => name);
+	/**
+	 * Get permissions granted directly to a role (excluding inherited permissions)
+	 */
+	getDirectRolePermissions(roleName: string): string[] {
+		return this.getPermissionsForMask(this.roles.get(roleName));
 	}
 
 	/**
 	 * Combine permission masks (bitwise OR)
 	 */
-	combineMasks(...masks: number[]): number {
-		return masks.reduce((result, mask) => result | mask, 0);
+	combineMasks(...masks: PermissionMask[]): PermissionMask {
+		return masks.reduce<PermissionMask>((result, mask) => orMasks(result, mask), 0);
 	}
 
 	/**
 	 * Check if one permission mask includes another (bitwise subset check)
 	 */
-	includesPermissions(containerMask: number, containedMask: number): boolean {
-		return (containerMask & containedMask) === containedMask;
+	includesPermissions(containerMask: PermissionMask, containedMask: PermissionMask): boolean {
+		const contained = toBigIntMask(containedMask);
+		return (toBigIntMask(containerMask) & contained) === contained;
+	}
+
+	/**
+	 * Helper: Get permission names contained in a mask
+	 */
+	private getPermissionsForMask(mask: PermissionMask | undefined): string[] {
+		if (mask === undefined || isEmptyMask(mask)) return [];
+
+		return Array.from(this.permissions.entries())
+			.filter(([, bitValue]) => masksIntersect(mask, bitValue))
+			.map(([name]) => name);
+	}
+
+	/**
+	 * Helper: Assign the next free automatic bit to a permission
+	 */
+	private assignNextBit(name: string): PermissionMask {
+		const bitValue = normalizeMask(this.nextBitValue);
+		this.nextBitValue *= 2n;
+		this.permissions.set(name, bitValue);
+		return bitValue;
 	}
 
 	/**
-	 * Helper: Check if a number is a power of 2
+	 * Helper: Check if a value is a power of 2
 	 */
-	private isPowerOfTwo(n: number): boolean {
-		return n > 0 && (n & (n - 1)) === 0;
+	private isPowerOfTwo(n: PermissionMask | SerializedPermissionMask): boolean {
+		try {
+			return isSingleBit(typeof n === 'string' ? toBigIntMask(n) : n);
+		} catch {
+			return false;
+		}
 	}
 
 	/**
 	 * Helper: Check if a bit is already used
 	 */
-	private isBitUsed(bit: number): boolean {
-		return Array.from(this.permissions.values()).includes(bit);
+	private isBitUsed(bit: bigint): boolean {
+		return this.getPermissionByBit(bit) !== undefined;
 	}
 
 	/**
 	 * Helper: Get permission name by bit value
 	 */
-	private getPermissionByBit(bit: number): string | undefined {
+	private getPermissionByBit(bit: bigint): string | undefined {
 		for (const [name, value] of this.permissions.entries()) {
-			if (value === bit) return name;
+			if (toBigIntMask(value) === bit) return name;
 		}
 		return undefined;
 	}
@@ -215,51 +358,96 @@ export class BitPermissionManager {
 	 * @returns Serialized state object
 	 */
 	serialize(): BitPermissionState {
-		const permissionsObj: Record<string, number> = {};
+		const permissionsObj: Record<string, SerializedPermissionMask> = {};
 		this.permissions.forEach((bit, name) => {
-			permissionsObj[name] = bit;
+			permissionsObj[name] = serializeMask(bit);
 		});
 
-		const rolesObj: Record<string, number> = {};
+		const rolesObj: Record<string, SerializedPermissionMask> = {};
 		this.roles.forEach((mask, name) => {
-			rolesObj[name] = mask;
+			rolesObj[name] = serializeMask(mask);
 		});
 
 		return {
 			permissions: permissionsObj,
 			roles: rolesObj,
-			nextBitValue: this.nextBitValue,
+			inherits: this.roleGraph.serialize(),
+			...(this.groups.size > 0 && { groups: this.groups.toJSON() }),
+			nextBitValue: serializeMask(this.nextBitValue),
 			timestamp: Date.now(),
-			version: this.version,
+			version: BitPermissionManager.STATE_VERSION,
 		};
 	}
 
 	/**
 	 * Deserialize and load state from persistence
-	 * @param state Saved state object
+	 * States of other versions are migrated first (states without a version are taken as current)
+	 * @param saved Saved state object
+	 * @throws Error if no registered migrations lead to the current version, or a migration breaks the bit layout
 	 */
-	deserialize(state: BitPermissionState): void {
-		// Validate version compatibility
-		if (state.version !== this.version) {
-			console.warn(`State version mismatch: expected ${this.version}, got ${state.version}`);
-		}
+	deserialize(saved: BitPermissionState): void {
+		const state = this.migrateState(saved);
 
 		// Clear existing state
 		this.permissions.clear();
 		this.roles.clear();
+		this.roleGraph.clear();
+		this.groups.clear();
 
 		// Load permissions
 		for (const [name, bit] of Object.entries(state.permissions)) {
-			this.permissions.set(name, bit);
+			this.permissions.set(name, deserializeMask(bit));
 		}
 
 		// Load roles
 		for (const [name, mask] of Object.entries(state.roles)) {
-			this.roles.set(name, mask);
+			this.roles.set(name, deserializeMask(mask));
+		}
+
+		// Load role inheritance (absent in states saved before inheritance support)
+		if (state.inherits) {
+			this.roleGraph.deserialize(state.inherits);
+		}
+
+		// Load permission groups (absent in states saved before group support)
+		if (state.groups) {
+			this.groups.defineAll(state.groups);
 		}
 
 		// Restore nextBitValue
-		this.nextBitValue = state.nextBitValue;
+		this.nextBitValue = toBigIntMask(state.nextBitValue);
+	}
+
+	/**
+	 * Register a migration step between two state versions
+	 * @throws Error if the step doesn't change the version or a step from the same version exists
+	 */
+	registerMigration(migration: BitStateMigration): void {
+		this.migrations.register(migration);
+	}
+
+	/**
+	 * Get all registered migration steps (built-in steps first)
+	 */
+	getMigrations(): BitStateMigration[] {
+		return this.migrations.list();
+	}
+
+	/**
+	 * Migrate a state to the current version without loading it (the given state is not modified)
+	 * @throws Error if no registered migrations lead to the current version, or a migration breaks the bit layout
+	 */
+	migrateState(state: BitPermissionState): BitPermissionState {
+		if (state.version === undefined) return state;
+		return this.migrations.migrate(state, BitPermissionManager.STATE_VERSION);
+	}
+
+	/**
+	 * Report what deserialize() would change in a state, without loading it
+	 * @throws Error if no registered migrations lead to the current version, or a migration breaks the bit layout
+	 */
+	dryRunMigration(state: BitPermissionState): BitStateMigrationReport {
+		return this.migrations.dryRun(state, BitPermissionManager.STATE_VERSION);
 	}
 
 	/**
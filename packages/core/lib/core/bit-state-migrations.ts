@@ -0,0 +1,155 @@
+import { isSingleBit, toBigIntMask } from './permission-mask';
+import type {
+	BitPermissionState,
+	BitStateChange,
+	BitStateMigration,
+	BitStateMigrationReport,
+} from '../types/permission.types';
+
+/**
+ * Registered migration steps between versions of the bit permission state
+ * Steps are chained from the version of a state to the target version; every step must keep saved bits valid
+ */
+export class BitStateMigrations {
+	private steps: Map<string, BitStateMigration> = new Map(); // From version -> step
+
+	constructor(migrations: BitStateMigration[] = []) {
+		for (const migration of migrations) {
+			this.register(migration);
+		}
+	}
+
+	/**
+	 * Register a migration step
+	 * @throws Error if the step doesn't change the version or a step from the same version exists
+	 */
+	register(migration: BitStateMigration): void {
+		if (migration.from === migration.to) {
+			throw new Error(`Migration must change the state version, got: ${migration.from} -> ${migration.to}`);
+		}
+		if (this.steps.has(migration.from)) {
+			throw new Error(`A migration from state version ${migration.from} is already registered`);
+		}
+		this.steps.set(migration.from, migration);
+	}
+
+	/**
+	 * Get all registered steps, in registration order
+	 */
+	list(): BitStateMigration[] {
+		return Array.from(this.steps.values());
+	}
+
+	/**
+	 * Get the steps leading from one version to another, in order
+	 * @throws Error if no chain of steps leads to the target version
+	 */
+	plan(from: string, to: string): BitStateMigration[] {
+		const steps: BitStateMigration[] = [];
+		const visited = new Set([from]);
+		let version = from;
+
+		while (version !== to) {
+			const step = this.steps.get(version);
+			if (!step || visited.has(step.to)) {
+				throw new Error(`No migration path for bit permission state from version ${from} to ${to}`);
+			}
+			visited.add(step.to);
+			steps.push(step);
+			version = step.to;
+		}
+		return steps;
+	}
+
+	/**
+	 * Migrate a state to the target version (the given state is not modified)
+	 * @throws Error if no path exists or a step breaks the bit layout
+	 */
+	migrate(state: BitPermissionState, to: string): BitPermissionState {
+		let migrated = state;
+		for (const step of this.plan(state.version, to)) {
+			// Steps work on a copy so a failing step leaves the caller's state untouched
+			const copy = JSON.parse(JSON.stringify(migrated)) as BitPermissionState;
+			const next = { ...step.migrate(copy), version: step.to };
+			BitStateMigrations.validateBits(migrated, next, step);
+			migrated = next;
+		}
+		return migrated;
+	}
+
+	/**
+	 * Report the steps and changes migrating a state would apply, without loading it
+	 */
+	dryRun(state: BitPermissionState, to: string): BitStateMigrationReport {
+		const steps = this.plan(state.version, to);
+		const migrated = this.migrate(state, to);
+
+		return {
+			from: state.version,
+			to,
+			steps: steps.map(({ from, to, description }) => ({ from, to, ...(description !== undefined && { description }) })),
+			changes: BitStateMigrations.diff(state, migrated),
+			state: migrated,
+		};
+	}
+
+	/**
+	 * Helper: Check that permissions kept by a step keep their bit, and that bits stay unique single bits
+	 */
+	private static validateBits(before: BitPermissionState, after: BitPermissionState, step: BitStateMigration): void {
+		const name = `Migration ${step.from} -> ${step.to}`;
+		if (!after || typeof after.permissions !== 'object' || typeof after.roles !== 'object') {
+			throw new Error(`${name} must return a state with permissions and roles`);
+		}
+
+		const owners = new Map<bigint, string>();
+		let highest = 0n;
+		for (const [permission, serialized] of Object.entries(after.permissions)) {
+			const bit = toBigIntMask(serialized);
+			if (!isSingleBit(bit)) {
+				throw new Error(`${name} gave permission '${permission}' an invalid bit: ${serialized}`);
+			}
+
+			const owner = owners.get(bit);
+			if (owner !== undefined) {
+				throw new Error(`${name} gave permissions '${owner}' and '${permission}' the same bit: ${serialized}`);
+			}
+			owners.set(bit, permission);
+			highest = bit > highest ? bit : highest;
+
+			const previous = before.permissions[permission];
+			if (previous !== undefined && toBigIntMask(previous) !== bit) {
+				throw new Error(`${name} moved permission '${permission}' from bit ${previous} to bit ${serialized}`);
+			}
+		}
+
+		// Bits freed by removed permissions are never reassigned: masks saved elsewhere may still carry them
+		const nextBitValue = toBigIntMask(after.nextBitValue);
+		if (nextBitValue <= highest || nextBitValue < toBigIntMask(before.nextBitValue)) {
+			throw new Error(`${name} set nextBitValue to ${after.nextBitValue}, below an assigned or previously used bit`);
+		}
+	}
+
+	/**
+	 * Helper: Entries changed between two states (timestamps excluded)
+	 */
+	private static diff(before: BitPermissionState, after: BitPermissionState): BitStateChange[] {
+		const changes: BitStateChange[] = [];
+		const compare = (path: string, a: unknown, b: unknown) => {
+			if (JSON.stringify(a) !== JSON.stringify(b)) {
+				changes.push({ path, ...(a !== undefined && { before: a }), ...(b !== undefined && { after: b }) });
+			}
+		};
+
+		for (const field of ['permissions', 'roles', 'inherits', 'groups'] as const) {
+			const a: Record<string, unknown> = before[field] ?? {};
+			const b: Record<string, unknown> = after[field] ?? {};
+			for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+				compare(`${field}.${key}`, a[key], b[key]);
+			}
+		}
+		compare('nextBitValue', before.nextBitValue, after.nextBitValue);
+		compare('version', before.version, after.version);
+		return changes;
+	}
+}
@@ -0,0 +1,252 @@
+import type {
+	ConditionContext,
+	ConditionExpression,
+	ConditionOperand,
+	ConditionPredicate,
+	PermissionCondition,
+} from '../types/condition.types';
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'in', 'contains'] as const;
+
+type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
+
+// Result of a condition node; undefined means indeterminate (the condition can't be decided)
+type ConditionResult = boolean | undefined;
+
+/**
+ * Evaluates ABAC conditions (named predicates and JSON expressions)
+ * Evaluation fails closed: unknown predicates, throwing predicates, missing attributes and type mismatches
+ * are indeterminate, which stays indeterminate through 'not', 'all' and 'any' and denies at the top level
+ */
+export class ConditionEvaluator {
+	private predicates: Map<string, ConditionPredicate> = new Map();
+	private warnedPredicates: Set<string> = new Set(); // Unknown predicates already reported
+
+	constructor(predicates: Record<string, ConditionPredicate> = {}) {
+		for (const [name, predicate] of Object.entries(predicates)) {
+			this.register(name, predicate);
+		}
+	}
+
+	/**
+	 * Register a named predicate
+	 */
+	register(name: string, predicate: ConditionPredicate): void {
+		this.predicates.set(name, predicate);
+	}
+
+	/**
+	 * Remove a named predicate
+	 */
+	unregister(name: string): boolean {
+		return this.predicates.delete(name);
+	}
+
+	/**
+	 * Check if a named predicate is registered
+	 */
+	has(name: string): boolean {
+		return this.predicates.has(name);
+	}
+
+	/**
+	 * Get all registered predicate names
+	 */
+	getPredicateNames(): string[] {
+		return Array.from(this.predicates.keys());
+	}
+
+	/**
+	 * Evaluate a condition against a context
+	 */
+	evaluate(condition: PermissionCondition, context: ConditionContext): boolean {
+		const result = typeof condition === 'string'
+			? this.evaluatePredicate(condition, context)
+			: this.evaluateExpression(condition, context);
+		return result === true;
+	}
+
+	/**
+	 * Validate condition structure
+	 * @param predicates Known predicate names; when given, references to other predicates are rejected
+	 * @throws Error describing the first invalid node
+	 */
+	static validate(condition: unknown, path: string = 'condition', predicates?: ReadonlySet<string>): void {
+		if (typeof condition === 'string') {
+			if (condition.length === 0) {
+				throw new Error(`Invalid ${path}: predicate name must not be empty`);
+			}
+			ConditionEvaluator.validatePredicateName(condition, path, predicates);
+			return;
+		}
+
+		if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+			throw new Error(`Invalid ${path}: expected a predicate name or an expression object`);
+		}
+
+		const keys = Object.keys(condition);
+		if (keys.length !== 1) {
+			throw new Error(`Invalid ${path}: expression must have exactly one operator, got [${keys.join(', ')}]`);
+		}
+
+		const operator = keys[0];
+		const operand = (condition as Record<string, unknown>)[operator];
+
+		switch (operator) {
+			case 'all':
+			case 'any':
+				if (!Array.isArray(operand)) {
+					throw new Error(`Invalid ${path}.${operator}: expected an array of expressions`);
+				}
+				operand.forEach((child, index) => ConditionEvaluator.validate(child, `${path}.${operator}[${index}]`, predicates));
+				return;
+			case 'not':
+				ConditionEvaluator.validate(operand, `${path}.not`, predicates);
+				return;
+			case 'predicate':
+				if (typeof operand !== 'string' || operand.length === 0) {
+					throw new Error(`Invalid ${path}.predicate: expected a predicate name`);
+				}
+				ConditionEvaluator.validatePredicateName(operand, `${path}.predicate`, predicates);
+				return;
+			case 'exists':
+				if (!ConditionEvaluator.isVariable(operand)) {
+					throw new Error(`Invalid ${path}.exists: expected { var: "path" }`);
+				}
+				return;
+			default:
+				if (!(COMPARISON_OPERATORS as readonly string[]).includes(operator)) {
+					throw new Error(`Invalid ${path}: unknown operator '${operator}'`);
+				}
+				if (!Array.isArray(operand) || operand.length !== 2) {
+					throw new Error(`Invalid ${path}.${operator}: expected exactly two operands`);
+				}
+		}
+	}
+
+	/**
+	 * Helper: Reject predicate names missing from the known predicates
+	 */
+	private static validatePredicateName(name: string, path: string, predicates?: ReadonlySet<string>): void {
+		if (predicates && !predicates.has(name)) {
+			throw new Error(`Invalid ${path}: unknown predicate '${name}'`);
+		}
+	}
+
+	/**
+	 * Helper: Evaluate a named predicate (indeterminate if unknown, throwing or not returning a boolean)
+	 */
+	private evaluatePredicate(name: string, context: ConditionContext): ConditionResult {
+		const predicate = this.predicates.get(name);
+		if (!predicate) {
+			if (!this.warnedPredicates.has(name)) {
+				this.warnedPredicates.add(name);
+				console.warn(`Unknown condition predicate '${name}' - denying`);
+			}
+			return undefined;
+		}
+
+		try {
+			const result = predicate(context);
+			return typeof result === 'boolean' ? result : undefined;
+		} catch (error) {
+			console.error(`Condition predicate '${name}' threw - denying:`, error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Helper: Evaluate a JSON expression (three-valued: 'not' keeps indeterminate results indeterminate)
+	 */
+	private evaluateExpression(expression: ConditionExpression, context: ConditionContext): ConditionResult {
+		if ('all' in expression) {
+			const results = expression.all.map(child => this.evaluateExpression(child, context));
+			if (results.includes(false)) return false;
+			return results.includes(undefined) ? undefined : true;
+		}
+		if ('any' in expression) {
+			const results = expression.any.map(child => this.evaluateExpression(child, context));
+			if (results.includes(true)) return true;
+			return results.includes(undefined) ? undefined : false;
+		}
+		if ('not' in expression) {
+			const result = this.evaluateExpression(expression.not, context);
+			return result === undefined ? undefined : !result;
+		}
+		if ('predicate' in expression) {
+			return this.evaluatePredicate(expression.predicate, context);
+		}
+		if ('exists' in expression) {
+			const value = this.resolveOperand(expression.exists, context);
+			return value !== undefined && value !== null;
+		}
+
+		for (const operator of COMPARISON_OPERATORS) {
+			if (operator in expression) {
+				const [left, right] = (expression as Record<ComparisonOperator, [ConditionOperand, ConditionOperand]>)[operator];
+				return this.compare(operator, this.resolveOperand(left, context), this.resolveOperand(right, context));
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Helper: Apply a comparison operator (indeterminate for missing attributes and type mismatches)
+	 */
+	private compare(operator: ComparisonOperator, left: unknown, right: unknown): ConditionResult {
+		if (left === undefined || right === undefined) return undefined;
+
+		switch (operator) {
+			case 'eq':
+				return left === right;
+			case 'ne':
+				return left !== right;
+			case 'lt':
+			case 'lte':
+			case 'gt':
+			case 'gte': {
+				const comparable =
+					(typeof left === 'number' && typeof right === 'number') ||
+					(typeof left === 'string' && typeof right === 'string');
+				if (!comparable) return undefined;
+				const a = left as number | string;
+				const b = right as number | string;
+				if (operator === 'lt') return a < b;
+				if (operator === 'lte') return a <= b;
+				if (operator === 'gt') return a > b;
+				return a >= b;
+			}
+			case 'in':
+				return Array.isArray(right) ? right.includes(left) : undefined;
+			case 'contains':
+				if (Array.isArray(left)) return left.includes(right);
+				return typeof left === 'string' && typeof right === 'string' ? left.includes(right) : undefined;
+		}
+	}
+
+	/**
+	 * Helper: Resolve an operand to a concrete value
+	 */
+	private resolveOperand(operand: ConditionOperand, context: ConditionContext): unknown {
+		if (ConditionEvaluator.isVariable(operand)) {
+			return operand.var.split('.').reduce<unknown>((value, key) => {
+				if (value === null || value === undefined || typeof value !== 'object') return undefined;
+				return (value as Record<string, unknown>)[key];
+			}, context);
+		}
+		return operand;
+	}
+
+	/**
+	 * Helper: Check if an operand is an attribute reference
+	 */
+	private static isVariable(operand: unknown): operand is { var: string } {
+		return (
+			typeof operand === 'object' &&
+			operand !== null &&
+			!Array.isArray(operand) &&
+			typeof (operand as { var?: unknown }).var === 'string'
+		);
+	}
+}
@@ -0,0 +1,100 @@
+import type {
+	ConflictStrategy,
+	ConflictStrategyName,
+	CustomConflictStrategy,
+	MatchedRule,
+} from '../types/strategy.types';
+import { WildcardMatcher } from '../utils/wildcard-matcher';
+
+const STRATEGY_NAMES: readonly ConflictStrategyName[] = [
+	'deny-overrides',
+	'allow-overrides',
+	'first-applicable',
+	'most-specific',
+];
+
+/**
+ * Resolves conflicts between matching allow and deny rules
+ */
+export class ConflictResolver {
+	private strategy: ConflictStrategyName | CustomConflictStrategy;
+
+	constructor(strategy: ConflictStrategy = 'deny-overrides') {
+		if (typeof strategy !== 'function') {
+			ConflictResolver.validate(strategy);
+		}
+		this.strategy = strategy;
+	}
+
+	/**
+	 * Strategy name ('custom' for custom functions)
+	 */
+	get name(): ConflictStrategyName | 'custom' {
+		return typeof this.strategy === 'function' ? 'custom' : this.strategy;
+	}
+
+	/**
+	 * Pick the winning rule; undefined means nothing applies (denied)
+	 * @param rules Matched rules in evaluation order
+	 */
+	resolve(rules: MatchedRule[], permission: string): MatchedRule | undefined {
+		if (rules.length === 0) return undefined;
+
+		switch (this.strategy) {
+			case 'deny-overrides':
+				return rules.find(rule => rule.effect === 'deny') ?? rules[0];
+			case 'allow-overrides':
+				return rules.find(rule => rule.effect === 'allow') ?? rules[0];
+			case 'first-applicable':
+				return rules[0];
+			case 'most-specific': {
+				let winner = rules[0];
+				for (const rule of rules.slice(1)) {
+					const comparison = ConflictResolver.compareSpecificity(rule.pattern, winner.pattern);
+					// Equally specific rules: deny wins
+					if (comparison > 0 || (comparison === 0 && rule.effect === 'deny' && winner.effect === 'allow')) {
+						winner = rule;
+					}
+				}
+				return winner;
+			}
+			default:
+				return this.strategy(rules, permission);
+		}
+	}
+
+	/**
+	 * Compare how specific two patterns are (positive when a is more specific)
+	 * Exact permissions beat wildcards; otherwise more literal segments, then fewer `**` segments, then more literal characters, win
+	 * @example `posts:drafts:*` is more specific than `posts:*`, which is more specific than `posts:**` and `*`
+	 */
+	static compareSpecificity(a: string, b: string): number {
+		const scoreA = ConflictResolver.specificity(a);
+		const scoreB = ConflictResolver.specificity(b);
+		return scoreA[0] - scoreB[0] || scoreA[1] - scoreB[1] || scoreA[2] - scoreB[2];
+	}
+
+	/**
+	 * Validate a strategy name
+	 * @throws Error if the name is unknown
+	 */
+	static validate(strategy: unknown): void {
+		if (!STRATEGY_NAMES.includes(strategy as ConflictStrategyName)) {
+			throw new Error(`Unknown conflict strategy: ${String(strategy)} (expected one of ${STRATEGY_NAMES.join(', ')})`);
+		}
+	}
+
+	/**
+	 * [literal segments, -multi-segment wildcards, literal characters]; exact permissions outrank every pattern
+	 */
+	private static specificity(pattern: string): [number, number, number] {
+		if (!WildcardMatcher.isPattern(pattern)) {
+			return [Number.MAX_SAFE_INTEGER, 0, 0];
+		}
+
+		const segments = pattern.split(':');
+		const literalSegments = segments.filter(segment => !segment.includes('*')).length;
+		const multiSegment = segments.filter(segment => segment === '**').length;
+		return [literalSegments, -multiSegment, pattern.replace(/\*/g, '').length];
+	}
+}
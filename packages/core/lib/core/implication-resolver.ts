@@ -0,0 +1,166 @@
+import { WildcardMatcher } from '../utils/wildcard-matcher';
+
+/**
+ * Resolves permission implications, e.g. `write` ⇒ `read` or `admin:*` ⇒ `audit:read`
+ *
+ * - Action rules (source without ':') rewrite the last segment: `posts:write` implies `posts:read`
+ * - Permission rules (source with ':') add full permissions to any grant the source equals or matches
+ *
+ * Implications apply transitively
+ */
+export class ImplicationResolver {
+	private rules: Map<string, string[]> = new Map();
+
+	/**
+	 * @throws Error if the rules are malformed or cyclic
+	 */
+	constructor(implications: Record<string, string[]> = {}) {
+		ImplicationResolver.validate(implications);
+		for (const [source, implied] of Object.entries(implications)) {
+			this.rules.set(source, Array.from(new Set(implied)));
+		}
+	}
+
+	/**
+	 * Number of rules
+	 */
+	get size(): number {
+		return this.rules.size;
+	}
+
+	/**
+	 * Rules as a plain object (config format)
+	 */
+	toJSON(): Record<string, string[]> {
+		return Object.fromEntries(Array.from(this.rules, ([source, implied]) => [source, [...implied]]));
+	}
+
+	/**
+	 * Expand grants with everything they imply
+	 * @returns Each implied permission that is not itself a grant, with the grants implying it
+	 */
+	expand(grants: string[]): Map<string, string[]> {
+		const implied = new Map<string, string[]>();
+		if (this.rules.size === 0) return implied;
+
+		const granted = new Set(grants);
+		for (const grant of grants) {
+			for (const permission of this.closure(grant)) {
+				if (granted.has(permission)) continue;
+				const sources = implied.get(permission);
+				if (sources) {
+					sources.push(grant);
+				} else {
+					implied.set(permission, [grant]);
+				}
+			}
+		}
+		return implied;
+	}
+
+	/**
+	 * Everything a permission implies, transitively (excluding the permission itself)
+	 */
+	closure(permission: string): string[] {
+		const visited = new Set<string>([permission]);
+		const queue = [permission];
+
+		while (queue.length > 0) {
+			for (const next of ImplicationResolver.step(this.rules, queue.shift()!)) {
+				if (!visited.has(next)) {
+					visited.add(next);
+					queue.push(next);
+				}
+			}
+		}
+
+		visited.delete(permission);
+		return Array.from(visited);
+	}
+
+	/**
+	 * Validate implication rules
+	 * @throws Error if rules are malformed or form a cycle
+	 */
+	static validate(implications: unknown): void {
+		if (typeof implications !== 'object' || implications === null || Array.isArray(implications)) {
+			throw new Error('Config.implications must be an object mapping a permission or action to the ones it implies');
+		}
+
+		const rules = new Map<string, string[]>();
+		for (const [source, implied] of Object.entries(implications)) {
+			if (!Array.isArray(implied) || implied.some(entry => typeof entry !== 'string' || entry.length === 0)) {
+				throw new Error(`Implication '${source}' must map to an array of permission names`);
+			}
+			if (!source.includes(':')) {
+				const invalid = implied.find(entry => entry.includes(':'));
+				if (invalid !== undefined) {
+					throw new Error(`Action implication '${source}' can only imply actions, got: ${invalid}`);
+				}
+			}
+			if (implied.includes(source)) {
+				throw new Error(`Circular permission implication detected: ${source} -> ${source}`);
+			}
+			rules.set(source, implied);
+		}
+
+		// A rule whose implications lead back to its own source is rejected
+		for (const source of rules.keys()) {
+			const path = ImplicationResolver.findCycle(rules, source);
+			if (path) {
+				throw new Error(`Circular permission implication detected: ${path.join(' -> ')}`);
+			}
+		}
+	}
+
+	/**
+	 * Permissions directly implied by one permission
+	 */
+	private static step(rules: Map<string, string[]>, permission: string): string[] {
+		const next: string[] = [];
+		const separator = permission.lastIndexOf(':');
+		const action = permission.slice(separator + 1);
+		const prefix = permission.slice(0, separator + 1);
+
+		for (const [source, implied] of rules) {
+			if (!source.includes(':')) {
+				if (source === action) {
+					next.push(...implied.map(target => prefix + target));
+				}
+			} else if (source === permission || (!WildcardMatcher.isPattern(permission) && WildcardMatcher.matches(permission, source))) {
+				next.push(...implied);
+			}
+		}
+		return next;
+	}
+
+	/**
+	 * Find a chain of implications that loops back on itself, starting from a rule
+	 * Action rules are followed through a placeholder resource
+	 */
+	private static findCycle(rules: Map<string, string[]>, start: string): string[] | undefined {
+		const isAction = !start.includes(':');
+		const path = [isAction ? `*:${start}` : start];
+		const done = new Set<string>();
+
+		const visit = (permission: string): string[] | undefined => {
+			for (const next of ImplicationResolver.step(rules, permission)) {
+				// A permission implying itself is harmless (e.g. 'admin:*' implying 'admin:audit')
+				if (next === permission) continue;
+
+				const index = path.indexOf(next);
+				if (index !== -1) return [...path.slice(index), next];
+				if (done.has(next)) continue;
+
+				path.push(next);
+				const found = visit(next);
+				path.pop();
+				if (found) return found;
+				done.add(next);
+			}
+			return undefined;
+		};
+
+		return visit(path[0])?.map(permission => isAction && permission.startsWith('*:') ? permission.slice(2) : permission);
+	}
+}
@@ -0,0 +1,115 @@
+import { WildcardMatcher, type WildcardPatternCache } from '../utils/wildcard-matcher';
+
+interface TrieNode {
+	literals: Map<string, TrieNode>;
+	single?: TrieNode; // '*' - exactly one segment
+	multi?: TrieNode; // '**' - one or more segments
+	globs: Array<{ regex: RegExp; node: TrieNode }>; // Segments with an embedded '*' (e.g. 'draft-*')
+	patterns: number[]; // Indexes of the patterns ending here
+}
+
+const createNode = (): TrieNode => ({ literals: new Map(), globs: [], patterns: [] });
+
+/**
+ * Set of permission patterns compiled into a segment trie
+ * A permission is matched against every pattern in a single walk instead of one regex per pattern
+ */
+export class PatternTrie {
+	private root: TrieNode = createNode();
+	private matchAllIndex?: number; // Index of the first bare '*' pattern
+	private patterns: string[];
+
+	/**
+	 * @param patterns Exact permissions and wildcard patterns; match() honours their order
+	 * @param cache Where compiled segment globs are kept (e.g. MemoryOptimizer)
+	 */
+	constructor(patterns: string[], cache?: WildcardPatternCache) {
+		this.patterns = [...patterns];
+		this.patterns.forEach((pattern, index) => {
+			if (pattern === '*') {
+				this.matchAllIndex ??= index;
+				return;
+			}
+			for (const expanded of WildcardMatcher.expandAlternations(pattern)) {
+				this.insert(expanded, index, cache);
+			}
+		});
+	}
+
+	/**
+	 * Number of patterns in the set
+	 */
+	get size(): number {
+		return this.patterns.length;
+	}
+
+	/**
+	 * First pattern (in the given order) that matches a permission
+	 */
+	match(permission: string): string | undefined {
+		const indexes = this.matchIndexes(permission);
+		return indexes.length > 0 ? this.patterns[Math.min(...indexes)] : undefined;
+	}
+
+	/**
+	 * Every pattern that matches a permission, in the given order
+	 */
+	matchAll(permission: string): string[] {
+		return Array.from(new Set(this.matchIndexes(permission)))
+			.sort((a, b) => a - b)
+			.map(index => this.patterns[index]);
+	}
+
+	private matchIndexes(permission: string): number[] {
+		const found: number[] = this.matchAllIndex === undefined ? [] : [this.matchAllIndex];
+		this.collect(this.root, permission.split(':'), 0, found);
+		return found;
+	}
+
+	private insert(pattern: string, index: number, cache?: WildcardPatternCache): void {
+		let node = this.root;
+		for (const segment of pattern.split(':')) {
+			if (segment === '**') {
+				node = node.multi ??= createNode();
+			} else if (segment === '*') {
+				node = node.single ??= createNode();
+			} else if (segment.includes('*')) {
+				const regex = WildcardMatcher.compile(segment, cache);
+				let glob = node.globs.find(existing => existing.regex.source === regex.source);
+				if (!glob) {
+					glob = { regex, node: createNode() };
+					node.globs.push(glob);
+				}
+				node = glob.node;
+			} else {
+				let child = node.literals.get(segment);
+				if (!child) {
+					child = createNode();
+					node.literals.set(segment, child);
+				}
+				node = child;
+			}
+		}
+		node.patterns.push(index);
+	}
+
+	private collect(node: TrieNode, segments: string[], position: number, found: number[]): void {
+		if (position === segments.length) {
+			found.push(...node.patterns);
+			return;
+		}
+
+		const segment = segments[position];
+		const literal = node.literals.get(segment);
+		if (literal) this.collect(literal, segments, position + 1, found);
+		if (node.single) this.collect(node.single, segments, position + 1, found);
+		for (const glob of node.globs) {
+			if (glob.regex.test(segment)) this.collect(glob.node, segments, position + 1, found);
+		}
+		if (node.multi) {
+			for (let end = position + 1; end <= segments.length; end++) {
+				this.collect(node.multi, segments, end, found);
+			}
+		}
+	}
+}
@@ -0,0 +1,145 @@
+/**
+ * Named permission groups, referenced from role permissions as `@name`
+ * Groups may include other groups; references are expanded recursively
+ */
+export class PermissionGroups {
+	static readonly PREFIX = '@';
+
+	private groups: Map<string, string[]> = new Map();
+
+	/**
+	 * Check if a permission entry is a group reference (e.g. '@contentEditing')
+	 */
+	static isReference(entry: string): boolean {
+		return entry.startsWith(PermissionGroups.PREFIX) && entry.length > 1;
+	}
+
+	/**
+	 * Define (or replace) a group
+	 * @param name Group name without the '@' prefix
+	 * @param members Permissions, wildcard patterns or references to other groups
+	 * @throws Error if the group references an unknown group or would create a cycle
+	 */
+	define(name: string, members: string[]): void {
+		PermissionGroups.validate({ ...this.toJSON(), [name]: members });
+		this.groups.set(name, Array.from(new Set(members)));
+	}
+
+	/**
+	 * Define several groups at once (references between them may appear in any order)
+	 * @throws Error if the groups are malformed, reference unknown groups or form a cycle
+	 */
+	defineAll(groups: Record<string, string[]>): void {
+		PermissionGroups.validate({ ...this.toJSON(), ...groups });
+		for (const [name, members] of Object.entries(groups)) {
+			this.groups.set(name, Array.from(new Set(members)));
+		}
+	}
+
+	/**
+	 * Get the direct members of a group (references unexpanded)
+	 */
+	get(name: string): string[] | undefined {
+		const members = this.groups.get(name);
+		return members ? [...members] : undefined;
+	}
+
+	/**
+	 * Check if a group includes another group, directly or through nested groups
+	 */
+	includes(name: string, nested: string): boolean {
+		if (name === nested) return true;
+		return (this.groups.get(name) ?? []).some(member =>
+			PermissionGroups.isReference(member) && this.includes(member.slice(1), nested)
+		);
+	}
+
+	/**
+	 * Replace group references with the permissions they contain
+	 * @returns Permissions in order of first appearance, without duplicates
+	 * @throws Error if a referenced group does not exist
+	 */
+	expand(entries: string[]): string[] {
+		const expanded = new Set<string>();
+		const visit = (entry: string): void => {
+			if (!PermissionGroups.isReference(entry)) {
+				expanded.add(entry);
+				return;
+			}
+			for (const member of this.require(entry.slice(1))) {
+				visit(member);
+			}
+		};
+		entries.forEach(visit);
+		return Array.from(expanded);
+	}
+
+	/**
+	 * Number of groups
+	 */
+	get size(): number {
+		return this.groups.size;
+	}
+
+	/**
+	 * Groups as a plain object (config format)
+	 */
+	toJSON(): Record<string, string[]> {
+		return Object.fromEntries(Array.from(this.groups, ([name, members]) => [name, [...members]]));
+	}
+
+	clear(): void {
+		this.groups.clear();
+	}
+
+	/**
+	 * Validate group definitions
+	 * @throws Error if groups are malformed, reference unknown groups or form a cycle
+	 */
+	static validate(groups: unknown): void {
+		if (typeof groups !== 'object' || groups === null || Array.isArray(groups)) {
+			throw new Error('Config.groups must be an object mapping group names to permission lists');
+		}
+
+		const definitions = groups as Record<string, unknown>;
+		for (const [name, members] of Object.entries(definitions)) {
+			if (name.length === 0 || name.startsWith(PermissionGroups.PREFIX) || name.includes(':')) {
+				throw new Error(`Invalid permission group name: '${name}'`);
+			}
+			if (!Array.isArray(members) || members.some(member => typeof member !== 'string' || member.length === 0)) {
+				throw new Error(`Permission group '${name}' must be an array of permission names`);
+			}
+			for (const member of members as string[]) {
+				if (PermissionGroups.isReference(member) && !Object.prototype.hasOwnProperty.call(definitions, member.slice(1))) {
+					throw new Error(`Permission group '${name}' references unknown group: ${member}`);
+				}
+			}
+		}
+
+		const done = new Set<string>();
+		const path: string[] = [];
+		const visit = (name: string): void => {
+			const index = path.indexOf(name);
+			if (index !== -1) {
+				throw new Error(`Circular permission group reference detected: ${[...path.slice(index), name].map(group => PermissionGroups.PREFIX + group).join(' -> ')}`);
+			}
+			if (done.has(name)) return;
+
+			path.push(name);
+			for (const member of definitions[name] as string[]) {
+				if (PermissionGroups.isReference(member)) visit(member.slice(1));
+			}
+			path.pop();
+			done.add(name);
+		};
+		Object.keys(definitions).forEach(visit);
+	}
+
+	private require(name: string): string[] {
+		const members = this.groups.get(name);
+		if (!members) {
+			throw new Error(`Unknown permission group: ${PermissionGroups.PREFIX}${name}`);
+		}
+		return members;
+	}
+}
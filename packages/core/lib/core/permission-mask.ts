@@ -0,0 +1,88 @@
+import type { PermissionMask, SerializedPermissionMask } from '../types/utility.types';
+
+/**
+ * Permission mask helpers
+ *
+ * Masks below 2^31 stay plain numbers so existing code (and the fast bitwise path) keeps working.
+ * Anything larger is carried as a BigInt, which removes the 31-permission ceiling.
+ */
+
+const SMALL_MASK_LIMIT = 2n ** 31n;
+
+/**
+ * Check if a mask fits in a non-negative 32-bit integer (fast path)
+ */
+export function isSmallMask(mask: PermissionMask): mask is number {
+	return typeof mask === 'number' && (mask | 0) === mask && mask >= 0;
+}
+
+/**
+ * Convert any mask representation to BigInt
+ */
+export function toBigIntMask(mask: PermissionMask | SerializedPermissionMask): bigint {
+	if (typeof mask === 'bigint') return mask;
+	if (typeof mask === 'string') return BigInt(mask);
+	return BigInt(Math.trunc(mask));
+}
+
+/**
+ * Convert a BigInt mask back to its public form (number when small, BigInt otherwise)
+ */
+export function normalizeMask(mask: bigint): PermissionMask {
+	return mask >= 0n && mask < SMALL_MASK_LIMIT ? Number(mask) : mask;
+}
+
+/**
+ * Bitwise OR of two masks
+ */
+export function orMasks(a: PermissionMask, b: PermissionMask): PermissionMask {
+	if (isSmallMask(a) && isSmallMask(b)) return a | b;
+	return normalizeMask(toBigIntMask(a) | toBigIntMask(b));
+}
+
+/**
+ * Bitwise AND of two masks
+ */
+export function andMasks(a: PermissionMask, b: PermissionMask): PermissionMask {
+	if (isSmallMask(a) && isSmallMask(b)) return a & b;
+	return normalizeMask(toBigIntMask(a) & toBigIntMask(b));
+}
+
+/**
+ * Check if two masks share at least one bit
+ */
+export function masksIntersect(a: PermissionMask, b: PermissionMask): boolean {
+	if (isSmallMask(a) && isSmallMask(b)) return (a & b) !== 0;
+	return (toBigIntMask(a) & toBigIntMask(b)) !== 0n;
+}
+
+/**
+ * Check if a mask is empty
+ */
+export function isEmptyMask(mask: PermissionMask): boolean {
+	return typeof mask === 'bigint' ? mask === 0n : mask === 0;
+}
+
+/**
+ * Check if a value is a single bit (power of 2)
+ */
+export function isSingleBit(bit: PermissionMask): boolean {
+	if (typeof bit === 'number' && !Number.isSafeInteger(bit)) return false;
+	const value = toBigIntMask(bit);
+	return value > 0n && (value & (value - 1n)) === 0n;
+}
+
+/**
+ * Serialize a mask for JSON: small masks stay numbers, large masks become hex strings
+ */
+export function serializeMask(mask: PermissionMask): SerializedPermissionMask {
+	const normalized = normalizeMask(toBigIntMask(mask));
+	return typeof normalized === 'bigint' ? `0x${normalized.toString(16)}` : normalized;
+}
+
+/**
+ * Deserialize a mask written by serializeMask (accepts plain numbers from older states)
+ */
+export function deserializeMask(mask: SerializedPermissionMask): PermissionMask {
+	return normalizeMask(toBigIntMask(mask));
+}
@@ -0,0 +1,158 @@
+import { toBigIntMask } from './permission-mask';
+import type { RBACSystemState } from '../types/config.types';
+import type {
+	PolicyDenyChange,
+	PolicyDiff,
+	PolicyHistoryOptions,
+	PolicyHistoryState,
+	PolicyVersion,
+	PolicyVersionInfo,
+} from '../types/history.types';
+
+/**
+ * Keeps numbered snapshots of the policy and compares them
+ * Only the latest `maxVersions` snapshots are kept; version numbers are never reused
+ */
+export class PolicyHistory {
+	private versions: PolicyVersion[] = [];
+	private nextVersion = 1;
+	private maxVersions: number;
+
+	/**
+	 * @throws Error if maxVersions is not a positive integer
+	 */
+	constructor(options: PolicyHistoryOptions = {}) {
+		this.maxVersions = options.maxVersions ?? 100;
+		if (!Number.isInteger(this.maxVersions) || this.maxVersions < 1) {
+			throw new Error(`maxVersions must be a positive integer, got: ${options.maxVersions}`);
+		}
+	}
+
+	/**
+	 * Add a snapshot of the state as the next version
+	 */
+	record(state: RBACSystemState, info: PolicyVersionInfo, timestamp: number): PolicyVersion {
+		// Versions don't nest the history they belong to
+		const snapshot = { ...state };
+		delete snapshot.history;
+		const version: PolicyVersion = {
+			version: this.nextVersion++,
+			...(info.author !== undefined && { author: info.author }),
+			...(info.message !== undefined && { message: info.message }),
+			state: snapshot,
+			timestamp,
+		};
+
+		this.versions.push(version);
+		if (this.versions.length > this.maxVersions) {
+			this.versions.splice(0, this.versions.length - this.maxVersions);
+		}
+		return version;
+	}
+
+	/**
+	 * Get a version by number (undefined if unknown or dropped)
+	 */
+	get(version: number): PolicyVersion | undefined {
+		return this.versions.find(entry => entry.version === version);
+	}
+
+	/**
+	 * Get all kept versions, oldest first
+	 */
+	list(): PolicyVersion[] {
+		return [...this.versions];
+	}
+
+	toJSON(): PolicyHistoryState {
+		return { versions: [...this.versions], nextVersion: this.nextVersion };
+	}
+
+	/**
+	 * Replace the history with a serialized one
+	 * @throws Error if the history is malformed
+	 */
+	load(state: PolicyHistoryState): void {
+		if (!state || !Array.isArray(state.versions) || !Number.isInteger(state.nextVersion)) {
+			throw new Error('Invalid policy history: expected { versions, nextVersion }');
+		}
+		for (const [index, entry] of state.versions.entries()) {
+			if (!entry || !Number.isInteger(entry.version) || !entry.state || typeof entry.state !== 'object') {
+				throw new Error(`Invalid policy version at index ${index}`);
+			}
+		}
+
+		this.versions = state.versions.slice(-this.maxVersions);
+		const last = this.versions.at(-1)?.version ?? 0;
+		this.nextVersion = Math.max(state.nextVersion, last + 1);
+	}
+
+	/**
+	 * List the roles, direct grants, deny rules and hierarchy levels added, removed or changed between two states
+	 */
+	static diff(from: RBACSystemState, to: RBACSystemState): Omit<PolicyDiff, 'from' | 'to'> {
+		const before = PolicyHistory.describeRoles(from);
+		const after = PolicyHistory.describeRoles(to);
+
+		const permissions = (a: Map<string, string[]>, b: Map<string, string[]>) =>
+			Array.from(a).flatMap(([role, granted]) =>
+				granted.filter(permission => !b.get(role)?.includes(permission)).map(permission => ({ role, permission }))
+			);
+
+		const deniesBefore = PolicyHistory.describeDenies(from);
+		const deniesAfter = PolicyHistory.describeDenies(to);
+
+		const levelsBefore = from.hierarchy?.levels ?? {};
+		const levelsAfter = to.hierarchy?.levels ?? {};
+		const levels = Array.from(new Set([...Object.keys(levelsBefore), ...Object.keys(levelsAfter)]))
+			.filter(role => levelsBefore[role] !== levelsAfter[role])
+			.map(role => ({
+				role,
+				...(levelsBefore[role] !== undefined && { before: levelsBefore[role] }),
+				...(levelsAfter[role] !== undefined && { after: levelsAfter[role] }),
+			}));
+
+		return {
+			roles: {
+				added: Array.from(after.keys()).filter(role => !before.has(role)),
+				removed: Array.from(before.keys()).filter(role => !after.has(role)),
+			},
+			permissions: { added: permissions(after, before), removed: permissions(before, after) },
+			denies: {
+				added: Array.from(deniesAfter).filter(([key]) => !deniesBefore.has(key)).map(([, change]) => change),
+				removed: Array.from(deniesBefore).filter(([key]) => !deniesAfter.has(key)).map(([, change]) => change),
+			},
+			levels,
+		};
+	}
+
+	/**
+	 * Helper: Direct grants of every role of a state (role -> permissions)
+	 */
+	private static describeRoles(state: RBACSystemState): Map<string, string[]> {
+		if (state.roleManager) {
+			return new Map(Object.entries(state.roleManager.roles));
+		}
+
+		// Bit-based states store each role as a mask of permission bits
+		const bits = Object.entries(state.bitPermissions?.permissions ?? {}).map(([permission, bit]) => [permission, toBigIntMask(bit)] as const);
+		return new Map(Object.entries(state.bitPermissions?.roles ?? {}).map(([role, serialized]) => {
+			const mask = toBigIntMask(serialized);
+			return [role, bits.filter(([, bit]) => bit !== 0n && (mask & bit) === bit).map(([permission]) => permission)];
+		}));
+	}
+
+	/**
+	 * Helper: Deny rules of a state, keyed by their JSON
+	 */
+	private static describeDenies(state: RBACSystemState): Map<string, PolicyDenyChange> {
+		const denies: PolicyDenyChange[] = [
+			...Object.entries(state.roleDenies ?? {}).flatMap(([role, permissions]) =>
+				permissions.map(permission => ({ type: 'role' as const, role, permission }))
+			),
+			...(state.denyList ?? []).map(({ userId, permission }) => ({ type: 'user' as const, userId, permission })),
+			...(state.globalDeny ?? []).map(permission => ({ type: 'global' as const, permission })),
+		];
+		return new Map(denies.map(change => [JSON.stringify(change), change]));
+	}
+}
@@ -0,0 +1,134 @@
+/**
+ * Role inheritance graph
+ * Each role may inherit from any number of parent roles (multi-parent DAG)
+ */
+export class RoleGraph {
+	private parents: Map<string, string[]> = new Map();
+
+	/**
+	 * Set parent roles for a role
+	 * @param roleName Role that inherits
+	 * @param parentRoles Roles whose permissions are inherited
+	 * @throws Error if the new edges would introduce a cycle
+	 */
+	setParents(roleName: string, parentRoles: string[]): void {
+		const uniqueParents = Array.from(new Set(parentRoles));
+
+		for (const parent of uniqueParents) {
+			if (parent === roleName) {
+				throw new Error(`Role '${roleName}' cannot inherit from itself`);
+			}
+
+			const path = this.findPath(parent, roleName);
+			if (path) {
+				throw new Error(`Circular role inheritance detected: ${[roleName, ...path].join(' -> ')}`);
+			}
+		}
+
+		if (uniqueParents.length === 0) {
+			this.parents.delete(roleName);
+		} else {
+			this.parents.set(roleName, uniqueParents);
+		}
+	}
+
+	/**
+	 * Get direct parent roles
+	 */
+	getParents(roleName: string): string[] {
+		return [...(this.parents.get(roleName) ?? [])];
+	}
+
+	/**
+	 * Get all ancestor roles (transitive parents), nearest first
+	 */
+	getAncestors(roleName: string): string[] {
+		const visited = new Set<string>();
+		const queue = [...(this.parents.get(roleName) ?? [])];
+
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			if (visited.has(current)) continue;
+			visited.add(current);
+			queue.push(...(this.parents.get(current) ?? []));
+		}
+
+		return Array.from(visited);
+	}
+
+	/**
+	 * Check if a role inherits (directly or transitively) from another role
+	 */
+	inheritsFrom(roleName: string, ancestorRole: string): boolean {
+		return roleName !== ancestorRole && this.findPath(roleName, ancestorRole) !== undefined;
+	}
+
+	/**
+	 * Check if a role has any parents
+	 */
+	hasParents(roleName: string): boolean {
+		return this.parents.has(roleName);
+	}
+
+	/**
+	 * Remove a role and every edge pointing at it
+	 */
+	removeRole(roleName: string): void {
+		this.parents.delete(roleName);
+		for (const [role, parentRoles] of this.parents.entries()) {
+			if (parentRoles.includes(roleName)) {
+				this.setParents(role, parentRoles.filter(parent => parent !== roleName));
+			}
+		}
+	}
+
+	/**
+	 * Clear all inheritance edges
+	 */
+	clear(): void {
+		this.parents.clear();
+	}
+
+	/**
+	 * Serialize graph as role -> parents mapping
+	 */
+	serialize(): Record<string, string[]> {
+		const result: Record<string, string[]> = {};
+		this.parents.forEach((parentRoles, role) => {
+			result[role] = [...parentRoles];
+		});
+		return result;
+	}
+
+	/**
+	 * Load graph from role -> parents mapping (validates for cycles)
+	 */
+	deserialize(state: Record<string, string[]>): void {
+		this.parents.clear();
+		for (const [role, parentRoles] of Object.entries(state)) {
+			this.setParents(role, parentRoles);
+		}
+	}
+
+	/**
+	 * Helper: Find an inheritance path from one role to another
+	 * @returns Path including both ends, or undefined if unreachable
+	 */
+	private findPath(from: string, to: string): string[] | undefined {
+		const stack: Array<{ role: string; path: string[] }> = [{ role: from, path: [from] }];
+		const visited = new Set<string>();
+
+		while (stack.length > 0) {
+			const { role, path } = stack.pop()!;
+			if (role === to) return path;
+			if (visited.has(role)) continue;
+			visited.add(role);
+
+			for (const parent of this.parents.get(role) ?? []) {
+				stack.push({ role: parent, path: [...path, parent] });
+			}
+		}
+
+		return undefined;
+	}
+}
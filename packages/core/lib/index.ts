@@ -1,41 +1,50 @@
-import type { UserRole, PermissionMask } from './types/user.types';
+import type { PermissionMask, RBACUser, RBACContext, AuthorizationResult } from './types/user.types';
 import { BitPermissionManager } from './core/bit-permission-manager';
 import { RoleHierarchy } from './core/role-hierarchy';
-import type { RBACConfigSchema, PresetConfig, RBACSystemState } from './types/config.types';
+import { RoleGraph } from './core/role-graph';
+import { ConditionEvaluator } from './core/condition-evaluator';
+import { ConflictResolver } from './core/conflict-resolver';
+import { PatternTrie } from './core/pattern-trie';
+import { ImplicationResolver } from './core/implication-resolver';
+import { PermissionGroups } from './core/permission-groups';
+import { serializeMask, toBigIntMask } from './core/permission-mask';
+import { PolicyHistory } from './core/policy-history';
+import type { PermissionConfig, RBACConfigSchema, PresetConfig, RBACSystemState } from './types/config.types';
+import type {
+  BitStateMigration,
+  BitStateMigrationReport,
+  DeprecationLogger,
+  PermissionDeprecation,
+} from './types/permission.types';
 import type { AuditLogger, AuditEvent } from './types/audit.types';
+import type { ConditionContext, ConditionPredicate, PermissionCondition } from './types/condition.types';
+import type { DecisionSource, DecisionStep, PermissionDecision } from './types/decision.types';
+import type { DenyEntry, DenyImportOptions, DenyPermissionOptions } from './types/deny.types';
+import type { RoleBinding, RoleScope } from './types/scope.types';
+import type { Clock, ExpiringGrant, TimeWindow } from './types/grant.types';
+import type { PolicyProvider, PolicyRequest, RoleLoader } from './types/provider.types';
+import type { RoleConfig, RoleManagerState } from './types/role.types';
+import type { PolicyDiff, PolicyHistoryOptions, PolicyVersion, PolicyVersionInfo } from './types/history.types';
+import type {
+  PermissionCheck,
+  PermissionCheckResult,
+  PluginFailurePolicy,
+  RoleChangeType,
+  RoleSnapshot,
+  UserChangeType,
+  UserSnapshot,
+} from './types/plugin.types';
+import type { RBACStore } from './utils/rbac-store';
+import type { ConflictStrategy, ConflictStrategyName, MatchedRule } from './types/strategy.types';
 import type { IRBAC } from './types/rbac.interface';
 import { WildcardMatcher } from './utils/wildcard-matcher';
 import { PermissionCache, type PermissionCacheOptions } from './utils/permission-cache';
 import { MemoryOptimizer } from './utils/memory-optimizer';
-import { PluginManager, type RBACPlugin } from './plugins/rbac-plugin';
+import { PluginManager, type RBACPlugin, type RBACPluginHook } from './plugins/rbac-plugin';
+import { splitDenyRules } from './utils/permission-utils';
 
-/**
- * User interface for RBAC context
- */
-export interface RBACUser {
-  id: string;
-  roles: UserRole[];
-  permissions?: string[];
-  permissionMask?: PermissionMask; // Bit-based permission mask
-}
-
-/**
- * RBAC Context for authorization checks
- */
-export interface RBACContext {
-  user?: RBACUser;
-  resource?: string;
-  action?: string;
-}
-
-/**
- * Authorization result
- */
-export interface AuthorizationResult {
-  allowed: boolean;
-  reason?: string;
-  user?: RBACUser;
-}
+// Start, expiry and reason of a deny entry, keyed by user and permission
+type DenyDetails = Omit<DenyEntry, 'userId' | 'permission'>;
 
 /**
  * Permission class for managing individual permissions
@@ -103,6 +112,9 @@ export class PermissionManager {
  */
 export class RoleManager {
   private roles: Map<string, PermissionManager> = new Map();
+  private roleGraph: RoleGraph = new RoleGraph();
+  private groups: PermissionGroups = new PermissionGroups();
+  private version = 0; // Incremented on every change to role permissions or inheritance
 
   constructor(initialRoles?: Record<string, string[]>) {
     // Optionally initialize with roles from config
@@ -114,10 +126,58 @@ export class RoleManager {
   }
 
   /**
-   * Create a new role with permissions
+   * Create a new role with permissions ('@group' references are expanded)
+   * @param inherits Optional parent roles (keeps existing parents when omitted)
+   */
+  createRole(roleName: string, permissions: string[] = [], inherits?: string[]): void {
+    const expanded = this.groups.expand(permissions);
+    if (inherits !== undefined) {
+      this.roleGraph.setParents(roleName, inherits);
+    }
+    this.roles.set(roleName, new PermissionManager(expanded));
+    this.version++;
+  }
+
+  /**
+   * Define (or replace) a named permission group, referenced from roles as '@name'
+   */
+  registerGroup(groupName: string, members: string[]): void {
+    this.groups.define(groupName, members);
+  }
+
+  /**
+   * Define several groups at once (references between them may appear in any order)
+   */
+  registerGroups(groups: Record<string, string[]>): void {
+    this.groups.defineAll(groups);
+  }
+
+  /**
+   * Get the direct members of a group
+   */
+  getGroup(groupName: string): string[] | undefined {
+    return this.groups.get(groupName);
+  }
+
+  /**
+   * Get all groups (group name -> direct members)
+   */
+  getGroups(): Record<string, string[]> {
+    return this.groups.toJSON();
+  }
+
+  /**
+   * Check if a group includes another group, directly or through nested groups
+   */
+  groupIncludes(groupName: string, nestedGroup: string): boolean {
+    return this.groups.includes(groupName, nestedGroup);
+  }
+
+  /**
+   * Replace '@group' references with the permissions they contain
    */
-  createRole(roleName: string, permissions: string[] = []): void {
-    this.roles.set(roleName, new PermissionManager(permissions));
+  expandGroups(permissions: string[]): string[] {
+    return this.groups.expand(permissions);
   }
 
   /**
@@ -125,6 +185,37 @@ export class RoleManager {
    */
   deleteRole(roleName: string): void {
     this.roles.delete(roleName);
+    this.roleGraph.removeRole(roleName);
+    this.version++;
+  }
+
+  /**
+   * Set parent roles a role inherits permissions from
+   */
+  setRoleInheritance(roleName: string, parentRoles: string[]): void {
+    this.roleGraph.setParents(roleName, parentRoles);
+    this.version++;
+  }
+
+  /**
+   * Get direct parent roles of a role
+   */
+  getRoleParents(roleName: string): string[] {
+    return this.roleGraph.getParents(roleName);
+  }
+
+  /**
+   * Get all ancestor roles of a role, nearest first
+   */
+  getRoleAncestors(roleName: string): string[] {
+    return this.roleGraph.getAncestors(roleName);
+  }
+
+  /**
+   * Check if a role inherits (directly or transitively) from another role
+   */
+  inheritsFrom(roleName: string, ancestorRole: string): boolean {
+    return this.roleGraph.inheritsFrom(roleName, ancestorRole);
   }
 
   /**
@@ -134,6 +225,7 @@ export class RoleManager {
     const role = this.roles.get(roleName);
     if (role) {
       role.add(permission);
+      this.version++;
     }
   }
 
@@ -144,13 +236,27 @@ export class RoleManager {
     const role = this.roles.get(roleName);
     if (role) {
       role.remove(permission);
+      this.version++;
     }
   }
 
   /**
-   * Get permissions for a role
+   * Get permissions for a role (including inherited permissions)
    */
   getRolePermissions(roleName: string): string[] {
+    if (!this.roles.has(roleName)) return [];
+
+    const permissions = new Set(this.getDirectRolePermissions(roleName));
+    for (const ancestor of this.roleGraph.getAncestors(roleName)) {
+      this.getDirectRolePermissions(ancestor).forEach(perm => permissions.add(perm));
+    }
+    return Array.from(permissions);
+  }
+
+  /**
+   * Get permissions granted directly to a role (excluding inherited permissions)
+   */
+  getDirectRolePermissions(roleName: string): string[] {
     const role = this.roles.get(roleName);
     return role ? role.getAll() : [];
   }
@@ -168,6 +274,55 @@ export class RoleManager {
   getAllRoles(): string[] {
     return Array.from(this.roles.keys());
   }
+
+  /**
+   * Serialize roles, inheritance and groups
+   */
+  serialize(): RoleManagerState {
+    return {
+      roles: Object.fromEntries(Array.from(this.roles, ([roleName, permissions]) => [roleName, permissions.getAll()])),
+      inherits: this.roleGraph.serialize(),
+      groups: this.groups.toJSON(),
+    };
+  }
+
+  /**
+   * Replace roles, inheritance and groups with a serialized state
+   */
+  deserialize(state: RoleManagerState): void {
+    this.roles = new Map(Object.entries(state.roles).map(([roleName, permissions]) => [roleName, new PermissionManager(permissions)]));
+    this.roleGraph.deserialize(state.inherits);
+    this.groups.clear();
+    this.groups.defineAll(state.groups);
+    this.version++;
+  }
+
+  /**
+   * Version of the role permissions and inheritance, changed by every update
+   */
+  getVersion(): number {
+    return this.version;
+  }
+}
+
+/**
+ * Schema version written by RBAC.serialize()
+ * 2.0.0: adds the user deny list and role/global deny rules
+ */
+const STATE_VERSION = '2.0.0';
+
+/**
+ * Outcome of evaluating a permission (before caching, audit and plugin hooks)
+ */
+interface PermissionEvaluation {
+  allowed: boolean;
+  reason: string;
+  source: DecisionSource;
+  cacheable: boolean;
+  matchedRole?: string;
+  grantedBy?: string;
+  matchedPattern?: string;
+  deniedBy?: string;
 }
 
 /**
@@ -182,14 +337,35 @@ export class RBAC implements IRBAC {
   private useBitSystem: boolean;
   private auditLogger?: AuditLogger;
   private enableWildcards: boolean;
-  private denyList: Map<string, Set<string>>; // userId -> denied permissions
+  private denyList: Map<string, Map<string, DenyDetails>>; // userId -> denied permission -> window/reason
+  private roleBindings: Map<string, RoleBinding[]> = new Map(); // userId -> roles held within a scope
   private cache?: PermissionCache; // Permission caching layer
   private cacheEnabled: boolean;
+  private clock: Clock; // Evaluates time-bound grants and deny entries
 
   // Lazy role evaluation
   private lazyRoles: boolean;
-  private pendingRoles: Map<string, { permissions: string[]; level?: number }>; // Roles not yet evaluated
+  private pendingRoles: Map<string, { permissions: string[]; inherits?: string[]; level?: number }>; // Roles not yet evaluated
   private evaluatedRoles: Set<string>; // Roles that have been loaded
+  private roleLoader?: RoleLoader; // Loads roles missing from the instance during async checks
+
+  // Role definitions, user roles and denies resolved on demand by async checks
+  private policyProvider?: PolicyProvider;
+  private loadedRoles: Map<string, number> = new Map(); // Role loaded by the provider or lazy role loader -> time it must be reloaded
+  private loadedRoleTTL?: number;
+  private requestDenies?: { userId: string; entries: Map<string, DenyDetails> }; // Provider denies of the async check in progress
+
+  // Persistence: mutations are saved to the store after each batch (autoSave)
+  private store?: RBACStore;
+  private autoSave: boolean;
+  private saveScheduled = false;
+  private restoringState = false;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private lastStoredState?: string; // JSON of the state last saved to or loaded from the store
+  private revision = 0; // Incremented by every mutation
+
+  // Versioned snapshots of the policy (saveVersion, diff, rollback)
+  private history?: PolicyHistory;
 
   // Memory optimization
   private memoryOptimizer?: MemoryOptimizer;
@@ -197,6 +373,41 @@ export class RBAC implements IRBAC {
 
   // Plugin system (v3.0)
   private pluginManager: PluginManager;
+  private changeDepth = 0; // Mutations in progress; nested ones are reported as part of the outermost
+  private transactionDepth = 0; // transaction() calls in progress
+  private transactionDirty = false; // A mutation asked to persist during the current transaction
+  private pluginFailurePolicy: PluginFailurePolicy;
+
+  // Attribute-based conditions on role grants
+  private conditionEvaluator: ConditionEvaluator;
+  private roleConditions: Map<string, Map<string, PermissionCondition>>; // role -> grant -> condition
+
+  // Deny rules (deny-overrides: checked before any grant)
+  private roleDenies: Map<string, string[]>; // role -> denied permissions (excluding inherited rules)
+  private globalDenies: Set<string>; // Denied to every user
+
+  // Resolves conflicts between matching allow and deny rules
+  private conflictResolver: ConflictResolver;
+
+  // Permission implications (e.g. write => read), resolved into role grants when roles are registered
+  private implications: ImplicationResolver = new ImplicationResolver();
+  private impliedGrants: Map<string, Map<string, string[]>> = new Map(); // role -> implied permission -> grants implying it
+
+  // Permission groups each role references (role -> group names), to apply group edits
+  private roleGroups: Map<string, string[]> = new Map();
+  private roleGrants: Map<string, string[]> = new Map(); // Grants declared besides group references (roles with groups only)
+
+  // Descriptive fields of configured permissions and roles, kept for exportConfig()
+  private permissionInfo: Map<string, Omit<PermissionConfig, 'name' | 'bit'>> = new Map();
+  private roleInfo: Map<string, Pick<RoleConfig, 'description' | 'metadata'>> = new Map();
+
+  // Aliases and former names of configured permissions (name -> permission), and deprecated names already warned about
+  private permissionAliases: Map<string, string> = new Map();
+  private warnedDeprecations: Set<string> = new Set();
+  private deprecationLogger: DeprecationLogger;
+
+  // Grants compiled into a segment trie per role (key: role mask or joined grants they were built from)
+  private roleMatchers: Map<string, { key: PermissionMask | string; trie: PatternTrie }> = new Map();
 
   constructor(options: {
     // Config-based initialization
@@ -214,8 +425,39 @@ export class RBAC implements IRBAC {
     // Performance features (v2.2)
     enableCache?: boolean;
     cacheOptions?: PermissionCacheOptions;
-    lazyRoles?: boolean;
+    lazyRoles?: boolean | RoleLoader; // A loader also fetches roles missing from the config in async checks
     optimizeMemory?: boolean;
+
+    // Named condition predicates (ABAC)
+    conditions?: Record<string, ConditionPredicate>;
+
+    // Conflict resolution between allow and deny rules (default: 'deny-overrides')
+    conflictStrategy?: ConflictStrategy;
+
+    // Current time for time-bound grants and deny entries (default: Date.now)
+    clock?: Clock;
+
+    // Policy data loaded on demand by async checks (hasPermissionAsync, authorizeAsync)
+    policyProvider?: PolicyProvider;
+
+    // Reload roles loaded by the provider or lazy role loader after this many ms (default: kept for the life of the instance)
+    providerRoleTTL?: number;
+
+    // Persistence of the state; with autoSave (default: true) every mutation is saved to the store
+    store?: RBACStore;
+    autoSave?: boolean;
+
+    // Outcome of checks whose interceptor plugins (beforeCheck, afterCheck) throw (default: 'fail-closed')
+    pluginFailurePolicy?: PluginFailurePolicy;
+
+    // Keep versioned snapshots of the policy saved with saveVersion() (default: disabled)
+    history?: boolean | PolicyHistoryOptions;
+
+    // Migration steps for bit permission states of other versions, run by deserialize()
+    stateMigrations?: BitStateMigration[];
+
+    // Receives a warning the first time a check uses each deprecated permission name (default: console)
+    deprecationLogger?: DeprecationLogger;
   } = {}) {
     this.useBitSystem = options.useBitSystem ?? true; // Default to bit system
     this.roleHierarchy = new RoleHierarchy();
@@ -223,16 +465,31 @@ export class RBAC implements IRBAC {
     this.enableWildcards = options.enableWildcards ?? true; // Default to enabled
     this.denyList = new Map();
 
-    // Initialize cache if enabled 
+    this.clock = options.clock ?? (() => Date.now());
+    this.deprecationLogger = options.deprecationLogger ?? console;
+
+    // Initialize cache if enabled (cached results share the clock of time-bound grants)
     this.cacheEnabled = options.enableCache ?? false;
     if (this.cacheEnabled) {
-      this.cache = new PermissionCache(options.cacheOptions);
+      this.cache = new PermissionCache({ clock: this.clock, ...options.cacheOptions });
     }
 
     // Initialize lazy role evaluation
-    this.lazyRoles = options.lazyRoles ?? false;
+    this.lazyRoles = options.lazyRoles !== undefined && options.lazyRoles !== false;
+    this.roleLoader = typeof options.lazyRoles === 'function' ? options.lazyRoles : undefined;
     this.pendingRoles = new Map();
     this.evaluatedRoles = new Set();
+    this.policyProvider = options.policyProvider;
+    this.loadedRoleTTL = options.providerRoleTTL;
+
+    // Initialize persistence
+    this.store = options.store;
+    this.autoSave = options.autoSave ?? true;
+
+    // Initialize policy history
+    if (options.history) {
+      this.history = new PolicyHistory(options.history === true ? {} : options.history);
+    }
 
     // Initialize memory optimizer
     this.optimizeMemory = options.optimizeMemory ?? false;
@@ -242,6 +499,20 @@ export class RBAC implements IRBAC {
 
     // Initialize plugin system
     this.pluginManager = new PluginManager(this);
+    this.pluginFailurePolicy = options.pluginFailurePolicy ?? 'fail-closed';
+
+    // Initialize condition evaluation
+    this.conditionEvaluator = new ConditionEvaluator(options.conditions);
+    this.roleConditions = new Map();
+
+    // Initialize deny rules
+    this.roleDenies = new Map();
+    this.globalDenies = new Set();
+
+    // Initialize conflict resolution (constructor option wins over config option)
+    this.conflictResolver = new ConflictResolver(
+      options.conflictStrategy ?? (options.config ?? options.preset)?.options?.conflictStrategy
+    );
 
     // Initialize bit or legacy system
     if (this.useBitSystem) {
@@ -249,6 +520,7 @@ export class RBAC implements IRBAC {
       this.bitPermissionManager = new BitPermissionManager({
         startBitValue: bitOptions?.startBitValue,
         strictMode: options.strictMode ?? bitOptions?.strictMode,
+        migrations: options.stateMigrations,
       });
     } else {
       this.roleManager = new RoleManager();
@@ -279,576 +551,2866 @@ export class RBAC implements IRBAC {
         // Register with manual bit if provided
         this.bitPermissionManager.registerPermission(permName, permConfig.bit);
       }
+      this.storePermissionInfo(permConfig);
     }
 
-    // Register roles
-    for (const roleConfig of config.roles) {
-      //Intern role name and permissions
-      const roleName = this.optimizeMemory && this.memoryOptimizer
-        ? this.memoryOptimizer.internString(roleConfig.name)
-        : roleConfig.name;
-
-      const permissions = this.optimizeMemory && this.memoryOptimizer
-        ? this.memoryOptimizer.internStrings(roleConfig.permissions)
-        : roleConfig.permissions;
-
-      if (this.lazyRoles) {
-        // Store role config for lazy evaluation
-        this.pendingRoles.set(roleName, {
-          permissions,
-          level: roleConfig.level
-        });
-      } else {
-        // Eager loading: Register role immediately
-        if (this.useBitSystem && this.bitPermissionManager) {
-          this.bitPermissionManager.registerRole(roleName, permissions);
-        } else if (this.roleManager) {
-          this.roleManager.createRole(roleName, permissions);
-        }
-
-        // Set role level in hierarchy
-        if (roleConfig.level !== undefined) {
-          this.roleHierarchy.setRoleLevel(roleName, roleConfig.level);
-        }
-      }
+    // Global deny rules
+    for (const permission of config.deny ?? []) {
+      this.globalDenies.add(this.resolvePermission(permission));
     }
-  }
+    this.registerDeniedPermissions(this.globalDenies);
 
-  /**
-   * Evaluate a lazy role on first access
-   */
-  private evaluateLazyRole(roleName: string): void {
-    // Check if role is already evaluated
-    if (this.evaluatedRoles.has(roleName)) {
-      return;
+    if (config.implications) {
+      this.implications = new ImplicationResolver(config.implications);
     }
 
-    // Get pending role config
-    const roleConfig = this.pendingRoles.get(roleName);
-    if (!roleConfig) {
-      // Role doesn't exist in pending or already registered
-      return;
+    if (config.groups) {
+      this.getGroupManager()?.registerGroups(config.groups);
     }
 
-    // Register the role
-    if (this.useBitSystem && this.bitPermissionManager) {
-      this.bitPermissionManager.registerRole(roleName, roleConfig.permissions);
-    } else if (this.roleManager) {
-      this.roleManager.createRole(roleName, roleConfig.permissions);
+    // Detect inheritance cycles up front (lazy roles would otherwise only fail on first access)
+    if (this.lazyRoles) {
+      const inheritanceGraph = new RoleGraph();
+      for (const roleConfig of config.roles) {
+        inheritanceGraph.setParents(roleConfig.name, roleConfig.inherits ?? []);
+      }
     }
 
-    // Set role level in hierarchy
-    if (roleConfig.level !== undefined) {
-      this.roleHierarchy.setRoleLevel(roleName, roleConfig.level);
+    // Register roles
+    for (const roleConfig of config.roles) {
+      this.registerRoleConfig(roleConfig);
     }
-
-    // Mark as evaluated and remove from pending
-    this.evaluatedRoles.add(roleName);
-    this.pendingRoles.delete(roleName);
   }
 
   /**
-   * Check if user has permission
+   * Register a role from its config (grants, deny rules, conditions, inheritance and level)
+   * @param lazy Defer registering grants and inheritance until the role is first used
    */
-  hasPermission(user: RBACUser, permission: string): boolean {
-    // Evaluate lazy roles on first access
-    if (this.lazyRoles) {
-      for (const role of user.roles) {
-        if (this.pendingRoles.has(role)) {
-          this.evaluateLazyRole(role);
+  private registerRoleConfig(roleConfig: RoleConfig, lazy: boolean = this.lazyRoles): void {
+    //Intern role name and permissions
+    const roleName = this.optimizeMemory && this.memoryOptimizer
+      ? this.memoryOptimizer.internString(roleConfig.name)
+      : roleConfig.name;
+
+    this.storeRoleInfo(roleConfig);
+
+    // "!perm" entries are deny rules, not grants; "@group" entries expand to the group's permissions
+    // Aliases and former names resolve to the permission they name
+    const { grants: entries, denies } = splitDenyRules(roleConfig.permissions);
+    const grants = this.resolveGroups(roleName, entries).map(permission => this.resolvePermission(permission));
+    const permissions = this.optimizeMemory && this.memoryOptimizer
+      ? this.memoryOptimizer.internStrings(grants)
+      : grants;
+
+    // Wildcard grants need a bit of their own, as createRole() gives them
+    if (this.useBitSystem && this.bitPermissionManager && this.enableWildcards) {
+      for (const permission of permissions) {
+        if (WildcardMatcher.isPattern(permission) && this.bitPermissionManager.getPermissionBit(permission) === undefined) {
+          this.bitPermissionManager.registerPermission(permission);
         }
       }
     }
 
-    // Check cache first
-    if (this.cacheEnabled && this.cache) {
-      const cached = this.cache.get(user.id, permission);
-      if (cached !== undefined) {
-        return cached;
-      }
-    }
-
-    let allowed = false;
-    let reason: string | undefined;
-
-    try {
-      // Check deny list first (explicit deny takes precedence)
-      if (this.isPermissionDenied(user.id, permission)) {
-        reason = `Permission explicitly denied: ${permission}`;
-        // Cache the deny result
-        if (this.cacheEnabled && this.cache) {
-          this.cache.set(user.id, permission, false);
-        }
-        return false;
-      }
-
-      // Use bit-based system if enabled
-      if (this.useBitSystem) {
-        if (!this.bitPermissionManager) {
-          reason = 'Bit permission manager not initialized';
-          return false;
-        }
-
-        // Check direct permission mask first
-        if (user.permissionMask !== undefined) {
-          allowed = this.bitPermissionManager.hasPermission(user.permissionMask, permission);
-          if (allowed) {
-            if (this.cacheEnabled && this.cache) {
-              this.cache.set(user.id, permission, true);
-            }
-            return true;
-          }
-        }
-
-        // Check direct permissions array (with wildcard support)
-        if (user.permissions) {
-          allowed = this.checkPermissionsWithWildcard(user.permissions, permission);
-          if (allowed) {
-            if (this.cacheEnabled && this.cache) {
-              this.cache.set(user.id, permission, true);
-            }
-            return true;
-          }
-        }
-
-        // Check role-based permissions (with wildcard support)
-        for (const role of user.roles) {
-          const rolePermissions = this.bitPermissionManager.getRolePermissions(role);
-
-          // Check exact match first
-          const roleMask = this.bitPermissionManager.getRoleMask(role);
-          if (roleMask !== undefined && this.bitPermissionManager.hasPermission(roleMask, permission)) {
-            allowed = true;
-            if (this.cacheEnabled && this.cache) {
-              this.cache.set(user.id, permission, true);
-            }
-            return true;
-          }
-
-          // Check wildcard permissions
-          if (this.enableWildcards && this.checkPermissionsWithWildcard(rolePermissions, permission)) {
-            allowed = true;
-            if (this.cacheEnabled && this.cache) {
-              this.cache.set(user.id, permission, true);
-            }
-            return true;
-          }
-        }
+    // Implied permissions are granted alongside the declared ones
+    const rolePermissions = this.withImpliedGrants(roleName, permissions);
 
-        reason = `User lacks permission: ${permission}`;
-        if (this.cacheEnabled && this.cache) {
-          this.cache.set(user.id, permission, false);
-        }
-        return false;
+    if (lazy) {
+      // Store role config for lazy evaluation
+      this.pendingRoles.set(roleName, {
+        permissions: rolePermissions,
+        inherits: roleConfig.inherits,
+        level: roleConfig.level
+      });
+    } else {
+      // Eager loading: Register role immediately
+      if (this.useBitSystem && this.bitPermissionManager) {
+        this.bitPermissionManager.registerRole(roleName, rolePermissions, roleConfig.inherits);
+      } else if (this.roleManager) {
+        this.roleManager.createRole(roleName, rolePermissions, roleConfig.inherits);
       }
 
-      // Legacy system
-      // Check direct permissions first (with wildcard support)
-      if (user.permissions) {
-        allowed = this.checkPermissionsWithWildcard(user.permissions, permission);
-        if (allowed) {
-          if (this.cacheEnabled && this.cache) {
-            this.cache.set(user.id, permission, true);
-          }
-          return true;
-        }
+      // Set role level in hierarchy
+      if (roleConfig.level !== undefined) {
+        this.roleHierarchy.setRoleLevel(roleName, roleConfig.level);
       }
+    }
 
-      // Check role-based permissions (with wildcard support)
-      for (const role of user.roles) {
-        const rolePermissions = this.roleManager?.getRolePermissions(role) ?? [];
-        if (this.checkPermissionsWithWildcard(rolePermissions, permission)) {
-          allowed = true;
-          if (this.cacheEnabled && this.cache) {
-            this.cache.set(user.id, permission, true);
-          }
-          return true;
-        }
-      }
+    // Deny rules and conditions are plain data, so they are stored up front even for lazy roles
+    const deniedPermissions = [...denies, ...(roleConfig.deny ?? [])].map(permission => this.resolvePermission(permission));
+    if (deniedPermissions.length > 0) {
+      this.registerDeniedPermissions(deniedPermissions);
+      this.roleDenies.set(roleName, Array.from(new Set(deniedPermissions)));
+    }
 
-      reason = `User lacks permission: ${permission}`;
-      if (this.cacheEnabled && this.cache) {
-        this.cache.set(user.id, permission, false);
+    for (const [name, condition] of Object.entries(roleConfig.conditions ?? {})) {
+      const grant = this.resolvePermission(name);
+      if (!permissions.includes(grant)) {
+        throw new Error(`Role '${roleName}' has a condition on a permission it does not grant: ${name}`);
       }
-      return false;
-    } finally {
-      // Trigger plugin hooks (v3.0) - fire and forget
-      this.pluginManager.triggerPermissionCheck({
-        type: 'permission_check',
-        userId: user.id,
-        permission,
-        allowed,
-        reason: allowed ? undefined : reason,
-        context: {
-          roles: user.roles,
-        },
-        timestamp: Date.now(),
-      }).catch(err => {
-        // Don't let plugin errors break permission checks
-        console.error('Plugin error:', err);
-      });
-
-      // Audit log
-      this.logAudit({
-        type: 'permission_check',
-        userId: user.id,
-        permission,
-        allowed,
-        reason: allowed ? undefined : reason,
-        context: {
-          roles: user.roles,
-        },
-        timestamp: Date.now(),
-      });
+      this.storeCondition(roleName, grant, condition);
     }
+    this.refreshImpliedConditions(roleName);
   }
 
   /**
-   * Check if permissions array contains permission (with wildcard support)
+   * Keep the descriptive fields, aliases and deprecation of a configured permission
    */
-  private checkPermissionsWithWildcard(permissions: string[], permission: string): boolean {
-    // Exact match
-    if (permissions.includes(permission)) {
-      return true;
-    }
-
-    // Wildcard match (if enabled)
-    if (this.enableWildcards) {
-      return WildcardMatcher.matchesAny(permission, permissions);
+  private storePermissionInfo({ name, resource, action, description, metadata, renamedFrom, aliases, deprecated }: PermissionConfig): void {
+    const info = {
+      ...(resource !== undefined && { resource }),
+      ...(action !== undefined && { action }),
+      ...(description !== undefined && { description }),
+      ...(metadata !== undefined && { metadata }),
+      ...(renamedFrom !== undefined && { renamedFrom: [...renamedFrom] }),
+      ...(aliases !== undefined && { aliases: [...aliases] }),
+      ...(deprecated !== undefined && deprecated !== false && { deprecated }),
+    };
+    this.permissionInfo.set(name, info);
+    for (const alias of [...(renamedFrom ?? []), ...(aliases ?? [])]) {
+      this.permissionAliases.set(alias, name);
     }
+  }
 
-    return false;
+  /**
+   * Keep the descriptive fields of a configured role
+   */
+  private storeRoleInfo({ name, description, metadata }: RoleConfig): void {
+    if (description === undefined && metadata === undefined) return;
+    this.roleInfo.set(name, {
+      ...(description !== undefined && { description }),
+      ...(metadata !== undefined && { metadata }),
+    });
   }
 
   /**
-   * Check if permission is explicitly denied for user
+   * Manager holding permission groups and roles for the active system
    */
-  private isPermissionDenied(userId: string, permission: string): boolean {
-    const deniedPermissions = this.denyList.get(userId);
-    if (!deniedPermissions) return false;
+  private getGroupManager(): BitPermissionManager | RoleManager | undefined {
+    return this.useBitSystem ? this.bitPermissionManager : this.roleManager;
+  }
 
-    // Check exact match
-    if (deniedPermissions.has(permission)) {
-      return true;
+  /**
+   * Expand '@group' references in a role's grants and remember which groups the role uses
+   */
+  private resolveGroups(roleName: string, entries: string[]): string[] {
+    const groups = entries.filter(PermissionGroups.isReference).map(entry => entry.slice(1));
+    if (groups.length === 0) {
+      this.roleGroups.delete(roleName);
+      this.roleGrants.delete(roleName);
+      return entries;
     }
 
-    // Check wildcard match
-    if (this.enableWildcards) {
-      const deniedPatterns = Array.from(deniedPermissions);
-      return WildcardMatcher.matchesAny(permission, deniedPatterns);
-    }
+    const expanded = this.getGroupManager()?.expandGroups(entries) ?? entries;
+    this.roleGroups.set(roleName, Array.from(new Set(groups)));
+    const declared = entries.filter(entry => !PermissionGroups.isReference(entry)).map(entry => this.resolvePermission(entry));
+    this.roleGrants.set(roleName, Array.from(new Set(declared)));
+    return expanded;
+  }
 
-    return false;
+  /**
+   * Apply a change to a group to every role referencing it (directly or through nested groups)
+   * Permissions the group gains are added to those roles and permissions it loses are revoked,
+   * unless the role declares them itself or another group the role references still includes them
+   */
+  private updateGroup(groupName: string, update: () => void): void {
+    const manager = this.getGroupManager();
+    if (!manager) return;
+
+    const affected = Array.from(this.roleGroups).filter(([, groups]) =>
+      groups.some(group => manager.groupIncludes(group, groupName))
+    );
+    const before = affected.map(([, groups]) => manager.expandGroups(groups.map(group => PermissionGroups.PREFIX + group)));
+
+    // Roles report what they gain or lose through the grants and revokes below
+    this.trackChange('onGroupUpdated', () => {
+      const members = manager.getGroup(groupName);
+      return members && [...members];
+    }, update, (previous, members) => {
+      if (!members) return;
+      this.triggerPlugins('onGroupUpdated', { group: groupName, before: previous, after: members, timestamp: Date.now() });
+    });
+
+    affected.forEach(([roleName, groups], index) => {
+      const after = manager.expandGroups(groups.map(group => PermissionGroups.PREFIX + group));
+      const direct = new Set(this.getDirectRolePermissions(roleName));
+      const declared = this.roleGrants.get(roleName) ?? [];
+      for (const permission of after) {
+        if (!before[index].includes(permission) && !direct.has(permission)) {
+          this.grantToRole(roleName, permission, false);
+        }
+      }
+      for (const permission of before[index]) {
+        if (!after.includes(permission) && !declared.includes(permission)) {
+          this.revokeFromRole(roleName, permission, false);
+        }
+      }
+    });
+    this.persist();
   }
 
   /**
-   * Log audit event
+   * Add the permissions implied by a role's declared grants (registering bits for new ones)
+   * @returns Declared grants followed by implied permissions
    */
-  private logAudit(event: AuditEvent): void {
-    if (this.auditLogger) {
-      try {
-        this.auditLogger.log(event);
-      } catch (error) {
-        // Don't throw - audit logging should not break main flow
-        console.error('Audit logging error:', error);
+  private withImpliedGrants(roleName: string, grants: string[]): string[] {
+    const implied = this.implications.expand(grants);
+    if (implied.size === 0) {
+      this.impliedGrants.delete(roleName);
+      return grants;
+    }
+
+    this.impliedGrants.set(roleName, implied);
+    if (this.useBitSystem && this.bitPermissionManager) {
+      for (const permission of implied.keys()) {
+        if (this.bitPermissionManager.getPermissionBit(permission) === undefined) {
+          this.bitPermissionManager.registerPermission(permission);
+        }
       }
     }
+    return [...grants, ...implied.keys()];
   }
 
   /**
-   * Check if user has any of the permissions
+   * Get the grants declared for a role (direct permissions without implied ones)
    */
-  hasAnyPermission(user: RBACUser, permissions: string[]): boolean {
-    return permissions.some(perm => this.hasPermission(user, perm));
+  private getDeclaredGrants(roleName: string): string[] {
+    const implied = this.impliedGrants.get(roleName);
+    const direct = this.getDirectRolePermissions(roleName);
+    return implied ? direct.filter(permission => !implied.has(permission)) : direct;
   }
 
   /**
-   * Check if user has all permissions
+   * Re-register a role's declared grants with the permissions they imply
    */
-  hasAllPermissions(user: RBACUser, permissions: string[]): boolean {
-    return permissions.every(perm => this.hasPermission(user, perm));
+  private registerImpliedGrants(roleName: string, grants: string[]): void {
+    const permissions = this.withImpliedGrants(roleName, grants);
+    if (this.useBitSystem && this.bitPermissionManager) {
+      for (const permission of grants) {
+        if (this.bitPermissionManager.getPermissionBit(permission) === undefined) {
+          this.bitPermissionManager.registerPermission(permission);
+        }
+      }
+      this.bitPermissionManager.registerRole(roleName, permissions);
+    } else {
+      this.roleManager?.createRole(roleName, permissions);
+    }
+    this.refreshImpliedConditions(roleName);
   }
 
   /**
-   * Authorize a user for a specific action on a resource
+   * Give implied permissions the conditions of the grants implying them
+   * Unconditional when any implying grant is unconditional; otherwise any implying grant's condition must hold
    */
-  authorize(user: RBACUser, permission: string): AuthorizationResult {
-    const allowed = this.hasPermission(user, permission);
+  private refreshImpliedConditions(roleName: string): void {
+    const implied = this.impliedGrants.get(roleName);
+    const conditions = this.roleConditions.get(roleName);
+    if (!implied || !conditions) return;
+
+    for (const [permission, sources] of implied) {
+      const sourceConditions = sources.map(source => conditions.get(source));
+      if (sourceConditions.some(condition => condition === undefined)) {
+        conditions.delete(permission);
+        continue;
+      }
 
-    return {
-      allowed,
-      reason: allowed ? undefined : `User lacks permission: ${permission}`,
-      user
-    };
+      const unique = Array.from(new Map(sourceConditions.map(condition => [JSON.stringify(condition), condition!])).values());
+      conditions.set(permission, unique.length === 1
+        ? unique[0]
+        : { any: unique.map(condition => typeof condition === 'string' ? { predicate: condition } : condition) });
+    }
+    if (conditions.size === 0) {
+      this.roleConditions.delete(roleName);
+    }
   }
 
   /**
-   * Authorize with context (resource and action)
+   * Evaluate a lazy role on first access
    */
-  authorizeWithContext(context: RBACContext, requiredPermission?: string): AuthorizationResult {
-    if (!context.user) {
-      return {
+  private evaluateLazyRole(roleName: string): void {
+    // Check if role is already evaluated
+    if (this.evaluatedRoles.has(roleName)) {
+      return;
+    }
+
+    // Get pending role config
+    const roleConfig = this.pendingRoles.get(roleName);
+    if (!roleConfig) {
+      // Role doesn't exist in pending or already registered
+      return;
+    }
+
+    // Mark as evaluated and remove from pending before walking parents (guards against cycles)
+    this.evaluatedRoles.add(roleName);
+    this.pendingRoles.delete(roleName);
+
+    // Register the role
+    if (this.useBitSystem && this.bitPermissionManager) {
+      this.bitPermissionManager.registerRole(roleName, roleConfig.permissions, roleConfig.inherits);
+    } else if (this.roleManager) {
+      this.roleManager.createRole(roleName, roleConfig.permissions, roleConfig.inherits);
+    }
+
+    // Set role level in hierarchy
+    if (roleConfig.level !== undefined) {
+      this.roleHierarchy.setRoleLevel(roleName, roleConfig.level);
+    }
+
+    if (this.pluginManager.hasHook('onRoleEvaluated')) {
+      const after = this.snapshotRole(roleName);
+      if (after) {
+        this.triggerPlugins('onRoleEvaluated', { type: 'evaluated', role: roleName, after, timestamp: Date.now() });
+      }
+    }
+
+    // Inherited roles must be evaluated too, otherwise their permissions are missing
+    for (const parent of roleConfig.inherits ?? []) {
+      this.evaluateLazyRole(parent);
+    }
+  }
+
+  /**
+   * Check if user has permission
+   * @param context Optional request context; its attributes feed role grant conditions
+   */
+  hasPermission(user: RBACUser, permission: string, context?: RBACContext): boolean {
+    return this.checkPermission(user, permission, context).allowed;
+  }
+
+  /**
+   * Check if user has permission, loading missing policy data first
+   * Resolves the user's roles, role definitions and denies through the policy provider (or lazy role loader)
+   * and consults the shared cache store (cacheOptions.sharedStore) before evaluating like hasPermission()
+   */
+  async hasPermissionAsync(user: RBACUser, permission: string, context?: RBACContext): Promise<boolean> {
+    return this.createPolicyRequest().hasPermission(user, permission, context);
+  }
+
+  /**
+   * Authorize user for permission, loading missing policy data first (see hasPermissionAsync())
+   */
+  async authorizeAsync(user: RBACUser, permission: string, context?: RBACContext): Promise<AuthorizationResult> {
+    return this.createPolicyRequest().authorize(user, permission, context);
+  }
+
+  /**
+   * Create a scope for the async checks of one request
+   * Provider lookups are memoized for the lifetime of the scope, so each role, user role list
+   * and deny list is loaded at most once however many checks the request runs.
+   * User roles and denies from the provider only apply to the checks of the scope; they are never stored on the instance
+   */
+  createPolicyRequest(): PolicyRequest {
+    const lookups = this.createPolicyLookups();
+    const check = async (user: RBACUser, permission: string, context?: RBACContext) => {
+      const { user: resolved, denies } = await this.loadPolicy(user, context, lookups);
+      if (this.cacheEnabled && this.cache?.hasSharedStore()) {
+        const fingerprint = this.withRequestDenies(user.id, denies, () => this.cacheFingerprint(this.resolveEffectiveUser(resolved, context)));
+        await this.cache.prefetch(user.id, permission, fingerprint);
+      }
+      return this.withRequestDenies(user.id, denies, () => this.checkPermission(resolved, permission, context));
+    };
+
+    return {
+      hasPermission: async (user, permission, context) => (await check(user, permission, context)).allowed,
+      hasAnyPermission: async (user, permissions, context) => {
+        for (const permission of permissions) {
+          if ((await check(user, permission, context)).allowed) return true;
+        }
+        return false;
+      },
+      hasAllPermissions: async (user, permissions, context) => {
+        for (const permission of permissions) {
+          if (!(await check(user, permission, context)).allowed) return false;
+        }
+        return true;
+      },
+      authorize: async (user, permission, context) => ({ ...(await check(user, permission, context)), user }),
+      getUserPermissions: async (user, context) => {
+        const { user: resolved, denies } = await this.loadPolicy(user, context, lookups);
+        return this.withRequestDenies(user.id, denies, () => this.getUserPermissions(resolved, context));
+      },
+    };
+  }
+
+  /**
+   * Memoized accessors for the policy provider (and lazy role loader)
+   * A failed lookup is memoized too, so one request never retries it
+   */
+  private createPolicyLookups(): Required<PolicyProvider> {
+    const results = new Map<string, Promise<unknown>>();
+    const load = <T>(key: string, fetch: () => T | Promise<T>): Promise<T> => {
+      let result = results.get(key) as Promise<T> | undefined;
+      if (!result) {
+        result = Promise.resolve().then(fetch);
+        results.set(key, result);
+      }
+      return result;
+    };
+
+    const provider = this.policyProvider;
+    return {
+      getRole: roleName => load(`role:${roleName}`, () => provider?.getRole ? provider.getRole(roleName) : this.roleLoader?.(roleName)),
+      getUserRoles: userId => load(`roles:${userId}`, () => provider?.getUserRoles?.(userId)),
+      getUserDenies: userId => load(`denies:${userId}`, () => provider?.getUserDenies?.(userId)),
+    };
+  }
+
+  /**
+   * Resolve a user against the policy provider before a check
+   * Adds the user's assigned roles, validates their denies and registers missing roles
+   * @returns The user with the roles assigned by the provider, and the provider denies to check with
+   */
+  private async loadPolicy(
+    user: RBACUser,
+    context: RBACContext | undefined,
+    lookups: Required<PolicyProvider>
+  ): Promise<{ user: RBACUser; denies?: DenyEntry[] }> {
+    const [assigned, entries] = await Promise.all([lookups.getUserRoles(user.id), lookups.getUserDenies(user.id)]);
+    const denies = entries?.map((entry, index) => {
+      const validated = RBAC.validateDenyEntry({ ...entry, userId: user.id }, `deny entry ${index} of user '${user.id}'`);
+      return { ...validated, permission: this.resolvePermission(validated.permission) };
+    });
+
+    const missing = assigned?.filter(role => !user.roles.includes(role)) ?? [];
+    const resolved = missing.length > 0 ? { ...user, roles: [...user.roles, ...missing] } : user;
+    await this.loadMissingRoles(this.getEffectiveRoles(resolved, context), lookups);
+    return { user: resolved, denies };
+  }
+
+  /**
+   * Run a synchronous check with provider denies added to the stored denies of a user
+   */
+  private withRequestDenies<T>(userId: string, denies: DenyEntry[] | undefined, fn: () => T): T {
+    if (!denies || denies.length === 0) return fn();
+
+    const previous = this.requestDenies;
+    this.requestDenies = {
+      userId,
+      entries: new Map(denies.map(({ permission, notBefore, expiresAt, reason }) => [permission, {
+        ...(notBefore !== undefined && { notBefore }),
+        ...(expiresAt !== undefined && { expiresAt }),
+        ...(reason !== undefined && { reason }),
+      }])),
+    };
+    try {
+      return fn();
+    } finally {
+      this.requestDenies = previous;
+    }
+  }
+
+  /**
+   * Load roles missing from the instance (parents first) and register them like config roles
+   * Loaded roles are reloaded once providerRoleTTL has passed or after invalidateLoadedRoles();
+   * roles the provider does not know stay missing and grant nothing
+   */
+  private async loadMissingRoles(roleNames: string[], lookups: Required<PolicyProvider>, visited: Set<string> = new Set()): Promise<void> {
+    const missing = roleNames.filter(roleName => !visited.has(roleName) && (!this.roleExists(roleName) || this.isLoadedRoleStale(roleName)));
+    if (missing.length === 0) return;
+    missing.forEach(roleName => visited.add(roleName));
+
+    const configs = await Promise.all(missing.map(roleName => lookups.getRole(roleName)));
+    for (const [index, roleConfig] of configs.entries()) {
+      const roleName = missing[index];
+      if (!roleConfig) {
+        // A loaded role removed from the provider keeps granting nothing until it is defined again
+        if (this.isLoadedRoleStale(roleName)) {
+          this.clearLoadedRole(roleName);
+          this.markRoleLoaded(roleName);
+        }
+        continue;
+      }
+      await this.loadMissingRoles(roleConfig.inherits ?? [], lookups, visited);
+
+      // A concurrent check may have loaded the role meanwhile
+      if (this.roleExists(roleName) && !this.isLoadedRoleStale(roleName)) continue;
+      if (this.loadedRoles.has(roleName)) {
+        this.clearLoadedRole(roleName);
+      }
+
+      if (this.useBitSystem && this.bitPermissionManager) {
+        for (const permission of splitDenyRules(roleConfig.permissions).grants) {
+          if (!PermissionGroups.isReference(permission) && this.bitPermissionManager.getPermissionBit(permission) === undefined) {
+            this.bitPermissionManager.registerPermission(permission);
+          }
+        }
+      }
+      this.registerRoleConfig({ ...roleConfig, name: roleName }, false);
+      this.evaluatedRoles.add(roleName);
+      this.markRoleLoaded(roleName);
+      this.cache?.invalidateRole(roleName);
+    }
+  }
+
+  /**
+   * Check if a role loaded on demand must be reloaded before the next async check
+   */
+  private isLoadedRoleStale(roleName: string): boolean {
+    const reloadAt = this.loadedRoles.get(roleName);
+    return reloadAt !== undefined && reloadAt <= this.clock();
+  }
+
+  /**
+   * Record when a role loaded on demand must be reloaded
+   */
+  private markRoleLoaded(roleName: string): void {
+    this.loadedRoles.set(roleName, this.loadedRoleTTL === undefined ? Infinity : this.clock() + this.loadedRoleTTL);
+  }
+
+  /**
+   * Remove the grants, parents, deny rules and conditions of a role loaded on demand
+   */
+  private clearLoadedRole(roleName: string): void {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      this.bitPermissionManager.registerRole(roleName, [], []);
+    } else {
+      this.roleManager?.createRole(roleName, [], []);
+    }
+    this.roleDenies.delete(roleName);
+    this.roleConditions.delete(roleName);
+    this.impliedGrants.delete(roleName);
+    this.roleGroups.delete(roleName);
+    this.roleGrants.delete(roleName);
+    this.roleMatchers.delete(roleName);
+    this.cache?.invalidateRole(roleName);
+  }
+
+  /**
+   * Drop roles loaded by the policy provider (or lazy role loader)
+   * Dropped roles grant nothing until the next async check loads them again, so revocations apply at once
+   * @param roleNames Roles to drop (default: every loaded role)
+   */
+  invalidateLoadedRoles(roleNames: string[] = Array.from(this.loadedRoles.keys())): void {
+    for (const roleName of roleNames) {
+      if (!this.loadedRoles.has(roleName)) continue;
+      this.clearLoadedRole(roleName);
+      this.loadedRoles.set(roleName, -Infinity);
+    }
+  }
+
+  /**
+   * Explain a permission check: the checks evaluated in order, what matched and why
+   * Side-effect free: does not populate the cache, update cache statistics, or emit audit events and plugin hooks
+   */
+  explain(user: RBACUser, permission: string, context?: RBACContext): PermissionDecision {
+    permission = this.resolvePermission(permission);
+    user = this.resolveEffectiveUser(user, context);
+    this.evaluatePendingRoles(user);
+
+    const steps: DecisionStep[] = [];
+    const cached = this.cacheEnabled && this.cache
+      ? this.cache.peek(user.id, permission, this.cacheFingerprint(user))
+      : undefined;
+    if (this.cacheEnabled) {
+      steps.push({
+        check: 'cache',
+        matched: cached !== undefined,
+        detail: cached === undefined ? 'No cached result' : `Cached result: ${cached ? 'allowed' : 'denied'}`,
+      });
+    }
+
+    // Interceptors run as in a check: beforeCheck decides before the policy, afterCheck can override any decision
+    const check: PermissionCheck = { user, permission, ...(context !== undefined && { context }) };
+    const intercepted = this.pluginManager.runBeforeCheck(check, this.pluginFailurePolicy);
+    if (this.pluginManager.hasHook('beforeCheck')) {
+      steps.unshift({
+        check: 'before-check',
+        matched: intercepted !== undefined,
+        detail: intercepted === undefined
+          ? 'No plugin decided'
+          : intercepted.reason ?? 'Allowed by a beforeCheck plugin',
+      });
+    }
+
+    const evaluation = this.evaluatePermission(user, permission, context, steps);
+    const fromCache = intercepted === undefined && cached !== undefined;
+    const decided = intercepted ?? { allowed: fromCache ? cached : evaluation.allowed };
+    const final = this.pluginManager.runAfterCheck(check, decided, this.pluginFailurePolicy);
+    const overridden = final.allowed !== decided.allowed;
+    if (this.pluginManager.hasHook('afterCheck')) {
+      steps.push({
+        check: 'after-check',
+        matched: overridden,
+        detail: overridden ? final.reason ?? 'Allowed by an afterCheck plugin' : 'No plugin changed the decision',
+      });
+    }
+    const allowed = final.allowed;
+
+    let reason = evaluation.reason;
+    if (intercepted !== undefined || overridden) {
+      reason = final.reason ?? `Allowed by plugin: ${permission}`;
+    } else if (allowed !== evaluation.allowed) {
+      reason = `Cached result (${allowed ? 'allowed' : 'denied'}) is stale; live evaluation: ${evaluation.reason}`;
+    }
+
+    return {
+      userId: user.id,
+      permission,
+      allowed,
+      reason,
+      source: intercepted !== undefined || overridden ? 'plugin' : evaluation.source,
+      fromCache,
+      matchedRole: evaluation.matchedRole,
+      grantedBy: evaluation.grantedBy,
+      matchedPattern: evaluation.matchedPattern,
+      deniedBy: evaluation.deniedBy,
+      strategy: this.conflictResolver.name,
+      steps,
+    };
+  }
+
+  /**
+   * Run a permission check, resolving aliases and former names and reporting deprecated names
+   */
+  private checkPermission(user: RBACUser, name: string, context?: RBACContext): PermissionCheckResult {
+    const permission = this.resolvePermission(name);
+    const result = this.runPermissionCheck(user, permission, context);
+
+    const deprecation = this.getPermissionDeprecation(name);
+    if (deprecation) {
+      this.reportDeprecation(user, deprecation, result);
+    }
+    return result;
+  }
+
+  /**
+   * Warn about a deprecated name (once per name) and log its use to the audit logger (every time)
+   */
+  private reportDeprecation(user: RBACUser, deprecation: PermissionDeprecation, { allowed }: PermissionCheckResult): void {
+    if (!this.warnedDeprecations.has(deprecation.name)) {
+      this.warnedDeprecations.add(deprecation.name);
+      try {
+        this.deprecationLogger.warn(deprecation.message, deprecation);
+      } catch (error) {
+        console.error('Deprecation logging error:', error);
+      }
+    }
+
+    this.logAudit({
+      type: 'deprecated_permission',
+      userId: user.id,
+      permission: deprecation.name,
+      allowed,
+      reason: deprecation.message,
+      context: {
+        roles: user.roles,
+        metadata: { resolvedTo: deprecation.permission },
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Run a permission check with caching, plugin hooks and audit logging
+   * Interceptor plugins may decide the check before the policy is evaluated (beforeCheck)
+   * and override every decision (afterCheck)
+   */
+  private runPermissionCheck(user: RBACUser, permission: string, context?: RBACContext): PermissionCheckResult {
+    // Scoped role bindings count as roles of the user when they match the context scope
+    user = this.resolveEffectiveUser(user, context);
+    const check: PermissionCheck = { user, permission, ...(context !== undefined && { context }) };
+
+    const intercepted = this.pluginManager.runBeforeCheck(check, this.pluginFailurePolicy);
+    if (intercepted) {
+      const result = this.pluginManager.runAfterCheck(check, intercepted, this.pluginFailurePolicy);
+      this.reportCheck(user, permission, result);
+      return result;
+    }
+
+    this.evaluatePendingRoles(user);
+
+    // Check cache first (entries computed for other roles or direct grants miss)
+    const fingerprint = this.cacheEnabled && this.cache ? this.cacheFingerprint(user) : undefined;
+    if (this.cacheEnabled && this.cache) {
+      const cached = this.cache.get(user.id, permission, fingerprint);
+      if (cached !== undefined) {
+        return this.pluginManager.runAfterCheck(
+          check,
+          { allowed: cached, reason: cached ? undefined : `Permission denied (cached result): ${permission}` },
+          this.pluginFailurePolicy
+        );
+      }
+    }
+
+    let result: PermissionCheckResult = { allowed: false };
+
+    try {
+      const evaluation = this.evaluatePermission(user, permission, context);
+      result = { allowed: evaluation.allowed, reason: evaluation.allowed ? undefined : evaluation.reason };
+
+      // Decisions that depended on request attributes are not cacheable
+      if (this.cacheEnabled && this.cache && evaluation.cacheable) {
+        // Track the roles the result depends on, so role changes evict it
+        // and time-bound grants or deny entries starting or ending evict it on time
+        const roles = new Set(user.roles.flatMap(role => [role, ...this.getRoleAncestors(role)]));
+        const expiresAt = this.nextGrantChange(user);
+        this.cache.set(user.id, permission, evaluation.allowed, {
+          roles: Array.from(roles),
+          fingerprint,
+          ...(expiresAt !== undefined && { expiresAt }),
+        });
+      }
+
+      // Plugin overrides are never cached, so they apply to every check
+      result = this.pluginManager.runAfterCheck(check, result, this.pluginFailurePolicy);
+      return result;
+    } finally {
+      this.reportCheck(user, permission, result);
+    }
+  }
+
+  /**
+   * Report a check decision to plugins (onPermissionCheck) and the audit logger
+   */
+  private reportCheck(user: RBACUser, permission: string, { allowed, reason }: PermissionCheckResult): void {
+    const event: AuditEvent = {
+      type: 'permission_check',
+      userId: user.id,
+      permission,
+      allowed,
+      reason,
+      context: {
+        roles: user.roles,
+      },
+      timestamp: Date.now(),
+    };
+
+    // Trigger plugin hooks (v3.0) - fire and forget; skipped without listeners so checks queue no promises
+    if (this.pluginManager.hasHook('onPermissionCheck')) {
+      this.pluginManager.triggerPermissionCheck(event).catch(err => {
+        // Don't let plugin errors break permission checks
+        console.error('Plugin error:', err);
+      });
+    }
+
+    // Audit log
+    this.logAudit(event);
+  }
+
+  /**
+   * Add the roles and permissions the user holds in the context scope right now
+   * (scoped role bindings, active time-bound grants and permissions implied by direct grants)
+   * Direct grants written with aliases or former names resolve to the permission they name
+   * @returns The user itself when nothing applies
+   */
+  private resolveEffectiveUser(user: RBACUser, context?: RBACContext): RBACUser {
+    const roles = this.getEffectiveRoles(user, context);
+    const now = this.clock();
+    const direct = this.permissionAliases.size > 0
+      ? (user.permissions ?? []).map(permission => this.resolvePermission(permission))
+      : user.permissions ?? [];
+    const renamed = direct.some((permission, index) => permission !== user.permissions![index]);
+    const timedPermissions = (user.timedPermissions ?? [])
+      .filter(grant => RBAC.isWithinWindow(grant, now))
+      .map(grant => this.resolvePermission(grant.permission));
+    const added = [...timedPermissions, ...this.getImpliedUserPermissions(user, [...direct, ...timedPermissions])];
+
+    if (roles.length === user.roles.length && added.length === 0 && !renamed) {
+      return user;
+    }
+    return {
+      ...user,
+      roles,
+      ...((added.length > 0 || renamed) && { permissions: [...direct, ...added] }),
+    };
+  }
+
+  /**
+   * Permissions implied by the direct grants of a user (permissions, active time-bound grants and permissionMask)
+   */
+  private getImpliedUserPermissions(user: RBACUser, grants: string[]): string[] {
+    if (this.implications.size === 0) return [];
+
+    const manager = this.bitPermissionManager;
+    const masked = user.permissionMask !== undefined && manager
+      ? manager.getAllPermissions().filter(permission => manager.hasPermission(user.permissionMask!, permission))
+      : [];
+    return Array.from(this.implications.expand([...grants, ...masked]).keys());
+  }
+
+  /**
+   * Next time a time-bound grant or deny entry of the user starts or ends
+   * Cached results of the user must not outlive it
+   */
+  private nextGrantChange(user: RBACUser): number | undefined {
+    const now = this.clock();
+    const bounds = [...(user.timedPermissions ?? []), ...(user.timedRoles ?? [])]
+      .flatMap(grant => [RBAC.toTimestamp(grant.notBefore), RBAC.toTimestamp(grant.notAfter)]);
+    for (const [, details] of this.getUserDenyEntries(user.id)) {
+      bounds.push(details.notBefore, details.expiresAt);
+    }
+
+    const upcoming = bounds.filter((bound): bound is number => bound !== undefined && bound > now);
+    return upcoming.length > 0 ? Math.min(...upcoming) : undefined;
+  }
+
+  /**
+   * Helper: Check if a time window contains a point in time
+   */
+  private static isWithinWindow(window: TimeWindow, now: number): boolean {
+    const notBefore = RBAC.toTimestamp(window.notBefore);
+    const notAfter = RBAC.toTimestamp(window.notAfter);
+    return (notBefore === undefined || notBefore <= now) && (notAfter === undefined || now < notAfter);
+  }
+
+  /**
+   * Helper: Convert a Date or timestamp to epoch milliseconds
+   */
+  private static toTimestamp(value: number | Date | undefined): number | undefined {
+    return value instanceof Date ? value.getTime() : value;
+  }
+
+  /**
+   * Identify the user shape a cached result was computed for (roles, direct grants and provider denies)
+   */
+  private cacheFingerprint(user: RBACUser): string {
+    const denies = this.requestDenies?.userId === user.id ? Array.from(this.requestDenies.entries.keys()) : [];
+    return JSON.stringify([user.roles, user.permissions ?? [], user.permissionMask?.toString() ?? null, ...(denies.length > 0 ? [denies] : [])]);
+  }
+
+  /**
+   * Evaluate a permission without caching or side effects
+   * @param steps When given, every evaluated check is appended to it
+   */
+  private evaluatePermission(
+    user: RBACUser,
+    permission: string,
+    context?: RBACContext,
+    steps?: DecisionStep[]
+  ): PermissionEvaluation {
+    // Other strategies need every matching rule before deciding
+    if (this.conflictResolver.name !== 'deny-overrides') {
+      return this.resolveConflicts(user, permission, context, steps);
+    }
+
+    // Check deny list first (explicit deny takes precedence)
+    const denyEntry = this.findDenyEntry(user.id, permission);
+    steps?.push({ check: 'deny-list', matched: denyEntry !== undefined, pattern: denyEntry?.permission, detail: denyEntry?.reason });
+    if (denyEntry !== undefined) {
+      // Expiring denies must not outlive their expiry in the cache
+      return this.ruleEvaluation(
+        { effect: 'deny', source: 'deny-list', pattern: denyEntry.permission },
+        permission,
+        denyEntry.expiresAt === undefined
+      );
+    }
+
+    // Global deny rules apply to every user
+    if (this.globalDenies.size > 0) {
+      const rule = this.findMatchingGrant(Array.from(this.globalDenies), permission);
+      steps?.push({ check: 'global-deny', matched: rule !== undefined, pattern: rule });
+      if (rule !== undefined) {
+        return this.ruleEvaluation({ effect: 'deny', source: 'global-deny', pattern: rule }, permission, true);
+      }
+    }
+
+    // Role deny rules override grants of every other role
+    const roleDeny = this.checkRoleDenies(user, permission, steps);
+    if (roleDeny) {
+      return roleDeny;
+    }
+
+    // Use bit-based system if enabled
+    if (this.useBitSystem) {
+      if (!this.bitPermissionManager) {
+        return { allowed: false, reason: 'Bit permission manager not initialized', source: 'none', cacheable: false };
+      }
+
+      // Check direct permission mask first
+      if (user.permissionMask !== undefined) {
+        const allowed = this.bitPermissionManager.hasPermission(user.permissionMask, permission);
+        steps?.push({ check: 'permission-mask', matched: allowed });
+        if (allowed) {
+          return this.ruleEvaluation({ effect: 'allow', source: 'permission-mask', pattern: permission }, permission, true);
+        }
+      }
+    }
+
+    // Check direct permissions array (with wildcard support)
+    if (user.permissions) {
+      const grant = this.findMatchingGrant(user.permissions, permission);
+      steps?.push({ check: 'direct-permission', matched: grant !== undefined, pattern: grant });
+      if (grant !== undefined) {
+        return this.ruleEvaluation({ effect: 'allow', source: 'direct-permission', pattern: grant }, permission, true);
+      }
+    }
+
+    // Check role-based permissions (with wildcard support and grant conditions)
+    return this.checkRolePermissions(user, permission, context, steps);
+  }
+
+  /**
+   * Evaluate lazy roles of a user on first access
+   */
+  private evaluatePendingRoles(user: RBACUser): void {
+    if (!this.lazyRoles) return;
+
+    for (const role of user.roles) {
+      if (this.pendingRoles.has(role)) {
+        this.evaluateLazyRole(role);
+      }
+    }
+  }
+
+  /**
+   * Check the deny rules of the user's roles, including inherited rules
+   */
+  private checkRoleDenies(user: RBACUser, permission: string, steps?: DecisionStep[]): PermissionEvaluation | undefined {
+    if (this.roleDenies.size === 0) return undefined;
+
+    const checked = new Set<string>();
+    for (const role of user.roles) {
+      for (const denyingRole of [role, ...this.getRoleAncestors(role)]) {
+        const rules = this.roleDenies.get(denyingRole);
+        if (!rules || checked.has(denyingRole)) continue;
+        checked.add(denyingRole);
+
+        const rule = this.findMatchingGrant(rules, permission);
+        steps?.push({ check: 'role-deny', role: denyingRole, matched: rule !== undefined, pattern: rule });
+        if (rule !== undefined) {
+          return this.ruleEvaluation(
+            { effect: 'deny', source: 'role-deny', pattern: rule, role, grantedBy: denyingRole },
+            permission,
+            true
+          );
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get deny rules that apply to a user (global rules and rules of their roles)
+   */
+  private getApplicableDenies(user: RBACUser): string[] {
+    const denies = new Set(this.globalDenies);
+    for (const role of user.roles) {
+      this.getRoleDenies(role).forEach(rule => denies.add(rule));
+    }
+    return Array.from(denies);
+  }
+
+  /**
+   * Find the grant (exact permission or wildcard pattern) that matches a permission
+   */
+  private findMatchingGrant(grants: string[], permission: string): string | undefined {
+    // Exact match
+    if (grants.includes(permission)) {
+      return permission;
+    }
+
+    // Wildcard match (if enabled)
+    if (this.enableWildcards) {
+      return grants.find(grant => WildcardMatcher.matches(permission, grant, this.memoryOptimizer));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find every grant (exact permission or wildcard pattern) that matches a permission
+   */
+  private findMatchingGrants(grants: string[], permission: string): string[] {
+    return grants.filter(grant => grant === permission || (this.enableWildcards && WildcardMatcher.matches(permission, grant, this.memoryOptimizer)));
+  }
+
+  /**
+   * Check if any of the user's roles grants the permission
+   * Roles carrying conditions are resolved grant by grant, so the granting role's condition applies
+   */
+  private checkRolePermissions(
+    user: RBACUser,
+    permission: string,
+    context?: RBACContext,
+    steps?: DecisionStep[]
+  ): PermissionEvaluation {
+    let conditionEvaluated = false;
+    let conditionContext: ConditionContext | undefined;
+
+    for (const role of user.roles) {
+      const chain = [role, ...this.getRoleAncestors(role)];
+
+      // Fast path: no conditions anywhere in the chain
+      if (!chain.some(r => this.roleConditions.has(r))) {
+        const grant = this.findRoleGrant(role, permission);
+        if (!grant) {
+          steps?.push({ check: 'role', role, matched: false, detail: this.describeMissingRole(role) });
+          continue;
+        }
+
+        // Attribution is only needed for traces
+        const grantedBy = steps
+          ? chain.find(r => this.getDirectRolePermissions(r).includes(grant.pattern)) ?? role
+          : role;
+        steps?.push({ check: 'role', role, matched: true, grantedBy, pattern: grant.pattern });
+        return this.ruleEvaluation(
+          { effect: 'allow', source: grant.source, pattern: grant.pattern, role, grantedBy },
+          permission,
+          !conditionEvaluated
+        );
+      }
+
+      const stepCount = steps?.length;
+      for (const grantingRole of chain) {
+        const conditions = this.roleConditions.get(grantingRole);
+        for (const grant of this.getDirectRolePermissions(grantingRole)) {
+          if (grant !== permission && !(this.enableWildcards && WildcardMatcher.matches(permission, grant, this.memoryOptimizer))) {
+            continue;
+          }
+
+          const rule: MatchedRule = { effect: 'allow', source: this.roleGrantSource(grant, permission), pattern: grant, role, grantedBy: grantingRole };
+          const condition = conditions?.get(grant);
+          if (condition === undefined) {
+            steps?.push({ check: 'role', role, matched: true, grantedBy: grantingRole, pattern: grant });
+            return this.ruleEvaluation(rule, permission, !conditionEvaluated);
+          }
+
+          conditionEvaluated = true;
+          conditionContext ??= this.buildConditionContext(user, permission, context);
+          const conditionResult = this.conditionEvaluator.evaluate(condition, conditionContext);
+          steps?.push({
+            check: 'role',
+            role,
+            matched: conditionResult,
+            grantedBy: grantingRole,
+            pattern: grant,
+            condition,
+            conditionResult,
+          });
+          if (conditionResult) {
+            return this.ruleEvaluation(rule, permission, !conditionEvaluated);
+          }
+        }
+      }
+
+      if (steps && steps.length === stepCount) {
+        steps.push({ check: 'role', role, matched: false });
+      }
+    }
+
+    return {
+      allowed: false,
+      reason: conditionEvaluated
+        ? `Condition not satisfied for permission: ${permission}`
+        : `User lacks permission: ${permission}`,
+      source: 'none',
+      // Decisions that depended on request attributes are not cacheable
+      cacheable: !conditionEvaluated,
+    };
+  }
+
+  /**
+   * Build the evaluation result of the rule that decided a permission
+   */
+  private ruleEvaluation(rule: MatchedRule, permission: string, cacheable: boolean): PermissionEvaluation {
+    const inherited = rule.grantedBy !== undefined && rule.grantedBy !== rule.role ? ` (inherited from '${rule.grantedBy}')` : '';
+
+    switch (rule.source) {
+      case 'deny-list':
+        return { allowed: false, reason: `Permission explicitly denied: ${permission}`, source: rule.source, cacheable, deniedBy: rule.pattern };
+      case 'global-deny':
+        return { allowed: false, reason: `Permission denied by global deny rule: ${permission}`, source: rule.source, cacheable, deniedBy: rule.pattern };
+      case 'role-deny':
+        return {
+          allowed: false,
+          reason: `Permission denied by role '${rule.role}'${inherited}: ${permission}`,
+          source: rule.source,
+          cacheable,
+          matchedRole: rule.role,
+          deniedBy: rule.pattern,
+        };
+      case 'permission-mask':
+        return { allowed: true, reason: 'Granted by user permission mask', source: rule.source, cacheable };
+      case 'direct-permission':
+        return { allowed: true, reason: `Granted by direct permission: ${rule.pattern}`, source: rule.source, cacheable, matchedPattern: rule.pattern };
+    }
+
+    let reason = `Granted by role '${rule.role}'${inherited}`;
+    if (rule.pattern !== permission) reason += ` via '${rule.pattern}'`;
+
+    return {
+      allowed: true,
+      reason,
+      source: rule.source,
+      cacheable,
+      matchedRole: rule.role,
+      grantedBy: rule.grantedBy,
+      matchedPattern: rule.pattern,
+    };
+  }
+
+  /**
+   * Decision source of a role grant
+   */
+  private roleGrantSource(grant: string, permission: string): MatchedRule['source'] {
+    if (grant !== permission) return 'role-wildcard';
+    return this.useBitSystem ? 'role-bit' : 'role-permission';
+  }
+
+  /**
+   * Evaluate a permission with a conflict strategy other than deny-overrides
+   */
+  private resolveConflicts(
+    user: RBACUser,
+    permission: string,
+    context?: RBACContext,
+    steps?: DecisionStep[]
+  ): PermissionEvaluation {
+    const { rules, cacheable, conditionEvaluated } = this.collectRules(user, permission, context, steps);
+    const winner = this.conflictResolver.resolve(rules, permission);
+
+    if (!winner) {
+      return {
+        allowed: false,
+        reason: conditionEvaluated
+          ? `Condition not satisfied for permission: ${permission}`
+          : `User lacks permission: ${permission}`,
+        source: 'none',
+        cacheable,
+      };
+    }
+
+    return this.ruleEvaluation(winner, permission, cacheable);
+  }
+
+  /**
+   * Collect every rule matching a permission, in evaluation order:
+   * user deny list, global deny rules, permission mask, direct permissions, then each user role
+   * (own rules before inherited ones, deny rules before grants)
+   * @param listing Skip the user deny list and treat conditional grants as granted (for getUserPermissions)
+   */
+  private collectRules(
+    user: RBACUser,
+    permission: string,
+    context?: RBACContext,
+    steps?: DecisionStep[],
+    listing: boolean = false
+  ): { rules: MatchedRule[]; cacheable: boolean; conditionEvaluated: boolean } {
+    const rules: MatchedRule[] = [];
+    let cacheable = true;
+    let conditionEvaluated = false;
+
+    if (!listing) {
+      const denyEntries = this.matchDenyEntries(user.id, permission);
+      if (denyEntries.length === 0) {
+        steps?.push({ check: 'deny-list', matched: false });
+      }
+      for (const entry of denyEntries) {
+        steps?.push({ check: 'deny-list', matched: true, pattern: entry.permission, detail: entry.reason });
+        rules.push({ effect: 'deny', source: 'deny-list', pattern: entry.permission });
+        // Expiring denies must not outlive their expiry in the cache
+        if (entry.expiresAt !== undefined) cacheable = false;
+      }
+    }
+
+    if (this.globalDenies.size > 0) {
+      const matches = this.findMatchingGrants(Array.from(this.globalDenies), permission);
+      RBAC.traceMatches(steps, { check: 'global-deny' }, matches);
+      matches.forEach(pattern => rules.push({ effect: 'deny', source: 'global-deny', pattern }));
+    }
+
+    if (this.useBitSystem && this.bitPermissionManager && user.permissionMask !== undefined) {
+      const allowed = this.bitPermissionManager.hasPermission(user.permissionMask, permission);
+      steps?.push({ check: 'permission-mask', matched: allowed });
+      if (allowed) rules.push({ effect: 'allow', source: 'permission-mask', pattern: permission });
+    }
+
+    if (user.permissions) {
+      const matches = this.findMatchingGrants(user.permissions, permission);
+      RBAC.traceMatches(steps, { check: 'direct-permission' }, matches);
+      matches.forEach(pattern => rules.push({ effect: 'allow', source: 'direct-permission', pattern }));
+    }
+
+    let conditionContext: ConditionContext | undefined;
+    for (const role of user.roles) {
+      let traced = false;
+
+      for (const declaringRole of [role, ...this.getRoleAncestors(role)]) {
+        const denies = this.roleDenies.get(declaringRole);
+        if (denies) {
+          const matches = this.findMatchingGrants(denies, permission);
+          RBAC.traceMatches(steps, { check: 'role-deny', role: declaringRole }, matches);
+          matches.forEach(pattern => rules.push({ effect: 'deny', source: 'role-deny', pattern, role, grantedBy: declaringRole }));
+        }
+
+        const conditions = this.roleConditions.get(declaringRole);
+        for (const grant of this.findMatchingGrants(this.getDirectRolePermissions(declaringRole), permission)) {
+          const rule: MatchedRule = { effect: 'allow', source: this.roleGrantSource(grant, permission), pattern: grant, role, grantedBy: declaringRole };
+          const condition = conditions?.get(grant);
+          traced = true;
+          if (condition === undefined || listing) {
+            steps?.push({ check: 'role', role, matched: true, grantedBy: declaringRole, pattern: grant });
+            rules.push(rule);
+            continue;
+          }
+
+          conditionEvaluated = true;
+          conditionContext ??= this.buildConditionContext(user, permission, context);
+          const conditionResult = this.conditionEvaluator.evaluate(condition, conditionContext);
+          steps?.push({ check: 'role', role, matched: conditionResult, grantedBy: declaringRole, pattern: grant, condition, conditionResult });
+          if (conditionResult) rules.push(rule);
+        }
+      }
+
+      if (!traced) {
+        steps?.push({ check: 'role', role, matched: false, detail: this.describeMissingRole(role) });
+      }
+    }
+
+    // Decisions that depended on request attributes are not cacheable
+    return { rules, cacheable: cacheable && !conditionEvaluated, conditionEvaluated };
+  }
+
+  /**
+   * Append one matched step per pattern, or a single unmatched step
+   */
+  private static traceMatches(steps: DecisionStep[] | undefined, step: Omit<DecisionStep, 'matched'>, patterns: string[]): void {
+    if (!steps) return;
+    if (patterns.length === 0) {
+      steps.push({ ...step, matched: false });
+      return;
+    }
+    patterns.forEach(pattern => steps.push({ ...step, matched: true, pattern }));
+  }
+
+  /**
+   * Find how a role grants a permission unconditionally (own or inherited, with wildcard support)
+   */
+  private findRoleGrant(roleName: string, permission: string): { source: MatchedRule['source']; pattern: string } | undefined {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      const roleMask = this.bitPermissionManager.getRoleMask(roleName);
+      if (roleMask !== undefined && this.bitPermissionManager.hasPermission(roleMask, permission)) {
+        return { source: 'role-bit', pattern: permission };
+      }
+      if (!this.enableWildcards || roleMask === undefined) return undefined;
+
+      const pattern = this.getRoleMatcher(roleName, roleMask).match(permission);
+      return pattern === undefined ? undefined : { source: 'role-wildcard', pattern };
+    }
+
+    // Compiled matchers are reused until any role changes (grants include inherited ones)
+    const listGrants = () => this.roleManager?.getRolePermissions(roleName) ?? [];
+    const pattern = this.enableWildcards
+      ? this.getRoleMatcher(roleName, `v${this.roleManager?.getVersion() ?? 0}`, listGrants).match(permission)
+      : this.findMatchingGrant(listGrants(), permission);
+    if (pattern === undefined) return undefined;
+    return { source: pattern === permission ? 'role-permission' : 'role-wildcard', pattern };
+  }
+
+  /**
+   * Get the compiled matcher for a role's grants, recompiling when the grants changed
+   * @param key Identifies the current grants (role mask in the bit system, role manager version otherwise)
+   * @param listGrants Lists the grants to compile (defaults to the role's wildcard grants)
+   */
+  private getRoleMatcher(roleName: string, key: PermissionMask | string, listGrants?: () => string[]): PatternTrie {
+    const compiled = this.roleMatchers.get(roleName);
+    if (compiled && compiled.key === key) {
+      return compiled.trie;
+    }
+
+    const patterns = listGrants?.() ?? (this.bitPermissionManager?.getRolePermissions(roleName) ?? []).filter(grant => WildcardMatcher.isPattern(grant));
+    const trie = new PatternTrie(patterns, this.memoryOptimizer);
+    this.roleMatchers.set(roleName, { key, trie });
+    return trie;
+  }
+
+  /**
+   * Describe why a role cannot grant anything (for decision traces)
+   */
+  private describeMissingRole(roleName: string): string | undefined {
+    const exists = this.useBitSystem && this.bitPermissionManager
+      ? this.bitPermissionManager.getRoleMask(roleName) !== undefined
+      : this.roleManager?.hasRole(roleName) ?? false;
+    return exists ? undefined : `Role does not exist: ${roleName}`;
+  }
+
+  /**
+   * Check if a role is registered or waiting for lazy evaluation
+   */
+  private roleExists(roleName: string): boolean {
+    return this.pendingRoles.has(roleName) || this.describeMissingRole(roleName) === undefined;
+  }
+
+  /**
+   * Get permissions granted directly to a role (excluding inherited permissions)
+   */
+  private getDirectRolePermissions(roleName: string): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getDirectRolePermissions(roleName);
+    }
+    return this.roleManager?.getDirectRolePermissions(roleName) ?? [];
+  }
+
+  /**
+   * Get all ancestor roles of a role, nearest first
+   */
+  private getRoleAncestors(roleName: string): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getRoleAncestors(roleName);
+    }
+    return this.roleManager?.getRoleAncestors(roleName) ?? [];
+  }
+
+  /**
+   * Build the attribute context conditions are evaluated against
+   */
+  private buildConditionContext(user: RBACUser, permission: string, context?: RBACContext): ConditionContext {
+    return {
+      user: { ...user.attributes, id: user.id, roles: user.roles },
+      resource: { ...context?.resourceAttributes },
+      environment: { ...context?.environment },
+      permission,
+    };
+  }
+
+  /**
+   * Store a grant condition for a role
+   * @param requireKnownPredicates Reject conditions referencing predicates that aren't registered
+   */
+  private storeCondition(roleName: string, grant: string, condition: PermissionCondition, requireKnownPredicates: boolean = true): void {
+    ConditionEvaluator.validate(
+      condition,
+      `condition for '${roleName}' -> '${grant}'`,
+      requireKnownPredicates ? new Set(this.conditionEvaluator.getPredicateNames()) : undefined
+    );
+
+    let conditions = this.roleConditions.get(roleName);
+    if (!conditions) {
+      conditions = new Map();
+      this.roleConditions.set(roleName, conditions);
+    }
+    conditions.set(grant, condition);
+  }
+
+  /**
+   * Find the active deny entry (exact permission or wildcard pattern) that denies a permission for a user
+   */
+  private findDenyEntry(userId: string, permission: string): DenyEntry | undefined {
+    return this.matchDenyEntries(userId, permission)[0];
+  }
+
+  /**
+   * Find every active deny entry that denies a permission for a user (exact match first)
+   */
+  private matchDenyEntries(userId: string, permission: string): DenyEntry[] {
+    const deniedPermissions = this.getUserDenyEntries(userId);
+    if (deniedPermissions.length === 0) return [];
+
+    const now = this.clock();
+    const entries: DenyEntry[] = [];
+
+    // Check exact match
+    for (const [pattern, details] of deniedPermissions) {
+      if (pattern === permission && RBAC.isDenyActive(details, now)) {
+        entries.push({ userId, permission, ...details });
+      }
+    }
+
+    // Check wildcard match
+    if (this.enableWildcards) {
+      for (const [pattern, details] of deniedPermissions) {
+        if (pattern !== permission && RBAC.isDenyActive(details, now) && WildcardMatcher.matches(permission, pattern, this.memoryOptimizer)) {
+          entries.push({ userId, permission: pattern, ...details });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get the deny entries of a user: stored entries, plus provider denies during an async check
+   */
+  private getUserDenyEntries(userId: string): Array<[string, DenyDetails]> {
+    const entries = Array.from(this.denyList.get(userId) ?? []);
+    if (this.requestDenies?.userId === userId) {
+      entries.push(...this.requestDenies.entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Check if a deny entry has expired
+   */
+  private static isDenyExpired(details: { expiresAt?: number }, now: number): boolean {
+    return details.expiresAt !== undefined && details.expiresAt <= now;
+  }
+
+  /**
+   * Check if a deny entry is in effect (started and not expired)
+   */
+  private static isDenyActive(details: { notBefore?: number; expiresAt?: number }, now: number): boolean {
+    return (details.notBefore === undefined || details.notBefore <= now) && !RBAC.isDenyExpired(details, now);
+  }
+
+  /**
+   * Add a validated deny entry to the deny list
+   */
+  private storeDenyEntry(entry: DenyEntry): void {
+    let deniedPermissions = this.denyList.get(entry.userId);
+    if (!deniedPermissions) {
+      deniedPermissions = new Map();
+      this.denyList.set(entry.userId, deniedPermissions);
+    }
+    deniedPermissions.set(entry.permission, {
+      ...(entry.notBefore !== undefined && { notBefore: entry.notBefore }),
+      ...(entry.expiresAt !== undefined && { expiresAt: entry.expiresAt }),
+      ...(entry.reason !== undefined && { reason: entry.reason }),
+    });
+  }
+
+  /**
+   * Log audit event
+   */
+  private logAudit(event: AuditEvent): void {
+    if (this.auditLogger) {
+      try {
+        this.auditLogger.log(event);
+      } catch (error) {
+        // Don't throw - audit logging should not break main flow
+        console.error('Audit logging error:', error);
+      }
+    }
+  }
+
+  /**
+   * Check if user has any of the permissions
+   */
+  hasAnyPermission(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
+    return permissions.some(perm => this.hasPermission(user, perm, context));
+  }
+
+  /**
+   * Check if user has all permissions
+   */
+  hasAllPermissions(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
+    return permissions.every(perm => this.hasPermission(user, perm, context));
+  }
+
+  /**
+   * Authorize a user for a specific action on a resource
+   */
+  authorize(user: RBACUser, permission: string, context?: RBACContext): AuthorizationResult {
+    const { allowed, reason } = this.checkPermission(user, permission, context);
+
+    return {
+      allowed,
+      reason,
+      user
+    };
+  }
+
+  /**
+   * Authorize with context (resource and action)
+   */
+  authorizeWithContext(context: RBACContext, requiredPermission?: string): AuthorizationResult {
+    if (!context.user) {
+      return {
         allowed: false,
         reason: 'No user provided in context'
       };
     }
 
-    if (!requiredPermission && (!context.resource || !context.action)) {
-      return {
-        allowed: false,
-        reason: 'Either permission or resource+action must be provided'
-      };
+    if (!requiredPermission && (!context.resource || !context.action)) {
+      return {
+        allowed: false,
+        reason: 'Either permission or resource+action must be provided'
+      };
+    }
+
+    const permission = requiredPermission || `${context.resource}:${context.action}`;
+
+    return this.authorize(context.user, permission, context);
+  }
+
+  /**
+   * Create a new role
+   * @param permissions Granted permissions; entries prefixed with `!` are deny rules
+   * @param inherits Optional parent roles whose permissions this role inherits
+   */
+  createRole(roleName: string, permissions: string[] = [], inherits?: string[]): void {
+    this.trackChange('onRoleAdded', () => this.snapshotRole(roleName), () => {
+      const { grants: entries, denies } = splitDenyRules(permissions);
+      const grants = this.resolveGroups(roleName, entries).map(permission => this.resolvePermission(permission));
+      const rolePermissions = this.withImpliedGrants(roleName, grants);
+
+      if (this.useBitSystem) {
+        // Register any permissions that don't exist yet
+        for (const permission of grants) {
+          if (!this.bitPermissionManager?.getPermissionBit(permission)) {
+            this.bitPermissionManager?.registerPermission(permission);
+          }
+        }
+        this.bitPermissionManager?.registerRole(roleName, rolePermissions, inherits);
+      } else {
+        this.roleManager?.createRole(roleName, rolePermissions, inherits);
+      }
+
+      // A recreated role starts without grant conditions and with only the given deny rules
+      this.roleConditions.delete(roleName);
+      this.setRoleDenies(roleName, denies);
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    }, (before, after) => {
+      if (!after) return;
+      // Trigger plugin hooks (v3.0)
+      this.pluginManager.triggerRoleAdded(roleName, permissions, { type: 'created', role: roleName, before, after, timestamp: Date.now() }).catch(err => {
+        // Don't let plugin errors break role creation
+        console.error('Plugin error in createRole:', err);
+      });
+    }, true);
+  }
+
+  /**
+   * Add permission to role
+   */
+  addPermissionToRole(roleName: string, permission: string): void {
+    this.grantToRole(roleName, this.resolvePermission(permission), true);
+  }
+
+  /**
+   * Add a permission to a role
+   * @param declared Whether the role declares the grant itself (false for grants expanded from groups)
+   */
+  private grantToRole(roleName: string, permission: string, declared: boolean): void {
+    this.trackRoleChange('onPermissionGranted', 'granted', roleName, permission, () => {
+      if (PermissionGroups.isReference(permission)) {
+        // Grant every permission of the group and keep the role in sync with later group changes
+        const direct = new Set(this.getDirectRolePermissions(roleName));
+        const expanded = this.getGroupManager()?.expandGroups([permission]) ?? [];
+        if (!this.roleGroups.has(roleName)) {
+          this.roleGrants.set(roleName, this.getDeclaredGrants(roleName));
+        }
+        this.roleGroups.set(roleName, Array.from(new Set([...(this.roleGroups.get(roleName) ?? []), permission.slice(1)])));
+        expanded.filter(perm => !direct.has(perm)).forEach(perm => this.grantToRole(roleName, perm, false));
+        this.persist();
+        return;
+      }
+
+      const grants = this.roleGrants.get(roleName);
+      if (declared && grants && !grants.includes(permission)) {
+        this.roleGrants.set(roleName, [...grants, permission]);
+      }
+
+      if (this.implications.size > 0) {
+        this.registerImpliedGrants(roleName, [...this.getDeclaredGrants(roleName), permission]);
+      } else if (this.useBitSystem) {
+        // Register permission if it doesn't exist yet
+        if (!this.bitPermissionManager?.getPermissionBit(permission)) {
+          this.bitPermissionManager?.registerPermission(permission);
+        }
+
+        const currentPermissions = this.bitPermissionManager?.getDirectRolePermissions(roleName) ?? [];
+        const newPermissions = [...currentPermissions, permission];
+        this.bitPermissionManager?.registerRole(roleName, newPermissions);
+      } else {
+        this.roleManager?.addPermissionToRole(roleName, permission);
+      }
+
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    });
+  }
+
+  /**
+   * Define (or replace) a named permission group, referenced from role permissions as '@name'
+   * Roles already referencing the group are updated to its new members
+   * @throws Error if the group references an unknown group or would create a cycle
+   */
+  createGroup(groupName: string, permissions: string[]): void {
+    this.updateGroup(groupName, () => this.getGroupManager()?.registerGroup(groupName, permissions));
+  }
+
+  /**
+   * Add a permission (or '@group' reference) to a group and to every role referencing it
+   * @throws Error if the group does not exist
+   */
+  addPermissionToGroup(groupName: string, permission: string): void {
+    const members = this.requireGroup(groupName);
+    if (members.includes(permission)) return;
+    this.updateGroup(groupName, () => this.getGroupManager()?.registerGroup(groupName, [...members, permission]));
+  }
+
+  /**
+   * Remove a permission (or '@group' reference) from a group
+   * Roles referencing the group lose it unless another group they reference still includes it
+   * @throws Error if the group does not exist
+   */
+  removePermissionFromGroup(groupName: string, permission: string): void {
+    const members = this.requireGroup(groupName);
+    if (!members.includes(permission)) return;
+    this.updateGroup(groupName, () => this.getGroupManager()?.registerGroup(groupName, members.filter(member => member !== permission)));
+  }
+
+  /**
+   * Get the direct members of a permission group ('@name' references unexpanded)
+   */
+  getGroup(groupName: string): string[] | undefined {
+    return this.getGroupManager()?.getGroup(groupName);
+  }
+
+  /**
+   * Get all permission groups (group name -> direct members)
+   */
+  getGroups(): Record<string, string[]> {
+    return this.getGroupManager()?.getGroups() ?? {};
+  }
+
+  /**
+   * Get the permission groups a role references
+   */
+  getRoleGroups(roleName: string): string[] {
+    return [...(this.roleGroups.get(roleName) ?? [])];
+  }
+
+  private requireGroup(groupName: string): string[] {
+    const members = this.getGroup(groupName);
+    if (!members) {
+      throw new Error(`Unknown permission group: ${PermissionGroups.PREFIX}${groupName}`);
+    }
+    return members;
+  }
+
+  /**
+   * Register a new permission (bit-based system only)
+   */
+  registerPermission(permissionName: string, manualBit?: PermissionMask | string): PermissionMask {
+    if (!this.useBitSystem || !this.bitPermissionManager) {
+      throw new Error('registerPermission is only available in bit-based mode');
+    }
+    const bit = this.bitPermissionManager.registerPermission(permissionName, manualBit);
+    this.persist();
+    if (this.transactionDepth > 0) return bit;
+
+    // Trigger plugin hooks (v3.0)
+    this.pluginManager.triggerPermissionRegistered(permissionName, bit).catch(err => {
+      // Don't let plugin errors break permission registration
+      console.error('Plugin error in registerPermission:', err);
+    });
+
+    return bit;
+  }
+
+  /**
+   * Get bit permission manager
+   */
+  getBitPermissionManager(): BitPermissionManager | undefined {
+    return this.bitPermissionManager;
+  }
+
+  /**
+   * Get role manager for advanced operations
+   */
+  getRoleManager(): RoleManager | undefined {
+    return this.roleManager;
+  }
+
+  /**
+   * Get permission manager for custom permissions
+   */
+  getPermissionManager(): PermissionManager | undefined {
+    return this.customPermissions;
+  }
+
+  /**
+   * Get all registered permissions
+   */
+  getPermissions(): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getAllPermissions();
+    } else if (this.customPermissions) {
+      return this.customPermissions.getAll();
+    }
+    return [];
+  }
+
+  /**
+   * Get all registered roles
+   */
+  getAllRoles(): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getAllRoles();
+    } else if (this.roleManager) {
+      return Array.from(this.roleManager['roles'].keys()); // Access private roles map
+    }
+    return [];
+  }
+
+  /**
+   * Get all registered roles (IRBAC interface compatibility)
+   */
+  getRoles(): string[] {
+    return this.getAllRoles();
+  }
+
+  /**
+   * Get a permission with its bit (bit-based system) and configured resource, action, description and metadata
+   * Resource and action default to the parts of `resource:action` names
+   * @returns undefined if the permission is neither registered nor referenced by a role, group or deny rule
+   */
+  getPermissionInfo(permission: string): PermissionConfig | undefined {
+    const config = this.describePermissions(this.listRoleNames().map(roleName => this.describeRole(roleName))).get(permission);
+    return config && RBAC.withResourceAction(config);
+  }
+
+  /**
+   * List permissions grouped by resource (permissions without one are listed under '')
+   * Wildcard patterns are not listed
+   */
+  listPermissionsByResource(): Record<string, PermissionConfig[]> {
+    const result: Record<string, PermissionConfig[]> = {};
+    for (const info of this.listPermissionInfo()) {
+      (result[info.resource ?? ''] ??= []).push(info);
+    }
+    return result;
+  }
+
+  /**
+   * Find permissions whose name matches a wildcard pattern (e.g. `post:*`),
+   * or whose name, resource, action or description contains the query (case-insensitive)
+   */
+  searchPermissions(query: string): PermissionConfig[] {
+    if (WildcardMatcher.isPattern(query)) {
+      return this.listPermissionInfo().filter(info => WildcardMatcher.matches(info.name, query));
+    }
+
+    const text = query.toLowerCase();
+    return this.listPermissionInfo().filter(info =>
+      [info.name, info.resource, info.action, info.description].some(field => field?.toLowerCase().includes(text))
+    );
+  }
+
+  /**
+   * Get a role as a config: declared grants, inheritance, level, deny rules, conditions, description and metadata
+   * @returns undefined if the role does not exist
+   */
+  getRoleInfo(roleName: string): RoleConfig | undefined {
+    return this.roleExists(roleName) ? this.describeRole(roleName) : undefined;
+  }
+
+  /**
+   * Find the roles granting a permission, directly, through a wildcard grant or through inheritance
+   * Deny rules and conditions are not applied (see getRolesDenyingPermission() and explain())
+   */
+  getRolesGrantingPermission(permission: string): string[] {
+    return this.listRoleNames().filter(roleName =>
+      this.getRoleLineage(roleName).some(role =>
+        this.findMatchingGrant(this.pendingRoles.get(role)?.permissions ?? this.getDirectRolePermissions(role), permission) !== undefined
+      )
+    );
+  }
+
+  /**
+   * Find the roles denying a permission through their own or inherited deny rules (wildcards included)
+   */
+  getRolesDenyingPermission(permission: string): string[] {
+    return this.listRoleNames().filter(roleName =>
+      this.getRoleLineage(roleName).some(role => this.findMatchingGrant(this.roleDenies.get(role) ?? [], permission) !== undefined)
+    );
+  }
+
+  /**
+   * Get the permission a name refers to (the name itself unless it is an alias or former name)
+   */
+  resolvePermission(name: string): string {
+    return this.permissionAliases.get(name) ?? name;
+  }
+
+  /**
+   * Get why a permission name is deprecated (undefined if it isn't)
+   * Former names (renamedFrom) are deprecated, and so is every name of a deprecated permission
+   */
+  getPermissionDeprecation(name: string): PermissionDeprecation | undefined {
+    const permission = this.resolvePermission(name);
+    const info = this.permissionInfo.get(permission);
+    const renamed = info?.renamedFrom?.includes(name) ?? false;
+    if (!renamed && !info?.deprecated) return undefined;
+
+    const messages = [
+      ...(renamed ? [`Permission '${name}' was renamed to '${permission}'`] : []),
+      ...(info?.deprecated ? [`Permission '${permission}' is deprecated${typeof info.deprecated === 'string' ? `: ${info.deprecated}` : ''}`] : []),
+    ];
+    return { name, permission, message: messages.join('; ') };
+  }
+
+  /**
+   * Get every deprecated permission name: former names, and deprecated permissions with their aliases
+   */
+  getDeprecatedPermissions(): PermissionDeprecation[] {
+    return Array.from(this.permissionInfo).flatMap(([permission, info]) => [
+      ...(info.renamedFrom ?? []),
+      ...(info.deprecated ? [permission, ...(info.aliases ?? [])] : []),
+    ]).map(name => this.getPermissionDeprecation(name)!);
+  }
+
+  /**
+   * Permissions known to the instance, with resource and action, excluding wildcard patterns
+   */
+  private listPermissionInfo(): PermissionConfig[] {
+    return Array.from(this.describePermissions(this.listRoleNames().map(roleName => this.describeRole(roleName))).values())
+      .filter(config => !WildcardMatcher.isPattern(config.name))
+      .map(config => RBAC.withResourceAction(config));
+  }
+
+  /**
+   * A role and all its ancestors, including pending (lazy) roles
+   */
+  private getRoleLineage(roleName: string): string[] {
+    const lineage = new Set([roleName]);
+    for (const role of lineage) {
+      const pending = this.pendingRoles.get(role);
+      (pending ? pending.inherits ?? [] : this.getRoleParents(role)).forEach(parent => lineage.add(parent));
+    }
+    return Array.from(lineage);
+  }
+
+  /**
+   * Helper: Default the resource and action of a permission to the parts of its `resource:action` name
+   */
+  private static withResourceAction(config: PermissionConfig): PermissionConfig {
+    const separator = config.name.lastIndexOf(':');
+    if (separator <= 0 || WildcardMatcher.isPattern(config.name)) {
+      return config;
+    }
+    return {
+      ...config,
+      resource: config.resource ?? config.name.slice(0, separator),
+      action: config.action ?? config.name.slice(separator + 1),
+    };
+  }
+
+  /**
+   * Get permissions for a specific role (including inherited permissions)
+   */
+  getRolePermissions(roleName: string): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getRolePermissions(roleName);
+    } else if (this.roleManager) {
+      return this.roleManager.getRolePermissions(roleName);
+    }
+    return [];
+  }
+
+  /**
+   * Set parent roles a role inherits permissions from
+   * @throws Error if inheritance would create a cycle
+   */
+  setRoleInheritance(roleName: string, parentRoles: string[]): void {
+    this.trackRoleChange('onRoleUpdated', 'inheritance', roleName, undefined, () => {
+      if (this.useBitSystem) {
+        this.bitPermissionManager?.setRoleInheritance(roleName, parentRoles);
+      } else {
+        this.roleManager?.setRoleInheritance(roleName, parentRoles);
+      }
+
+      // Descendants depend on the role too, so their entries are evicted as well
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    });
+  }
+
+  /**
+   * Get direct parent roles of a role
+   */
+  getRoleParents(roleName: string): string[] {
+    if (this.useBitSystem && this.bitPermissionManager) {
+      return this.bitPermissionManager.getRoleParents(roleName);
+    } else if (this.roleManager) {
+      return this.roleManager.getRoleParents(roleName);
+    }
+    return [];
+  }
+
+  /**
+   * Register a named condition predicate (referenced by name from role conditions)
+   */
+  registerCondition(name: string, predicate: ConditionPredicate): void {
+    this.conditionEvaluator.register(name, predicate);
+  }
+
+  /**
+   * Attach a condition to a role grant
+   * @param permission Permission (or wildcard pattern) granted directly by the role
+   * @param condition Named predicate or JSON condition expression
+   */
+  setPermissionCondition(roleName: string, permission: string, condition: PermissionCondition): void {
+    permission = this.resolvePermission(permission);
+    this.trackRoleChange('onRoleUpdated', 'condition', roleName, permission, () => {
+      if (this.lazyRoles && this.pendingRoles.has(roleName)) {
+        this.evaluateLazyRole(roleName);
+      }
+
+      if (!this.getDirectRolePermissions(roleName).includes(permission)) {
+        throw new Error(`Role '${roleName}' does not grant permission: ${permission}`);
+      }
+      if (this.impliedGrants.get(roleName)?.has(permission)) {
+        throw new Error(`Role '${roleName}' only holds '${permission}' through an implication; attach the condition to the grant implying it`);
+      }
+
+      this.storeCondition(roleName, permission, condition);
+      this.refreshImpliedConditions(roleName);
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    });
+  }
+
+  /**
+   * Remove the condition from a role grant (the grant becomes unconditional)
+   */
+  removePermissionCondition(roleName: string, permission: string): boolean {
+    permission = this.resolvePermission(permission);
+    return this.trackRoleChange('onRoleUpdated', 'condition', roleName, permission, () => {
+      const conditions = this.roleConditions.get(roleName);
+      if (!conditions?.delete(permission)) return false;
+
+      if (conditions.size === 0) {
+        this.roleConditions.delete(roleName);
+      }
+      this.refreshImpliedConditions(roleName);
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+      return true;
+    });
+  }
+
+  /**
+   * Get conditions attached to a role's direct grants
+   */
+  getRoleConditions(roleName: string): Record<string, PermissionCondition> {
+    return Object.fromEntries(this.roleConditions.get(roleName) ?? []);
+  }
+
+  /**
+   * Deny a permission for a specific user
+   * Explicit denies take precedence over allows
+   * @param options Optional start and expiry (for scheduled or temporary suspensions) and reason
+   */
+  denyPermission(userId: string, permission: string, options: DenyPermissionOptions = {}): void {
+    permission = this.resolvePermission(permission);
+    this.trackUserChange('onPermissionDenied', 'denied', userId, { permission }, () => {
+      this.storeDenyEntry(RBAC.validateDenyEntry({
+        userId,
+        permission,
+        notBefore: RBAC.toTimestamp(options.notBefore),
+        expiresAt: RBAC.toTimestamp(options.expiresAt),
+        reason: options.reason,
+      }));
+      this.cache?.invalidatePattern(permission, userId);
+      this.persist();
+    });
+  }
+
+  /**
+   * Remove a denied permission for a user
+   */
+  allowPermission(userId: string, permission: string): void {
+    permission = this.resolvePermission(permission);
+    this.trackUserChange('onPermissionAllowed', 'allowed', userId, { permission }, () => {
+      const deniedPermissions = this.denyList.get(userId);
+      if (deniedPermissions) {
+        deniedPermissions.delete(permission);
+        if (deniedPermissions.size === 0) {
+          this.denyList.delete(userId);
+        }
+      }
+      this.cache?.invalidatePattern(permission, userId);
+      this.persist();
+    });
+  }
+
+  /**
+   * Get all denied permissions for a user (denies scheduled to start later are not included)
+   */
+  getDeniedPermissions(userId: string): string[] {
+    const now = this.clock();
+    return this.exportDenyList(userId)
+      .filter(entry => RBAC.isDenyActive(entry, now))
+      .map(entry => entry.permission);
+  }
+
+  /**
+   * Clear all denied permissions for a user
+   */
+  clearDeniedPermissions(userId: string): void {
+    this.trackUserChange('onPermissionAllowed', 'cleared', userId, {}, () => {
+      this.denyList.delete(userId);
+      this.cache?.invalidate(userId);
+      this.persist();
+    });
+  }
+
+  /**
+   * Bind a role to a user within a scope (e.g. editor of project 42)
+   * The role applies to checks whose context.scope matches; the scope ID may be a wildcard pattern
+   */
+  bindRole(userId: string, role: string, scope: RoleScope): void {
+    this.trackUserChange('onUserUpdated', 'bound', userId, { role }, () => {
+      const binding = RBAC.validateRoleBinding({ role, scope });
+      const bindings = this.roleBindings.get(userId) ?? [];
+      if (!bindings.some(existing => RBAC.sameBinding(existing, binding))) {
+        this.roleBindings.set(userId, [...bindings, binding]);
+      }
+      this.cache?.invalidate(userId);
+      this.persist();
+    });
+  }
+
+  /**
+   * Remove a scoped role binding (every scope of the role when scope is omitted)
+   * @returns false if no binding was removed
+   */
+  unbindRole(userId: string, role: string, scope?: RoleScope): boolean {
+    return this.trackUserChange('onUserUpdated', 'unbound', userId, { role }, () => {
+      const bindings = this.roleBindings.get(userId) ?? [];
+      const kept = bindings.filter(binding =>
+        binding.role !== role || (scope !== undefined && !RBAC.sameBinding(binding, { role, scope }))
+      );
+      if (kept.length === bindings.length) return false;
+
+      if (kept.length > 0) {
+        this.roleBindings.set(userId, kept);
+      } else {
+        this.roleBindings.delete(userId);
+      }
+      this.cache?.invalidate(userId);
+      this.persist();
+      return true;
+    });
+  }
+
+  /**
+   * Get the scoped role bindings stored for a user (bindings on the user object are not included)
+   */
+  getRoleBindings(userId: string): RoleBinding[] {
+    return (this.roleBindings.get(userId) ?? []).map(binding => ({ role: binding.role, scope: { ...binding.scope } }));
+  }
+
+  /**
+   * Get the roles a user holds for a check: their global roles, active time-bound roles (user.timedRoles)
+   * and the roles bound to the context scope (user.roleBindings and bindRole())
+   */
+  getEffectiveRoles(user: RBACUser, context?: RBACContext): string[] {
+    const scope = context?.scope;
+    if (!scope && !user.timedRoles?.length) return user.roles;
+
+    const roles = new Set(user.roles);
+    const now = this.clock();
+    for (const grant of user.timedRoles ?? []) {
+      if (RBAC.isWithinWindow(grant, now)) {
+        roles.add(grant.role);
+      }
+    }
+    if (scope) {
+      for (const binding of [...(user.roleBindings ?? []), ...(this.roleBindings.get(user.id) ?? [])]) {
+        if (RBAC.scopeMatches(binding.scope, scope)) {
+          roles.add(binding.role);
+        }
+      }
     }
+    return roles.size === user.roles.length ? user.roles : Array.from(roles);
+  }
 
-    const permission = requiredPermission || `${context.resource}:${context.action}`;
+  /**
+   * Check if a binding scope covers a requested scope
+   */
+  private static scopeMatches(bound: RoleScope, scope: RoleScope): boolean {
+    return (bound.type === '*' || bound.type === scope.type)
+      && (bound.id === scope.id || (WildcardMatcher.isPattern(bound.id) && WildcardMatcher.matches(scope.id, bound.id)));
+  }
 
-    return this.authorize(context.user, permission);
+  private static sameBinding(a: RoleBinding, b: RoleBinding): boolean {
+    return a.role === b.role && a.scope.type === b.scope.type && a.scope.id === b.scope.id;
   }
 
   /**
-   * Create a new role
+   * Export deny entries that have not expired, including scheduled ones (all users, or a single user)
    */
-  createRole(roleName: string, permissions: string[] = []): void {
-    if (this.useBitSystem) {
-      // Register any permissions that don't exist yet
-      for (const permission of permissions) {
-        if (!this.bitPermissionManager?.getPermissionBit(permission)) {
-          this.bitPermissionManager?.registerPermission(permission);
+  exportDenyList(userId?: string): DenyEntry[] {
+    const now = this.clock();
+    const users = userId !== undefined ? [userId] : Array.from(this.denyList.keys());
+    const entries: DenyEntry[] = [];
+
+    for (const id of users) {
+      for (const [permission, details] of this.denyList.get(id) ?? []) {
+        if (!RBAC.isDenyExpired(details, now)) {
+          entries.push({ userId: id, permission, ...details });
         }
       }
-      this.bitPermissionManager?.registerRole(roleName, permissions);
-    } else {
-      this.roleManager?.createRole(roleName, permissions);
     }
+    return entries;
+  }
 
-    // Trigger plugin hooks (v3.0)
-    this.pluginManager.triggerRoleAdded(roleName, permissions).catch(err => {
-      // Don't let plugin errors break role creation
-      console.error('Plugin error in createRole:', err);
+  /**
+   * Import deny entries in bulk
+   * Entries are validated before anything is changed; already expired entries are skipped
+   * @returns Number of entries imported
+   */
+  importDenyList(entries: DenyEntry[], options: DenyImportOptions = {}): number {
+    return this.trackChange('onUserUpdated', () => this.snapshotUsers(), () => {
+      if (!Array.isArray(entries)) {
+        throw new Error('Deny list must be an array of deny entries');
+      }
+
+      const validated = entries
+        .map((entry, index) => RBAC.validateDenyEntry(entry, `deny list entry ${index}`))
+        .map(entry => ({ ...entry, permission: this.resolvePermission(entry.permission) }));
+      const now = this.clock();
+
+      // Users whose denies change lose their cached results
+      const affectedUsers = new Set(validated.map(entry => entry.userId));
+      if (options.replace) {
+        this.denyList.forEach((_, userId) => affectedUsers.add(userId));
+        this.denyList.clear();
+      }
+
+      let imported = 0;
+      for (const entry of validated) {
+        if (RBAC.isDenyExpired(entry, now)) continue;
+        this.storeDenyEntry(entry);
+        imported++;
+      }
+
+      affectedUsers.forEach(userId => this.cache?.invalidate(userId));
+      this.persist();
+      return imported;
+    }, (before, after) => {
+      for (const userId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        const previous = before[userId] ?? RBAC.emptyUserSnapshot(userId);
+        const current = after[userId] ?? RBAC.emptyUserSnapshot(userId);
+        if (JSON.stringify(previous) !== JSON.stringify(current)) {
+          this.triggerPlugins('onUserUpdated', { type: 'imported', userId, before: previous, after: current, timestamp: Date.now() });
+        }
+      }
     });
   }
 
   /**
-   * Add permission to role
+   * Remove expired deny entries
+   * @returns Number of entries removed
    */
-  addPermissionToRole(roleName: string, permission: string): void {
-    if (this.useBitSystem) {
-      // Register permission if it doesn't exist yet
-      if (!this.bitPermissionManager?.getPermissionBit(permission)) {
-        this.bitPermissionManager?.registerPermission(permission);
+  pruneExpiredDenies(): number {
+    // Snapshots keep expired entries, so `before` lists the ones pruned
+    return this.trackChange('onUserUpdated', () => this.snapshotUsers(true), () => {
+      const now = this.clock();
+      let removed = 0;
+
+      for (const [userId, deniedPermissions] of this.denyList) {
+        for (const [permission, details] of deniedPermissions) {
+          if (RBAC.isDenyExpired(details, now)) {
+            deniedPermissions.delete(permission);
+            removed++;
+          }
+        }
+        if (deniedPermissions.size === 0) {
+          this.denyList.delete(userId);
+        }
+      }
+      if (removed > 0) {
+        this.persist();
+      }
+      return removed;
+    }, (before, after) => {
+      for (const userId of Object.keys(before)) {
+        const current = after[userId] ?? RBAC.emptyUserSnapshot(userId);
+        if (JSON.stringify(before[userId]) !== JSON.stringify(current)) {
+          this.triggerPlugins('onUserUpdated', { type: 'expired', userId, before: before[userId], after: current, timestamp: Date.now() });
+        }
       }
+    });
+  }
 
-      const currentPermissions = this.bitPermissionManager?.getRolePermissions(roleName) ?? [];
-      const newPermissions = [...currentPermissions, permission];
-      this.bitPermissionManager?.registerRole(roleName, newPermissions);
-    } else {
-      this.roleManager?.addPermissionToRole(roleName, permission);
+  /**
+   * List time-bound grants ending within a period, soonest first
+   * Covers timed permissions and roles of the given users and the stored deny entries with an expiry
+   * @param within Period in milliseconds from now
+   * @param users Users whose timed grants to include (time-bound grants live on user objects)
+   */
+  getExpiringGrants(within: number, users: RBACUser[] = []): ExpiringGrant[] {
+    const now = this.clock();
+    const endsSoon = (notAfter: number | undefined): notAfter is number =>
+      notAfter !== undefined && notAfter > now && notAfter <= now + within;
+    const grants: ExpiringGrant[] = [];
+
+    for (const user of users) {
+      for (const grant of user.timedPermissions ?? []) {
+        const notAfter = RBAC.toTimestamp(grant.notAfter);
+        if (endsSoon(notAfter)) grants.push({ userId: user.id, type: 'permission', name: grant.permission, notAfter });
+      }
+      for (const grant of user.timedRoles ?? []) {
+        const notAfter = RBAC.toTimestamp(grant.notAfter);
+        if (endsSoon(notAfter)) grants.push({ userId: user.id, type: 'role', name: grant.role, notAfter });
+      }
+    }
+    for (const [userId, deniedPermissions] of this.denyList) {
+      for (const [permission, details] of deniedPermissions) {
+        if (endsSoon(details.expiresAt)) grants.push({ userId, type: 'deny', name: permission, notAfter: details.expiresAt });
+      }
     }
+
+    return grants.sort((a, b) => a.notAfter - b.notAfter);
   }
 
   /**
-   * Register a new permission (bit-based system only)
+   * Set the deny rules of a role (replaces its own rules; inherited rules still apply)
    */
-  registerPermission(permissionName: string, manualBit?: number): number {
-    if (!this.useBitSystem || !this.bitPermissionManager) {
-      throw new Error('registerPermission is only available in bit-based mode');
+  setRoleDenies(roleName: string, permissions: string[]): void {
+    this.trackRoleChange('onRoleUpdated', 'deny', roleName, undefined, () => {
+      if (permissions.length === 0) {
+        this.roleDenies.delete(roleName);
+      } else {
+        const denies = Array.from(new Set(permissions.map(permission => this.resolvePermission(permission))));
+        this.registerDeniedPermissions(denies);
+        this.roleDenies.set(roleName, denies);
+      }
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    });
+  }
+
+  /**
+   * Give permissions only named by role or global deny rules a bit, so exported configs keep it
+   */
+  private registerDeniedPermissions(permissions: Iterable<string>): void {
+    if (!this.useBitSystem || !this.bitPermissionManager) return;
+    for (const permission of permissions) {
+      if (!WildcardMatcher.isPattern(permission) && this.bitPermissionManager.getPermissionBit(permission) === undefined) {
+        this.bitPermissionManager.registerPermission(permission);
+      }
     }
-    const bit = this.bitPermissionManager.registerPermission(permissionName, manualBit);
+  }
 
-    // Trigger plugin hooks (v3.0)
-    this.pluginManager.triggerPermissionRegistered(permissionName, bit).catch(err => {
-      // Don't let plugin errors break permission registration
-      console.error('Plugin error in registerPermission:', err);
+  /**
+   * Get deny rules that apply to a role (own and inherited)
+   */
+  getRoleDenies(roleName: string): string[] {
+    const denies = new Set<string>();
+    for (const denyingRole of [roleName, ...this.getRoleAncestors(roleName)]) {
+      this.roleDenies.get(denyingRole)?.forEach(rule => denies.add(rule));
+    }
+    return Array.from(denies);
+  }
+
+  /**
+   * Deny a permission (or wildcard pattern) to every user, regardless of roles
+   */
+  addGlobalDeny(permission: string): void {
+    permission = this.resolvePermission(permission);
+    this.trackGlobalDenyChange('added', permission, () => {
+      this.registerDeniedPermissions([permission]);
+      this.globalDenies.add(permission);
+      this.cache?.invalidatePattern(permission);
+      this.persist();
     });
+  }
 
-    return bit;
+  /**
+   * Remove a global deny rule
+   */
+  removeGlobalDeny(permission: string): void {
+    permission = this.resolvePermission(permission);
+    this.trackGlobalDenyChange('removed', permission, () => {
+      this.globalDenies.delete(permission);
+      this.cache?.invalidatePattern(permission);
+      this.persist();
+    });
   }
 
   /**
-   * Get bit permission manager
+   * Get all global deny rules
    */
-  getBitPermissionManager(): BitPermissionManager | undefined {
-    return this.bitPermissionManager;
+  getGlobalDenies(): string[] {
+    return Array.from(this.globalDenies);
   }
 
   /**
-   * Get role manager for advanced operations
+   * Get the conflict resolution strategy ('custom' for custom functions)
    */
-  getRoleManager(): RoleManager | undefined {
-    return this.roleManager;
+  getConflictStrategy(): ConflictStrategyName | 'custom' {
+    return this.conflictResolver.name;
   }
 
   /**
-   * Get permission manager for custom permissions
+   * Check if role A can perform actions of role B (role hierarchy)
+   * Uses role inheritance first, then the dynamic hierarchy system based on levels
    */
-  getPermissionManager(): PermissionManager | undefined {
-    return this.customPermissions;
+  canActAsRole(currentRole: string, targetRole: string): boolean {
+    // A role can always act as any role it inherits from
+    const inherits = this.useBitSystem
+      ? this.bitPermissionManager?.inheritsFrom(currentRole, targetRole)
+      : this.roleManager?.inheritsFrom(currentRole, targetRole);
+    if (inherits) {
+      return true;
+    }
+
+    // Then check hierarchy levels
+    if (this.roleHierarchy.hasRole(currentRole) && this.roleHierarchy.hasRole(targetRole)) {
+      return this.roleHierarchy.canActAs(currentRole, targetRole);
+    }
+
+    // Fallback to permission comparison
+    if (this.useBitSystem) {
+      const currentMask = this.bitPermissionManager?.getRoleMask(currentRole);
+      const targetMask = this.bitPermissionManager?.getRoleMask(targetRole);
+
+      if (!currentMask || !targetMask) return false;
+
+      // A role can act as another if it has all the permissions of the target role
+      return this.bitPermissionManager?.includesPermissions(currentMask, targetMask) ?? false;
+    }
+
+    // Legacy system fallback
+    const currentPerms = this.roleManager?.getRolePermissions(currentRole) ?? [];
+    const targetPerms = this.roleManager?.getRolePermissions(targetRole) ?? [];
+    return targetPerms.every(perm => currentPerms.includes(perm));
   }
 
   /**
-   * Get all registered permissions
+   * Get role hierarchy manager
    */
-  getPermissions(): string[] {
-    if (this.useBitSystem && this.bitPermissionManager) {
-      return this.bitPermissionManager.getAllPermissions();
-    } else if (this.customPermissions) {
-      return this.customPermissions.getAll();
+  getRoleHierarchy(): RoleHierarchy {
+    return this.roleHierarchy;
+  }
+
+  /**
+   * Apply several mutations as one change
+   * The resulting roles are validated, and any error (thrown by the callback or by validation)
+   * restores the state from before the transaction. On commit the cache is cleared and the state
+   * persisted once, and plugins receive a single onTransaction event instead of the per-change hooks.
+   * Nested transactions join the outermost one.
+   * @param fn Synchronous callback making the changes on the instance it receives
+   * @returns The value returned by the callback
+   * @throws Error if the callback throws or returns a promise, or the result is invalid
+   */
+  transaction<T>(fn: (tx: RBAC) => T): T {
+    if (this.transactionDepth > 0) {
+      return fn(this);
     }
-    return [];
+
+    const state = this.serialize();
+    const pendingRoles = new Map(this.pendingRoles);
+    const evaluatedRoles = new Set(this.evaluatedRoles);
+    const roles = this.snapshotRoles();
+    const users = this.snapshotUsers();
+    const globalDeny = this.getGlobalDenies();
+
+    // Results checked during the transaction may not hold if it rolls back, so bypass the cache
+    const cache = this.cache;
+    this.cache = undefined;
+    this.transactionDepth++;
+    this.changeDepth++;
+    this.transactionDirty = false;
+
+    let result: T;
+    try {
+      result = fn(this);
+      if (result instanceof Promise) {
+        // Let the rejection of the discarded promise surface as the transaction error instead
+        result.catch(() => {});
+        throw new Error('Transaction callbacks must be synchronous');
+      }
+      this.validateRoles(roles);
+    } catch (error) {
+      this.deserialize(state);
+      this.pendingRoles = pendingRoles;
+      this.evaluatedRoles = evaluatedRoles;
+      throw error;
+    } finally {
+      this.changeDepth--;
+      this.transactionDepth--;
+      this.cache = cache;
+    }
+
+    if (!this.transactionDirty) {
+      return result;
+    }
+    this.transactionDirty = false;
+    this.cache?.clear();
+    this.persist();
+
+    if (this.pluginManager.hasHook('onTransaction')) {
+      const after = this.snapshotRoles();
+      const changedRoles = Array.from(new Set([...Object.keys(roles), ...Object.keys(after)]), role => ({ role, before: roles[role], after: after[role] }))
+        .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+      const afterUsers = this.snapshotUsers();
+      const changedUsers = Array.from(new Set([...Object.keys(users), ...Object.keys(afterUsers)]), userId => ({
+        userId,
+        before: users[userId] ?? RBAC.emptyUserSnapshot(userId),
+        after: afterUsers[userId] ?? RBAC.emptyUserSnapshot(userId),
+      })).filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+      this.triggerPlugins('onTransaction', {
+        roles: changedRoles,
+        users: changedUsers,
+        globalDeny: { before: globalDeny, after: this.getGlobalDenies() },
+        before: state,
+        after: this.serialize(),
+        timestamp: Date.now(),
+      });
+    }
+    return result;
   }
 
   /**
-   * Get all registered roles
+   * Export the current policy as a config, including permission bits and descriptions,
+   * role inheritance, levels, deny rules, conditions and metadata, groups and implications
+   * `RBAC.fromJSONConfig(JSON.stringify(rbac.exportConfig()))` rebuilds an identical policy.
+   * User deny entries and role bindings are not part of a config; serialize() includes them.
    */
-  getAllRoles(): string[] {
+  exportConfig(): RBACConfigSchema {
+    const roles = this.listRoleNames().map(roleName => this.describeRole(roleName));
+    const groups = this.getGroups();
+    const conflictStrategy = this.getConflictStrategy();
+    return {
+      permissions: Array.from(this.describePermissions(roles).values()),
+      roles,
+      ...(this.globalDenies.size > 0 && { deny: this.getGlobalDenies() }),
+      ...(Object.keys(groups).length > 0 && { groups }),
+      ...(this.implications.size > 0 && { implications: this.implications.toJSON() }),
+      ...(conflictStrategy !== 'custom' && { options: { conflictStrategy } }),
+    };
+  }
+
+  /**
+   * Names of every registered or pending role
+   */
+  private listRoleNames(): string[] {
+    return Array.from(new Set([...this.getAllRoles(), ...this.pendingRoles.keys()]));
+  }
+
+  /**
+   * Config of a role as it is now (declared grants with group references, without implied grants)
+   */
+  private describeRole(roleName: string): RoleConfig {
+    const manager = this.getGroupManager();
+    const pending = this.pendingRoles.get(roleName);
+    const implied = this.impliedGrants.get(roleName);
+    const direct = pending ? pending.permissions : this.getDirectRolePermissions(roleName);
+    const declared = implied ? direct.filter(permission => !implied.has(permission)) : direct;
+
+    // Grants coming from groups are exported as the group references, where the group's first grant was;
+    // grants the role declares itself are kept as written
+    const references = (this.roleGroups.get(roleName) ?? []).map(group => PermissionGroups.PREFIX + group);
+    const own = this.roleGrants.get(roleName) ?? [];
+    const entries = new Set<string>();
+    for (const permission of declared) {
+      const reference = own.includes(permission)
+        ? undefined
+        : references.find(group => manager?.expandGroups([group]).includes(permission));
+      entries.add(reference ?? permission);
+    }
+    references.forEach(reference => entries.add(reference));
+
+    const inherits = pending ? pending.inherits ?? [] : this.getRoleParents(roleName);
+    const level = pending ? pending.level : this.roleHierarchy.hasRole(roleName) ? this.roleHierarchy.getRoleLevel(roleName) : undefined;
+    const deny = this.roleDenies.get(roleName) ?? [];
+    // Conditions of implied grants are derived from the grants implying them
+    const conditions = Object.fromEntries(
+      Object.entries(this.getRoleConditions(roleName)).filter(([permission]) => !implied?.has(permission))
+    );
+
+    return {
+      name: roleName,
+      permissions: Array.from(entries),
+      ...(inherits.length > 0 && { inherits: [...inherits] }),
+      ...(deny.length > 0 && { deny: [...deny] }),
+      ...(Object.keys(conditions).length > 0 && { conditions }),
+      ...(level !== undefined && { level }),
+      ...this.roleInfo.get(roleName),
+    };
+  }
+
+  /**
+   * Configs of every known permission: registered ones with their bits (bit-based system),
+   * configured ones, and those that roles, groups or deny rules only reference, so an exported config validates
+   */
+  private describePermissions(roles: RoleConfig[]): Map<string, PermissionConfig> {
+    const manager = this.getGroupManager();
+    const permissions = new Map<string, PermissionConfig>();
+    const addPermission = (name: string, bit?: PermissionMask) => {
+      if (permissions.has(name)) return;
+      permissions.set(name, {
+        name,
+        ...(bit !== undefined && { bit: serializeMask(bit) }),
+        ...this.permissionInfo.get(name),
+      });
+    };
+
     if (this.useBitSystem && this.bitPermissionManager) {
-      return this.bitPermissionManager.getAllRoles();
-    } else if (this.roleManager) {
-      return Array.from(this.roleManager['roles'].keys()); // Access private roles map
+      for (const name of this.bitPermissionManager.getAllPermissions()) {
+        addPermission(name, this.bitPermissionManager.getPermissionBit(name));
+      }
+    }
+    this.permissionInfo.forEach((_, name) => addPermission(name));
+
+    const referenced = [
+      ...roles.flatMap(role => [...(manager?.expandGroups(role.permissions) ?? role.permissions), ...(role.deny ?? [])]),
+      ...Object.values(this.getGroups()).flat(),
+      ...this.globalDenies,
+    ];
+    for (const name of referenced) {
+      if (!WildcardMatcher.isPattern(name) && !PermissionGroups.isReference(name)) {
+        addPermission(name);
+      }
+    }
+    return permissions;
+  }
+
+  /**
+   * Serialize complete RBAC state for persistence
+   * User can save this to DB, file, localStorage, etc.
+   */
+  serialize(): RBACSystemState {
+    return {
+      bitPermissions: this.bitPermissionManager?.serialize() || {
+        permissions: {},
+        roles: {},
+        nextBitValue: 1,
+        timestamp: Date.now(),
+        version: BitPermissionManager.STATE_VERSION,
+      },
+      hierarchy: this.roleHierarchy.serialize(),
+      config: this.exportConfig(),
+      conditions: Object.fromEntries(
+        Array.from(this.roleConditions.keys(), roleName => [roleName, this.getRoleConditions(roleName)])
+      ),
+      denyList: this.exportDenyList(),
+      roleBindings: Object.fromEntries(
+        Array.from(this.roleBindings.keys(), userId => [userId, this.getRoleBindings(userId)])
+      ),
+      roleDenies: Object.fromEntries(this.roleDenies),
+      globalDeny: this.getGlobalDenies(),
+      implications: this.implications.toJSON(),
+      impliedGrants: Object.fromEntries(
+        Array.from(this.impliedGrants, ([roleName, implied]) => [roleName, Array.from(implied.keys())])
+      ),
+      roleGroups: Object.fromEntries(this.roleGroups),
+      roleGrants: Object.fromEntries(this.roleGrants),
+      ...(this.roleManager && { roleManager: this.roleManager.serialize() }),
+      ...(this.history && { history: this.history.toJSON() }),
+      version: STATE_VERSION,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Deserialize and restore RBAC state from persistence
+   * User loads state from their storage and passes it here
+   * @throws Error if the state has an unknown schema version or its bit permission state can't be migrated
+   * to the current version (nothing is loaded)
+   */
+  deserialize(state: RBACSystemState): void {
+    // Check and migrate before touching anything so a failing migration leaves the current policy in place
+    RBAC.checkStateVersion(state);
+    const bitPermissions = this.useBitSystem && this.bitPermissionManager && state.bitPermissions
+      ? this.bitPermissionManager.migrateState(state.bitPermissions)
+      : undefined;
+
+    this.trackChange('onStateLoaded', () => this.serialize(), () => {
+      // The whole policy may change: drop every cached result and compiled matcher
+      this.cache?.clear();
+      this.roleMatchers.clear();
+
+      // Load permission and role descriptions (the rest of the config is restored from the state below)
+      for (const permission of state.config?.permissions ?? []) {
+        this.storePermissionInfo(permission);
+      }
+      for (const role of state.config?.roles ?? []) {
+        this.storeRoleInfo(role);
+      }
+
+      // Load bit permission state
+      if (this.bitPermissionManager && bitPermissions) {
+        this.bitPermissionManager.deserialize(bitPermissions);
+      }
+
+      // Load string-based roles (absent in states saved before they were serialized)
+      if (this.roleManager && state.roleManager) {
+        this.roleManager.deserialize(state.roleManager);
+      }
+
+      // Load hierarchy state
+      if (state.hierarchy) {
+        this.roleHierarchy.deserialize(state.hierarchy);
+      }
+
+      // Load grant conditions (states saved before conditions existed have none)
+      if (state.conditions) {
+        this.roleConditions.clear();
+        for (const [roleName, conditions] of Object.entries(state.conditions)) {
+          for (const [grant, condition] of Object.entries(conditions)) {
+            // Predicates may be registered after a state is restored; unknown ones deny until then
+            this.storeCondition(roleName, grant, condition, false);
+          }
+        }
+      }
+
+      // Load deny list (states saved before schema 2.0.0 have none)
+      if (state.denyList) {
+        this.importDenyList(state.denyList, { replace: true });
+      }
+
+      // Load scoped role bindings
+      if (state.roleBindings) {
+        this.roleBindings.clear();
+        for (const [userId, bindings] of Object.entries(state.roleBindings)) {
+          this.roleBindings.set(userId, bindings.map((binding, index) => RBAC.validateRoleBinding(binding, `role binding ${index} of user '${userId}'`)));
+        }
+      }
+
+      // Load role and global deny rules
+      if (state.roleDenies) {
+        this.roleDenies.clear();
+        for (const [roleName, permissions] of Object.entries(state.roleDenies)) {
+          this.setRoleDenies(roleName, permissions);
+        }
+      }
+      if (state.globalDeny) {
+        this.globalDenies = new Set(state.globalDeny);
+      }
+
+      // Load group references; group permissions are already part of the role permissions
+      if (state.roleGroups) {
+        this.roleGroups = new Map(Object.entries(state.roleGroups));
+        this.roleGrants = new Map(Object.entries(state.roleGrants ?? {}));
+      }
+
+      // Load implications; implied grants are already part of the role permissions
+      if (state.implications) {
+        this.implications = new ImplicationResolver(state.implications);
+      }
+      if (state.impliedGrants) {
+        this.impliedGrants.clear();
+        for (const [roleName, implied] of Object.entries(state.impliedGrants)) {
+          const declared = this.getDirectRolePermissions(roleName).filter(permission => !implied.includes(permission));
+          const sources = this.implications.expand(declared);
+          this.impliedGrants.set(roleName, new Map(implied.map(permission => [permission, sources.get(permission) ?? []])));
+        }
+      }
+
+      // Load policy history; states without one (e.g. versions restored by rollback()) keep the current history
+      if (this.history && state.history) {
+        this.history.load(state.history);
+      }
+    }, (before, after) => this.triggerPlugins('onStateLoaded', { before, after, timestamp: Date.now() }), true);
+  }
+
+  /**
+   * Report the migration steps deserialize() would apply to the bit permission state of a saved state, and what they change
+   * Nothing is loaded; string-based systems don't load bit permission states and have nothing to migrate
+   * @throws Error if the state can't be migrated to the current version
+   */
+  dryRunMigration(state: RBACSystemState): BitStateMigrationReport {
+    if (!this.useBitSystem || !this.bitPermissionManager) {
+      throw new Error('dryRunMigration is only available in bit-based mode');
+    }
+    RBAC.checkStateVersion(state);
+    return this.bitPermissionManager.dryRunMigration(state.bitPermissions);
+  }
+
+  /**
+   * Helper: Reject states of other schema versions (states without a version predate 2.0.0 and load as they are)
+   */
+  private static checkStateVersion(state: RBACSystemState): void {
+    if (state.version !== undefined && state.version !== STATE_VERSION) {
+      throw new Error(`Unsupported RBAC state version: ${state.version} (expected ${STATE_VERSION})`);
     }
-    return [];
   }
 
   /**
-   * Get all registered roles (IRBAC interface compatibility)
+   * Export state as JSON string
    */
-  getRoles(): string[] {
-    return this.getAllRoles();
+  toJSON(): string {
+    return JSON.stringify(this.serialize(), null, 2);
   }
 
   /**
-   * Get permissions for a specific role
+   * Import state from JSON string
    */
-  getRolePermissions(roleName: string): string[] {
-    if (this.useBitSystem && this.bitPermissionManager) {
-      return this.bitPermissionManager.getRolePermissions(roleName);
-    } else if (this.roleManager) {
-      return this.roleManager.getRolePermissions(roleName);
-    }
-    return [];
+  fromJSON(json: string): void {
+    const state = JSON.parse(json) as RBACSystemState;
+    this.deserialize(state);
   }
 
   /**
-   * Deny a permission for a specific user
-   * Explicit denies take precedence over allows
+   * Save the current policy as a new version of the history
+   * @returns The saved version
+   * @throws Error if history is not enabled
    */
-  denyPermission(userId: string, permission: string): void {
-    if (!this.denyList.has(userId)) {
-      this.denyList.set(userId, new Set());
-    }
-    this.denyList.get(userId)!.add(permission);
+  saveVersion(info: PolicyVersionInfo = {}): PolicyVersion {
+    const version = this.requireHistory().record(this.serialize(), info, Date.now());
+    this.persist();
+    return version;
   }
 
   /**
-   * Remove a denied permission for a user
+   * Get the saved versions of the policy, oldest first
+   * @throws Error if history is not enabled
    */
-  allowPermission(userId: string, permission: string): void {
-    const deniedPermissions = this.denyList.get(userId);
-    if (deniedPermissions) {
-      deniedPermissions.delete(permission);
-      if (deniedPermissions.size === 0) {
-        this.denyList.delete(userId);
-      }
-    }
+  getHistory(): PolicyVersion[] {
+    return this.requireHistory().list();
   }
 
   /**
-   * Get all denied permissions for a user
+   * Get a saved version of the policy (undefined if unknown or no longer kept)
+   * @throws Error if history is not enabled
    */
-  getDeniedPermissions(userId: string): string[] {
-    const deniedPermissions = this.denyList.get(userId);
-    return deniedPermissions ? Array.from(deniedPermissions) : [];
+  getVersion(version: number): PolicyVersion | undefined {
+    return this.requireHistory().get(version);
   }
 
   /**
-   * Clear all denied permissions for a user
+   * List the roles, direct grants, deny rules and hierarchy levels that changed between two versions
+   * @param from Version compared from ('current' for the live policy)
+   * @param to Version compared to (default: the live policy)
+   * @throws Error if history is not enabled or a version is unknown
    */
-  clearDeniedPermissions(userId: string): void {
-    this.denyList.delete(userId);
+  diff(from: number | 'current', to: number | 'current' = 'current'): PolicyDiff {
+    const resolve = (version: number | 'current') => version === 'current' ? this.serialize() : this.requireVersion(version).state;
+    return { from, to, ...PolicyHistory.diff(resolve(from), resolve(to)) };
   }
 
   /**
-   * Check if role A can perform actions of role B (role hierarchy)
-   * Uses dynamic hierarchy system based on levels
+   * Restore a saved version of the policy, and save the result as a new version
+   * @param info Author and message of the new version (default message: 'Rollback to version N')
+   * @returns The new version
+   * @throws Error if history is not enabled or the version is unknown
    */
-  canActAsRole(currentRole: string, targetRole: string): boolean {
-    // First check hierarchy levels
-    if (this.roleHierarchy.hasRole(currentRole) && this.roleHierarchy.hasRole(targetRole)) {
-      return this.roleHierarchy.canActAs(currentRole, targetRole);
+  rollback(version: number, info: PolicyVersionInfo = {}): PolicyVersion {
+    const { state } = this.requireVersion(version);
+    this.deserialize(state);
+    return this.saveVersion({ ...info, message: info.message ?? `Rollback to version ${version}` });
+  }
+
+  private requireHistory(): PolicyHistory {
+    if (!this.history) {
+      throw new Error('Policy history is not enabled; pass `history: true` to the RBAC constructor');
     }
+    return this.history;
+  }
 
-    // Fallback to permission comparison
-    if (this.useBitSystem) {
-      const currentMask = this.bitPermissionManager?.getRoleMask(currentRole);
-      const targetMask = this.bitPermissionManager?.getRoleMask(targetRole);
+  private requireVersion(version: number): PolicyVersion {
+    const entry = this.requireHistory().get(version);
+    if (!entry) {
+      throw new Error(`Unknown policy version: ${version}`);
+    }
+    return entry;
+  }
 
-      if (!currentMask || !targetMask) return false;
+  /**
+   * Create an instance and restore the state saved in a store
+   * Mutations are saved back to the store unless `autoSave: false` is passed
+   */
+  static async fromStore(store: RBACStore, options: ConstructorParameters<typeof RBAC>[0] = {}): Promise<RBAC> {
+    const rbac = new RBAC({ ...options, store });
+    await rbac.loadFromStore();
+    return rbac;
+  }
 
-      // A role can act as another if it has all the permissions of the target role
-      return this.bitPermissionManager?.includesPermissions(currentMask, targetMask) ?? false;
+  /**
+   * Restore the state saved in the configured store
+   * @returns Whether a saved state was found
+   * @throws Error if no store is configured
+   */
+  async loadFromStore(): Promise<boolean> {
+    const state = await this.requireStore().load();
+    if (!state) {
+      return false;
     }
 
-    // Legacy system fallback
-    const currentPerms = this.roleManager?.getRolePermissions(currentRole) ?? [];
-    const targetPerms = this.roleManager?.getRolePermissions(targetRole) ?? [];
-    return targetPerms.every(perm => currentPerms.includes(perm));
+    this.restoreStoredState(state);
+    return true;
   }
 
   /**
-   * Get role hierarchy manager
+   * Save the current state to the configured store (saves run one after another)
+   * @throws Error if no store is configured
    */
-  getRoleHierarchy(): RoleHierarchy {
-    return this.roleHierarchy;
+  async saveToStore(): Promise<void> {
+    const store = this.requireStore();
+    const state = this.serialize();
+    this.lastStoredState = JSON.stringify(state);
+
+    const save = this.pendingSave.catch(() => undefined).then(() => store.save(state));
+    this.pendingSave = save;
+    return save;
   }
 
   /**
-   * Serialize complete RBAC state for persistence
-   * User can save this to DB, file, localStorage, etc.
+   * Wait until the mutations made so far are saved
+   * Rejects if the last save failed
    */
-  serialize(): RBACSystemState {
-    return {
-      bitPermissions: this.bitPermissionManager?.serialize() || {
-        permissions: {},
-        roles: {},
-        nextBitValue: 1,
-        timestamp: Date.now(),
-        version: '2.2.2',
-      },
-      hierarchy: this.roleHierarchy.serialize(),
-      config: { permissions: [], roles: [] }, // Config was already loaded
-      timestamp: Date.now(),
-    };
+  async flushStore(): Promise<void> {
+    // Let a save scheduled by the latest mutations start first
+    await Promise.resolve();
+    await this.pendingSave;
   }
 
   /**
-   * Deserialize and restore RBAC state from persistence
-   * User loads state from their storage and passes it here
+   * Apply states other writers save to the configured store
+   * @returns Stops watching
+   * @throws Error if no store is configured or the store cannot be watched
    */
-  deserialize(state: RBACSystemState): void {
-    // Load bit permission state
-    if (this.useBitSystem && this.bitPermissionManager && state.bitPermissions) {
-      this.bitPermissionManager.deserialize(state.bitPermissions);
+  watchStore(): () => void {
+    const store = this.requireStore();
+    if (!store.watch) {
+      throw new Error('The configured store does not support watching');
     }
 
-    // Load hierarchy state
-    if (state.hierarchy) {
-      this.roleHierarchy.deserialize(state.hierarchy);
-    }
+    return store.watch(state => {
+      // Skip the echo of this instance's own saves
+      if (JSON.stringify(state) === this.lastStoredState) return;
+      this.restoreStoredState(state);
+    });
   }
 
   /**
-   * Export state as JSON string
+   * Number of mutations made to this instance; changes whenever the policy or user state may have changed
    */
-  toJSON(): string {
-    return JSON.stringify(this.serialize(), null, 2);
+  getRevision(): number {
+    return this.revision;
   }
 
   /**
-   * Import state from JSON string
+   * Schedule saving the state after the current batch of mutations (store with autoSave)
    */
-  fromJSON(json: string): void {
-    const state = JSON.parse(json) as RBACSystemState;
-    this.deserialize(state);
+  private persist(): void {
+    this.revision++;
+    // Transactions persist once, when they commit
+    if (this.transactionDepth > 0) {
+      this.transactionDirty = true;
+      return;
+    }
+    if (!this.store || !this.autoSave || this.restoringState || this.saveScheduled) return;
+
+    this.saveScheduled = true;
+    queueMicrotask(() => {
+      this.saveScheduled = false;
+      this.saveToStore().catch(err => {
+        // Don't let store errors break the mutation that triggered the save
+        console.error('RBAC store error:', err);
+      });
+    });
+  }
+
+  /**
+   * Deserialize a state read from the store without saving it back
+   */
+  private restoreStoredState(state: RBACSystemState): void {
+    this.restoringState = true;
+    try {
+      this.deserialize(state);
+      this.lastStoredState = JSON.stringify(state);
+    } finally {
+      this.restoringState = false;
+    }
+  }
+
+  private requireStore(): RBACStore {
+    if (!this.store) {
+      throw new Error('No store configured; pass `store` to the RBAC constructor');
+    }
+    return this.store;
   }
 
   /**
@@ -864,14 +3426,25 @@ export class RBAC implements IRBAC {
     enableWildcards?: boolean;
     enableCache?: boolean;
     cacheOptions?: PermissionCacheOptions;
-    lazyRoles?: boolean;
+    lazyRoles?: boolean | RoleLoader;
     optimizeMemory?: boolean;
+    conditions?: Record<string, ConditionPredicate>;
+    conflictStrategy?: ConflictStrategy;
+    clock?: Clock;
+    policyProvider?: PolicyProvider;
+    providerRoleTTL?: number;
+    store?: RBACStore;
+    autoSave?: boolean;
+    pluginFailurePolicy?: PluginFailurePolicy;
+    history?: boolean | PolicyHistoryOptions;
+    stateMigrations?: BitStateMigration[];
+    deprecationLogger?: DeprecationLogger;
   } = {}): RBAC {
     try {
       const config = JSON.parse(json) as PresetConfig;
 
       // Validate config
-      RBAC.validateConfig(config);
+      RBAC.validateConfig(config, Object.keys(options.conditions ?? {}));
 
       return new RBAC({
         preset: config,
@@ -1012,21 +3585,63 @@ export class RBAC implements IRBAC {
    * Revoke permission from a role (IRBAC interface)
    */
   revokePermission(roleName: string, permission: string): void {
-    if (this.useBitSystem) {
-      const currentPermissions = this.bitPermissionManager?.getRolePermissions(roleName) ?? [];
-      const newPermissions = currentPermissions.filter(perm => perm !== permission);
-      this.bitPermissionManager?.registerRole(roleName, newPermissions);
-    } else {
-      const currentPermissions = this.roleManager?.getRolePermissions(roleName) ?? [];
-      const newPermissions = currentPermissions.filter(perm => perm !== permission);
-      this.roleManager?.createRole(roleName, newPermissions);
-    }
+    this.revokeFromRole(roleName, this.resolvePermission(permission), true);
+  }
+
+  /**
+   * Remove a permission from a role
+   * @param declared Whether the role declared the grant itself (false for grants expanded from groups)
+   */
+  private revokeFromRole(roleName: string, permission: string, declared: boolean): void {
+    this.trackRoleChange('onPermissionRevoked', 'revoked', roleName, permission, () => {
+      if (PermissionGroups.isReference(permission)) {
+        // Drop the group reference and the permissions neither the role nor another referenced group provides
+        const manager = this.getGroupManager();
+        const groups = this.getRoleGroups(roleName).filter(group => group !== permission.slice(1));
+        const kept = new Set([
+          ...(manager?.expandGroups(groups.map(group => PermissionGroups.PREFIX + group)) ?? []),
+          ...(this.roleGrants.get(roleName) ?? []),
+        ]);
+        const removed = manager?.expandGroups([permission]) ?? [];
+        if (groups.length > 0) {
+          this.roleGroups.set(roleName, groups);
+        } else {
+          this.roleGroups.delete(roleName);
+          this.roleGrants.delete(roleName);
+        }
+        removed.filter(perm => !kept.has(perm)).forEach(perm => this.revokeFromRole(roleName, perm, false));
+        this.persist();
+        return;
+      }
+
+      const grants = this.roleGrants.get(roleName);
+      if (declared && grants) {
+        this.roleGrants.set(roleName, grants.filter(grant => grant !== permission));
+      }
+
+      if (this.implications.size > 0) {
+        this.registerImpliedGrants(roleName, this.getDeclaredGrants(roleName).filter(perm => perm !== permission));
+      } else if (this.useBitSystem) {
+        const currentPermissions = this.bitPermissionManager?.getDirectRolePermissions(roleName) ?? [];
+        const newPermissions = currentPermissions.filter(perm => perm !== permission);
+        this.bitPermissionManager?.registerRole(roleName, newPermissions);
+      } else {
+        const currentPermissions = this.roleManager?.getDirectRolePermissions(roleName) ?? [];
+        const newPermissions = currentPermissions.filter(perm => perm !== permission);
+        this.roleManager?.createRole(roleName, newPermissions);
+      }
+
+      this.removePermissionCondition(roleName, permission);
+      this.cache?.invalidateRole(roleName);
+      this.persist();
+    });
   }
 
   /**
    * Get permissions for a user (IRBAC interface)
    */
-  getUserPermissions(user: RBACUser): string[] {
+  getUserPermissions(user: RBACUser, context?: RBACContext): string[] {
+    user = this.resolveEffectiveUser(user, context);
     const permissions = new Set<string>();
 
     // Add direct permissions
@@ -1040,7 +3655,27 @@ export class RBAC implements IRBAC {
       rolePerms.forEach(perm => permissions.add(perm));
     }
 
-    return Array.from(permissions);
+    const denies = this.getApplicableDenies(user);
+    if (denies.length === 0) {
+      return Array.from(permissions);
+    }
+
+    // Expand wildcard grants over registered permissions, so denied ones can be left out
+    const expanded = new Set<string>();
+    for (const perm of permissions) {
+      if (this.enableWildcards && WildcardMatcher.isPattern(perm)) {
+        this.getPermissions()
+          .filter(registered => !WildcardMatcher.isPattern(registered) && WildcardMatcher.matches(registered, perm, this.memoryOptimizer))
+          .forEach(registered => expanded.add(registered));
+      } else {
+        expanded.add(perm);
+      }
+    }
+
+    // Deny rules only win where the conflict strategy lets them
+    return Array.from(expanded).filter(perm =>
+      this.conflictResolver.resolve(this.collectRules(user, perm, undefined, undefined, true).rules, perm)?.effect === 'allow'
+    );
   }
 
   /**
@@ -1082,11 +3717,244 @@ export class RBAC implements IRBAC {
   }
 
   /**
-   * Validate PresetConfig structure
+   * Trigger a plugin hook without waiting for it (plugin errors are logged)
+   */
+  private triggerPlugins<K extends RBACPluginHook>(hook: K, ...args: Parameters<NonNullable<RBACPlugin[K]>>): void {
+    this.pluginManager.trigger(hook, ...args).catch(err => {
+      // Don't let plugin errors break the operation that triggered the hook
+      console.error(`Plugin error in ${hook}:`, err);
+    });
+  }
+
+  /**
+   * Run a mutation and report it with snapshots taken before and after it, if a plugin implements the hook
+   * Mutations made by another mutation (e.g. createRole() setting deny rules) are reported only as part of it
+   * @param always Report even if the snapshots are equal (nothing changed)
+   */
+  private trackChange<S, T>(
+    hook: RBACPluginHook,
+    snapshot: () => S,
+    mutate: () => T,
+    report: (before: S, after: S) => void,
+    always: boolean = false
+  ): T {
+    const tracked = this.changeDepth === 0 && this.pluginManager.hasHook(hook);
+    const before = tracked ? snapshot() : undefined;
+
+    this.changeDepth++;
+    let result: T;
+    try {
+      result = mutate();
+    } finally {
+      this.changeDepth--;
+    }
+
+    if (tracked) {
+      const after = snapshot();
+      if (always || JSON.stringify(before) !== JSON.stringify(after)) {
+        report(before as S, after);
+      }
+    }
+    return result;
+  }
+
+  private trackRoleChange<T>(
+    hook: 'onPermissionGranted' | 'onPermissionRevoked' | 'onRoleUpdated',
+    type: RoleChangeType,
+    roleName: string,
+    permission: string | undefined,
+    mutate: () => T
+  ): T {
+    return this.trackChange(hook, () => this.snapshotRole(roleName), mutate, (before, after) => {
+      if (!after) return;
+      this.triggerPlugins(hook, {
+        type,
+        role: roleName,
+        ...(permission !== undefined && { permission }),
+        before,
+        after,
+        timestamp: Date.now(),
+      });
+    });
+  }
+
+  private trackUserChange<T>(
+    hook: 'onPermissionDenied' | 'onPermissionAllowed' | 'onUserUpdated',
+    type: UserChangeType,
+    userId: string,
+    details: { permission?: string; role?: string },
+    mutate: () => T
+  ): T {
+    return this.trackChange(hook, () => this.snapshotUser(userId), mutate, (before, after) => {
+      this.triggerPlugins(hook, { type, userId, ...details, before, after, timestamp: Date.now() });
+    });
+  }
+
+  private trackGlobalDenyChange(type: 'added' | 'removed', permission: string, mutate: () => void): void {
+    this.trackChange('onGlobalDenyChanged', () => this.getGlobalDenies(), mutate, (before, after) => {
+      this.triggerPlugins('onGlobalDenyChanged', { type, permission, before, after, timestamp: Date.now() });
+    });
+  }
+
+  /**
+   * Own definition of a role, as passed to plugin hooks (undefined if the role does not exist)
+   */
+  private snapshotRole(roleName: string): RoleSnapshot | undefined {
+    const pending = this.pendingRoles.get(roleName);
+    if (!pending && !this.roleExists(roleName)) {
+      return undefined;
+    }
+
+    return {
+      name: roleName,
+      permissions: pending ? [...pending.permissions] : this.getDirectRolePermissions(roleName),
+      inherits: pending ? [...(pending.inherits ?? [])] : this.getRoleParents(roleName),
+      deny: [...(this.roleDenies.get(roleName) ?? [])],
+      conditions: this.getRoleConditions(roleName),
+    };
+  }
+
+  /**
+   * Policy stored for a user, as passed to plugin hooks
+   * @param includeExpired Keep deny entries that have expired but are still stored
+   */
+  private snapshotUser(userId: string, includeExpired: boolean = false): UserSnapshot {
+    const denies = includeExpired
+      ? Array.from(this.denyList.get(userId) ?? [], ([permission, details]) => ({ userId, permission, ...details }))
+      : this.exportDenyList(userId);
+    return { userId, denies, bindings: this.getRoleBindings(userId) };
+  }
+
+  /**
+   * Policies of every user with stored denies or role bindings
+   */
+  private snapshotUsers(includeExpired: boolean = false): Record<string, UserSnapshot> {
+    const userIds = new Set([...this.denyList.keys(), ...this.roleBindings.keys()]);
+    return Object.fromEntries(Array.from(userIds, userId => [userId, this.snapshotUser(userId, includeExpired)]));
+  }
+
+  /**
+   * Definitions of every registered or pending role
+   */
+  private snapshotRoles(): Record<string, RoleSnapshot> {
+    const roleNames = new Set([...this.getAllRoles(), ...this.pendingRoles.keys()]);
+    return Object.fromEntries(
+      Array.from(roleNames, roleName => [roleName, this.snapshotRole(roleName)] as const)
+        .filter((entry): entry is readonly [string, RoleSnapshot] => entry[1] !== undefined)
+    );
+  }
+
+  /**
+   * Validate the roles a transaction created or changed: parents must exist and no grant may be denied by the role itself
+   * @param before Roles as they were before the transaction
+   * @throws Error if a role is invalid
+   */
+  private validateRoles(before: Record<string, RoleSnapshot>): void {
+    // Parents may be loaded on demand
+    const checkParents = !this.roleLoader && !this.policyProvider?.getRole;
+    const roles = this.snapshotRoles();
+
+    for (const role of Object.values(roles)) {
+      if (JSON.stringify(role) === JSON.stringify(before[role.name])) continue;
+
+      const missing = checkParents ? role.inherits.find(parent => !roles[parent]) : undefined;
+      if (missing !== undefined) {
+        throw new Error(`Role '${role.name}' inherits from undefined role: ${missing}`);
+      }
+
+      const conflict = role.permissions.find(permission => role.deny.includes(permission));
+      if (conflict !== undefined) {
+        throw new Error(`Role '${role.name}' both grants and denies permission: ${conflict}`);
+      }
+    }
+  }
+
+  private static emptyUserSnapshot(userId: string): UserSnapshot {
+    return { userId, denies: [], bindings: [] };
+  }
+
+  /**
+   * Helper: Validate a deny entry and strip unknown fields
+   * @throws Error if the entry is malformed
+   */
+  private static validateDenyEntry(entry: unknown, label: string = 'deny entry'): DenyEntry {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid ${label}: must be an object`);
+    }
+
+    const { userId, permission, notBefore, expiresAt, reason } = entry as Record<string, unknown>;
+    if (typeof userId !== 'string' || userId.length === 0) {
+      throw new Error(`Invalid ${label}: userId must be a non-empty string`);
+    }
+    if (typeof permission !== 'string' || permission.length === 0) {
+      throw new Error(`Invalid ${label}: permission must be a non-empty string`);
+    }
+    if (notBefore !== undefined && (typeof notBefore !== 'number' || !Number.isFinite(notBefore))) {
+      throw new Error(`Invalid ${label}: notBefore must be a timestamp in milliseconds`);
+    }
+    if (expiresAt !== undefined && (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt))) {
+      throw new Error(`Invalid ${label}: expiresAt must be a timestamp in milliseconds`);
+    }
+    if (notBefore !== undefined && expiresAt !== undefined && (notBefore as number) >= (expiresAt as number)) {
+      throw new Error(`Invalid ${label}: notBefore must be before expiresAt`);
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new Error(`Invalid ${label}: reason must be a string`);
+    }
+
+    return {
+      userId,
+      permission,
+      ...(notBefore !== undefined && { notBefore }),
+      ...(expiresAt !== undefined && { expiresAt }),
+      ...(reason !== undefined && { reason }),
+    };
+  }
+
+  /**
+   * Helper: Validate a role binding and strip unknown fields
+   * @throws Error if the role or scope is malformed
+   */
+  private static validateRoleBinding(binding: unknown, label: string = 'role binding'): RoleBinding {
+    if (!binding || typeof binding !== 'object') {
+      throw new Error(`Invalid ${label}: must be an object`);
+    }
+
+    const { role, scope } = binding as Record<string, unknown>;
+    if (typeof role !== 'string' || role.length === 0) {
+      throw new Error(`Invalid ${label}: role must be a non-empty string`);
+    }
+    const { type, id } = (scope ?? {}) as Record<string, unknown>;
+    if (typeof type !== 'string' || type.length === 0 || typeof id !== 'string' || id.length === 0) {
+      throw new Error(`Invalid ${label}: scope must have a non-empty type and id`);
+    }
+
+    return { role, scope: { type, id } };
+  }
+
+  /**
+   * Helper: Check if a config bit value is a non-negative integer (number, BigInt or numeric string)
+   */
+  private static isValidBitValue(bit: unknown): boolean {
+    if (typeof bit === 'number') return Number.isInteger(bit) && bit >= 0;
+    if (typeof bit === 'bigint') return bit >= 0n;
+    if (typeof bit === 'string') {
+      try {
+        return BigInt(bit) >= 0n;
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Validate config structure (PresetConfig or RBACConfigSchema)
    * @param config Config to validate
+   * @param predicates Names of the available condition predicates; when given, conditions referencing others are rejected
    * @throws Error if config is invalid
    */
-  static validateConfig(config: PresetConfig): void {
+  static validateConfig(config: RBACConfigSchema, predicates?: string[]): void {
     if (!config || typeof config !== 'object') {
       throw new Error('Config must be an object');
     }
@@ -1100,7 +3968,7 @@ export class RBAC implements IRBAC {
       if (!perm.name || typeof perm.name !== 'string') {
         throw new Error(`Permission at index ${index} must have a valid 'name' string`);
       }
-      if (perm.bit !== undefined && (typeof perm.bit !== 'number' || perm.bit < 0)) {
+      if (perm.bit !== undefined && !RBAC.isValidBitValue(perm.bit)) {
         throw new Error(`Permission '${perm.name}' has invalid bit value: ${perm.bit}`);
       }
     }
@@ -1114,17 +3982,53 @@ export class RBAC implements IRBAC {
       permNames.add(perm.name);
     }
 
-    // Check for duplicate bit values
-    const bitValues = new Set<number>();
+    // Aliases and former names must not reuse the name of another permission or alias
+    const aliasOwners = new Map<string, string>();
+    for (const perm of config.permissions) {
+      for (const field of ['renamedFrom', 'aliases'] as const) {
+        const names = perm[field];
+        if (names !== undefined && (!Array.isArray(names) || names.some(name => typeof name !== 'string'))) {
+          throw new Error(`Permission '${perm.name}' must have a '${field}' array of permission names`);
+        }
+        for (const name of names ?? []) {
+          const owner = permNames.has(name) ? name : aliasOwners.get(name);
+          if (owner !== undefined) {
+            throw new Error(`Permission '${perm.name}' reuses the name of permission '${owner}': ${name}`);
+          }
+          aliasOwners.set(name, perm.name);
+        }
+      }
+      if (perm.deprecated !== undefined && typeof perm.deprecated !== 'boolean' && typeof perm.deprecated !== 'string') {
+        throw new Error(`Permission '${perm.name}' has invalid deprecated value: must be a boolean or a message`);
+      }
+    }
+
+    // Check for duplicate bit values (compared as BigInt so 4, 4n and "0x4" collide)
+    const bitValues = new Set<bigint>();
     for (const perm of config.permissions) {
       if (perm.bit !== undefined) {
-        if (bitValues.has(perm.bit)) {
+        const bitValue = toBigIntMask(perm.bit);
+        if (bitValues.has(bitValue)) {
           throw new Error(`Duplicate bit value ${perm.bit} in permission: ${perm.name}`);
         }
-        bitValues.add(perm.bit);
+        bitValues.add(bitValue);
       }
     }
 
+    if (config.options?.conflictStrategy !== undefined) {
+      ConflictResolver.validate(config.options.conflictStrategy);
+    }
+
+    // Validate global deny rules
+    if (config.deny !== undefined && (!Array.isArray(config.deny) || config.deny.some(rule => typeof rule !== 'string'))) {
+      throw new Error('Config.deny must be an array of permission names');
+    }
+
+    // Validate implication rules (shape and cycles)
+    if (config.implications !== undefined) {
+      ImplicationResolver.validate(config.implications);
+    }
+
     // Validate roles array
     if (!Array.isArray(config.roles)) {
       throw new Error('Config.roles must be an array');
@@ -1140,6 +4044,12 @@ export class RBAC implements IRBAC {
       if (role.level !== undefined && (typeof role.level !== 'number' || role.level < 0)) {
         throw new Error(`Role '${role.name}' has invalid level: ${role.level}`);
       }
+      if (role.deny !== undefined && (!Array.isArray(role.deny) || role.deny.some(rule => typeof rule !== 'string'))) {
+        throw new Error(`Role '${role.name}' must have a 'deny' array of permission names`);
+      }
+      if (role.inherits !== undefined && (!Array.isArray(role.inherits) || role.inherits.some(parent => typeof parent !== 'string'))) {
+        throw new Error(`Role '${role.name}' must have an 'inherits' array of role names`);
+      }
     }
 
     // Check for duplicate role names
@@ -1151,17 +4061,66 @@ export class RBAC implements IRBAC {
       roleNames.add(role.name);
     }
 
-    // Validate that role permissions reference existing permissions
-    const validPermissions = new Set(config.permissions.map(p => p.name));
+    // Validate that role permissions and deny rules reference existing permissions, aliases (and groups)
+    const validPermissions = new Set([...config.permissions.map(p => p.name), ...aliasOwners.keys()]);
+    const resolve = (permName: string) => aliasOwners.get(permName) ?? permName;
+    const groups = new PermissionGroups();
+    if (config.groups !== undefined) {
+      groups.defineAll(config.groups); // Rejects malformed groups, unknown references and cycles
+    }
     for (const role of config.roles) {
-      for (const permName of role.permissions) {
+      const { grants: entries, denies } = splitDenyRules(role.permissions);
+      const unknownGroup = entries.find(entry => PermissionGroups.isReference(entry) && groups.get(entry.slice(1)) === undefined);
+      if (unknownGroup !== undefined) {
+        throw new Error(`Role '${role.name}' references unknown permission group: ${unknownGroup}`);
+      }
+
+      const grants = groups.expand(entries);
+      for (const permName of [...grants, ...denies, ...(role.deny ?? [])]) {
         // Skip wildcard permissions in validation
-        if (permName.includes('*')) continue;
+        if (WildcardMatcher.isPattern(permName)) continue;
 
         if (!validPermissions.has(permName)) {
           throw new Error(`Role '${role.name}' references undefined permission: ${permName}`);
         }
       }
+
+      const denied = [...denies, ...(role.deny ?? [])].map(resolve);
+      const conflict = grants.find(permName => denied.includes(resolve(permName)));
+      if (conflict !== undefined) {
+        throw new Error(`Role '${role.name}' both grants and denies permission: ${conflict}`);
+      }
+    }
+    for (const permName of config.deny ?? []) {
+      if (!WildcardMatcher.isPattern(permName) && !validPermissions.has(permName)) {
+        throw new Error(`Global deny rule references undefined permission: ${permName}`);
+      }
+    }
+
+    // Validate role inheritance references and detect cycles
+    const inheritanceGraph = new RoleGraph();
+    for (const role of config.roles) {
+      for (const parent of role.inherits ?? []) {
+        if (!roleNames.has(parent)) {
+          throw new Error(`Role '${role.name}' inherits from undefined role: ${parent}`);
+        }
+      }
+      inheritanceGraph.setParents(role.name, role.inherits ?? []);
+    }
+
+    // Validate role conditions (keys must be granted by the role, values must be well-formed)
+    for (const role of config.roles) {
+      if (role.conditions === undefined) continue;
+      if (!role.conditions || typeof role.conditions !== 'object' || Array.isArray(role.conditions)) {
+        throw new Error(`Role '${role.name}' must have a 'conditions' object`);
+      }
+      const grants = splitDenyRules(role.permissions).grants.map(resolve);
+      for (const [permName, condition] of Object.entries(role.conditions)) {
+        if (!grants.includes(resolve(permName))) {
+          throw new Error(`Role '${role.name}' has a condition on a permission it does not grant: ${permName}`);
+        }
+        ConditionEvaluator.validate(condition, `condition for '${role.name}' -> '${permName}'`, predicates && new Set(predicates));
+      }
     }
   }
 }
@@ -1169,17 +4128,48 @@ export class RBAC implements IRBAC {
 // Export core classes
 export { BitPermissionManager } from './core/bit-permission-manager';
 export { RoleHierarchy } from './core/role-hierarchy';
+export { RoleGraph } from './core/role-graph';
+export { ConditionEvaluator } from './core/condition-evaluator';
+export { ConflictResolver } from './core/conflict-resolver';
+export { PatternTrie } from './core/pattern-trie';
+export { ImplicationResolver } from './core/implication-resolver';
+export { PermissionGroups } from './core/permission-groups';
+export { PolicyHistory } from './core/policy-history';
+export { BitStateMigrations } from './core/bit-state-migrations';
 export { RBACBuilder } from './builders/rbac-builder';
 export { WildcardMatcher } from './utils/wildcard-matcher';
 export { PermissionCache } from './utils/permission-cache';
+export { MemoryCacheStore } from './utils/cache-store';
+export { RedisCacheStore, RedisInvalidationChannel } from './utils/redis-cache-store';
+export { InMemoryPolicyProvider } from './utils/policy-provider';
+export { MemoryRBACStore } from './utils/rbac-store';
+export { FileRBACStore } from './utils/file-rbac-store';
+export { SQLiteRBACStore } from './utils/sqlite-rbac-store';
 export { MemoryOptimizer } from './utils/memory-optimizer';
 
 // Export plugin system (v3.0)
 export { PluginManager, RBACPlugin } from './plugins/rbac-plugin';
+export type { RBACPluginHook } from './plugins/rbac-plugin';
+export type {
+  RoleSnapshot,
+  RoleChangeType,
+  RoleChangeEvent,
+  UserSnapshot,
+  UserChangeType,
+  UserChangeEvent,
+  GlobalDenyChangeEvent,
+  GroupChangeEvent,
+  StateLoadEvent,
+  TransactionEvent,
+  PermissionCheck,
+  PermissionCheckResult,
+  PluginVerdict,
+  PluginFailurePolicy,
+} from './types/plugin.types';
 
 // Export types
-export type { UserRole, MiddlewareContext } from './types/user.types';
-export type { PermissionMask } from './types/utility.types';
+export type { UserRole, RBACUser, RBACContext, AuthorizationResult, MiddlewareContext } from './types/user.types';
+export type { PermissionMask, SerializedPermissionMask } from './types/utility.types';
 export type {
   RBACConfigSchema,
   RBACConfigOptions,
@@ -1187,8 +4177,61 @@ export type {
   PresetConfig,
   RBACSystemState,
 } from './types/config.types';
-export type { RoleConfig, RoleHierarchyState } from './types/role.types';
-export type { BitPermissionState } from './types/permission.types';
+export type { RoleConfig, RoleHierarchyState, RoleManagerState } from './types/role.types';
+export type {
+  AttributeMap,
+  ConditionContext,
+  ConditionPredicate,
+  ConditionExpression,
+  ConditionOperand,
+  ConditionVariable,
+  PermissionCondition,
+} from './types/condition.types';
+export type {
+  DecisionCheck,
+  DecisionSource,
+  DecisionStep,
+  PermissionDecision,
+} from './types/decision.types';
+export type { DenyEntry, DenyImportOptions, DenyPermissionOptions } from './types/deny.types';
+export type { RoleScope, RoleBinding, ScopeSource } from './types/scope.types';
+export type { Clock, TimeWindow, TimedPermission, TimedRole, ExpiringGrant } from './types/grant.types';
+export type {
+  PolicyVersionInfo,
+  PolicyVersion,
+  PolicyHistoryOptions,
+  PolicyHistoryState,
+  PolicyDenyChange,
+  PolicyDiff,
+} from './types/history.types';
+export type { PolicyProvider, PolicyRequest, RoleLoader } from './types/provider.types';
+export type { WildcardPatternCache } from './utils/wildcard-matcher';
+export type { PermissionCacheOptions, CacheDependencies, CacheEntry, CacheStats } from './utils/permission-cache';
+export type {
+  PermissionCacheStore,
+  AsyncPermissionCacheStore,
+  CacheInvalidation,
+  CacheInvalidationChannel,
+} from './utils/cache-store';
+export type { RedisCommand, RedisCacheStoreOptions, RedisInvalidationChannelOptions } from './utils/redis-cache-store';
+export type { InMemoryPolicyData } from './utils/policy-provider';
+export type { RBACStore, RBACStoreListener } from './utils/rbac-store';
+export type { FileRBACStoreOptions } from './utils/file-rbac-store';
+export type { SQLiteDatabase, SQLiteStatement, SQLiteRBACStoreOptions } from './utils/sqlite-rbac-store';
+export type {
+  ConflictStrategy,
+  ConflictStrategyName,
+  CustomConflictStrategy,
+  MatchedRule,
+} from './types/strategy.types';
+export type {
+  BitPermissionState,
+  BitStateMigration,
+  BitStateChange,
+  BitStateMigrationReport,
+  PermissionDeprecation,
+  DeprecationLogger,
+} from './types/permission.types';
 export type {
   AuditEvent,
   AuditLogger,
@@ -1206,6 +4249,9 @@ export { defaultPreset } from './presets/default.preset';
 export {
 	matchPermission,
 	parsePermission,
+	splitDenyRules,
+	resolveScope,
+	withScope,
 	hasPermission,
 	hasAnyPermission,
 	hasAllPermissions,
@@ -1241,5 +4287,19 @@ export type {
 	AggregatedPermissionResult
 } from './utils/rbac-aggregator';
 
+// Export TenantRBAC for per-tenant policies on a shared base config
+export {
+	TenantRBAC
+} from './utils/tenant-rbac';
+
+export type {
+	TenantId,
+	TenantPolicy,
+	TenantRBACFactory,
+	TenantPolicyLoader,
+	TenantRBACOptions,
+	TenantState
+} from './utils/tenant-rbac';
+
 // Export IRBAC interface for polymorphism
 export { IRBAC } from './types/rbac.interface';
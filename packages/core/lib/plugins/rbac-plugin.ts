@@ -1,4 +1,18 @@
 import { RBAC } from "..";
+import type { PermissionMask } from '../types/utility.types';
+import type { AuditEvent } from '../types/audit.types';
+import type {
+  RoleChangeEvent,
+  UserChangeEvent,
+  GlobalDenyChangeEvent,
+  GroupChangeEvent,
+  StateLoadEvent,
+  TransactionEvent,
+  PermissionCheck,
+  PermissionCheckResult,
+  PluginVerdict,
+  PluginFailurePolicy,
+} from '../types/plugin.types';
 
 /**
  * Plugin interface for Fire Shield RBAC system
@@ -15,27 +29,113 @@ export interface RBACPlugin {
    */
   version?: string;
 
+  /**
+   * Order of the plugin's hooks: higher priorities run first
+   * Plugins with the same priority run in registration order
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Plugins whose hooks must run before this plugin's, whatever their priority
+   */
+  runAfter?: string[];
+
+  /**
+   * What a check does when beforeCheck or afterCheck throws
+   * Defaults to the `pluginFailurePolicy` of the RBAC instance
+   */
+  failurePolicy?: PluginFailurePolicy;
+
   /**
    * Initialize plugin with RBAC instance
    * Called when plugin is registered
    */
   initialize?(rbac: RBAC): void | Promise<void>;
 
+  /**
+   * Interceptor called before a check is evaluated (must be synchronous)
+   * Returning allow or deny decides the check: the policy and later beforeCheck hooks are skipped
+   * Useful for rate limits, maintenance modes, emergency lockouts, etc.
+   */
+  beforeCheck?(check: PermissionCheck): PluginVerdict | void;
+
+  /**
+   * Interceptor called with the decision of each check (must be synchronous)
+   * Returning allow or deny overrides the decision; later afterCheck hooks see the overridden result
+   */
+  afterCheck?(check: PermissionCheck, result: PermissionCheckResult): PluginVerdict | void;
+
   /**
    * Hook called after each permission check
    * Useful for logging, caching, analytics, etc.
    */
-  onPermissionCheck?(event: any): void | Promise<void>;
+  onPermissionCheck?(event: AuditEvent): void | Promise<void>;
+
+  /**
+   * Hook called when a role is added (or recreated)
+   */
+  onRoleAdded?(roleName: string, permissions: string[], event: RoleChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when a permission is granted to a role
+   */
+  onPermissionGranted?(event: RoleChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when a permission is revoked from a role
+   */
+  onPermissionRevoked?(event: RoleChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when the inheritance, grant conditions or deny rules of a role change
+   */
+  onRoleUpdated?(event: RoleChangeEvent): void | Promise<void>;
 
   /**
-   * Hook called when a role is added
+   * Hook called when a lazy role is evaluated on first use
    */
-  onRoleAdded?(roleName: string, permissions: string[]): void | Promise<void>;
+  onRoleEvaluated?(event: RoleChangeEvent): void | Promise<void>;
 
   /**
    * Hook called when a permission is registered
    */
-  onPermissionRegistered?(permissionName: string, bit: number): void | Promise<void>;
+  onPermissionRegistered?(permissionName: string, bit: PermissionMask): void | Promise<void>;
+
+  /**
+   * Hook called when a permission group is created or its members change
+   */
+  onGroupUpdated?(event: GroupChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when a permission is denied to a user
+   */
+  onPermissionDenied?(event: UserChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when denied permissions of a user are lifted (allowPermission, clearDeniedPermissions)
+   */
+  onPermissionAllowed?(event: UserChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when the role bindings of a user change or deny entries are imported for them
+   */
+  onUserUpdated?(event: UserChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called when a global deny rule is added or removed
+   */
+  onGlobalDenyChanged?(event: GlobalDenyChangeEvent): void | Promise<void>;
+
+  /**
+   * Hook called after the whole state was replaced (deserialize, fromJSON, loadFromStore)
+   */
+  onStateLoaded?(event: StateLoadEvent): void | Promise<void>;
+
+  /**
+   * Hook called once after a transaction committed changes, instead of the hooks of each change
+   */
+  onTransaction?(event: TransactionEvent): void | Promise<void>;
 
   /**
    * Cleanup plugin resources
@@ -44,11 +144,22 @@ export interface RBACPlugin {
   cleanup?(): void | Promise<void>;
 }
 
+/**
+ * Lifecycle hooks of a plugin
+ */
+export type RBACPluginHook = Exclude<
+  keyof RBACPlugin,
+  'name' | 'version' | 'priority' | 'runAfter' | 'failurePolicy' | 'initialize' | 'cleanup' | 'beforeCheck' | 'afterCheck'
+>;
+
+type RBACPluginHookArgs<K extends RBACPluginHook> = Parameters<NonNullable<RBACPlugin[K]>>;
+
 /**
  * Plugin manager for managing RBAC plugins
  */
 export class PluginManager {
   private plugins: Map<string, RBACPlugin> = new Map();
+  private ordered: RBACPlugin[] = []; // Hook order (priority, then runAfter constraints)
   private rbacInstance: RBAC;
 
   constructor(rbacInstance: RBAC) {
@@ -63,6 +174,8 @@ export class PluginManager {
       throw new Error(`Plugin '${plugin.name}' is already registered`);
     }
 
+    // Throws before registering if runAfter constraints would form a cycle
+    this.ordered = PluginManager.order([...this.plugins.values(), plugin]);
     this.plugins.set(plugin.name, plugin);
 
     // Initialize plugin
@@ -89,6 +202,7 @@ export class PluginManager {
     }
 
     this.plugins.delete(pluginName);
+    this.ordered = this.ordered.filter(registered => registered !== plugin);
     console.log(`[Plugin] Unregistered: ${pluginName}`);
   }
 
@@ -100,10 +214,10 @@ export class PluginManager {
   }
 
   /**
-   * Get all registered plugins
+   * Get all registered plugins, in hook order
    */
   getAllPlugins(): RBACPlugin[] {
-    return Array.from(this.plugins.values());
+    return [...this.ordered];
   }
 
   /**
@@ -114,36 +228,134 @@ export class PluginManager {
   }
 
   /**
-   * Trigger onPermissionCheck hook for all plugins
+   * Check if any plugin implements a hook (or interceptor)
    */
-  async triggerPermissionCheck(event: any): Promise<void> {
-    const promises = Array.from(this.plugins.values())
-      .filter(plugin => plugin.onPermissionCheck)
-      .map(plugin => plugin.onPermissionCheck!(event));
+  hasHook(hook: RBACPluginHook | 'beforeCheck' | 'afterCheck'): boolean {
+    return this.ordered.some(plugin => plugin[hook]);
+  }
+
+  /**
+   * Trigger a hook for all plugins implementing it
+   */
+  async trigger<K extends RBACPluginHook>(hook: K, ...args: RBACPluginHookArgs<K>): Promise<void> {
+    const promises = this.ordered
+      .filter(plugin => plugin[hook])
+      .map(plugin => (plugin[hook] as (...hookArgs: RBACPluginHookArgs<K>) => void | Promise<void>).apply(plugin, args));
 
     await Promise.all(promises);
   }
 
   /**
-   * Trigger onRoleAdded hook for all plugins
+   * Run beforeCheck interceptors in order until one allows or denies
+   * @returns The decision, or undefined if every plugin abstained
    */
-  async triggerRoleAdded(roleName: string, permissions: string[]): Promise<void> {
-    const promises = Array.from(this.plugins.values())
-      .filter(plugin => plugin.onRoleAdded)
-      .map(plugin => plugin.onRoleAdded!(roleName, permissions));
+  runBeforeCheck(check: PermissionCheck, failurePolicy: PluginFailurePolicy): PermissionCheckResult | undefined {
+    for (const plugin of this.ordered) {
+      if (!plugin.beforeCheck) continue;
+      const result = PluginManager.intercept(plugin, 'beforeCheck', failurePolicy, () => plugin.beforeCheck!(check));
+      if (result) return result;
+    }
+    return undefined;
+  }
 
-    await Promise.all(promises);
+  /**
+   * Run afterCheck interceptors in order, each seeing the result of the previous ones
+   * @returns The final decision
+   */
+  runAfterCheck(check: PermissionCheck, result: PermissionCheckResult, failurePolicy: PluginFailurePolicy): PermissionCheckResult {
+    for (const plugin of this.ordered) {
+      if (!plugin.afterCheck) continue;
+      const current = result;
+      result = PluginManager.intercept(plugin, 'afterCheck', failurePolicy, () => plugin.afterCheck!(check, current)) ?? result;
+    }
+    return result;
   }
 
   /**
-   * Trigger onPermissionRegistered hook for all plugins
+   * Run an interceptor hook and turn its verdict into a decision (undefined when it abstains)
+   * A hook that throws, returns a promise or returns an invalid verdict denies under fail-closed
+   * and is ignored under fail-open
    */
-  async triggerPermissionRegistered(permissionName: string, bit: number): Promise<void> {
-    const promises = Array.from(this.plugins.values())
-      .filter(plugin => plugin.onPermissionRegistered)
-      .map(plugin => plugin.onPermissionRegistered!(permissionName, bit));
+  private static intercept(
+    plugin: RBACPlugin,
+    hook: 'beforeCheck' | 'afterCheck',
+    failurePolicy: PluginFailurePolicy,
+    run: () => PluginVerdict | void
+  ): PermissionCheckResult | undefined {
+    let verdict: PluginVerdict | void;
+    try {
+      verdict = run();
+      if (verdict instanceof Promise) {
+        verdict.catch(() => undefined);
+        throw new Error(`${hook} must be synchronous`);
+      }
+      if (verdict && !['allow', 'deny', 'abstain'].includes(verdict.decision)) {
+        throw new Error(`Invalid decision: ${String(verdict.decision)}`);
+      }
+    } catch (error) {
+      console.error(`Plugin error in ${plugin.name}.${hook}:`, error);
+      if ((plugin.failurePolicy ?? failurePolicy) === 'fail-open') {
+        return undefined;
+      }
+      return { allowed: false, reason: `Plugin '${plugin.name}' failed: ${(error as Error).message}` };
+    }
 
-    await Promise.all(promises);
+    if (!verdict || verdict.decision === 'abstain') {
+      return undefined;
+    }
+    return verdict.decision === 'allow'
+      ? { allowed: true }
+      : { allowed: false, reason: verdict.reason ?? `Denied by plugin '${plugin.name}'` };
+  }
+
+  /**
+   * Sort plugins by priority (highest first, ties in registration order),
+   * then move plugins after the plugins listed in their runAfter
+   * @throws Error if runAfter constraints form a cycle
+   */
+  private static order(plugins: RBACPlugin[]): RBACPlugin[] {
+    const names = new Set(plugins.map(plugin => plugin.name));
+    const pending = plugins
+      .map((plugin, index) => ({ plugin, index }))
+      .sort((a, b) => (b.plugin.priority ?? 0) - (a.plugin.priority ?? 0) || a.index - b.index)
+      .map(({ plugin }) => plugin);
+    const ordered: RBACPlugin[] = [];
+    const placed = new Set<string>();
+
+    while (pending.length > 0) {
+      // Unregistered plugins in runAfter impose no constraint
+      const next = pending.findIndex(plugin =>
+        (plugin.runAfter ?? []).every(name => placed.has(name) || !names.has(name))
+      );
+      if (next === -1) {
+        throw new Error(`Plugin ordering cycle between: ${pending.map(plugin => plugin.name).join(', ')}`);
+      }
+      const [plugin] = pending.splice(next, 1);
+      ordered.push(plugin);
+      placed.add(plugin.name);
+    }
+    return ordered;
+  }
+
+  /**
+   * Trigger onPermissionCheck hook for all plugins
+   */
+  async triggerPermissionCheck(event: AuditEvent): Promise<void> {
+    return this.trigger('onPermissionCheck', event);
+  }
+
+  /**
+   * Trigger onRoleAdded hook for all plugins
+   */
+  async triggerRoleAdded(roleName: string, permissions: string[], event: RoleChangeEvent): Promise<void> {
+    return this.trigger('onRoleAdded', roleName, permissions, event);
+  }
+
+  /**
+   * Trigger onPermissionRegistered hook for all plugins
+   */
+  async triggerPermissionRegistered(permissionName: string, bit: PermissionMask): Promise<void> {
+    return this.trigger('onPermissionRegistered', permissionName, bit);
   }
 
   /**
@@ -156,6 +368,7 @@ export class PluginManager {
 
     await Promise.all(promises);
     this.plugins.clear();
+    this.ordered = [];
     console.log('[Plugin] All plugins cleaned up');
   }
 }
@@ -9,7 +9,7 @@
  */
 export interface AuditEvent {
   /** Event type */
-  type: 'permission_check' | 'authorization' | 'role_check';
+  type: 'permission_check' | 'authorization' | 'role_check' | 'deprecated_permission';
 
   /** User who performed the action */
   userId: string;
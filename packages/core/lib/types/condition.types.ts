@@ -0,0 +1,90 @@
+/**
+ * Attribute-based access control (ABAC) types
+ *
+ * Conditions restrict a role grant to requests whose attributes satisfy a rule,
+ * e.g. "posts:edit only when resource.ownerId === user.id"
+ */
+
+/**
+ * Free-form attribute bag
+ */
+export type AttributeMap = Record<string, unknown>;
+
+/**
+ * Context a condition is evaluated against
+ */
+export interface ConditionContext<
+	TUser extends AttributeMap = AttributeMap,
+	TResource extends AttributeMap = AttributeMap,
+	TEnvironment extends AttributeMap = AttributeMap
+> {
+	/** User attributes (RBACUser.attributes plus id and roles) */
+	user: TUser & { id: string; roles: string[] };
+
+	/** Attributes of the resource being accessed */
+	resource: TResource;
+
+	/** Request environment (time, IP, tenant, feature flags, ...) */
+	environment: TEnvironment;
+
+	/** Permission being checked */
+	permission: string;
+}
+
+/**
+ * Named predicate registered in code
+ */
+export type ConditionPredicate<
+	TUser extends AttributeMap = AttributeMap,
+	TResource extends AttributeMap = AttributeMap,
+	TEnvironment extends AttributeMap = AttributeMap
+> = (context: ConditionContext<TUser, TResource, TEnvironment>) => boolean;
+
+/**
+ * Attribute reference inside a condition expression (dotted path, e.g. "resource.ownerId")
+ */
+export interface ConditionVariable {
+	var: string;
+}
+
+/**
+ * Operand of a comparison: literal value or attribute reference
+ */
+export type ConditionOperand =
+	| string
+	| number
+	| boolean
+	| null
+	| ConditionVariable
+	| Array<string | number | boolean | null>;
+
+/**
+ * Serializable JSON condition language
+ *
+ * @example
+ * ```json
+ * { "all": [
+ *   { "eq": [{ "var": "resource.ownerId" }, { "var": "user.id" }] },
+ *   { "lt": [{ "var": "resource.amount" }, 10000] }
+ * ] }
+ * ```
+ */
+export type ConditionExpression =
+	| { all: ConditionExpression[] }
+	| { any: ConditionExpression[] }
+	| { not: ConditionExpression }
+	| { predicate: string }
+	| { eq: [ConditionOperand, ConditionOperand] }
+	| { ne: [ConditionOperand, ConditionOperand] }
+	| { lt: [ConditionOperand, ConditionOperand] }
+	| { lte: [ConditionOperand, ConditionOperand] }
+	| { gt: [ConditionOperand, ConditionOperand] }
+	| { gte: [ConditionOperand, ConditionOperand] }
+	| { in: [ConditionOperand, ConditionOperand] }
+	| { contains: [ConditionOperand, ConditionOperand] }
+	| { exists: ConditionVariable };
+
+/**
+ * Condition attached to a role grant: a named predicate or a JSON expression
+ */
+export type PermissionCondition = string | ConditionExpression;
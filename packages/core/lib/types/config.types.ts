@@ -4,7 +4,13 @@
 
 import type { RoleConfig } from './role.types';
 import type { BitPermissionState } from './permission.types';
-import type { RoleHierarchyState } from './role.types';
+import type { RoleHierarchyState, RoleManagerState } from './role.types';
+import type { PermissionMask, SerializedPermissionMask } from './utility.types';
+import type { PermissionCondition } from './condition.types';
+import type { DenyEntry } from './deny.types';
+import type { RoleBinding } from './scope.types';
+import type { ConflictStrategyName } from './strategy.types';
+import type { PolicyHistoryState } from './history.types';
 
 /**
  * Generic permission configuration
@@ -13,8 +19,8 @@ export interface PermissionConfig {
 	/** Unique permission name (e.g., "user:read", "admin:manage") */
 	name: string;
 
-	/** Optional manual bit assignment for persistence (1, 2, 4, 8, etc.) */
-	bit?: number;
+	/** Optional manual bit assignment for persistence (1, 2, 4, 8, etc.; hex strings such as "0x100000000" for large bits) */
+	bit?: PermissionMask | SerializedPermissionMask;
 
 	/** Resource this permission operates on (e.g., "user", "post") */
 	resource?: string;
@@ -27,6 +33,15 @@ export interface PermissionConfig {
 
 	/** Additional metadata */
 	metadata?: Record<string, any>;
+
+	/** Former names; checks and role grants using them resolve to this permission (and its bit) and are reported as deprecated */
+	renamedFrom?: string[];
+
+	/** Other names checks and role grants may use for this permission */
+	aliases?: string[];
+
+	/** Marks the permission as deprecated; a string explains what to use instead */
+	deprecated?: boolean | string;
 }
 
 /**
@@ -37,10 +52,13 @@ export interface RBACConfigOptions {
 	autoBitAssignment?: boolean;
 
 	/** Starting bit value for auto assignment (default: 1) */
-	startBitValue?: number;
+	startBitValue?: PermissionMask | SerializedPermissionMask;
 
 	/** Strict mode: throw errors on invalid operations (default: false) */
 	strictMode?: boolean;
+
+	/** Conflict resolution between allow and deny rules (default: 'deny-overrides') */
+	conflictStrategy?: ConflictStrategyName;
 }
 
 /**
@@ -53,6 +71,22 @@ export interface RBACConfigSchema {
 	/** Role definitions */
 	roles: RoleConfig[];
 
+	/** Permissions (or wildcard patterns) denied to every user, regardless of roles */
+	deny?: string[];
+
+	/**
+	 * Named permission groups, referenced from role permissions as `@name`
+	 * Members may be permissions, wildcard patterns or other groups: `{ "publishing": ["@contentEditing", "post:publish"] }`
+	 */
+	groups?: Record<string, string[]>;
+
+	/**
+	 * Permissions implied by other grants, resolved into role permissions at load time
+	 * - Action keys (no ':') apply to every resource: `{ "write": ["read"] }` makes `posts:write` imply `posts:read`
+	 * - Permission keys apply to grants they equal or match: `{ "admin:*": ["audit:read"] }`
+	 */
+	implications?: Record<string, string[]>;
+
 	/** Configuration options */
 	options?: RBACConfigOptions;
 }
@@ -67,9 +101,45 @@ export interface RBACSystemState {
 	/** Role hierarchy state */
 	hierarchy: RoleHierarchyState;
 
-	/** Configuration that generated this state */
+	/** Policy as a config (exportConfig()); permission and role descriptions are restored from it */
 	config: RBACConfigSchema;
 
+	/** Role grant conditions (role -> permission -> condition) */
+	conditions?: Record<string, Record<string, PermissionCondition>>;
+
+	/** User deny list (states written before schema 2.0.0 have none) */
+	denyList?: DenyEntry[];
+
+	/** Scoped role bindings (userId -> bindings) */
+	roleBindings?: Record<string, RoleBinding[]>;
+
+	/** Role deny rules (role -> denied permissions, excluding inherited rules) */
+	roleDenies?: Record<string, string[]>;
+
+	/** Global deny rules */
+	globalDeny?: string[];
+
+	/** Permission implication rules */
+	implications?: Record<string, string[]>;
+
+	/** Permissions each role only holds through implications (role -> implied permissions) */
+	impliedGrants?: Record<string, string[]>;
+
+	/** Permission groups each role references (role -> group names) */
+	roleGroups?: Record<string, string[]>;
+
+	/** Grants each role referencing groups declares besides its group references */
+	roleGrants?: Record<string, string[]>;
+
+	/** Roles of the string-based system (bit-based states keep them in bitPermissions) */
+	roleManager?: RoleManagerState;
+
+	/** Policy version history (present when history is enabled) */
+	history?: PolicyHistoryState;
+
+	/** State schema version (absent before 2.0.0) */
+	version?: string;
+
 	/** Timestamp */
 	timestamp: number;
 }
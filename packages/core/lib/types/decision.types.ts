@@ -0,0 +1,103 @@
+/**
+ * Decision trace types
+ *
+ * Returned by RBAC.explain() to show why a permission check was allowed or denied
+ */
+
+import type { PermissionCondition } from './condition.types';
+import type { ConflictStrategyName } from './strategy.types';
+
+/**
+ * Stage of the permission check pipeline, in evaluation order
+ */
+export type DecisionCheck =
+	| 'before-check'
+	| 'cache'
+	| 'deny-list'
+	| 'global-deny'
+	| 'role-deny'
+	| 'permission-mask'
+	| 'direct-permission'
+	| 'role'
+	| 'after-check';
+
+/**
+ * What decided the outcome
+ */
+export type DecisionSource =
+	| 'deny-list' // An explicit deny entry matched
+	| 'global-deny' // A global deny rule matched
+	| 'role-deny' // A deny rule of one of the user's roles matched
+	| 'permission-mask' // User's direct permission mask
+	| 'direct-permission' // User's direct permissions array
+	| 'role-bit' // A role's exact permission bit (bit system)
+	| 'role-permission' // A role's exact permission (legacy system)
+	| 'role-wildcard' // A wildcard pattern granted to a role
+	| 'plugin' // A beforeCheck or afterCheck plugin interceptor
+	| 'none'; // Nothing granted the permission
+
+/**
+ * Single evaluated check
+ */
+export interface DecisionStep {
+	check: DecisionCheck;
+
+	/** Whether this check matched (for 'deny-list', true means the permission is denied) */
+	matched: boolean;
+
+	/** User role being checked (for 'role-deny', the role declaring the deny rule) */
+	role?: string;
+
+	/** Role that holds the grant (the checked role itself or one of its ancestors) */
+	grantedBy?: string;
+
+	/** Grant or deny entry that matched (exact permission or wildcard pattern) */
+	pattern?: string;
+
+	/** Condition attached to the matching grant */
+	condition?: PermissionCondition;
+
+	/** Condition outcome */
+	conditionResult?: boolean;
+
+	/** Human-readable note */
+	detail?: string;
+}
+
+/**
+ * Structured explanation of a permission check
+ */
+export interface PermissionDecision {
+	userId: string;
+	permission: string;
+
+	/** Effective result, after plugin interceptors (the cached result when fromCache is true) */
+	allowed: boolean;
+
+	/** Why access was granted or denied */
+	reason: string;
+
+	/** What decided the outcome ('plugin' when an interceptor decided or overrode it, else the live evaluation) */
+	source: DecisionSource;
+
+	/** Whether hasPermission() would answer from PermissionCache */
+	fromCache: boolean;
+
+	/** User role that granted access */
+	matchedRole?: string;
+
+	/** Role holding the grant (differs from matchedRole when inherited) */
+	grantedBy?: string;
+
+	/** Grant that matched (exact permission or wildcard pattern) */
+	matchedPattern?: string;
+
+	/** Deny entry or deny rule that won */
+	deniedBy?: string;
+
+	/** Conflict strategy that resolved the decision */
+	strategy: ConflictStrategyName | 'custom';
+
+	/** Checks in evaluation order; always a fresh evaluation, even when fromCache is true */
+	steps: DecisionStep[];
+}
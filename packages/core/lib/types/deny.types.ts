@@ -0,0 +1,45 @@
+/**
+ * Deny list types
+ */
+
+/**
+ * Options for denying a permission
+ */
+export interface DenyPermissionOptions {
+	/** When the deny takes effect (epoch milliseconds or Date); immediately when omitted */
+	notBefore?: number | Date;
+
+	/** When the deny lapses (epoch milliseconds or Date); permanent when omitted */
+	expiresAt?: number | Date;
+
+	/** Why the permission was denied (kept for audits and exports) */
+	reason?: string;
+}
+
+/**
+ * Single deny list entry, as exported, imported and persisted
+ */
+export interface DenyEntry {
+	/** User the deny applies to */
+	userId: string;
+
+	/** Denied permission (exact or wildcard pattern) */
+	permission: string;
+
+	/** Start timestamp (epoch milliseconds); effective immediately when omitted */
+	notBefore?: number;
+
+	/** Expiry timestamp (epoch milliseconds); permanent when omitted */
+	expiresAt?: number;
+
+	/** Why the permission was denied */
+	reason?: string;
+}
+
+/**
+ * Options for importing deny entries
+ */
+export interface DenyImportOptions {
+	/** Replace the whole deny list instead of merging into it (default: false) */
+	replace?: boolean;
+}
@@ -0,0 +1,49 @@
+/**
+ * Time-bound grant types
+ */
+
+/**
+ * Source of the current time in epoch milliseconds (injectable for tests and simulations)
+ */
+export type Clock = () => number;
+
+/**
+ * Validity window of a time-bound grant; a missing bound leaves that side open
+ */
+export interface TimeWindow {
+	/** Grant starts at this time (epoch milliseconds or Date) */
+	notBefore?: number | Date;
+
+	/** Grant ends at this time (epoch milliseconds or Date) */
+	notAfter?: number | Date;
+}
+
+/**
+ * Permission granted to a user for a limited time (e.g. prod:deploy during an on-call shift)
+ */
+export interface TimedPermission extends TimeWindow {
+	permission: string;
+}
+
+/**
+ * Role assigned to a user for a limited time (e.g. a contractor role until the contract ends)
+ */
+export interface TimedRole extends TimeWindow {
+	role: string;
+}
+
+/**
+ * Time-bound grant or deny entry ending soon, as listed by getExpiringGrants()
+ */
+export interface ExpiringGrant {
+	userId: string;
+
+	/** Grant kind: timed permission, timed role or deny list entry */
+	type: 'permission' | 'role' | 'deny';
+
+	/** Permission or role name */
+	name: string;
+
+	/** When the grant ends (epoch milliseconds) */
+	notAfter: number;
+}
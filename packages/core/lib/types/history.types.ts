@@ -0,0 +1,86 @@
+/**
+ * Policy version history types
+ */
+
+import type { RBACSystemState } from './config.types';
+
+/**
+ * Who made a version and why
+ */
+export interface PolicyVersionInfo {
+	author?: string;
+	message?: string;
+}
+
+/**
+ * Snapshot of the policy saved with saveVersion()
+ */
+export interface PolicyVersion extends PolicyVersionInfo {
+	/** Version number (starts at 1, never reused) */
+	version: number;
+
+	/** State of the policy (without its history) */
+	state: RBACSystemState;
+
+	timestamp: number;
+}
+
+/**
+ * Policy history options
+ */
+export interface PolicyHistoryOptions {
+	/**
+	 * Number of versions kept; older ones are dropped
+	 * @default 100
+	 */
+	maxVersions?: number;
+}
+
+/**
+ * Policy history as serialized with the state
+ */
+export interface PolicyHistoryState {
+	versions: PolicyVersion[];
+
+	/** Number of the next version */
+	nextVersion: number;
+}
+
+/**
+ * Deny rule added or removed between two versions
+ * - `role`: deny rule of a role
+ * - `user`: deny entry of a user
+ * - `global`: deny rule for every user
+ */
+export interface PolicyDenyChange {
+	type: 'role' | 'user' | 'global';
+	permission: string;
+	role?: string;
+	userId?: string;
+}
+
+/**
+ * Changes between two versions of the policy
+ */
+export interface PolicyDiff {
+	/** Version compared from ('current' for the live state) */
+	from: number | 'current';
+
+	/** Version compared to ('current' for the live state) */
+	to: number | 'current';
+
+	/** Roles added or removed */
+	roles: { added: string[]; removed: string[] };
+
+	/** Direct role grants added or removed (including those of added or removed roles) */
+	permissions: {
+		added: Array<{ role: string; permission: string }>;
+		removed: Array<{ role: string; permission: string }>;
+	};
+
+	/** Role, user and global deny rules added or removed */
+	denies: { added: PolicyDenyChange[]; removed: PolicyDenyChange[] };
+
+	/** Hierarchy level changes (undefined when the role has no level) */
+	levels: Array<{ role: string; before?: number; after?: number }>;
+}
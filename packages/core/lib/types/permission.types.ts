@@ -2,6 +2,8 @@
  * Permission related types
  */
 
+import type { SerializedPermissionMask } from './utility.types';
+
 /**
  * Permission string type
  */
@@ -10,7 +12,7 @@ export type PermissionString = string;
 /**
  * Permission bit value type
  */
-export type PermissionBit = number;
+export type PermissionBit = number | bigint;
 
 /**
  * Resource type for domain-specific permissions
@@ -32,13 +34,19 @@ export type PermissionPattern = `${Resource}:${Action}`;
  */
 export interface BitPermissionState {
 	/** Permission name to bit value mapping */
-	permissions: Record<string, number>;
+	permissions: Record<string, SerializedPermissionMask>;
 
 	/** Role name to permission mask mapping */
-	roles: Record<string, number>;
+	roles: Record<string, SerializedPermissionMask>;
+
+	/** Role name to parent role names mapping (role inheritance) */
+	inherits?: Record<string, string[]>;
+
+	/** Permission group name to members mapping */
+	groups?: Record<string, string[]>;
 
 	/** Next available bit value */
-	nextBitValue: number;
+	nextBitValue: SerializedPermissionMask;
 
 	/** Timestamp of last update */
 	timestamp: number;
@@ -46,3 +54,64 @@ export interface BitPermissionState {
 	/** Version for schema migrations */
 	version: string;
 }
+
+/**
+ * Deprecated permission name (a former name, or a name of a deprecated permission)
+ */
+export interface PermissionDeprecation {
+	/** Deprecated name */
+	name: string;
+
+	/** Permission the name resolves to */
+	permission: string;
+
+	/** Warning reported when a check uses the name */
+	message: string;
+}
+
+/**
+ * Receives deprecation warnings (default: console)
+ */
+export interface DeprecationLogger {
+	warn(message: string, deprecation: PermissionDeprecation): void;
+}
+
+/**
+ * Migration step between two versions of the bit permission state
+ * Steps may rename, add or remove permissions and roles, but must keep the bit of every permission they keep
+ */
+export interface BitStateMigration {
+	from: string;
+	to: string;
+	description?: string;
+
+	/** Return the migrated state (the version is set to `to` afterwards) */
+	migrate: (state: BitPermissionState) => BitPermissionState;
+}
+
+/**
+ * Entry of the state changed by a migration
+ * `path` is a top-level field (`nextBitValue`, `version`) or a field entry (`roles.editor`, `permissions.post:read`)
+ */
+export interface BitStateChange {
+	path: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+/**
+ * What migrating a state would do (see BitPermissionManager.dryRunMigration())
+ */
+export interface BitStateMigrationReport {
+	from: string;
+	to: string;
+
+	/** Steps applied in order (empty when the state is current) */
+	steps: Array<Pick<BitStateMigration, 'from' | 'to' | 'description'>>;
+
+	/** Changed entries (timestamps excluded) */
+	changes: BitStateChange[];
+
+	/** Migrated state */
+	state: BitPermissionState;
+}
@@ -0,0 +1,193 @@
+/**
+ * Plugin hook types (payloads of the RBACPlugin lifecycle and interceptor hooks)
+ */
+
+import type { PermissionCondition } from './condition.types';
+import type { RBACSystemState } from './config.types';
+import type { DenyEntry } from './deny.types';
+import type { RoleBinding } from './scope.types';
+import type { RBACUser, RBACContext } from './user.types';
+
+/**
+ * Definition of a role at one point in time
+ */
+export interface RoleSnapshot {
+	/** Role name */
+	name: string;
+
+	/** Permissions granted directly (inherited ones not included) */
+	permissions: string[];
+
+	/** Direct parent roles */
+	inherits: string[];
+
+	/** Deny rules of the role itself */
+	deny: string[];
+
+	/** Conditions attached to direct grants */
+	conditions: Record<string, PermissionCondition>;
+}
+
+/**
+ * What changed a role
+ * - `created`: createRole()
+ * - `granted` / `revoked`: grantPermission() / revokePermission(), directly or through a group change
+ * - `inheritance`: setRoleInheritance()
+ * - `condition`: setPermissionCondition() / removePermissionCondition()
+ * - `deny`: setRoleDenies()
+ * - `evaluated`: a lazy role was registered on first use
+ */
+export type RoleChangeType = 'created' | 'granted' | 'revoked' | 'inheritance' | 'condition' | 'deny' | 'evaluated';
+
+/**
+ * Change to a role
+ */
+export interface RoleChangeEvent {
+	type: RoleChangeType;
+
+	/** Changed role */
+	role: string;
+
+	/** Permission granted or revoked, or whose condition changed */
+	permission?: string;
+
+	/** The role before the change (undefined if it did not exist) */
+	before?: RoleSnapshot;
+
+	/** The role after the change */
+	after: RoleSnapshot;
+
+	timestamp: number;
+}
+
+/**
+ * Policy stored for a user on the instance
+ */
+export interface UserSnapshot {
+	userId: string;
+
+	/** Deny entries that have not expired (for `expired` changes, `before` also lists the pruned entries) */
+	denies: DenyEntry[];
+
+	/** Scoped role bindings stored with bindRole() */
+	bindings: RoleBinding[];
+}
+
+/**
+ * What changed the policy of a user
+ * - `denied` / `allowed`: denyPermission() / allowPermission()
+ * - `cleared`: clearDeniedPermissions()
+ * - `imported`: importDenyList()
+ * - `expired`: pruneExpiredDenies()
+ * - `bound` / `unbound`: bindRole() / unbindRole()
+ */
+export type UserChangeType = 'denied' | 'allowed' | 'cleared' | 'imported' | 'expired' | 'bound' | 'unbound';
+
+/**
+ * Change to the policy stored for a user
+ */
+export interface UserChangeEvent {
+	type: UserChangeType;
+
+	userId: string;
+
+	/** Permission denied or allowed */
+	permission?: string;
+
+	/** Role bound or unbound */
+	role?: string;
+
+	before: UserSnapshot;
+	after: UserSnapshot;
+	timestamp: number;
+}
+
+/**
+ * Change to the global deny rules (addGlobalDeny() / removeGlobalDeny())
+ */
+export interface GlobalDenyChangeEvent {
+	type: 'added' | 'removed';
+	permission: string;
+	before: string[];
+	after: string[];
+	timestamp: number;
+}
+
+/**
+ * Change to the members of a permission group
+ * Roles referencing the group report what they gain or lose as `granted` / `revoked` role changes
+ */
+export interface GroupChangeEvent {
+	group: string;
+
+	/** Direct members before the change (undefined if the group did not exist) */
+	before?: string[];
+
+	after: string[];
+	timestamp: number;
+}
+
+/**
+ * The whole state was replaced (deserialize(), fromJSON(), loadFromStore() or a watched store update)
+ */
+export interface StateLoadEvent {
+	before: RBACSystemState;
+	after: RBACSystemState;
+	timestamp: number;
+}
+
+/**
+ * Changes committed by transaction(), reported as one event
+ */
+export interface TransactionEvent {
+	/** Roles the transaction created or changed */
+	roles: Array<{ role: string; before?: RoleSnapshot; after?: RoleSnapshot }>;
+
+	/** Users whose denies or role bindings the transaction changed */
+	users: Array<{ userId: string; before: UserSnapshot; after: UserSnapshot }>;
+
+	/** Global deny rules before and after the transaction */
+	globalDeny: { before: string[]; after: string[] };
+
+	before: RBACSystemState;
+	after: RBACSystemState;
+	timestamp: number;
+}
+
+/**
+ * Permission check passed to interceptor hooks
+ */
+export interface PermissionCheck {
+	/** Checked user, with scoped role bindings and time-bound grants resolved */
+	user: RBACUser;
+
+	permission: string;
+	context?: RBACContext;
+}
+
+/**
+ * Decision of a permission check
+ */
+export interface PermissionCheckResult {
+	allowed: boolean;
+
+	/** Why access was denied */
+	reason?: string;
+}
+
+/**
+ * Verdict of an interceptor hook
+ * - `allow` / `deny`: decide the check (`reason` explains a denial)
+ * - `abstain`: leave the decision to the other plugins and the policy (same as returning nothing)
+ */
+export interface PluginVerdict {
+	decision: 'allow' | 'deny' | 'abstain';
+	reason?: string;
+}
+
+/**
+ * What a check does when an interceptor hook throws
+ * - `fail-closed`: deny access
+ * - `fail-open`: ignore the failing plugin
+ */
+export type PluginFailurePolicy = 'fail-closed' | 'fail-open';
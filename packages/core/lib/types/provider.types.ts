@@ -0,0 +1,40 @@
+/**
+ * Policy provider types (role definitions, user roles and denies loaded on demand)
+ */
+
+import type { RBACUser, RBACContext, AuthorizationResult } from './user.types';
+import type { RoleConfig } from './role.types';
+import type { DenyEntry } from './deny.types';
+
+/**
+ * Loads the definition of a role that is not registered yet
+ * Returns undefined for unknown roles
+ */
+export type RoleLoader = (roleName: string) => RoleConfig | undefined | Promise<RoleConfig | undefined>;
+
+/**
+ * Source of policy data resolved during async checks (e.g. a database)
+ * Every method is optional; missing methods leave that part of the policy to the instance
+ */
+export interface PolicyProvider {
+	/** Definition of a role missing from the instance; loaded roles stay registered until providerRoleTTL passes or invalidateLoadedRoles() */
+	getRole?: RoleLoader;
+
+	/** Roles assigned to a user, added to `user.roles` for the check */
+	getUserRoles?(userId: string): string[] | undefined | Promise<string[] | undefined>;
+
+	/** Deny entries of a user, applied with the entries stored for them (never stored on the instance) */
+	getUserDenies?(userId: string): DenyEntry[] | undefined | Promise<DenyEntry[] | undefined>;
+}
+
+/**
+ * Async checks sharing provider lookups (each role, user role list and deny list is loaded once)
+ * Create one per request with `rbac.createPolicyRequest()`
+ */
+export interface PolicyRequest {
+	hasPermission(user: RBACUser, permission: string, context?: RBACContext): Promise<boolean>;
+	hasAnyPermission(user: RBACUser, permissions: string[], context?: RBACContext): Promise<boolean>;
+	hasAllPermissions(user: RBACUser, permissions: string[], context?: RBACContext): Promise<boolean>;
+	authorize(user: RBACUser, permission: string, context?: RBACContext): Promise<AuthorizationResult>;
+	getUserPermissions(user: RBACUser, context?: RBACContext): Promise<string[]>;
+}
@@ -1,4 +1,6 @@
-import type { RBACUser, RBACContext, AuthorizationResult } from '../index';
+import type { RBACUser, RBACContext, AuthorizationResult } from './user.types';
+import type { PermissionMask } from './utility.types';
+import type { DenyPermissionOptions } from './deny.types';
 
 /**
  * Common RBAC Interface
@@ -80,13 +82,14 @@ export interface IRBAC {
 
   /**
    * Get permissions for a user
+   * @param context Optional context; its scope activates matching role bindings
    */
-  getUserPermissions(user: RBACUser): string[];
+  getUserPermissions(user: RBACUser, context?: RBACContext): string[];
 
   /**
-   * Deny permission for a user
+   * Deny permission for a user (optionally until an expiry)
    */
-  denyPermission(userId: string, permission: string): void;
+  denyPermission(userId: string, permission: string, options?: DenyPermissionOptions): void;
 
   /**
    * Remove denied permission for a user
@@ -102,7 +105,7 @@ export interface IRBAC {
    * Register a new permission
    * Note: Returns bit value for RBAC, void for RBACAggregator
    */
-  registerPermission?(permissionName: string, manualBit?: number): number | void;
+  registerPermission?(permissionName: string, manualBit?: PermissionMask | string): PermissionMask | void;
 
   /**
    * Serialize RBAC state
@@ -3,6 +3,7 @@
  */
 
 import type { Role } from './user.types';
+import type { PermissionCondition } from './condition.types';
 
 /**
  * Role hierarchy level
@@ -20,12 +21,33 @@ export interface RoleHierarchyState {
 	defaultLevel: number;
 }
 
+/**
+ * Roles of the string-based system (RoleManager), as serialized
+ */
+export interface RoleManagerState {
+	/** Role name to direct permissions mapping */
+	roles: Record<string, string[]>;
+
+	/** Role name to parent role names mapping */
+	inherits: Record<string, string[]>;
+
+	/** Permission group name to members mapping */
+	groups: Record<string, string[]>;
+}
+
 /**
  * Role configuration interface
  */
 export interface RoleConfig {
 	name: Role;
+	/** Granted permissions; entries prefixed with `!` are deny rules, `@name` entries reference a permission group */
 	permissions: string[];
+	/** Parent roles whose permissions this role inherits */
+	inherits?: Role[];
+	/** Permissions (or wildcard patterns) this role denies; `"!perm"` entries in `permissions` are equivalent */
+	deny?: string[];
+	/** Conditions keyed by a permission (or wildcard pattern) from `permissions` - the grant only applies when its condition holds */
+	conditions?: Record<string, PermissionCondition>;
 	level?: RoleLevel;
 	description?: string;
 	metadata?: Record<string, any>;
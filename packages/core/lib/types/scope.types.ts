@@ -0,0 +1,34 @@
+/**
+ * Resource-scoped role binding types
+ */
+
+/**
+ * Resource a role binding applies to (e.g. project 42)
+ */
+export interface RoleScope {
+	/** Resource type (e.g. "project"); '*' in a binding matches every type */
+	type: string;
+
+	/** Resource ID; in a binding it may be a wildcard pattern ('*', 'eu-*') */
+	id: string;
+}
+
+/**
+ * Role granted to a user only within a scope
+ */
+export interface RoleBinding {
+	/** Bound role */
+	role: string;
+
+	/** Where the role applies */
+	scope: RoleScope;
+}
+
+/**
+ * Where framework adapters read the scope of a request from
+ * - `{ type, param }` takes the ID from a route parameter (e.g. `/projects/:projectId`)
+ * - A function derives the scope from the framework request
+ */
+export type ScopeSource<TRequest = unknown> =
+	| { type: string; param: string }
+	| ((request: TRequest) => RoleScope | undefined | Promise<RoleScope | undefined>);
@@ -0,0 +1,49 @@
+/**
+ * Conflict resolution types
+ *
+ * A strategy decides the outcome when allow and deny rules both match a permission
+ */
+
+import type { DecisionSource } from './decision.types';
+
+/**
+ * Built-in conflict resolution strategies
+ * - 'deny-overrides': any matching deny wins (default)
+ * - 'allow-overrides': any matching allow wins
+ * - 'first-applicable': the first matching rule in evaluation order wins
+ * - 'most-specific': the most specific matching pattern wins; ties go to deny
+ */
+export type ConflictStrategyName = 'deny-overrides' | 'allow-overrides' | 'first-applicable' | 'most-specific';
+
+/**
+ * Rule that matched a permission
+ */
+export interface MatchedRule {
+	effect: 'allow' | 'deny';
+
+	/** Where the rule comes from */
+	source: Exclude<DecisionSource, 'none'>;
+
+	/** Entry that matched (exact permission or wildcard pattern) */
+	pattern: string;
+
+	/** User role the rule applies through */
+	role?: string;
+
+	/** Role declaring the rule (the user role itself or one of its ancestors) */
+	grantedBy?: string;
+
+	/** RBACAggregator domain that produced the rule */
+	domain?: string;
+}
+
+/**
+ * Custom strategy: receives the matched rules in evaluation order and returns the winner
+ * Returning undefined denies the permission
+ */
+export type CustomConflictStrategy = (rules: MatchedRule[], permission: string) => MatchedRule | undefined;
+
+/**
+ * Conflict resolution strategy (built-in name or custom function)
+ */
+export type ConflictStrategy = ConflictStrategyName | CustomConflictStrategy;
@@ -2,6 +2,13 @@
  * User and role related types
  */
 
+import type { PermissionMask } from './utility.types';
+import type { AttributeMap } from './condition.types';
+import type { RoleBinding, RoleScope } from './scope.types';
+import type { TimedPermission, TimedRole } from './grant.types';
+
+export type { PermissionMask };
+
 /**
  * User role type - completely generic (any string)
  * No hardcoded roles for maximum flexibility
@@ -13,11 +20,6 @@ export type UserRole = string;
  */
 export type Role = string;
 
-/**
- * Permission mask type (combination of permission bits)
- */
-export type PermissionMask = number;
-
 /**
  * User interface for RBAC context
  */
@@ -26,6 +28,11 @@ export interface RBACUser {
 	roles: UserRole[];
 	permissions?: string[];
 	permissionMask?: PermissionMask; // Bit-based permission mask
+	attributes?: AttributeMap; // User attributes for condition evaluation (ABAC)
+	roleBindings?: RoleBinding[]; // Roles held only within a scope (e.g. editor of project 42)
+	tenantId?: string; // Tenant the user belongs to (TenantRBAC)
+	timedPermissions?: TimedPermission[]; // Permissions granted only within a time window
+	timedRoles?: TimedRole[]; // Roles assigned only within a time window
 }
 
 /**
@@ -36,6 +43,10 @@ export interface RBACContext {
 	resource?: string;
 	action?: string;
 	permission?: string; // Added for direct permission checks in middleware context
+	resourceAttributes?: AttributeMap; // Attributes of the accessed resource (ABAC)
+	environment?: AttributeMap; // Request environment, e.g. time or IP (ABAC)
+	scope?: RoleScope; // Resource the check applies to; activates matching role bindings
+	tenantId?: string; // Tenant the check applies to (TenantRBAC)
 }
 
 /**
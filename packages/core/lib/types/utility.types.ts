@@ -15,13 +15,20 @@ export type WithMetadata<T> = T & {
 export const enum PermissionCheckType {
 	PERMISSION_CHECK = 'permission_check',
 	AUTHORIZATION = 'authorization',
-	ROLE_CHECK = 'role_check'
+	ROLE_CHECK = 'role_check',
+	DEPRECATED_PERMISSION = 'deprecated_permission'
 }
 
 /**
  * Permission mask type alias
+ * Masks that fit in 31 bits are numbers; larger masks are BigInts
  */
-export type PermissionMask = number;
+export type PermissionMask = number | bigint;
+
+/**
+ * Permission mask as stored in JSON state (large masks are hex strings, e.g. "0x100000000")
+ */
+export type SerializedPermissionMask = number | string;
 
 /**
  * Utility type for extracting permission resource and action
@@ -0,0 +1,127 @@
+/**
+ * Storage backends for PermissionCache
+ * Sync stores back the checks themselves; async stores share results between processes
+ */
+
+import type { CacheEntry } from './permission-cache';
+
+/**
+ * Synchronous cache storage (the tier hasPermission() reads from)
+ */
+export interface PermissionCacheStore {
+  /** Get an entry, marking it as recently used */
+  get(key: string): CacheEntry | undefined;
+
+  /** Get an entry without marking it as recently used */
+  peek?(key: string): CacheEntry | undefined;
+
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): boolean;
+  entries(): IterableIterator<[string, CacheEntry]>;
+  clear(): void;
+  readonly size: number;
+}
+
+/**
+ * Asynchronous cache storage shared between processes (e.g. Redis)
+ */
+export interface AsyncPermissionCacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+
+  /**
+   * Store an entry
+   * @param ttl Time to live in milliseconds
+   */
+  set(key: string, entry: CacheEntry, ttl: number): Promise<void>;
+
+  delete(keys: string[]): Promise<void>;
+
+  /**
+   * Get stored entries
+   * @param userId Only entries of this user are needed (stores may return more)
+   */
+  entries(userId?: string): Promise<Array<[string, CacheEntry]>>;
+
+  /** Delete every entry of a user without reading it; stores without it are read with entries(userId) */
+  deleteUser?(userId: string): Promise<void>;
+
+  /** Delete every entry depending on a role without reading the store; stores without it are read with entries() */
+  deleteRole?(role: string): Promise<void>;
+
+  clear(): Promise<void>;
+}
+
+/**
+ * Invalidation broadcast to every process sharing a cache
+ */
+export type CacheInvalidation = (
+  | { type: 'user'; userId: string; permission?: string }
+  | { type: 'permission'; permission: string }
+  | { type: 'role'; role: string }
+  | { type: 'pattern'; pattern: string; userId?: string }
+  | { type: 'clear' }
+) & {
+  /** Id of the PermissionCache that sent the message */
+  origin: string;
+};
+
+/**
+ * Pub/sub channel carrying invalidations between processes
+ */
+export interface CacheInvalidationChannel {
+  publish(message: CacheInvalidation): void | Promise<void>;
+  subscribe(handler: (message: CacheInvalidation) => void): void;
+}
+
+/**
+ * Default in-memory store with LRU eviction
+ */
+export class MemoryCacheStore implements PermissionCacheStore {
+  private cache: Map<string, CacheEntry> = new Map();
+  private maxSize: number;
+
+  constructor(maxSize: number = 1000) {
+    this.maxSize = maxSize;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (entry) {
+      // Move to end (LRU)
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  peek(key: string): CacheEntry | undefined {
+    return this.cache.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    // If cache is full, remove oldest entry (first entry in Map)
+    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey) {
+        this.cache.delete(firstKey);
+      }
+    }
+    this.cache.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.cache.delete(key);
+  }
+
+  entries(): IterableIterator<[string, CacheEntry]> {
+    return this.cache.entries();
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * JSON file store for RBAC state (Node.js only)
+ * Node modules are imported on first use, so importing the package stays safe in browsers
+ */
+
+import type { FSWatcher } from 'fs';
+import type { RBACSystemState } from '../types/config.types';
+import type { RBACStore, RBACStoreListener } from './rbac-store';
+
+export interface FileRBACStoreOptions {
+  /** Path of the JSON file */
+  path: string;
+
+  /**
+   * Indentation of the written JSON (0 writes it on one line)
+   * @default 2
+   */
+  indent?: number;
+
+  /**
+   * Delay before a change seen by watch() is read, to coalesce bursts of file events
+   * @default 50
+   */
+  watchDelay?: number;
+}
+
+/**
+ * Keeps the state in a JSON file
+ * Writes are atomic: the state goes to a temporary file that then replaces the old one,
+ * so readers never see a partially written file
+ */
+export class FileRBACStore implements RBACStore {
+  private path: string;
+  private indent: number;
+  private watchDelay: number;
+
+  constructor(options: FileRBACStoreOptions) {
+    this.path = options.path;
+    this.indent = options.indent ?? 2;
+    this.watchDelay = options.watchDelay ?? 50;
+  }
+
+  async load(): Promise<RBACSystemState | undefined> {
+    const { promises: fs } = await import('fs');
+
+    let json: string;
+    try {
+      json = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(json) as RBACSystemState;
+    } catch (error) {
+      throw new Error(`Invalid RBAC state in ${this.path}: ${(error as Error).message}`);
+    }
+  }
+
+  async save(state: RBACSystemState): Promise<void> {
+    const [{ promises: fs }, path] = await Promise.all([import('fs'), import('path')]);
+    const tempPath = `${this.path}.${Date.now().toString(36)}${Math.random().toString(36).slice(2)}.tmp`;
+
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(state, null, this.indent), 'utf8');
+    try {
+      await fs.rename(tempPath, this.path);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Watch the file for states written by other processes
+   * The directory is watched rather than the file, since every save replaces the file
+   */
+  watch(listener: RBACStoreListener): () => void {
+    let watcher: FSWatcher | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const reload = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.load()
+          .then(state => {
+            if (state && !stopped) listener(state);
+          })
+          .catch(error => console.warn('FileRBACStore watch error:', error));
+      }, this.watchDelay);
+    };
+
+    Promise.all([import('fs'), import('path')])
+      .then(([fs, path]) => {
+        if (stopped) return;
+        const fileName = path.basename(this.path);
+        watcher = fs.watch(path.dirname(this.path), (_event, changed) => {
+          if (changed === null || changed.toString() === fileName) reload();
+        });
+      })
+      .catch(error => console.warn('FileRBACStore watch error:', error));
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      watcher?.close();
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import type { PermissionMask } from '../types/utility.types';
+
 /**
  * Memory Optimizer for RBAC
  * Reduces memory footprint for large permission sets through string interning and caching
@@ -8,7 +10,7 @@ export class MemoryOptimizer {
   private stringPool: Map<string, string> = new Map();
 
   // Cached permission masks for roles (role name -> bit mask)
-  private roleMaskCache: Map<string, number> = new Map();
+  private roleMaskCache: Map<string, PermissionMask> = new Map();
 
   // Wildcard pattern cache (pattern -> RegExp)
   private wildcardPatternCache: Map<string, RegExp> = new Map();
@@ -47,14 +49,14 @@ export class MemoryOptimizer {
   /**
    * Cache a role's computed permission mask
    */
-  cacheRoleMask(roleName: string, mask: number): void {
+  cacheRoleMask(roleName: string, mask: PermissionMask): void {
     this.roleMaskCache.set(roleName, mask);
   }
 
   /**
    * Get cached role mask
    */
-  getRoleMask(roleName: string): number | undefined {
+  getRoleMask(roleName: string): PermissionMask | undefined {
     const mask = this.roleMaskCache.get(roleName);
     if (mask !== undefined) {
       this.stats.cacheHits++;
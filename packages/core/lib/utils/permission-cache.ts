@@ -3,6 +3,16 @@
  * Uses LRU (Least Recently Used) eviction policy
  */
 
+import { WildcardMatcher } from './wildcard-matcher';
+import {
+  MemoryCacheStore,
+  type AsyncPermissionCacheStore,
+  type CacheInvalidation,
+  type CacheInvalidationChannel,
+  type PermissionCacheStore,
+} from './cache-store';
+import type { Clock } from '../types/grant.types';
+
 export interface PermissionCacheOptions {
   /**
    * Maximum number of entries in the cache
@@ -21,9 +31,47 @@ export interface PermissionCacheOptions {
    * @default false
    */
   enableStats?: boolean;
+
+  /**
+   * Local storage checked synchronously (maxSize only applies to the default store)
+   * @default MemoryCacheStore
+   */
+  store?: PermissionCacheStore;
+
+  /**
+   * Shared second-tier store (e.g. RedisCacheStore), consulted by prefetch() and written through on set()
+   */
+  sharedStore?: AsyncPermissionCacheStore;
+
+  /**
+   * Channel broadcasting invalidations to the caches of other processes
+   */
+  invalidationChannel?: CacheInvalidationChannel;
+
+  /**
+   * Current time in epoch milliseconds (RBAC passes its own clock)
+   * @default Date.now
+   */
+  clock?: Clock;
 }
 
-export interface CacheEntry {
+/**
+ * What a cached result was derived from, so policy changes can evict it
+ */
+export interface CacheDependencies {
+  /** Roles the result depends on (the user's roles and their ancestors) */
+  roles?: string[];
+
+  /** Fingerprint of the user's roles and direct grants; lookups with another fingerprint miss */
+  fingerprint?: string;
+
+  /** When the result stops being valid, before the TTL (e.g. a time-bound grant ends) */
+  expiresAt?: number;
+}
+
+export interface CacheEntry extends CacheDependencies {
+  userId: string;
+  permission: string;
   result: boolean;
   timestamp: number;
   hits: number;
@@ -37,20 +85,35 @@ export interface CacheStats {
 }
 
 export class PermissionCache {
-  private cache: Map<string, CacheEntry>;
-  private maxSize: number;
+  private cache: PermissionCacheStore;
+  private sharedStore?: AsyncPermissionCacheStore;
+  private channel?: CacheInvalidationChannel;
   private ttl: number;
   private enableStats: boolean;
+  private clock: Clock;
+
+  // Identifies this cache's own messages on the invalidation channel
+  private readonly id: string = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private pending: Set<Promise<void>> = new Set();
 
   // Statistics
   private hits: number = 0;
   private misses: number = 0;
 
   constructor(options: PermissionCacheOptions = {}) {
-    this.cache = new Map();
-    this.maxSize = options.maxSize ?? 1000;
+    this.cache = options.store ?? new MemoryCacheStore(options.maxSize ?? 1000);
+    this.sharedStore = options.sharedStore;
+    this.channel = options.invalidationChannel;
     this.ttl = options.ttl ?? 60000; // 1 minute default
     this.enableStats = options.enableStats ?? false;
+    this.clock = options.clock ?? (() => Date.now());
+
+    // Apply invalidations from other processes to the local store only (the sender handles the shared store)
+    this.channel?.subscribe(message => {
+      if (message.origin !== this.id) {
+        this.invalidateLocal(PermissionCache.matcher(message));
+      }
+    });
   }
 
   /**
@@ -64,13 +127,62 @@ export class PermissionCache {
    * Check if cache entry is expired
    */
   private isExpired(entry: CacheEntry): boolean {
-    return Date.now() - entry.timestamp > this.ttl;
+    const now = this.clock();
+    return now - entry.timestamp > this.ttl || (entry.expiresAt !== undefined && entry.expiresAt <= now);
+  }
+
+  /**
+   * Check if an entry was computed for a different user shape (roles or direct grants changed)
+   */
+  private isMismatch(entry: CacheEntry, fingerprint?: string): boolean {
+    return fingerprint !== undefined && entry.fingerprint !== undefined && entry.fingerprint !== fingerprint;
+  }
+
+  /**
+   * Whether a shared store is configured
+   */
+  hasSharedStore(): boolean {
+    return this.sharedStore !== undefined;
+  }
+
+  /**
+   * Copy a result from the shared store into the local store, so the next get() hits
+   * Does not touch statistics; resolves to whether a usable entry was found
+   */
+  async prefetch(userId: string, permission: string, fingerprint?: string): Promise<boolean> {
+    if (!this.sharedStore || this.peek(userId, permission, fingerprint) !== undefined) {
+      return false;
+    }
+
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.sharedStore.get(this.generateKey(userId, permission));
+    } catch (error) {
+      console.warn('Shared permission cache read failed:', error);
+      return false;
+    }
+
+    if (!entry || this.isExpired(entry) || this.isMismatch(entry, fingerprint)) {
+      return false;
+    }
+    this.cache.set(this.generateKey(userId, permission), { ...entry, hits: 0 });
+    return true;
+  }
+
+  /**
+   * Wait for pending shared store writes and invalidations
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
   }
 
   /**
    * Get cached permission check result
+   * @param fingerprint When given, entries stored with another fingerprint are treated as misses
    */
-  get(userId: string, permission: string): boolean | undefined {
+  get(userId: string, permission: string, fingerprint?: string): boolean | undefined {
     const key = this.generateKey(userId, permission);
     const entry = this.cache.get(key);
 
@@ -79,73 +191,187 @@ export class PermissionCache {
       return undefined;
     }
 
-    // Check if expired
-    if (this.isExpired(entry)) {
+    // Check if expired or computed for other roles
+    if (this.isExpired(entry) || this.isMismatch(entry, fingerprint)) {
       this.cache.delete(key);
       if (this.enableStats) this.misses++;
       return undefined;
     }
 
-    // Update hit count and move to end (LRU)
+    // Update hit count (the store already moved it to the end for LRU)
     entry.hits++;
-    this.cache.delete(key);
-    this.cache.set(key, entry);
 
     if (this.enableStats) this.hits++;
     return entry.result;
   }
 
   /**
-   * Set permission check result in cache
+   * Read a cached result without touching LRU order or statistics
    */
-  set(userId: string, permission: string, result: boolean): void {
+  peek(userId: string, permission: string, fingerprint?: string): boolean | undefined {
     const key = this.generateKey(userId, permission);
-
-    // If cache is full, remove oldest entry (first entry in Map)
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
+    const entry = this.cache.peek ? this.cache.peek(key) : this.cache.get(key);
+    if (!entry || this.isExpired(entry) || this.isMismatch(entry, fingerprint)) {
+      return undefined;
     }
+    return entry.result;
+  }
 
-    this.cache.set(key, {
+  /**
+   * Set permission check result in cache
+   * @param dependencies Roles and user fingerprint the result was derived from
+   */
+  set(userId: string, permission: string, result: boolean, dependencies: CacheDependencies = {}): void {
+    const key = this.generateKey(userId, permission);
+    const entry: CacheEntry = {
+      userId,
+      permission,
       result,
-      timestamp: Date.now(),
-      hits: 0
-    });
+      timestamp: this.clock(),
+      hits: 0,
+      ...dependencies
+    };
+
+    this.cache.set(key, entry);
+    if (this.sharedStore) {
+      const store = this.sharedStore;
+      const ttl = entry.expiresAt === undefined ? this.ttl : Math.min(this.ttl, entry.expiresAt - entry.timestamp);
+      this.track(() => store.set(key, entry, ttl), 'write');
+    }
   }
 
   /**
    * Invalidate cache entry for specific user and permission
    */
   invalidate(userId: string, permission?: string): void {
-    if (permission) {
-      const key = this.generateKey(userId, permission);
-      this.cache.delete(key);
-    } else {
-      // Invalidate all entries for user
-      const keysToDelete: string[] = [];
-      for (const key of this.cache.keys()) {
-        if (key.startsWith(`${userId}:`)) {
-          keysToDelete.push(key);
-        }
-      }
-      keysToDelete.forEach(key => this.cache.delete(key));
-    }
+    this.broadcast({ type: 'user', userId, permission, origin: this.id });
   }
 
   /**
    * Invalidate all cache entries for a specific permission
    */
   invalidatePermission(permission: string): void {
+    this.broadcast({ type: 'permission', permission, origin: this.id });
+  }
+
+  /**
+   * Invalidate all entries that depend on a role (directly or through inheritance)
+   * @returns Number of local entries removed
+   */
+  invalidateRole(role: string): number {
+    return this.broadcast({ type: 'role', role, origin: this.id });
+  }
+
+  /**
+   * Invalidate all entries whose permission matches a pattern (exact or wildcard)
+   * @param userId Only invalidate entries of this user
+   * @returns Number of local entries removed
+   */
+  invalidatePattern(pattern: string, userId?: string): number {
+    return this.broadcast({ type: 'pattern', pattern, userId, origin: this.id });
+  }
+
+  /**
+   * Invalidate all entries matching a predicate
+   * Applies to the local and shared stores; predicates cannot be broadcast to other processes
+   * @returns Number of local entries removed
+   */
+  invalidateWhere(predicate: (entry: CacheEntry) => boolean): number {
+    const removed = this.invalidateLocal(predicate);
+    if (this.sharedStore) {
+      const store = this.sharedStore;
+      this.track(async () => {
+        const keys = (await store.entries()).filter(([, entry]) => predicate(entry)).map(([key]) => key);
+        await store.delete(keys);
+      }, 'invalidation');
+    }
+    return removed;
+  }
+
+  /**
+   * Apply an invalidation locally, in the shared store and in every subscribed process
+   */
+  private broadcast(message: CacheInvalidation): number {
+    const removed = this.invalidateLocal(PermissionCache.matcher(message));
+    this.invalidateShared(message);
+    this.publish(message);
+    return removed;
+  }
+
+  /**
+   * Evict the entries an invalidation covers from the shared store
+   * User and role invalidations delete by key or index where the store supports it, instead of reading every entry
+   */
+  private invalidateShared(message: CacheInvalidation): void {
+    if (!this.sharedStore) return;
+    const store = this.sharedStore;
+    this.track(async () => {
+      if (message.type === 'user' && message.permission !== undefined) {
+        await store.delete([this.generateKey(message.userId, message.permission)]);
+      } else if (message.type === 'user' && store.deleteUser) {
+        await store.deleteUser(message.userId);
+      } else if (message.type === 'role' && store.deleteRole) {
+        await store.deleteRole(message.role);
+      } else {
+        const predicate = PermissionCache.matcher(message);
+        const userId = message.type === 'user' || message.type === 'pattern' ? message.userId : undefined;
+        const keys = (await store.entries(userId)).filter(([, entry]) => predicate(entry)).map(([key]) => key);
+        await store.delete(keys);
+      }
+    }, 'invalidation');
+  }
+
+  private publish(message: CacheInvalidation): void {
+    if (this.channel) {
+      const channel = this.channel;
+      this.track(async () => channel.publish(message), 'invalidation');
+    }
+  }
+
+  private invalidateLocal(predicate: (entry: CacheEntry) => boolean): number {
     const keysToDelete: string[] = [];
-    for (const key of this.cache.keys()) {
-      if (key.endsWith(`:${permission}`)) {
+    for (const [key, entry] of this.cache.entries()) {
+      if (predicate(entry)) {
         keysToDelete.push(key);
       }
     }
     keysToDelete.forEach(key => this.cache.delete(key));
+    return keysToDelete.length;
+  }
+
+  /**
+   * Predicate selecting the entries an invalidation message covers
+   */
+  private static matcher(message: CacheInvalidation): (entry: CacheEntry) => boolean {
+    switch (message.type) {
+      case 'user':
+        return entry => entry.userId === message.userId &&
+          (message.permission === undefined || entry.permission === message.permission);
+      case 'permission':
+        return entry => entry.permission === message.permission;
+      case 'role':
+        return entry => entry.roles?.includes(message.role) ?? false;
+      case 'pattern':
+        return entry => (message.userId === undefined || entry.userId === message.userId) &&
+          WildcardMatcher.matches(entry.permission, message.pattern);
+      case 'clear':
+        return () => true;
+    }
+  }
+
+  /**
+   * Run a shared store or channel operation in the background; failures are logged, never thrown
+   */
+  private track(operation: () => Promise<void>, kind: 'write' | 'invalidation'): void {
+    const promise = Promise.resolve()
+      .then(operation)
+      .catch(error => {
+        console.warn(`Shared permission cache ${kind} failed:`, error);
+      })
+      .finally(() => {
+        this.pending.delete(promise);
+      });
+    this.pending.add(promise);
   }
 
   /**
@@ -153,6 +379,11 @@ export class PermissionCache {
    */
   clear(): void {
     this.cache.clear();
+    if (this.sharedStore) {
+      const store = this.sharedStore;
+      this.track(() => store.clear(), 'invalidation');
+    }
+    this.publish({ type: 'clear', origin: this.id });
     if (this.enableStats) {
       this.hits = 0;
       this.misses = 0;
@@ -213,6 +444,6 @@ export class PermissionCache {
    * Get all cache entries (for debugging)
    */
   getEntries(): Map<string, CacheEntry> {
-    return new Map(this.cache);
+    return new Map(this.cache.entries());
   }
 }
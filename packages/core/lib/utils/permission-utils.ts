@@ -4,6 +4,8 @@
 
 import { WildcardMatcher } from './wildcard-matcher';
 import type { RBAC } from '../index';
+import type { RBACContext } from '../types/user.types';
+import type { RoleScope, ScopeSource } from '../types/scope.types';
 
 /**
  * Check if permission matches pattern (including wildcards)
@@ -28,6 +30,48 @@ export function parsePermission(permission: string): { resource: string; action:
 	return { resource, action };
 }
 
+/**
+ * Split a role permission list into grants and negative grants ("!billing:refund")
+ */
+export function splitDenyRules(permissions: string[]): { grants: string[]; denies: string[] } {
+	const grants: string[] = [];
+	const denies: string[] = [];
+
+	for (const permission of permissions) {
+		if (permission.startsWith('!')) {
+			denies.push(permission.slice(1));
+		} else {
+			grants.push(permission);
+		}
+	}
+
+	return { grants, denies };
+}
+
+/**
+ * Resolve the scope of a request for framework adapters
+ * @param getParam Reads a route parameter from the request
+ */
+export async function resolveScope<TRequest>(
+	source: ScopeSource<TRequest> | undefined,
+	request: TRequest,
+	getParam: (name: string) => string | undefined
+): Promise<RoleScope | undefined> {
+	if (!source) return undefined;
+	if (typeof source === 'function') return source(request);
+
+	const id = getParam(source.param);
+	return id ? { type: source.type, id } : undefined;
+}
+
+/**
+ * Add a request scope to a context (an explicit context.scope wins)
+ */
+export function withScope(context: RBACContext | undefined, scope: RoleScope | undefined): RBACContext | undefined {
+	if (!scope || context?.scope) return context;
+	return { ...context, scope };
+}
+
 /**
  * Check if a user has a specific permission (convenience function)
  */
@@ -0,0 +1,79 @@
+import type { PolicyProvider } from '../types/provider.types';
+import type { RoleConfig } from '../types/role.types';
+import type { DenyEntry } from '../types/deny.types';
+
+/**
+ * Initial data of an InMemoryPolicyProvider
+ */
+export interface InMemoryPolicyData {
+  roles?: RoleConfig[];
+  userRoles?: Record<string, string[]>;
+  denies?: DenyEntry[];
+}
+
+/**
+ * PolicyProvider keeping its data in memory
+ * Answers asynchronously like a database would; useful for tests and prototypes
+ *
+ * Example usage:
+ * ```typescript
+ * const provider = new InMemoryPolicyProvider({
+ *   roles: [{ name: 'editor', permissions: ['post:*'] }],
+ *   userRoles: { alice: ['editor'] }
+ * });
+ *
+ * const rbac = new RBAC({ policyProvider: provider });
+ * await rbac.hasPermissionAsync({ id: 'alice', roles: [] }, 'post:write'); // true
+ * ```
+ */
+export class InMemoryPolicyProvider implements PolicyProvider {
+  private roles: Map<string, RoleConfig> = new Map();
+  private userRoles: Map<string, string[]> = new Map();
+  private denies: Map<string, DenyEntry[]> = new Map();
+
+  constructor(data: InMemoryPolicyData = {}) {
+    data.roles?.forEach(role => this.setRole(role));
+    Object.entries(data.userRoles ?? {}).forEach(([userId, roles]) => this.setUserRoles(userId, roles));
+    data.denies?.forEach(entry => this.addDeny(entry));
+  }
+
+  async getRole(roleName: string): Promise<RoleConfig | undefined> {
+    return this.roles.get(roleName);
+  }
+
+  async getUserRoles(userId: string): Promise<string[] | undefined> {
+    return this.userRoles.get(userId);
+  }
+
+  async getUserDenies(userId: string): Promise<DenyEntry[]> {
+    return this.denies.get(userId) ?? [];
+  }
+
+  /**
+   * Define (or replace) a role
+   */
+  setRole(role: RoleConfig): void {
+    this.roles.set(role.name, role);
+  }
+
+  /**
+   * Replace the roles assigned to a user
+   */
+  setUserRoles(userId: string, roles: string[]): void {
+    this.userRoles.set(userId, roles);
+  }
+
+  /**
+   * Add a deny entry
+   */
+  addDeny(entry: DenyEntry): void {
+    this.denies.set(entry.userId, [...(this.denies.get(entry.userId) ?? []), entry]);
+  }
+
+  /**
+   * Remove every deny entry of a user
+   */
+  clearDenies(userId: string): void {
+    this.denies.delete(userId);
+  }
+}
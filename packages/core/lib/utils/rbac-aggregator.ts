@@ -1,5 +1,8 @@
 import { RBAC, type RBACUser, type RBACContext, type AuthorizationResult } from '../index';
 import type { IRBAC } from '../types/rbac.interface';
+import type { DenyPermissionOptions } from '../types/deny.types';
+import type { ConflictStrategy, MatchedRule } from '../types/strategy.types';
+import { ConflictResolver } from '../core/conflict-resolver';
 
 /**
  * Domain identifier for RBAC aggregation
@@ -39,6 +42,12 @@ export interface RBACAggregatorOptions {
    * Cache RBAC instances after creation (lazy loading)
    */
   cache?: boolean;
+
+  /**
+   * How domain results are combined (default: 'allow-overrides', the first granting domain wins)
+   * Other strategies also weigh explicit denies (deny list, global and role deny rules) from each domain
+   */
+  conflictStrategy?: ConflictStrategy;
 }
 
 /**
@@ -72,7 +81,7 @@ export interface AggregatedPermissionResult {
 /**
  * RBACAggregator - Manage multiple RBAC instances
  * 
- * This utility helps handle: 31 permission limit by allowing you to:
+ * This utility helps split a large policy into independent domains by allowing you to:
  * - Create multiple RBAC instances for different domains (users, posts, admin, etc.)
  * - Check permissions across all instances with a single unified API
  * - Lazy load RBAC instances (created only when needed)
@@ -99,11 +108,13 @@ export class RBACAggregator implements IRBAC {
   private instances: Map<RBACDomain, RBAC | FactoryWrapper> = new Map();
   private defaultDomain: RBACDomain;
   private cache: boolean;
+  private conflictResolver: ConflictResolver;
 
   private constructor(options: RBACAggregatorOptions = {}) {
     this.instances = new Map(options.instances || []);
     this.defaultDomain = options.defaultDomain || 'default';
     this.cache = options.cache !== false;
+    this.conflictResolver = new ConflictResolver(options.conflictStrategy ?? 'allow-overrides');
   }
 
   /**
@@ -206,11 +217,11 @@ export class RBACAggregator implements IRBAC {
    * 
    * @param user User to check
    * @param permission Permission to check
-   * @param context Optional RBAC context (ignored, for IRBAC compatibility)
+   * @param context Optional RBAC context (passed to each domain for condition evaluation)
    * @returns Whether user has permission in any domain
    */
-  hasPermission(user: RBACUser, permission: string, _context?: RBACContext): boolean {
-    const result = this.hasPermissionWithDetails(user, permission);
+  hasPermission(user: RBACUser, permission: string, context?: RBACContext): boolean {
+    const result = this.hasPermissionWithDetails(user, permission, undefined, context);
     return result.allowed;
   }
 
@@ -228,9 +239,13 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permission: string,
     domains?: RBACDomain[],
-    _context?: RBACContext
+    context?: RBACContext
   ): AggregatedPermissionResult {
     const domainsToCheck = domains || this.getDomains();
+    if (this.conflictResolver.name !== 'allow-overrides') {
+      return this.resolveDomains(user, permission, domainsToCheck, context);
+    }
+
     const checked: RBACDomain[] = [];
 
     // Try to find: domain that approves to permission
@@ -239,7 +254,7 @@ export class RBACAggregator implements IRBAC {
       if (!rbac) continue;
 
       try {
-        const allowed = rbac.hasPermission(user, permission);
+        const allowed = rbac.hasPermission(user, permission, context);
         checked.push(domain);
 
         if (allowed) {
@@ -278,11 +293,11 @@ export class RBACAggregator implements IRBAC {
    * 
    * @param user User to authorize
    * @param permission Permission to check
-   * @param context Optional RBAC context (ignored, for IRBAC compatibility)
+   * @param context Optional RBAC context (passed to each domain for condition evaluation)
    * @returns Authorization result
    */
-  authorize(user: RBACUser, permission: string, _context?: RBACContext): AuthorizationResult {
-    const result = this.authorizeWithDetails(user, permission);
+  authorize(user: RBACUser, permission: string, context?: RBACContext): AuthorizationResult {
+    const result = this.authorizeWithDetails(user, permission, undefined, context);
     
     if (result.result) {
       return result.result;
@@ -309,9 +324,13 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permission: string,
     domains?: RBACDomain[],
-    _context?: RBACContext
+    context?: RBACContext
   ): AggregatedPermissionResult {
     const domainsToCheck = domains || this.getDomains();
+    if (this.conflictResolver.name !== 'allow-overrides') {
+      return this.resolveDomains(user, permission, domainsToCheck, context);
+    }
+
     const checked: RBACDomain[] = [];
 
     // Try to find: domain that approves to permission
@@ -320,7 +339,7 @@ export class RBACAggregator implements IRBAC {
       if (!rbac) continue;
 
       try {
-        const result = rbac.authorize(user, permission);
+        const result = rbac.authorize(user, permission, context);
         checked.push(domain);
 
         if (result.allowed) {
@@ -351,6 +370,73 @@ export class RBACAggregator implements IRBAC {
     };
   }
 
+  /**
+   * Combine domain results with the conflict strategy
+   * Each domain contributes the rule that decided its own result (domains granting nothing are skipped);
+   * domains are evaluated with explain(), so they neither use their cache nor emit audit events
+   */
+  private resolveDomains(
+    user: RBACUser,
+    permission: string,
+    domains: RBACDomain[],
+    context?: RBACContext
+  ): AggregatedPermissionResult {
+    const checked: RBACDomain[] = [];
+    const rules: MatchedRule[] = [];
+    const reasons = new Map<RBACDomain, string>();
+
+    for (const domain of domains) {
+      const rbac = this.getRBAC(domain);
+      if (!rbac) continue;
+
+      try {
+        const decision = rbac.explain(user, permission, context);
+        const source = decision.source;
+        checked.push(domain);
+        if (source === 'none') continue;
+
+        reasons.set(domain, decision.reason);
+        rules.push({
+          effect: source === 'plugin'
+            ? (decision.allowed ? 'allow' : 'deny')
+            : source === 'deny-list' || source === 'global-deny' || source === 'role-deny' ? 'deny' : 'allow',
+          source,
+          pattern: decision.deniedBy ?? decision.matchedPattern ?? permission,
+          role: decision.matchedRole,
+          grantedBy: decision.grantedBy,
+          domain,
+        });
+      } catch (error) {
+        console.error(`[RBACAggregator] Error checking permission '${permission}' in domain '${domain}':`, error);
+        checked.push(domain);
+      }
+    }
+
+    const winner = this.conflictResolver.resolve(rules, permission);
+    if (winner?.domain === undefined) {
+      return {
+        domain: this.defaultDomain,
+        allowed: false,
+        result: { allowed: false, reason: `Permission '${permission}' not granted in any checked domain`, user },
+        checked
+      };
+    }
+
+    const allowed = winner.effect === 'allow';
+    return {
+      domain: winner.domain,
+      allowed,
+      result: {
+        allowed,
+        reason: allowed
+          ? reasons.get(winner.domain)
+          : `Permission '${permission}' denied in domain '${winner.domain}': ${reasons.get(winner.domain)}`,
+        user
+      },
+      checked
+    };
+  }
+
   /**
    * Check if user has permission in specific domain
    * 
@@ -364,7 +450,7 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permission: string,
     domain?: RBACDomain,
-    _context?: RBACContext
+    context?: RBACContext
   ): boolean {
     const targetDomain = domain || this.defaultDomain;
     const rbac = this.getRBAC(targetDomain);
@@ -373,7 +459,7 @@ export class RBACAggregator implements IRBAC {
       return false;
     }
 
-    return rbac.hasPermission(user, permission);
+    return rbac.hasPermission(user, permission, context);
   }
 
   /**
@@ -389,7 +475,7 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permission: string,
     domain?: RBACDomain,
-    _context?: RBACContext
+    context?: RBACContext
   ): AuthorizationResult | null {
     const targetDomain = domain || this.defaultDomain;
     const rbac = this.getRBAC(targetDomain);
@@ -399,7 +485,7 @@ export class RBACAggregator implements IRBAC {
     }
 
     try {
-      return rbac.authorize(user, permission);
+      return rbac.authorize(user, permission, context);
     } catch (error) {
       console.error(`[RBACAggregator] Error authorizing permission '${permission}' in domain '${targetDomain}':`, error);
       return null;
@@ -414,10 +500,10 @@ export class RBACAggregator implements IRBAC {
    * @param context Optional RBAC context
    * @returns Whether user has all permissions
    */
-  hasAllPermissions(user: RBACUser, permissions: string[], _context?: RBACContext): boolean {
+  hasAllPermissions(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
     const domainsToCheck = this.getDomains();
     for (const permission of permissions) {
-      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, _context);
+      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, context);
       if (!result.allowed) {
         return false;
       }
@@ -438,12 +524,12 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permissions: string[],
     domains?: RBACDomain[],
-    _context?: RBACContext
+    context?: RBACContext
   ): boolean {
     const domainsToCheck = domains || this.getDomains();
 
     for (const permission of permissions) {
-      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, _context);
+      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, context);
       if (!result.allowed) {
         return false;
       }
@@ -465,7 +551,7 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permissions: string[],
     domain?: RBACDomain,
-    _context?: RBACContext
+    context?: RBACContext
   ): boolean {
     const targetDomain = domain || this.defaultDomain;
     const rbac = this.getRBAC(targetDomain);
@@ -475,7 +561,7 @@ export class RBACAggregator implements IRBAC {
     }
 
     for (const permission of permissions) {
-      if (!rbac.hasPermission(user, permission)) {
+      if (!rbac.hasPermission(user, permission, context)) {
         return false;
       }
     }
@@ -491,10 +577,10 @@ export class RBACAggregator implements IRBAC {
    * @param context Optional RBAC context
    * @returns Whether user has at least one permission
    */
-  hasAnyPermission(user: RBACUser, permissions: string[], _context?: RBACContext): boolean {
+  hasAnyPermission(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
     const domainsToCheck = this.getDomains();
     for (const permission of permissions) {
-      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, _context);
+      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, context);
       if (result.allowed) {
         return true;
       }
@@ -515,12 +601,12 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permissions: string[],
     domains?: RBACDomain[],
-    _context?: RBACContext
+    context?: RBACContext
   ): boolean {
     const domainsToCheck = domains || this.getDomains();
 
     for (const permission of permissions) {
-      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, _context);
+      const result = this.hasPermissionWithDetails(user, permission, domainsToCheck, context);
       if (result.allowed) {
         return true;
       }
@@ -542,7 +628,7 @@ export class RBACAggregator implements IRBAC {
     user: RBACUser,
     permissions: string[],
     domain?: RBACDomain,
-    _context?: RBACContext
+    context?: RBACContext
   ): boolean {
     const targetDomain = domain || this.defaultDomain;
     const rbac = this.getRBAC(targetDomain);
@@ -552,7 +638,7 @@ export class RBACAggregator implements IRBAC {
     }
 
     for (const permission of permissions) {
-      if (rbac.hasPermission(user, permission)) {
+      if (rbac.hasPermission(user, permission, context)) {
         return true;
       }
     }
@@ -692,8 +778,8 @@ export class RBACAggregator implements IRBAC {
    * @param user User to get permissions for
    * @returns Array of all permissions user has
    */
-  getUserPermissions(user: RBACUser): string[] {
-    return Array.from(this.getEffectivePermissions(user));
+  getUserPermissions(user: RBACUser, context?: RBACContext): string[] {
+    return Array.from(this.getEffectivePermissions(user, undefined, context));
   }
 
   /**
@@ -701,12 +787,13 @@ export class RBACAggregator implements IRBAC {
    * 
    * @param userId User ID
    * @param permission Permission to deny
+   * @param options Optional expiry and reason
    */
-  denyPermission(userId: string, permission: string): void {
+  denyPermission(userId: string, permission: string, options?: DenyPermissionOptions): void {
     const allRBACs = this.getAllRBACs();
     
     for (const rbac of allRBACs.values()) {
-      rbac.denyPermission(userId, permission);
+      rbac.denyPermission(userId, permission, options);
     }
   }
 
@@ -767,7 +854,7 @@ export class RBACAggregator implements IRBAC {
   getEffectivePermissions(
     user: RBACUser,
     domains?: RBACDomain[],
-    _context?: RBACContext
+    context?: RBACContext
   ): Set<string> {
     const domainsToCheck = domains || this.getDomains();
     const permissions = new Set<string>();
@@ -776,8 +863,8 @@ export class RBACAggregator implements IRBAC {
         const rbac = this.getRBAC(domain);
         if (!rbac) continue;
 
-        // Get permissions for each role the user has
-        for (const role of user.roles || []) {
+        // Get permissions for each role the user has (including roles bound to the context scope)
+        for (const role of rbac.getEffectiveRoles({ ...user, roles: user.roles || [] }, context)) {
           const rolePermissions = rbac.getRolePermissions(role);
           rolePermissions.forEach(perm => permissions.add(perm));
         }
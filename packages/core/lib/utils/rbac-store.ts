@@ -0,0 +1,58 @@
+/**
+ * Persistence backends for RBAC state (serialize() / deserialize())
+ */
+
+import type { RBACSystemState } from '../types/config.types';
+
+/**
+ * Called with the new state when the stored state changes
+ */
+export type RBACStoreListener = (state: RBACSystemState) => void;
+
+/**
+ * Storage for the state of an RBAC instance
+ */
+export interface RBACStore {
+  /** Load the saved state (undefined when nothing was saved yet) */
+  load(): Promise<RBACSystemState | undefined>;
+
+  /** Save the state, replacing the previous one */
+  save(state: RBACSystemState): Promise<void>;
+
+  /**
+   * Watch for states saved by other writers (other processes or instances)
+   * @returns Stops watching
+   */
+  watch?(listener: RBACStoreListener): () => void;
+}
+
+/**
+ * In-memory store, shared by the instances holding it (e.g. in tests)
+ * States are copied on save and load, so later changes to an instance never leak into the store
+ */
+export class MemoryRBACStore implements RBACStore {
+  private state?: string;
+  private listeners: Set<RBACStoreListener> = new Set();
+
+  constructor(state?: RBACSystemState) {
+    this.state = state ? JSON.stringify(state) : undefined;
+  }
+
+  async load(): Promise<RBACSystemState | undefined> {
+    return this.state !== undefined ? JSON.parse(this.state) as RBACSystemState : undefined;
+  }
+
+  async save(state: RBACSystemState): Promise<void> {
+    this.state = JSON.stringify(state);
+    for (const listener of this.listeners) {
+      listener(JSON.parse(this.state) as RBACSystemState);
+    }
+  }
+
+  watch(listener: RBACStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Redis-backed PermissionCache storage and invalidation channel
+ * Client-agnostic: commands go through a function, so any Redis client (or protocol-compatible server) works
+ */
+
+import type { CacheEntry } from './permission-cache';
+import type { AsyncPermissionCacheStore, CacheInvalidation, CacheInvalidationChannel } from './cache-store';
+
+/**
+ * Runs a Redis command and resolves with its reply
+ * @example ioredis: `(command, ...args) => redis.call(command, ...args)`
+ * @example node-redis: `(command, ...args) => client.sendCommand([command, ...args])`
+ */
+export type RedisCommand = (command: string, ...args: string[]) => Promise<unknown>;
+
+export interface RedisCacheStoreOptions {
+  command: RedisCommand;
+
+  /**
+   * Prefix for every cache key
+   * @default 'fire-shield:cache:'
+   */
+  keyPrefix?: string;
+
+  /**
+   * Prefix for the per-role sets indexing the keys of entries that depend on each role
+   * Must not start with keyPrefix
+   * @default 'fire-shield:cache-roles:'
+   */
+  roleIndexPrefix?: string;
+
+  /**
+   * Keys requested per SCAN call
+   * @default 100
+   */
+  scanCount?: number;
+}
+
+export interface RedisInvalidationChannelOptions {
+  /** Command runner used for PUBLISH */
+  command: RedisCommand;
+
+  /**
+   * Subscribe a dedicated connection to a channel
+   * @example ioredis: `(channel, onMessage) => { sub.subscribe(channel); sub.on('message', (_, message) => onMessage(message)); }`
+   */
+  subscribe: (channel: string, onMessage: (message: string) => void) => void | Promise<void>;
+
+  /**
+   * Pub/sub channel name
+   * @default 'fire-shield:cache:invalidate'
+   */
+  channel?: string;
+}
+
+/**
+ * Shared cache store keeping entries as JSON strings with a Redis-side expiry
+ * Keys are `<prefix><userId>:<permission>`, so a user's entries are found by key prefix;
+ * a set per role lists the keys of entries depending on it
+ */
+export class RedisCacheStore implements AsyncPermissionCacheStore {
+  private command: RedisCommand;
+  private keyPrefix: string;
+  private roleIndexPrefix: string;
+  private scanCount: number;
+
+  constructor(options: RedisCacheStoreOptions) {
+    this.command = options.command;
+    this.keyPrefix = options.keyPrefix ?? 'fire-shield:cache:';
+    this.roleIndexPrefix = options.roleIndexPrefix ?? 'fire-shield:cache-roles:';
+    this.scanCount = options.scanCount ?? 100;
+    if (this.roleIndexPrefix.startsWith(this.keyPrefix)) {
+      throw new Error('RedisCacheStore roleIndexPrefix must not start with keyPrefix');
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.parse(await this.command('GET', this.keyPrefix + key));
+  }
+
+  async set(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const px = Math.max(1, Math.ceil(ttl));
+    await this.command('SET', this.keyPrefix + key, JSON.stringify(entry), 'PX', String(px));
+
+    // Index sets live as long as the longest-lived entry they list; stale members are harmless to DEL
+    for (const role of entry.roles ?? []) {
+      const index = this.roleIndexPrefix + role;
+      await this.command('SADD', index, this.keyPrefix + key);
+      if (Number(await this.command('PTTL', index)) < px) {
+        await this.command('PEXPIRE', index, String(px));
+      }
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.command('DEL', ...keys.map(key => this.keyPrefix + key));
+  }
+
+  async entries(userId?: string): Promise<Array<[string, CacheEntry]>> {
+    const keys = await this.scanKeys(this.userPrefix(userId));
+    if (keys.length === 0) return [];
+
+    const values = await this.command('MGET', ...keys);
+    const entries: Array<[string, CacheEntry]> = [];
+    keys.forEach((key, index) => {
+      const entry = this.parse(Array.isArray(values) ? values[index] : undefined);
+      if (entry) {
+        entries.push([key.slice(this.keyPrefix.length), entry]);
+      }
+    });
+    return entries;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    const keys = await this.scanKeys(this.userPrefix(userId));
+    if (keys.length > 0) {
+      await this.command('DEL', ...keys);
+    }
+  }
+
+  async deleteRole(role: string): Promise<void> {
+    const index = this.roleIndexPrefix + role;
+    const keys = await this.command('SMEMBERS', index);
+    await this.command('DEL', ...(Array.isArray(keys) ? keys.map(String) : []), index);
+  }
+
+  async clear(): Promise<void> {
+    const keys = [...await this.scanKeys(this.keyPrefix), ...await this.scanKeys(this.roleIndexPrefix)];
+    if (keys.length > 0) {
+      await this.command('DEL', ...keys);
+    }
+  }
+
+  /**
+   * Key prefix of a user's entries (all entries without a user)
+   */
+  private userPrefix(userId?: string): string {
+    return userId === undefined ? this.keyPrefix : `${this.keyPrefix}${userId}:`;
+  }
+
+  /**
+   * All keys under a prefix (SCAN, so Redis is never blocked by KEYS)
+   */
+  private async scanKeys(prefix: string): Promise<string[]> {
+    const keys = new Set<string>();
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const reply = await this.command('SCAN', cursor, 'MATCH', pattern, 'COUNT', String(this.scanCount));
+      if (!Array.isArray(reply) || reply.length !== 2) {
+        throw new Error('Unexpected SCAN reply from Redis');
+      }
+      cursor = String(reply[0]);
+      (reply[1] as unknown[]).forEach(key => keys.add(String(key)));
+    } while (cursor !== '0');
+    return Array.from(keys);
+  }
+
+  private parse(raw: unknown): CacheEntry | undefined {
+    if (raw === null || raw === undefined) return undefined;
+    try {
+      return JSON.parse(String(raw)) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Broadcasts cache invalidations over Redis pub/sub
+ */
+export class RedisInvalidationChannel implements CacheInvalidationChannel {
+  private options: RedisInvalidationChannelOptions;
+  private channel: string;
+
+  constructor(options: RedisInvalidationChannelOptions) {
+    this.options = options;
+    this.channel = options.channel ?? 'fire-shield:cache:invalidate';
+  }
+
+  async publish(message: CacheInvalidation): Promise<void> {
+    await this.options.command('PUBLISH', this.channel, JSON.stringify(message));
+  }
+
+  subscribe(handler: (message: CacheInvalidation) => void): void {
+    const subscribed = this.options.subscribe(this.channel, raw => {
+      let message: CacheInvalidation;
+      try {
+        message = JSON.parse(raw) as CacheInvalidation;
+      } catch (error) {
+        console.warn('Ignoring malformed cache invalidation message:', error);
+        return;
+      }
+      handler(message);
+    });
+    Promise.resolve(subscribed).catch(error => {
+      console.error('Cache invalidation subscribe error:', error);
+    });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * SQLite store for RBAC state
+ * Driver-agnostic: works with any synchronous SQLite binding exposing exec() and prepare(),
+ * such as better-sqlite3 or node:sqlite
+ */
+
+import type { RBACSystemState } from '../types/config.types';
+import type { RBACStore, RBACStoreListener } from './rbac-store';
+
+/**
+ * Prepared statement of a SQLite binding
+ */
+export interface SQLiteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+}
+
+/**
+ * Open SQLite database
+ * @example better-sqlite3: `new Database('rbac.db')`
+ * @example node:sqlite: `new DatabaseSync('rbac.db')`
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SQLiteStatement;
+}
+
+export interface SQLiteRBACStoreOptions {
+  database: SQLiteDatabase;
+
+  /**
+   * Table holding the states (created if missing)
+   * @default 'fire_shield_state'
+   */
+  table?: string;
+
+  /**
+   * Row of the table this store reads and writes, so several policies can share a table
+   * @default 'default'
+   */
+  key?: string;
+
+  /**
+   * How often watch() checks for changes, in milliseconds
+   * @default 1000
+   */
+  pollInterval?: number;
+}
+
+/**
+ * Keeps the state as JSON in one row of a SQLite table
+ * SQLite has no change notifications, so watch() polls the row
+ */
+export class SQLiteRBACStore implements RBACStore {
+  private database: SQLiteDatabase;
+  private table: string;
+  private key: string;
+  private pollInterval: number;
+  private tableReady = false;
+
+  constructor(options: SQLiteRBACStoreOptions) {
+    this.database = options.database;
+    this.table = options.table ?? 'fire_shield_state';
+    this.key = options.key ?? 'default';
+    this.pollInterval = options.pollInterval ?? 1000;
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid table name: ${this.table}`);
+    }
+    if (!Number.isFinite(this.pollInterval) || this.pollInterval <= 0) {
+      throw new Error(`pollInterval must be a positive number, got: ${options.pollInterval}`);
+    }
+  }
+
+  async load(): Promise<RBACSystemState | undefined> {
+    const json = this.read();
+    if (json === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(json) as RBACSystemState;
+    } catch (error) {
+      throw new Error(`Invalid RBAC state in table ${this.table} (key '${this.key}'): ${(error as Error).message}`);
+    }
+  }
+
+  async save(state: RBACSystemState): Promise<void> {
+    this.ensureTable();
+    this.database
+      .prepare(
+        `INSERT INTO ${this.table} (key, state, updated_at) VALUES (?, ?, ?) ` +
+        'ON CONFLICT(key) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at'
+      )
+      .run(this.key, JSON.stringify(state), Date.now());
+  }
+
+  watch(listener: RBACStoreListener): () => void {
+    let last = this.read();
+    const timer = setInterval(() => {
+      try {
+        const json = this.read();
+        if (json === undefined || json === last) return;
+        last = json;
+        listener(JSON.parse(json) as RBACSystemState);
+      } catch (error) {
+        console.warn('SQLiteRBACStore watch error:', error);
+      }
+    }, this.pollInterval);
+
+    // Polling alone must not keep the process alive
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Read the stored JSON state
+   */
+  private read(): string | undefined {
+    this.ensureTable();
+    const row = this.database.prepare(`SELECT state FROM ${this.table} WHERE key = ?`).get(this.key) as { state: string } | undefined;
+    return row?.state;
+  }
+
+  private ensureTable(): void {
+    if (this.tableReady) return;
+    this.database.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, state TEXT NOT NULL, updated_at INTEGER NOT NULL)`
+    );
+    this.tableReady = true;
+  }
+}
@@ -0,0 +1,384 @@
+import { RBAC, type RBACUser, type RBACContext, type AuthorizationResult } from '../index';
+import type { RBACConfigSchema, RBACSystemState, PermissionConfig } from '../types/config.types';
+import type { RoleConfig } from '../types/role.types';
+
+/**
+ * Tenant identifier
+ */
+export type TenantId = string;
+
+/**
+ * Tenant customizations applied on top of the shared base config
+ */
+export interface TenantPolicy {
+  /**
+   * Extra permissions (a permission named like a base permission replaces it)
+   */
+  permissions?: PermissionConfig[];
+
+  /**
+   * Custom roles (a role named like a base role replaces it)
+   */
+  roles?: RoleConfig[];
+
+  /**
+   * Global deny rules added to the base deny rules
+   */
+  deny?: string[];
+
+  /**
+   * Permission groups added to the base groups (a group named like a base group replaces it)
+   */
+  groups?: Record<string, string[]>;
+}
+
+/**
+ * Creates the RBAC instance of a tenant from its merged config
+ * Tenants sharing a cache store must use distinct key prefixes (e.g. `RedisCacheStore({ keyPrefix: tenantId })`)
+ */
+export type TenantRBACFactory = (config: RBACConfigSchema, tenantId: TenantId) => RBAC;
+
+/**
+ * Loads the policy of a tenant that was not defined up front
+ * Returns undefined for unknown tenants
+ */
+export type TenantPolicyLoader = (tenantId: TenantId) => TenantPolicy | undefined;
+
+/**
+ * Options for creating TenantRBAC
+ */
+export interface TenantRBACOptions {
+  /**
+   * Config shared by every tenant
+   */
+  base: RBACConfigSchema;
+
+  /**
+   * Tenant policies known up front
+   */
+  tenants?: Record<TenantId, TenantPolicy>;
+
+  /**
+   * Loader for tenants missing from `tenants`
+   */
+  loadPolicy?: TenantPolicyLoader;
+
+  /**
+   * Creates tenant instances (default: `new RBAC({ config })`)
+   */
+  factory?: TenantRBACFactory;
+
+  /**
+   * Maximum number of live tenant instances; the least recently used ones are evicted
+   * @default 100
+   */
+  maxTenants?: number;
+}
+
+/**
+ * Persisted state of a single tenant
+ */
+export interface TenantState {
+  tenantId: TenantId;
+  policy: TenantPolicy;
+  state: RBACSystemState;
+}
+
+/**
+ * TenantRBAC - One isolated RBAC instance per tenant on top of a shared base config
+ *
+ * - Tenants add or replace roles, permissions and groups of the base config and add deny rules to it
+ * - Instances are built on first use; the least recently used ones are evicted beyond `maxTenants`
+ *   (an instance changed at runtime is kept as serialized state, so its changes survive eviction;
+ *   unchanged instances are rebuilt from their config)
+ * - Checks resolve the tenant from `context.tenantId` or `user.tenantId`; a user is never checked
+ *   against another tenant than their own
+ *
+ * Example usage:
+ * ```typescript
+ * const tenants = new TenantRBAC({
+ *   base: config,
+ *   tenants: { acme: { roles: [{ name: 'auditor', permissions: ['billing:read'] }] } }
+ * });
+ *
+ * tenants.hasPermission({ id: 'u1', roles: ['auditor'], tenantId: 'acme' }, 'billing:read'); // true
+ * ```
+ */
+export class TenantRBAC {
+  private base: RBACConfigSchema;
+  private policies: Map<TenantId, TenantPolicy> = new Map();
+  private instances: Map<TenantId, RBAC> = new Map();
+  private snapshots: Map<TenantId, RBACSystemState> = new Map();
+  private builtRevisions: Map<TenantId, number> = new Map(); // Revision of live instances built from config alone
+  private loadPolicy?: TenantPolicyLoader;
+  private factory: TenantRBACFactory;
+  private maxTenants: number;
+
+  constructor(options: TenantRBACOptions) {
+    RBAC.validateConfig(options.base);
+    this.base = options.base;
+    this.loadPolicy = options.loadPolicy;
+    this.factory = options.factory ?? (config => new RBAC({ config }));
+    this.maxTenants = options.maxTenants ?? 100;
+
+    if (!Number.isInteger(this.maxTenants) || this.maxTenants < 1) {
+      throw new Error(`maxTenants must be a positive integer, got: ${options.maxTenants}`);
+    }
+
+    for (const [tenantId, policy] of Object.entries(options.tenants ?? {})) {
+      this.defineTenant(tenantId, policy);
+    }
+  }
+
+  /**
+   * Define (or replace) the policy of a tenant
+   * A live instance of the tenant is discarded, including runtime changes made to it
+   * @throws Error if the merged tenant config is invalid
+   */
+  defineTenant(tenantId: TenantId, policy: TenantPolicy = {}): void {
+    const config = TenantRBAC.mergeConfig(this.base, policy);
+    try {
+      RBAC.validateConfig(config);
+    } catch (error) {
+      throw new Error(`Invalid policy for tenant '${tenantId}': ${(error as Error).message}`);
+    }
+
+    this.policies.set(tenantId, policy);
+    this.instances.delete(tenantId);
+    this.snapshots.delete(tenantId);
+    this.builtRevisions.delete(tenantId);
+  }
+
+  /**
+   * Remove a tenant with its instance and state
+   * @returns Whether the tenant existed
+   */
+  removeTenant(tenantId: TenantId): boolean {
+    this.instances.delete(tenantId);
+    this.snapshots.delete(tenantId);
+    this.builtRevisions.delete(tenantId);
+    return this.policies.delete(tenantId);
+  }
+
+  /**
+   * Check if a tenant is defined (or was loaded)
+   */
+  hasTenant(tenantId: TenantId): boolean {
+    return this.policies.has(tenantId);
+  }
+
+  /**
+   * Get all defined (or loaded) tenants
+   */
+  getTenantIds(): TenantId[] {
+    return Array.from(this.policies.keys());
+  }
+
+  /**
+   * Get the policy of a tenant (loading it if needed)
+   */
+  getTenantPolicy(tenantId: TenantId): TenantPolicy | undefined {
+    const policy = this.policies.get(tenantId);
+    if (policy || !this.loadPolicy) {
+      return policy;
+    }
+
+    const loaded = this.loadPolicy(tenantId);
+    if (loaded) {
+      this.defineTenant(tenantId, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * Get the base config merged with the policy of a tenant
+   * @throws Error if the tenant is unknown
+   */
+  getTenantConfig(tenantId: TenantId): RBACConfigSchema {
+    return TenantRBAC.mergeConfig(this.base, this.requirePolicy(tenantId));
+  }
+
+  /**
+   * Get the RBAC instance of a tenant, building it on first use
+   * @throws Error if the tenant is unknown
+   */
+  getTenant(tenantId: TenantId): RBAC {
+    const live = this.instances.get(tenantId);
+    if (live) {
+      // Move to the end of the map (most recently used)
+      this.instances.delete(tenantId);
+      this.instances.set(tenantId, live);
+      return live;
+    }
+
+    const rbac = this.factory(this.getTenantConfig(tenantId), tenantId);
+    const snapshot = this.snapshots.get(tenantId);
+    if (snapshot) {
+      rbac.deserialize(snapshot);
+      this.snapshots.delete(tenantId);
+    } else {
+      this.builtRevisions.set(tenantId, rbac.getRevision());
+    }
+
+    this.instances.set(tenantId, rbac);
+    while (this.instances.size > this.maxTenants) {
+      const oldest = this.instances.keys().next().value;
+      if (oldest === undefined) break;
+      this.evictTenant(oldest);
+    }
+    return rbac;
+  }
+
+  /**
+   * Get tenants with a live instance, least recently used first
+   */
+  getLoadedTenants(): TenantId[] {
+    return Array.from(this.instances.keys());
+  }
+
+  /**
+   * Release the live instance of a tenant; its state is restored on next use
+   * Only instances changed at runtime (or restored from a snapshot) are kept as serialized state
+   * @returns Whether the tenant had a live instance
+   */
+  evictTenant(tenantId: TenantId): boolean {
+    const rbac = this.instances.get(tenantId);
+    if (!rbac) {
+      return false;
+    }
+
+    if (rbac.getRevision() !== this.builtRevisions.get(tenantId)) {
+      this.snapshots.set(tenantId, rbac.serialize());
+    }
+    this.instances.delete(tenantId);
+    this.builtRevisions.delete(tenantId);
+    return true;
+  }
+
+  /**
+   * Get tenants kept as serialized state (evicted after runtime changes, or restored with deserializeTenant())
+   */
+  getSnapshotTenants(): TenantId[] {
+    return Array.from(this.snapshots.keys());
+  }
+
+  /**
+   * Resolve the tenant a check applies to
+   * @returns The tenant from `context.tenantId` or `user.tenantId`, undefined if neither is set
+   * @throws Error if the context names another tenant than the user's
+   */
+  resolveTenantId(user: RBACUser, context?: RBACContext): TenantId | undefined {
+    const contextTenant = context?.tenantId;
+    if (contextTenant !== undefined && user.tenantId !== undefined && contextTenant !== user.tenantId) {
+      throw new Error(`User '${user.id}' belongs to tenant '${user.tenantId}', not '${contextTenant}'`);
+    }
+    return contextTenant ?? user.tenantId;
+  }
+
+  /**
+   * Check if user has permission in their tenant
+   * Returns false if the tenant cannot be resolved or is unknown
+   */
+  hasPermission(user: RBACUser, permission: string, context?: RBACContext): boolean {
+    const { rbac } = this.select(user, context);
+    return rbac ? rbac.hasPermission(user, permission, context) : false;
+  }
+
+  /**
+   * Check if user has any of the permissions in their tenant (OR logic)
+   */
+  hasAnyPermission(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
+    const { rbac } = this.select(user, context);
+    return rbac ? rbac.hasAnyPermission(user, permissions, context) : false;
+  }
+
+  /**
+   * Check if user has all permissions in their tenant (AND logic)
+   */
+  hasAllPermissions(user: RBACUser, permissions: string[], context?: RBACContext): boolean {
+    const { rbac } = this.select(user, context);
+    return rbac ? rbac.hasAllPermissions(user, permissions, context) : false;
+  }
+
+  /**
+   * Authorize user for permission in their tenant
+   * The reason explains denials caused by an unresolved, unknown or foreign tenant
+   */
+  authorize(user: RBACUser, permission: string, context?: RBACContext): AuthorizationResult {
+    const { rbac, reason } = this.select(user, context);
+    return rbac ? rbac.authorize(user, permission, context) : { allowed: false, reason, user };
+  }
+
+  /**
+   * Get permissions of a user in their tenant (empty if the tenant cannot be resolved)
+   */
+  getUserPermissions(user: RBACUser, context?: RBACContext): string[] {
+    const { rbac } = this.select(user, context);
+    return rbac ? rbac.getUserPermissions(user, context) : [];
+  }
+
+  /**
+   * Serialize a single tenant (policy and instance state)
+   * @throws Error if the tenant is unknown
+   */
+  serializeTenant(tenantId: TenantId): TenantState {
+    const policy = this.requirePolicy(tenantId);
+    const state = this.instances.get(tenantId)?.serialize()
+      ?? this.snapshots.get(tenantId)
+      ?? this.getTenant(tenantId).serialize();
+
+    return { tenantId, policy, state };
+  }
+
+  /**
+   * Restore a tenant serialized with serializeTenant(), replacing its current policy and state
+   * @throws Error if the policy is invalid
+   */
+  deserializeTenant(tenantState: TenantState): void {
+    this.defineTenant(tenantState.tenantId, tenantState.policy);
+    this.snapshots.set(tenantState.tenantId, tenantState.state);
+  }
+
+  /**
+   * Merge a tenant policy into the base config
+   * Roles, permissions and groups are replaced by name; deny rules are added
+   */
+  static mergeConfig(base: RBACConfigSchema, policy: TenantPolicy): RBACConfigSchema {
+    const byName = <T extends { name: string }>(baseItems: T[], tenantItems: T[] = []): T[] =>
+      Array.from(new Map([...baseItems, ...tenantItems].map(item => [item.name, item] as const)).values());
+
+    const deny = Array.from(new Set([...(base.deny ?? []), ...(policy.deny ?? [])]));
+    const groups = { ...base.groups, ...policy.groups };
+
+    return {
+      ...base,
+      permissions: byName(base.permissions, policy.permissions),
+      roles: byName(base.roles, policy.roles),
+      ...(deny.length > 0 ? { deny } : {}),
+      ...(Object.keys(groups).length > 0 ? { groups } : {}),
+    };
+  }
+
+  /**
+   * Pick the instance a check runs against, or the reason why there is none
+   */
+  private select(user: RBACUser, context?: RBACContext): { rbac?: RBAC; reason?: string } {
+    try {
+      const tenantId = this.resolveTenantId(user, context);
+      if (tenantId === undefined) {
+        return { reason: `No tenant found for user '${user.id}'` };
+      }
+      return { rbac: this.getTenant(tenantId) };
+    } catch (error) {
+      return { reason: (error as Error).message };
+    }
+  }
+
+  private requirePolicy(tenantId: TenantId): TenantPolicy {
+    const policy = this.getTenantPolicy(tenantId);
+    if (!policy) {
+      throw new Error(`Unknown tenant: ${tenantId}`);
+    }
+    return policy;
+  }
+}
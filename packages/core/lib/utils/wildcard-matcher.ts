@@ -1,42 +1,115 @@
 /**
  * Wildcard Permission Matcher
  *
- * Supports patterns like:
- * - "admin:*" - matches all admin permissions
+ * Permissions are ':'-separated segments. Supports patterns like:
+ * - "admin:*" - matches admin:read, admin:write (one segment, not admin:user:delete)
+ * - "admin:**" - matches every admin permission, any depth
  * - "user:*:delete" - matches user:post:delete, user:comment:delete, etc.
- * - "*:read" - matches all read permissions
+ * - "*:read" - matches all two-segment read permissions
+ * - "post:{read,write}" - matches post:read and post:write
+ * - "*" - matches every permission
  */
 
+/**
+ * Store for compiled patterns (MemoryOptimizer implements it)
+ */
+export interface WildcardPatternCache {
+  getWildcardPattern(pattern: string): RegExp | undefined;
+  cacheWildcardPattern(pattern: string, regex: RegExp): void;
+}
+
+const MAX_COMPILED_PATTERNS = 1000;
+
 export class WildcardMatcher {
+  // Default cache of compiled patterns (pattern -> RegExp)
+  private static compiled: Map<string, RegExp> = new Map();
+
   /**
    * Check if permission matches pattern (with wildcard support)
+   * @param cache Where compiled patterns are kept (defaults to a shared bounded cache)
    */
-  static matches(permission: string, pattern: string): boolean {
+  static matches(permission: string, pattern: string, cache?: WildcardPatternCache): boolean {
     // Exact match
     if (permission === pattern) {
       return true;
     }
 
     // No wildcard in pattern
-    if (!pattern.includes('*')) {
+    if (!this.isPattern(pattern)) {
       return false;
     }
 
-    // Convert pattern to regex
-    const regexPattern = this.patternToRegex(pattern);
-    return regexPattern.test(permission);
+    return this.compile(pattern, cache).test(permission);
+  }
+
+  /**
+   * Check if a permission string is a pattern ('*', '**' or '{a,b}' alternation)
+   */
+  static isPattern(permission: string): boolean {
+    return permission.includes('*') || (permission.includes('{') && permission.includes('}'));
+  }
+
+  /**
+   * Compile a pattern into an anchored RegExp, reusing earlier compilations
+   */
+  static compile(pattern: string, cache?: WildcardPatternCache): RegExp {
+    const cached = cache ? cache.getWildcardPattern(pattern) : this.compiled.get(pattern);
+    if (cached) {
+      return cached;
+    }
+
+    const regex = this.patternToRegex(pattern);
+    if (cache) {
+      cache.cacheWildcardPattern(pattern, regex);
+    } else {
+      if (this.compiled.size >= MAX_COMPILED_PATTERNS) {
+        const oldest = this.compiled.keys().next().value;
+        if (oldest !== undefined) {
+          this.compiled.delete(oldest);
+        }
+      }
+      this.compiled.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  /**
+   * Expand '{a,b}' alternations into plain patterns
+   * @example expandAlternations('post:{read,write}') // ['post:read', 'post:write']
+   */
+  static expandAlternations(pattern: string): string[] {
+    const match = /\{([^{}]*)\}/.exec(pattern);
+    if (!match) {
+      return [pattern];
+    }
+
+    const before = pattern.slice(0, match.index);
+    const after = pattern.slice(match.index + match[0].length);
+    return match[1].split(',').flatMap(option => this.expandAlternations(`${before}${option}${after}`));
   }
 
   /**
    * Convert wildcard pattern to regex
    */
   private static patternToRegex(pattern: string): RegExp {
-    // Escape special regex characters except *
-    const escaped = pattern
-      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*');
+    // Bare '*' keeps matching everything
+    if (pattern === '*') {
+      return /^.*$/;
+    }
+
+    const alternatives = this.expandAlternations(pattern).map(expanded =>
+      expanded
+        .split(':')
+        .map(segment => segment === '**'
+          ? '.*'
+          : segment
+            // Escape special regex characters except *
+            .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+            .replace(/\*/g, '[^:]*'))
+        .join(':')
+    );
 
-    return new RegExp(`^${escaped}$`);
+    return new RegExp(`^(?:${alternatives.join('|')})$`);
   }
 
   /**
@@ -60,7 +133,7 @@ export class WildcardMatcher {
     const expanded = new Set<string>();
 
     for (const pattern of patterns) {
-      if (pattern.includes('*')) {
+      if (this.isPattern(pattern)) {
         // Wildcard pattern - expand it
         const matching = this.filterByPattern(availablePermissions, pattern);
         matching.forEach(p => expanded.add(p));